@@ -13,8 +13,23 @@ import Auth from "./pages/Auth";
 import PointOfSale from "./pages/PointOfSale";
 import Products from "./pages/Products";
 import StockPurchases from "./pages/StockPurchases";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import GoodsReceived from "./pages/GoodsReceived";
+import Reorder from "./pages/Reorder";
+import Suppliers from "./pages/Suppliers";
+import Customers from "./pages/Customers";
+import CashDrawer from "./pages/CashDrawer";
+import Transfers from "./pages/Transfers";
+import Adjustments from "./pages/Adjustments";
+import StockCounts from "./pages/StockCounts";
+import SupplierReturns from "./pages/SupplierReturns";
+import Branches from "./pages/Branches";
+import Settings from "./pages/Settings";
 import SalesReport from "./pages/SalesReport";
+import ControlledRegister from "./pages/ControlledRegister";
 import Racks from "./pages/Racks";
+import Users from "./pages/Users";
+import Audit from "./pages/Audit";
 import NotFound from "./pages/NotFound";
 
 // Configure QueryClient with error handling
@@ -66,7 +81,7 @@ const App = () => (
               <Route 
                 path="/pos" 
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute permission="sales.create">
                     <RouteErrorBoundaryWrapper>
                       <PointOfSale />
                     </RouteErrorBoundaryWrapper>
@@ -86,23 +101,133 @@ const App = () => (
               <Route 
                 path="/purchases" 
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute permission="stock.receive">
                     <RouteErrorBoundaryWrapper>
                       <StockPurchases />
                     </RouteErrorBoundaryWrapper>
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/grn" 
+                element={
+                  <ProtectedRoute permission="stock.receive">
+                    <RouteErrorBoundaryWrapper>
+                      <GoodsReceived />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/purchase-orders" 
+                element={
+                  <ProtectedRoute permission="stock.receive">
+                    <RouteErrorBoundaryWrapper>
+                      <PurchaseOrders />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/reorder" 
+                element={
+                  <ProtectedRoute permission="stock.receive">
+                    <RouteErrorBoundaryWrapper>
+                      <Reorder />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/suppliers" 
+                element={
+                  <ProtectedRoute permission="purchasing.manage">
+                    <RouteErrorBoundaryWrapper>
+                      <Suppliers />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/transfers" 
+                element={
+                  <ProtectedRoute permission="stock.receive">
+                    <RouteErrorBoundaryWrapper>
+                      <Transfers />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/adjustments" 
+                element={
+                  <ProtectedRoute permission="stock.receive">
+                    <RouteErrorBoundaryWrapper>
+                      <Adjustments />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/stock-counts" 
+                element={
+                  <ProtectedRoute permission="stock.receive">
+                    <RouteErrorBoundaryWrapper>
+                      <StockCounts />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/supplier-returns" 
+                element={
+                  <ProtectedRoute permission="purchasing.manage">
+                    <RouteErrorBoundaryWrapper>
+                      <SupplierReturns />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/customers" 
+                element={
+                  <ProtectedRoute permission="sales.create">
+                    <RouteErrorBoundaryWrapper>
+                      <Customers />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/cash-drawer" 
+                element={
+                  <ProtectedRoute permission="sales.create">
+                    <RouteErrorBoundaryWrapper>
+                      <CashDrawer />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
               <Route 
                 path="/sales" 
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute permission="reports.view">
                     <RouteErrorBoundaryWrapper>
                       <SalesReport />
                     </RouteErrorBoundaryWrapper>
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/controlled-register" 
+                element={
+                  <ProtectedRoute permission="reports.view">
+                    <RouteErrorBoundaryWrapper>
+                      <ControlledRegister />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
               <Route 
                 path="/racks" 
                 element={
@@ -113,6 +238,46 @@ const App = () => (
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/users" 
+                element={
+                  <ProtectedRoute permission="users.manage">
+                    <RouteErrorBoundaryWrapper>
+                      <Users />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/branches" 
+                element={
+                  <ProtectedRoute permission="settings.manage">
+                    <RouteErrorBoundaryWrapper>
+                      <Branches />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/settings" 
+                element={
+                  <ProtectedRoute permission="settings.manage">
+                    <RouteErrorBoundaryWrapper>
+                      <Settings />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/audit" 
+                element={
+                  <ProtectedRoute permission="audit.view">
+                    <RouteErrorBoundaryWrapper>
+                      <Audit />
+                    </RouteErrorBoundaryWrapper>
+                  </ProtectedRoute>
+                } 
+              />
               <Route 
                 path="*" 
                 element={
@@ -1,21 +1,23 @@
 import { ReactNode } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import { Loader2 } from 'lucide-react';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
-  requireAdmin?: boolean;
+  permission?: Permission;
 }
 
 /**
- * Protected Route - Owner-only access
- * 
- * In this owner-only system, ALL routes require authentication.
- * Unauthenticated users are redirected to login.
+ * Protected Route - role-based access
+ *
+ * All routes require authentication. Routes with a `permission` are only
+ * rendered when the signed-in user's role grants it.
  */
-export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { user, loading, isOwner } = useAuth();
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, loading, role, userRole, can, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -25,14 +27,33 @@ export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRout
     );
   }
 
-  // Owner-only system: ALL routes require authentication
-  if (!user || !isOwner) {
+  if (!user) {
     return <Navigate to="/auth" replace />;
   }
 
-  // requireAdmin is legacy - in owner-only system, all authenticated users are owners
-  if (requireAdmin && !isOwner) {
-    return <Navigate to="/auth" replace />;
+  // Signed in but deactivated, or no role could be loaded or assigned - nothing is accessible
+  if (!role) {
+    const deactivated = userRole?.is_active === false;
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="text-center max-w-md space-y-4">
+          <ShieldAlert className="w-12 h-12 text-destructive mx-auto" />
+          <h1 className="text-xl font-bold text-foreground">
+            {deactivated ? 'Account deactivated' : 'No role assigned'}
+          </h1>
+          <p className="text-muted-foreground">
+            {deactivated
+              ? 'Your account has been deactivated. Contact the pharmacy owner if you need access again.'
+              : 'Your account does not have a role yet. Ask the pharmacy owner to assign one.'}
+          </p>
+          <Button variant="outline" onClick={signOut}>Sign Out</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/" replace />;
   }
 
   return <>{children}</>;
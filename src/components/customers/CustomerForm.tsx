@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Customer, CustomerInput } from '@/hooks/useCustomers';
+import { useAuth } from '@/hooks/useAuth';
+import { formatCnic } from '@/lib/drugSchedules';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface CustomerFormProps {
+  customer?: Customer | null;
+  initialPhone?: string;
+  saving?: boolean;
+  onSubmit: (data: CustomerInput) => void;
+  onCancel: () => void;
+}
+
+// Only owners set credit limits; customers other staff add start with none
+const toForm = (customer?: Customer | null, initialPhone = '', canSetCreditLimit = true) => ({
+  name: customer?.name || '',
+  phone: customer?.phone || initialPhone,
+  cnic: customer?.cnic || '',
+  allergies: customer?.allergies || '',
+  chronic_medications: customer?.chronic_medications || '',
+  credit_limit:
+    customer?.credit_limit != null ? customer.credit_limit.toString() : customer || canSetCreditLimit ? '' : '0',
+  notes: customer?.notes || '',
+});
+
+export function CustomerForm({ customer, initialPhone, saving, onSubmit, onCancel }: CustomerFormProps) {
+  const { can } = useAuth();
+  const canSetCreditLimit = can('settings.manage');
+  const [form, setForm] = useState(() => toForm(customer, initialPhone, canSetCreditLimit));
+
+  useEffect(() => {
+    setForm(toForm(customer, initialPhone, canSetCreditLimit));
+  }, [customer, initialPhone, canSetCreditLimit]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name.trim() || !form.phone.trim()) {
+      toast.error('Customer name and phone are required');
+      return;
+    }
+
+    if (form.cnic && !/^\d{5}-\d{7}-\d$/.test(form.cnic)) {
+      toast.error('CNIC must be in the format 12345-1234567-1');
+      return;
+    }
+
+    const creditLimit = form.credit_limit.trim() === '' ? null : parseFloat(form.credit_limit);
+    if (creditLimit !== null && (isNaN(creditLimit) || creditLimit < 0)) {
+      toast.error('Credit limit must be zero or more');
+      return;
+    }
+
+    onSubmit({
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      cnic: form.cnic || null,
+      allergies: form.allergies.trim() || null,
+      chronic_medications: form.chronic_medications.trim() || null,
+      credit_limit: canSetCreditLimit ? creditLimit : customer ? customer.credit_limit : 0,
+      notes: form.notes.trim() || null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="customerName">Name *</Label>
+          <Input
+            id="customerName"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="customerPhone">Phone *</Label>
+          <Input
+            id="customerPhone"
+            type="tel"
+            value={form.phone}
+            onChange={(e) => setForm({ ...form, phone: e.target.value })}
+            placeholder="03XX-XXXXXXX"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="customerCnic">CNIC</Label>
+          <Input
+            id="customerCnic"
+            value={form.cnic}
+            onChange={(e) => setForm({ ...form, cnic: formatCnic(e.target.value) })}
+            placeholder="12345-1234567-1"
+            inputMode="numeric"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="creditLimit">Credit Limit (Rs)</Label>
+          <Input
+            id="creditLimit"
+            type="number"
+            min="0"
+            value={form.credit_limit}
+            onChange={(e) => setForm({ ...form, credit_limit: e.target.value })}
+            placeholder="No limit"
+            disabled={!canSetCreditLimit}
+          />
+          {!canSetCreditLimit && <p className="text-xs text-muted-foreground">Set by the owner</p>}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="customerAllergies">Allergies</Label>
+        <Textarea
+          id="customerAllergies"
+          value={form.allergies}
+          onChange={(e) => setForm({ ...form, allergies: e.target.value })}
+          placeholder="e.g. Penicillin, sulfa drugs"
+          rows={2}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="chronicMedications">Chronic Medications</Label>
+        <Textarea
+          id="chronicMedications"
+          value={form.chronic_medications}
+          onChange={(e) => setForm({ ...form, chronic_medications: e.target.value })}
+          placeholder="e.g. Metformin 500mg twice daily"
+          rows={2}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="customerNotes">Notes</Label>
+        <Textarea
+          id="customerNotes"
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          rows={2}
+        />
+      </div>
+      <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} className="w-full sm:w-auto">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving} className="w-full sm:w-auto">
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {customer ? 'Save Changes' : 'Add Customer'}
+        </Button>
+      </div>
+    </form>
+  );
+}
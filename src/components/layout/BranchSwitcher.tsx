@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Building2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useBranches } from '@/hooks/useBranches';
+
+/**
+ * The branch the user is working in. Owners can switch; everyone else
+ * works where they are assigned. Hidden while the shop has one branch.
+ */
+export function BranchSwitcher() {
+  const { can } = useAuth();
+  const { branches, activeBranches, currentBranch, switchBranch } = useBranches();
+  const [switching, setSwitching] = useState(false);
+
+  if (branches.length <= 1) {
+    return null;
+  }
+
+  const handleChange = async (id: string) => {
+    setSwitching(true);
+    await switchBranch(id);
+    setSwitching(false);
+  };
+
+  return (
+    <div className="no-print px-4 sm:px-6 lg:px-8 py-2 border-b border-border/60 bg-card flex items-center justify-end gap-2 text-sm">
+      <Building2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+      {can('users.manage') ? (
+        <Select value={currentBranch?.id} onValueChange={handleChange} disabled={switching}>
+          <SelectTrigger className="w-56 h-8" aria-label="Switch branch">
+            <SelectValue placeholder="Select branch" />
+          </SelectTrigger>
+          <SelectContent>
+            {activeBranches.map((branch) => (
+              <SelectItem key={branch.id} value={branch.id}>
+                {branch.name} ({branch.code})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <span className="font-medium">{currentBranch ? `${currentBranch.name} (${currentBranch.code})` : 'No branch'}</span>
+      )}
+    </div>
+  );
+}
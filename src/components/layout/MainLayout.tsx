@@ -1,8 +1,10 @@
 import { ReactNode, useState } from 'react';
 import { Sidebar } from './Sidebar';
+import { OfflineStatusBar } from './OfflineStatusBar';
+import { BranchSwitcher } from './BranchSwitcher';
 import { Button } from '@/components/ui/button';
 import { Menu } from 'lucide-react';
-import { BRANDING } from '@/config/branding';
+import { useSettings } from '@/hooks/useSettings';
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -10,6 +12,13 @@ interface MainLayoutProps {
 
 export function MainLayout({ children }: MainLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { settings } = useSettings();
+  const initials = settings.store_name
+    .split(/\s+/)
+    .map((word) => word.charAt(0))
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
 
   return (
     <div className="min-h-screen bg-background">
@@ -24,10 +33,14 @@ export function MainLayout({ children }: MainLayoutProps) {
           <Menu className="w-5 h-5" />
         </Button>
         <div className="flex items-center gap-2">
-          <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center">
-            <span className="text-primary-foreground text-sm font-bold">KP</span>
-          </div>
-          <span className="text-sm font-semibold text-foreground">{BRANDING.name}</span>
+          {settings.logo_url ? (
+            <img src={settings.logo_url} alt="" className="w-8 h-8 rounded-xl object-contain" />
+          ) : (
+            <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center">
+              <span className="text-primary-foreground text-sm font-bold">{initials}</span>
+            </div>
+          )}
+          <span className="text-sm font-semibold text-foreground">{settings.store_name}</span>
         </div>
         <div className="w-10" /> {/* Spacer for centering */}
       </div>
@@ -35,6 +48,8 @@ export function MainLayout({ children }: MainLayoutProps) {
       <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
       
       <main className="lg:ml-64 min-h-screen pt-16 lg:pt-0">
+        <BranchSwitcher />
+        <OfflineStatusBar />
         {children}
       </main>
     </div>
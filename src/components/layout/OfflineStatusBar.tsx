@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { WifiOff, RefreshCw, AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { formatPKR } from '@/lib/currency';
+import { format } from 'date-fns';
+
+/**
+ * Connectivity banner for the offline POS.
+ * Shows offline mode, the number of queued sales and any sync conflicts
+ * that need manual resolution.
+ */
+export function OfflineStatusBar() {
+  const {
+    isOnline,
+    syncing,
+    pendingSales,
+    saleConflicts,
+    catalogueCachedAt,
+    syncNow,
+    retryConflict,
+    discardConflict,
+  } = useOfflineSync();
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  const handleDiscard = (clientRef: string) => {
+    if (confirm('Discard this sale? It will not be recorded on the server and its stock will not be deducted.')) {
+      discardConflict(clientRef);
+    }
+  };
+
+  if (isOnline && pendingSales.length === 0 && saleConflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="no-print">
+      {!isOnline && (
+        <div className="px-4 sm:px-6 lg:px-8 py-2 bg-warning/15 border-b border-warning/30 flex items-center gap-3 text-sm text-warning">
+          <WifiOff className="w-4 h-4 flex-shrink-0" />
+          <p className="flex-1">
+            <strong>Offline mode.</strong> Selling from the cached catalogue
+            {catalogueCachedAt && ` (updated ${format(new Date(catalogueCachedAt), 'MMM d, h:mm a')})`}.
+            {pendingSales.length > 0 && ` ${pendingSales.length} sale(s) will sync when the connection returns.`}
+          </p>
+        </div>
+      )}
+
+      {isOnline && pendingSales.length > 0 && (
+        <div className="px-4 sm:px-6 lg:px-8 py-2 bg-primary/10 border-b border-primary/20 flex items-center gap-3 text-sm text-primary">
+          <RefreshCw className={`w-4 h-4 flex-shrink-0 ${syncing ? 'animate-spin' : ''}`} />
+          <p className="flex-1">{pendingSales.length} offline sale(s) waiting to sync</p>
+          <Button size="sm" variant="outline" onClick={syncNow} disabled={syncing}>
+            Sync now
+          </Button>
+        </div>
+      )}
+
+      {saleConflicts.length > 0 && (
+        <div className="px-4 sm:px-6 lg:px-8 py-2 bg-destructive/10 border-b border-destructive/30 flex items-center gap-3 text-sm text-destructive">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <p className="flex-1">{saleConflicts.length} offline sale(s) could not be recorded and need attention</p>
+          <Button size="sm" variant="outline" onClick={() => setShowConflicts(true)}>
+            Review
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={showConflicts} onOpenChange={setShowConflicts}>
+        <DialogContent className="max-w-2xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Offline Sale Conflicts</DialogTitle>
+            <DialogDescription>
+              These sales were made offline but the server rejected them, usually because the stock was sold
+              elsewhere in the meantime. Receive or correct the stock and retry, or discard the sale.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {saleConflicts.map((conflict) => (
+              <div key={conflict.clientRef} className="p-4 rounded-xl border border-border space-y-3">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <p className="font-semibold">{conflict.provisionalReceipt}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Sold {format(new Date(conflict.soldAt), 'MMM d, yyyy h:mm a')} • {conflict.paymentMethod}
+                    </p>
+                  </div>
+                  <p className="font-bold text-primary">
+                    {formatPKR(conflict.items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0) - conflict.discount)}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  {conflict.items.map((item) => (
+                    <div key={item.product_id} className="flex justify-between text-sm">
+                      <span>{item.product_name}</span>
+                      <span className="text-muted-foreground">
+                        {item.quantity} × {formatPKR(item.unit_price)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm text-destructive">{conflict.error}</p>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleDiscard(conflict.clientRef)}>
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Discard
+                  </Button>
+                  <Button size="sm" onClick={() => retryConflict(conflict.clientRef)} disabled={!isOnline}>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Retry
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {saleConflicts.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">All conflicts resolved</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
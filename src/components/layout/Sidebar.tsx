@@ -8,6 +8,19 @@ import {
   BarChart3,
   LayoutGrid,
   Users,
+  History,
+  ClipboardList,
+  Truck,
+  PackageCheck,
+  ShieldAlert,
+  Contact,
+  Vault,
+  ArrowLeftRight,
+  PackageMinus,
+  ClipboardCheck,
+  Undo2,
+  Building2,
+  Settings,
   LogOut,
   Shield,
   Menu,
@@ -19,16 +32,31 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { useState } from 'react';
-import { BRANDING } from '@/config/branding';
+import { useSettings } from '@/hooks/useSettings';
+import { ROLE_LABELS, type Permission } from '@/lib/permissions';
 
-// Owner-only system - all routes require authentication
-const navItems = [
-  { icon: LayoutDashboard, label: 'Dashboard', path: '/', adminOnly: false },
-  { icon: ShoppingCart, label: 'Point of Sale', path: '/pos', adminOnly: false },
-  { icon: Package, label: 'Products', path: '/products', adminOnly: false },
-  { icon: TrendingUp, label: 'Stock Purchases', path: '/purchases', adminOnly: false },
-  { icon: BarChart3, label: 'Sales Report', path: '/sales', adminOnly: false },
-  { icon: LayoutGrid, label: 'Racks', path: '/racks', adminOnly: false },
+// Items with a permission are only shown to roles that grant it (see lib/permissions)
+const navItems: { icon: typeof LayoutDashboard; label: string; path: string; permission?: Permission }[] = [
+  { icon: LayoutDashboard, label: 'Dashboard', path: '/' },
+  { icon: ShoppingCart, label: 'Point of Sale', path: '/pos', permission: 'sales.create' },
+  { icon: Package, label: 'Products', path: '/products' },
+  { icon: Contact, label: 'Customers', path: '/customers', permission: 'sales.create' },
+  { icon: Vault, label: 'Cash Drawer', path: '/cash-drawer', permission: 'sales.create' },
+  { icon: TrendingUp, label: 'Stock Purchases', path: '/purchases', permission: 'stock.receive' },
+  { icon: ClipboardList, label: 'Purchase Orders', path: '/purchase-orders', permission: 'stock.receive' },
+  { icon: PackageCheck, label: 'Reorder', path: '/reorder', permission: 'stock.receive' },
+  { icon: Truck, label: 'Suppliers', path: '/suppliers', permission: 'purchasing.manage' },
+  { icon: ArrowLeftRight, label: 'Transfers', path: '/transfers', permission: 'stock.receive' },
+  { icon: PackageMinus, label: 'Adjustments', path: '/adjustments', permission: 'stock.receive' },
+  { icon: ClipboardCheck, label: 'Stock Counts', path: '/stock-counts', permission: 'stock.receive' },
+  { icon: Undo2, label: 'Supplier Returns', path: '/supplier-returns', permission: 'purchasing.manage' },
+  { icon: BarChart3, label: 'Sales Report', path: '/sales', permission: 'reports.view' },
+  { icon: ShieldAlert, label: 'Drug Register', path: '/controlled-register', permission: 'reports.view' },
+  { icon: LayoutGrid, label: 'Racks', path: '/racks' },
+  { icon: Users, label: 'Users', path: '/users', permission: 'users.manage' },
+  { icon: Building2, label: 'Branches', path: '/branches', permission: 'settings.manage' },
+  { icon: Settings, label: 'Settings', path: '/settings', permission: 'settings.manage' },
+  { icon: History, label: 'Audit Log', path: '/audit', permission: 'audit.view' },
 ];
 
 interface SidebarProps {
@@ -38,10 +66,12 @@ interface SidebarProps {
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const location = useLocation();
-  const { profile, isOwner, signOut } = useAuth();
+  const { profile, role, can, signOut } = useAuth();
+  const { settings } = useSettings();
 
-  // Owner-only system - show all items if authenticated
-  const filteredNavItems = isOwner ? navItems : [];
+  const filteredNavItems = role
+    ? navItems.filter((item) => !item.permission || can(item.permission))
+    : [];
 
   const handleLinkClick = () => {
     if (onClose) {
@@ -53,12 +83,20 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
     <>
       <div className="p-4 sm:p-6 border-b border-border/60">
         <div className="flex items-center gap-3">
-          <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg flex-shrink-0">
-            <Pill className="w-5 h-5 sm:w-6 sm:h-6 text-primary-foreground" />
-          </div>
+          {settings.logo_url ? (
+            <img
+              src={settings.logo_url}
+              alt=""
+              className="w-10 h-10 sm:w-12 sm:h-12 rounded-2xl object-contain bg-background shadow-lg flex-shrink-0"
+            />
+          ) : (
+            <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg flex-shrink-0">
+              <Pill className="w-5 h-5 sm:w-6 sm:h-6 text-primary-foreground" />
+            </div>
+          )}
           <div className="min-w-0">
-            <h1 className="text-lg sm:text-xl font-bold text-foreground tracking-tight truncate">{BRANDING.name}</h1>
-            <p className="text-xs text-muted-foreground font-medium">{BRANDING.tagline}</p>
+            <h1 className="text-lg sm:text-xl font-bold text-foreground tracking-tight truncate">{settings.store_name}</h1>
+            {settings.tagline && <p className="text-xs text-muted-foreground font-medium">{settings.tagline}</p>}
           </div>
         </div>
       </div>
@@ -89,10 +127,12 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
             <p className="text-sm font-medium text-foreground truncate min-w-0 flex-1">
               {profile?.full_name || 'User'}
             </p>
-            <Badge variant="default" className="text-xs capitalize flex-shrink-0">
-              <Shield className="w-3 h-3 mr-1" />
-              Owner
-            </Badge>
+            {role && (
+              <Badge variant={role === 'owner' ? 'default' : 'secondary'} className="text-xs capitalize flex-shrink-0">
+                <Shield className="w-3 h-3 mr-1" />
+                {ROLE_LABELS[role]}
+              </Badge>
+            )}
           </div>
         </div>
         <Button variant="outline" className="w-full justify-start" onClick={signOut}>
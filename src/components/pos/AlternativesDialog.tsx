@@ -0,0 +1,121 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Product } from '@/hooks/useProducts';
+import { formatPKR } from '@/lib/currency';
+import { baseUnitName } from '@/lib/units';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeftRight, Pill } from 'lucide-react';
+
+// An in-stock product with the same salt, priced from its first-to-expire batch
+export interface Alternative {
+  product: Product;
+  stock: number;
+  price: number;
+  nearestExpiry: string | null;
+}
+
+interface AlternativesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: Product | null;
+  currentPrice: number | null; // Price of the product being replaced, when it has stock
+  alternatives: Alternative[];
+  swapLabel: string;
+  onSwap: (product: Product) => void;
+}
+
+export function AlternativesDialog({
+  open,
+  onOpenChange,
+  product,
+  currentPrice,
+  alternatives,
+  swapLabel,
+  onSwap,
+}: AlternativesDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" />
+            Alternatives
+          </DialogTitle>
+          <DialogDescription>
+            {product ? (
+              <>
+                In-stock products with the same salt and strength as {product.name}
+                {product.strength ? ` ${product.strength}` : ''}
+                {product.salt_formula ? ` (${product.salt_formula})` : ''}.
+              </>
+            ) : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {alternatives.length === 0 ? (
+          <div className="flex flex-col items-center text-muted-foreground py-8">
+            <Pill className="w-8 h-8 opacity-50 mb-2" />
+            <p className="text-sm text-center">
+              {product?.salt_formula
+                ? 'No other product with this salt and strength is in stock'
+                : 'No salt formula is recorded for this product'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {alternatives.map((alternative) => {
+              const difference = currentPrice != null ? alternative.price - currentPrice : 0;
+              return (
+                <div
+                  key={alternative.product.id}
+                  className="p-3 rounded-xl border border-border bg-background flex items-start justify-between gap-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">
+                      {alternative.product.name}
+                      {alternative.product.strength ? ` ${alternative.product.strength}` : ''}
+                    </p>
+                    {alternative.product.manufacturer && (
+                      <p className="text-xs text-muted-foreground truncate">{alternative.product.manufacturer}</p>
+                    )}
+                    <p className="text-sm">
+                      <span className="font-semibold">{formatPKR(alternative.price)}</span>
+                      <span className="text-xs text-muted-foreground"> / {baseUnitName(alternative.product)}</span>
+                      {difference !== 0 && (
+                        <span className={`ml-2 text-xs font-medium ${difference < 0 ? 'text-success' : 'text-muted-foreground'}`}>
+                          {formatPKR(Math.abs(difference))} {difference < 0 ? 'cheaper' : 'dearer'}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {alternative.stock} {baseUnitName(alternative.product)} left
+                      {alternative.nearestExpiry && ` • expires ${format(parseISO(alternative.nearestExpiry), 'MMM d, yyyy')}`}
+                      {' • '}
+                      {alternative.product.rack ? (
+                        <span className="font-medium" style={{ color: alternative.product.rack.color }}>
+                          Rack: {alternative.product.rack.name}
+                        </span>
+                      ) : (
+                        'No rack'
+                      )}
+                    </p>
+                  </div>
+                  <Button size="sm" onClick={() => onSwap(alternative.product)} className="flex-shrink-0">
+                    <ArrowLeftRight className="w-4 h-4 mr-1" />
+                    {swapLabel}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,6 +17,8 @@ export function BarcodeScanner({ onScan }: BarcodeScannerProps) {
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && barcode.trim()) {
+      // Scanners end with Enter, which must not submit a surrounding form
+      e.preventDefault();
       onScan(barcode.trim());
       setBarcode('');
     }
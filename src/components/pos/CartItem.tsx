@@ -1,5 +1,5 @@
 import { memo } from 'react';
-import { Minus, Plus, Trash2 } from 'lucide-react';
+import { ArrowLeftRight, Minus, Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { SaleItem } from '@/types/pharmacy';
 import { formatPKR } from '@/lib/currency';
@@ -8,14 +8,18 @@ interface CartItemProps {
   item: SaleItem;
   onUpdateQuantity: (quantity: number) => void;
   onRemove: () => void;
+  onShowAlternatives?: () => void;
 }
 
-export const CartItem = memo(function CartItem({ item, onUpdateQuantity, onRemove }: CartItemProps) {
+export const CartItem = memo(function CartItem({ item, onUpdateQuantity, onRemove, onShowAlternatives }: CartItemProps) {
   return (
     <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 sm:gap-4 p-4 bg-muted/40 rounded-xl border border-border/40 transition-all hover:bg-muted/60">
       <div className="flex-1 min-w-0 w-full sm:w-auto">
         <p className="text-sm leading-normal break-words whitespace-normal font-medium text-foreground">{item.productName}</p>
-        <p className="text-sm text-muted-foreground mt-1">{formatPKR(item.unitPrice)} each</p>
+        <p className="text-sm text-muted-foreground mt-1">
+          {formatPKR(item.unitPrice)} {item.unitName ? `per ${item.unitName}` : 'each'}
+        </p>
+        {item.batchNumber && <p className="text-xs text-muted-foreground">Batch {item.batchNumber}</p>}
       </div>
       
       <div className="flex items-center gap-2 w-full sm:w-auto justify-between sm:justify-start">
@@ -44,6 +48,19 @@ export const CartItem = memo(function CartItem({ item, onUpdateQuantity, onRemov
           {formatPKR(item.total)}
         </div>
 
+        {onShowAlternatives && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9 sm:h-8 sm:w-8 rounded-lg flex-shrink-0"
+            onClick={onShowAlternatives}
+            title="Same-salt alternatives"
+            aria-label="Same-salt alternatives"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </Button>
+        )}
+
         <Button
           variant="ghost"
           size="icon"
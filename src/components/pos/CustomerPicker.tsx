@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CustomerForm } from '@/components/customers/CustomerForm';
+import { Customer, CustomerInput, useCustomers } from '@/hooks/useCustomers';
+import { formatPKR } from '@/lib/currency';
+import { AlertTriangle, Phone, UserPlus, UserRound, X } from 'lucide-react';
+
+interface CustomerPickerProps {
+  customer: Customer | null;
+  onSelect: (customer: Customer | null) => void;
+}
+
+// Matches shown under the phone search box
+const MAX_MATCHES = 5;
+
+export function CustomerPicker({ customer, onSelect }: CustomerPickerProps) {
+  const { searchByPhone, getBalance, addCustomer } = useCustomers();
+  const [phone, setPhone] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const matches = searchByPhone(phone).slice(0, MAX_MATCHES);
+
+  const handleSelect = (selected: Customer) => {
+    onSelect(selected);
+    setPhone('');
+  };
+
+  const handleAdd = async (input: CustomerInput) => {
+    setSaving(true);
+    const created = await addCustomer(input);
+    setSaving(false);
+    if (created) {
+      setIsFormOpen(false);
+      handleSelect(created);
+    }
+  };
+
+  if (customer) {
+    const balance = getBalance(customer.id).balance;
+    return (
+      <div className="p-3 rounded-xl border border-border bg-background space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-medium text-sm truncate flex items-center gap-2">
+              <UserRound className="w-4 h-4 text-primary flex-shrink-0" />
+              {customer.name}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {customer.phone}
+              {balance !== 0 && (
+                <span className={balance > 0 ? 'text-destructive font-medium' : ''}> • Owes {formatPKR(balance)}</span>
+              )}
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0" onClick={() => onSelect(null)} aria-label="Remove customer">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        {customer.allergies && (
+          <p className="text-xs text-destructive flex items-start gap-1.5">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            <span>Allergies: {customer.allergies}</span>
+          </p>
+        )}
+        {customer.chronic_medications && (
+          <p className="text-xs text-muted-foreground">Regular medicines: {customer.chronic_medications}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Phone className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="Customer phone (optional)"
+            type="tel"
+            className="pl-8 h-9"
+          />
+        </div>
+        <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setIsFormOpen(true)} aria-label="New customer">
+          <UserPlus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {phone.trim().length >= 3 && (
+        <div className="absolute z-20 mt-1 w-full rounded-xl border border-border bg-popover shadow-md overflow-hidden">
+          {matches.length === 0 ? (
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(true)}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+            >
+              No match. Add <span className="font-medium">{phone}</span> as a new customer
+            </button>
+          ) : (
+            matches.map((match) => (
+              <button
+                key={match.id}
+                type="button"
+                onClick={() => handleSelect(match)}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+              >
+                <span className="font-medium">{match.name}</span>
+                <span className="text-muted-foreground"> • {match.phone}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Customer</DialogTitle>
+            <DialogDescription>Save the customer so this and future sales are linked to them.</DialogDescription>
+          </DialogHeader>
+          <CustomerForm
+            initialPhone={phone}
+            saving={saving}
+            onSubmit={handleAdd}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SEVERITY_LABELS, type CartInteraction, type InteractionSeverity } from '@/lib/interactions';
+import { AlertTriangle, CheckCircle2, ShieldAlert } from 'lucide-react';
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  major: 'border-destructive/40 bg-destructive/10 text-destructive',
+  moderate: 'border-warning/40 bg-warning/10 text-warning',
+  minor: 'border-border bg-muted/50 text-muted-foreground',
+};
+
+interface InteractionWarningsProps {
+  interactions: CartInteraction[];
+  acknowledgedKeys: Set<string>;
+  canAcknowledge: boolean;
+  onAcknowledge: (note: string) => void;
+}
+
+/**
+ * Interaction and duplicate-therapy warnings for the cart. Major ones need a
+ * pharmacist's acknowledgement before checkout.
+ */
+export function InteractionWarnings({ interactions, acknowledgedKeys, canAcknowledge, onAcknowledge }: InteractionWarningsProps) {
+  const [showDialog, setShowDialog] = useState(false);
+  const [note, setNote] = useState('');
+
+  const pending = interactions.filter((i) => i.severity === 'major' && !acknowledgedKeys.has(i.key));
+
+  useEffect(() => {
+    if (showDialog) setNote('');
+  }, [showDialog]);
+
+  if (interactions.length === 0) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim()) return;
+    onAcknowledge(note.trim());
+    setShowDialog(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      {interactions.map((interaction) => (
+        <div key={interaction.key} className={`p-3 rounded-xl border text-sm ${SEVERITY_STYLES[interaction.severity]}`}>
+          <p className="font-semibold flex items-center gap-1.5">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {SEVERITY_LABELS[interaction.severity]} {interaction.kind === 'duplicate' ? 'duplicate therapy' : 'interaction'}
+            {interaction.severity === 'major' && acknowledgedKeys.has(interaction.key) && (
+              <span className="ml-auto flex items-center gap-1 text-xs font-medium text-success">
+                <CheckCircle2 className="w-3.5 h-3.5" />
+                Acknowledged
+              </span>
+            )}
+          </p>
+          <p className="text-foreground mt-1">
+            {interaction.products[0]} + {interaction.products[1]}
+          </p>
+          <p className="text-xs text-muted-foreground mt-0.5">{interaction.description}</p>
+        </div>
+      ))}
+
+      {pending.length > 0 &&
+        (canAcknowledge ? (
+          <Button variant="destructive" size="sm" className="w-full" onClick={() => setShowDialog(true)}>
+            <ShieldAlert className="w-4 h-4 mr-1" />
+            Acknowledge {pending.length === 1 ? 'Interaction' : `${pending.length} Interactions`}
+          </Button>
+        ) : (
+          <p className="text-xs text-destructive">
+            A pharmacist must acknowledge major interactions before checkout. Park the cart for a pharmacist to recall.
+          </p>
+        ))}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5" />
+              Acknowledge Interactions
+            </DialogTitle>
+            <DialogDescription>
+              Recorded against the sale with your name. Note the reason for dispensing or the advice given.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <ul className="text-sm space-y-1 list-disc pl-5">
+              {pending.map((interaction) => (
+                <li key={interaction.key}>
+                  {interaction.products[0]} + {interaction.products[1]}: {interaction.description}
+                </li>
+              ))}
+            </ul>
+            <div className="space-y-2">
+              <Label htmlFor="interaction-note">Pharmacist Note</Label>
+              <Textarea
+                id="interaction-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Prescribed together by the doctor; patient told to report any bleeding"
+                required
+                autoFocus
+              />
+            </div>
+            <DialogFooter className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)} className="w-full sm:w-auto">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!note.trim()} className="w-full sm:w-auto">
+                Acknowledge
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
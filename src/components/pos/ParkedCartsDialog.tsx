@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ParkedCart } from '@/hooks/useParkedCarts';
+import { formatPKR } from '@/lib/currency';
+import { formatDistanceToNow } from 'date-fns';
+import { Inbox, RotateCcw, Trash2 } from 'lucide-react';
+
+interface ParkedCartsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  parkedCarts: ParkedCart[];
+  busy?: boolean;
+  onRecall: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const cartTotal = (cart: ParkedCart) =>
+  cart.items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+
+export function ParkedCartsDialog({ open, onOpenChange, parkedCarts, busy, onRecall, onDiscard }: ParkedCartsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Inbox className="w-5 h-5" />
+            Parked Carts
+          </DialogTitle>
+          <DialogDescription>Carts parked on any till in this branch. Stock is checked again when a cart is recalled.</DialogDescription>
+        </DialogHeader>
+
+        {parkedCarts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No parked carts</p>
+        ) : (
+          <div className="space-y-2">
+            {parkedCarts.map((cart) => (
+              <div key={cart.id} className="p-3 rounded-xl border border-border bg-background flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm truncate">{cart.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {cart.items.length} {cart.items.length === 1 ? 'item' : 'items'} • {formatPKR(cartTotal(cart))} • parked{' '}
+                    {formatDistanceToNow(new Date(cart.created_at), { addSuffix: true })}
+                  </p>
+                  {cart.customer && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      {cart.customer.name} ({cart.customer.phone})
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground truncate">
+                    {cart.items
+                      .map((item) => `${item.product_name} × ${item.quantity}${item.unit_name ? ` ${item.unit_name}` : ''}`)
+                      .join(', ')}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button size="sm" onClick={() => onRecall(cart.id)} disabled={busy}>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Recall
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-9 w-9 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => onDiscard(cart.id)}
+                    disabled={busy}
+                    aria-label="Discard parked cart"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
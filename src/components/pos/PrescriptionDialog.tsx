@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileText } from 'lucide-react';
+import {
+  EMPTY_PRESCRIPTION,
+  PrescriptionDetails,
+  PrescriptionErrors,
+  formatCnic,
+  validatePrescription,
+} from '@/lib/drugSchedules';
+
+interface PrescriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheduledItems: string[];
+  initialValue: PrescriptionDetails | null;
+  onSubmit: (details: PrescriptionDetails) => void;
+}
+
+export function PrescriptionDialog({ open, onOpenChange, scheduledItems, initialValue, onSubmit }: PrescriptionDialogProps) {
+  const [details, setDetails] = useState<PrescriptionDetails>(EMPTY_PRESCRIPTION);
+  const [errors, setErrors] = useState<PrescriptionErrors>({});
+
+  // Start from what was entered last time, e.g. after "Add More" at confirmation
+  useEffect(() => {
+    if (open) {
+      setDetails(initialValue ?? EMPTY_PRESCRIPTION);
+      setErrors({});
+    }
+  }, [open, initialValue]);
+
+  const update = (changes: Partial<PrescriptionDetails>) => {
+    setDetails((prev) => ({ ...prev, ...changes }));
+    setErrors((prev) => {
+      const next = { ...prev };
+      for (const field of Object.keys(changes) as (keyof PrescriptionDetails)[]) {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validatePrescription(details);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+    onSubmit(details);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Prescription Required
+          </DialogTitle>
+          <DialogDescription>
+            {scheduledItems.join(', ')} {scheduledItems.length === 1 ? 'is a scheduled drug' : 'are scheduled drugs'}.
+            Record the prescription before completing the sale.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rx-doctor">Doctor Name</Label>
+              <Input
+                id="rx-doctor"
+                value={details.doctorName}
+                onChange={(e) => update({ doctorName: e.target.value })}
+                autoFocus
+              />
+              {errors.doctorName && <p className="text-xs text-destructive">{errors.doctorName}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rx-pmdc">PMDC Number</Label>
+              <Input
+                id="rx-pmdc"
+                value={details.doctorPmdcNumber}
+                onChange={(e) => update({ doctorPmdcNumber: e.target.value })}
+                placeholder="e.g. 12345-P"
+              />
+              {errors.doctorPmdcNumber && <p className="text-xs text-destructive">{errors.doctorPmdcNumber}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rx-patient">Patient Name</Label>
+              <Input
+                id="rx-patient"
+                value={details.patientName}
+                onChange={(e) => update({ patientName: e.target.value })}
+              />
+              {errors.patientName && <p className="text-xs text-destructive">{errors.patientName}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rx-cnic">Patient CNIC</Label>
+              <Input
+                id="rx-cnic"
+                value={details.patientCnic}
+                onChange={(e) => update({ patientCnic: formatCnic(e.target.value) })}
+                placeholder="12345-1234567-1"
+                inputMode="numeric"
+              />
+              {errors.patientCnic && <p className="text-xs text-destructive">{errors.patientCnic}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rx-image">Prescription Image</Label>
+            <Input
+              id="rx-image"
+              type="file"
+              accept="image/*,application/pdf"
+              capture="environment"
+              onChange={(e) => update({ image: e.target.files?.[0] ?? null })}
+            />
+            {details.image && !errors.image && (
+              <p className="text-xs text-muted-foreground truncate">Attached: {details.image.name}</p>
+            )}
+            {errors.image && <p className="text-xs text-destructive">{errors.image}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Continue</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { usePharmacyStore } from '@/store/pharmacyStore';
+import { renderReceipt } from '@/lib/escpos';
+import { buildEscPosReceipt, sendToPrinter, type ReceiptPrinterSettings } from '@/lib/receiptPrinter';
+import type { Branch } from '@/hooks/useBranches';
+import type { StoreSettings } from '@/hooks/useSettings';
+import { toast } from 'sonner';
+import { Loader2, Printer } from 'lucide-react';
+
+interface PrinterSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branch: Branch | null;
+  store: StoreSettings;
+}
+
+/**
+ * Thermal printer set-up for this till. Saved in the browser, so each
+ * counter keeps its own printer.
+ */
+export function PrinterSettingsDialog({ open, onOpenChange, branch, store }: PrinterSettingsDialogProps) {
+  const receiptPrinter = usePharmacyStore((state) => state.receiptPrinter);
+  const setReceiptPrinter = usePharmacyStore((state) => state.setReceiptPrinter);
+  const [form, setForm] = useState<ReceiptPrinterSettings>(receiptPrinter);
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(receiptPrinter);
+  }, [open, receiptPrinter]);
+
+  const handleTestPrint = async () => {
+    if (!form.endpoint.trim()) return;
+    setTesting(true);
+    const receipt = buildEscPosReceipt(
+      {
+        items: [
+          {
+            productId: 'test',
+            productName: 'Test Print',
+            quantity: 1,
+            unitPrice: 0,
+            total: 0,
+          },
+        ],
+        total: 0,
+        discount: 0,
+        finalTotal: 0,
+        paymentMethod: 'cash',
+        saleId: 'TEST',
+      },
+      branch,
+      store,
+      new Date()
+    );
+    const printed = await sendToPrinter(
+      form.endpoint.trim(),
+      renderReceipt(receipt, { paperWidth: store.receipt_paper_width, openDrawer: form.openDrawer })
+    );
+    setTesting(false);
+    if (printed) {
+      toast.success('Test receipt sent to the printer');
+    } else {
+      toast.error('Printer not reachable', {
+        description: 'Check the print service is running at this address.',
+      });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setReceiptPrinter({ ...form, endpoint: form.endpoint.trim() });
+    toast.success('Printer settings saved');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md no-print">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="w-5 h-5" />
+            Receipt Printer
+          </DialogTitle>
+          <DialogDescription>
+            Receipts go straight to the thermal printer through the local print service. Leave the address empty to
+            print through the browser. The paper width ({store.receipt_paper_width}mm) is set on the Settings page.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="printerEndpoint">Print Service Address</Label>
+            <Input
+              id="printerEndpoint"
+              type="url"
+              value={form.endpoint}
+              onChange={(e) => setForm({ ...form, endpoint: e.target.value })}
+              placeholder="http://localhost:9100/print"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4 p-3 rounded-xl border border-border">
+            <div>
+              <Label htmlFor="openDrawer">Open cash drawer</Label>
+              <p className="text-xs text-muted-foreground">Kick the drawer after sales paid partly or fully in cash</p>
+            </div>
+            <Switch
+              id="openDrawer"
+              checked={form.openDrawer}
+              onCheckedChange={(checked) => setForm({ ...form, openDrawer: checked })}
+            />
+          </div>
+          <DialogFooter className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleTestPrint}
+              disabled={testing || !form.endpoint.trim()}
+              className="w-full sm:w-auto"
+            >
+              {testing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Test Print
+            </Button>
+            <Button type="submit" className="w-full sm:w-auto">
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
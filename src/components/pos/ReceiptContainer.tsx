@@ -1,4 +1,6 @@
 import { useReceipt } from '@/contexts/ReceiptContext';
+import { useBranches } from '@/hooks/useBranches';
+import { useSettings } from '@/hooks/useSettings';
 import { ReceiptPrint } from './ReceiptPrint';
 import { useRef } from 'react';
 
@@ -9,6 +11,8 @@ import { useRef } from 'react';
  */
 export function ReceiptContainer() {
   const { receiptData, showReceipt } = useReceipt();
+  const { branches, currentBranch } = useBranches();
+  const { settings } = useSettings();
   const receiptRef = useRef<HTMLDivElement>(null);
 
   // Only render if we have receipt data
@@ -39,7 +43,13 @@ export function ReceiptContainer() {
           discount={receiptData.discount}
           finalTotal={receiptData.finalTotal}
           paymentMethod={receiptData.paymentMethod}
+          payments={receiptData.payments}
           saleId={receiptData.saleId}
+          soldAt={receiptData.soldAt}
+          reprintedAt={receiptData.reprintedAt}
+          returns={receiptData.returns}
+          branch={branches.find((b) => b.id === receiptData.branchId) ?? currentBranch}
+          store={settings}
         />
       </div>
     </div>
@@ -2,7 +2,10 @@ import { forwardRef } from 'react';
 import { SaleItem } from '@/types/pharmacy';
 import { formatPKR } from '@/lib/currency';
 import { format } from 'date-fns';
-import { BRANDING } from '@/config/branding';
+import type { StoreSettings } from '@/hooks/useSettings';
+import type { Branch } from '@/hooks/useBranches';
+import type { ReceiptReturnLine } from '@/contexts/ReceiptContext';
+import { calculateTender, tenderLabel, TENDER_LABELS, type TenderLine } from '@/lib/tender';
 
 interface ReceiptPrintProps {
   items: SaleItem[];
@@ -10,29 +13,70 @@ interface ReceiptPrintProps {
   discount?: number;
   finalTotal?: number;
   paymentMethod: string;
+  payments?: TenderLine[];
   saleId?: string;
+  // Reprints of past sales: the original date, a DUPLICATE mark and later returns
+  soldAt?: string;
+  reprintedAt?: string | null;
+  returns?: ReceiptReturnLine[];
+  // Branch the sale was made in; its address and licence replace the store's
+  branch?: Pick<Branch, 'address' | 'phone' | 'license_number'> | null;
+  store: StoreSettings;
 }
 
 export const ReceiptPrint = forwardRef<HTMLDivElement, ReceiptPrintProps>(
-  ({ items, total, discount = 0, finalTotal, paymentMethod, saleId }, ref) => {
+  (
+    {
+      items,
+      total,
+      discount = 0,
+      finalTotal,
+      paymentMethod,
+      payments = [],
+      saleId,
+      soldAt,
+      reprintedAt,
+      returns = [],
+      branch,
+      store,
+    },
+    ref
+  ) => {
     const displayTotal = finalTotal !== undefined ? finalTotal : total;
+    const { change } = calculateTender(payments, displayTotal);
     return (
       <div
         ref={ref}
-        className="receipt-content bg-white text-black p-6 w-[300px] font-mono text-sm"
+        className="receipt-content relative isolate bg-white text-black p-6 w-[300px] font-mono text-sm"
         style={{ fontFamily: 'monospace' }}
       >
+        {reprintedAt && (
+          <div
+            className="receipt-watermark absolute inset-0 -z-10 flex items-center justify-center pointer-events-none select-none text-5xl font-bold text-gray-200 -rotate-45"
+            aria-hidden="true"
+          >
+            DUPLICATE
+          </div>
+        )}
+
         {/* Header */}
         <div className="receipt-header text-center border-b border-dashed border-gray-400 pb-4 mb-4">
-          <h1 className="text-xl font-bold">{BRANDING.name}</h1>
-          <p className="text-xs mt-1">{BRANDING.address}</p>
-          <p className="text-xs mt-1">{BRANDING.license}</p>
+          {reprintedAt && <p className="text-xs font-bold mb-2">*** DUPLICATE ***</p>}
+          {store.logo_url && <img src={store.logo_url} alt="" className="mx-auto mb-2 max-h-16 object-contain" />}
+          <h1 className="text-xl font-bold">{store.store_name}</h1>
+          <p className="text-xs mt-1">{branch?.address || store.address}</p>
+          {(branch?.phone || store.phone) && <p className="text-xs mt-1">{branch?.phone || store.phone}</p>}
+          <p className="text-xs mt-1">{branch?.license_number || store.license_number}</p>
+          {store.receipt_header && <p className="text-xs mt-1 whitespace-pre-line">{store.receipt_header}</p>}
           <p className="text-xs text-gray-600 mt-2">
-            {format(new Date(), 'MMM dd, yyyy hh:mm a')}
+            {format(soldAt ? new Date(soldAt) : new Date(), 'MMM dd, yyyy hh:mm a')}
           </p>
           {saleId && (
             <p className="text-xs text-gray-600">Receipt #: {saleId}</p>
           )}
+          {reprintedAt && (
+            <p className="text-xs text-gray-600">Reprinted {format(new Date(reprintedAt), 'MMM dd, yyyy hh:mm a')}</p>
+          )}
         </div>
 
         {/* Items */}
@@ -48,7 +92,7 @@ export const ReceiptPrint = forwardRef<HTMLDivElement, ReceiptPrintProps>(
                 <span className="font-semibold">{formatPKR(item.total)}</span>
               </div>
               <div className="text-xs text-gray-600">
-                {item.quantity} × {formatPKR(item.unitPrice)}
+                {item.quantity}{item.unitName ? ` ${item.unitName}` : ''} × {formatPKR(item.unitPrice)}
               </div>
             </div>
           ))}
@@ -70,15 +114,51 @@ export const ReceiptPrint = forwardRef<HTMLDivElement, ReceiptPrintProps>(
             <span>TOTAL:</span>
             <span>{formatPKR(displayTotal)}</span>
           </div>
+          {payments.length > 0 && (
+            <div className="receipt-payments pt-2 space-y-1">
+              {payments.map((payment, index) => (
+                <div key={index}>
+                  <div className="flex justify-between text-xs">
+                    <span>{TENDER_LABELS[payment.method]}:</span>
+                    <span>{formatPKR(payment.tendered ?? payment.amount)}</span>
+                  </div>
+                  {payment.reference && (
+                    <div className="text-xs text-gray-600">Ref: {payment.reference}</div>
+                  )}
+                </div>
+              ))}
+              {change > 0 && (
+                <div className="flex justify-between text-xs font-semibold">
+                  <span>Change:</span>
+                  <span>{formatPKR(change)}</span>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Returns since the sale */}
+        {returns.length > 0 && (
+          <div className="receipt-returns border-t border-dashed border-gray-400 pt-2 mb-4 space-y-1">
+            <p className="text-xs font-bold">Returns</p>
+            {returns.map((line, index) => (
+              <div key={index} className="flex justify-between text-xs">
+                <span className="truncate max-w-[180px]">
+                  {line.quantity} × {line.productName}
+                </span>
+                <span>-{formatPKR(line.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Payment Info */}
         <div className="receipt-footer text-center border-t border-dashed border-gray-400 pt-4">
           <p className="text-xs">
-            Payment Method: <span className="capitalize font-semibold">{paymentMethod}</span>
+            Payment Method: <span className="font-semibold">{tenderLabel(paymentMethod)}</span>
           </p>
-          <p className="text-xs mt-3 font-semibold text-gray-700">{BRANDING.returnPolicy}</p>
-          <p className="text-xs mt-3 text-gray-600">{BRANDING.footer}</p>
+          {store.return_policy && <p className="text-xs mt-3 font-semibold text-gray-700">{store.return_policy}</p>}
+          {store.receipt_footer && <p className="text-xs mt-3 text-gray-600">{store.receipt_footer}</p>}
           <div className="mt-4 text-xs text-gray-400">
             --------------------------------
           </div>
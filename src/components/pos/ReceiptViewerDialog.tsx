@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ReceiptPrint } from './ReceiptPrint';
+import { useReceipt } from '@/contexts/ReceiptContext';
+import { useBranches } from '@/hooks/useBranches';
+import { useReceiptPrinter } from '@/hooks/useReceiptPrinter';
+import { useReceiptReprints } from '@/hooks/useReceiptReprints';
+import type { Sale } from '@/hooks/useSales';
+import { formatPKR } from '@/lib/currency';
+import { buildEscPosReceipt } from '@/lib/receiptPrinter';
+import { renderReceiptPdf } from '@/lib/receiptPdf';
+import { returnedAmount, saleToReceiptData } from '@/lib/receipts';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Download, Loader2, Printer } from 'lucide-react';
+
+interface ReceiptViewerDialogProps {
+  sale: Sale | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const REPRINT_LABELS = { thermal: 'Receipt printer', browser: 'Browser print', pdf: 'PDF download' } as const;
+
+/**
+ * A past sale's receipt, rebuilt from the sale and its returns. Reprints and
+ * downloads are marked DUPLICATE and logged.
+ */
+export function ReceiptViewerDialog({ sale, onOpenChange }: ReceiptViewerDialogProps) {
+  const { setReceiptData } = useReceipt();
+  const { branches } = useBranches();
+  const receiptPrinter = useReceiptPrinter();
+  const { reprints, logReprint } = useReceiptReprints(sale?.id);
+  const [printing, setPrinting] = useState(false);
+
+  const preview = useMemo(() => (sale ? saleToReceiptData(sale, new Date()) : null), [sale]);
+  const branch = branches.find((b) => b.id === sale?.branch_id) ?? receiptPrinter.branch;
+
+  const handleReprint = async () => {
+    if (!sale) return;
+    const data = saleToReceiptData(sale, new Date());
+
+    // Thermal printer first; the browser's print dialog is the fallback.
+    // Each attempt is logged before anything goes out.
+    if (receiptPrinter.enabled) {
+      setPrinting(true);
+      const logged = await logReprint('thermal');
+      const printed = logged && (await receiptPrinter.print(data));
+      setPrinting(false);
+      if (!logged) return;
+      if (printed) {
+        toast.success('Duplicate receipt printed');
+        return;
+      }
+      toast.warning('Receipt printer not reachable', {
+        description: 'Printing through the browser instead.',
+      });
+    }
+
+    if (!(await logReprint('browser'))) return;
+
+    // Dialogs are hidden while printing, so this one can stay open
+    setReceiptData(data);
+    setTimeout(() => {
+      window.print();
+      setReceiptData(null);
+    }, 300);
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!sale) return;
+    if (!(await logReprint('pdf'))) return;
+
+    const data = saleToReceiptData(sale, new Date());
+    const bytes = renderReceiptPdf(buildEscPosReceipt(data, branch, receiptPrinter.store, new Date()), {
+      paperWidth: receiptPrinter.store.receipt_paper_width,
+      duplicate: true,
+    });
+
+    const blob = new Blob([bytes], { type: 'application/pdf' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `receipt-${sale.receipt_number}.pdf`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast.success('Receipt PDF downloaded');
+  };
+
+  const refunded = returnedAmount(preview?.returns);
+
+  return (
+    <Dialog open={!!sale} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receipt {sale?.receipt_number}</DialogTitle>
+          <DialogDescription>
+            {sale && format(new Date(sale.created_at), 'PPP p')}
+            {refunded > 0 && ` · ${formatPKR(refunded)} returned since the sale`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && (
+          <div className="flex justify-center rounded-xl border border-border bg-muted/30 p-3">
+            <ReceiptPrint
+              items={preview.items}
+              total={preview.total}
+              discount={preview.discount}
+              finalTotal={preview.finalTotal}
+              paymentMethod={preview.paymentMethod}
+              payments={preview.payments}
+              saleId={preview.saleId}
+              soldAt={preview.soldAt}
+              reprintedAt={preview.reprintedAt}
+              returns={preview.returns}
+              branch={branch}
+              store={receiptPrinter.store}
+            />
+          </div>
+        )}
+
+        <div className="text-sm text-muted-foreground">
+          {reprints.length === 0 ? (
+            <p>Not reprinted before.</p>
+          ) : (
+            <>
+              <p className="font-medium text-foreground">
+                Reprinted {reprints.length} {reprints.length === 1 ? 'time' : 'times'}
+              </p>
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {reprints.slice(0, 5).map((reprint) => (
+                  <li key={reprint.id}>
+                    {format(new Date(reprint.reprinted_at), 'MMM d, yyyy h:mm a')} · {REPRINT_LABELS[reprint.format]}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+          <Button variant="outline" onClick={handleDownloadPdf} className="w-full sm:w-auto">
+            <Download className="w-4 h-4 mr-2" />
+            Download PDF
+          </Button>
+          <Button onClick={handleReprint} disabled={printing} className="w-full sm:w-auto">
+            {printing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Printer className="w-4 h-4 mr-2" />}
+            Reprint
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatPKR } from '@/lib/currency';
+import { calculateTender, TENDER_LABELS, TENDER_METHODS, type TenderLine, type TenderMethod } from '@/lib/tender';
+import { Loader2, Plus, Wallet, X } from 'lucide-react';
+
+interface TenderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Sale total after discount
+  due: number;
+  initialMethod: TenderMethod;
+  // Credit is only offered when the sale has a customer
+  allowCredit: boolean;
+  processing?: boolean;
+  // Order review shown above the payment lines
+  summary?: ReactNode;
+  onConfirm: (payments: TenderLine[]) => void;
+}
+
+// Inputs are kept as typed so a half-entered amount is not reformatted
+interface LineForm {
+  method: TenderMethod;
+  amount: string;
+  tendered: string;
+  reference: string;
+}
+
+const toAmount = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : 0;
+};
+
+const toLines = (forms: LineForm[]): TenderLine[] =>
+  forms.map((form) => ({
+    method: form.method,
+    amount: toAmount(form.amount),
+    tendered: form.method === 'cash' && form.tendered.trim() !== '' ? toAmount(form.tendered) : null,
+    reference: form.method !== 'cash' && form.method !== 'credit' ? form.reference.trim() || undefined : undefined,
+  }));
+
+export function TenderDialog({
+  open,
+  onOpenChange,
+  due,
+  initialMethod,
+  allowCredit,
+  processing,
+  summary,
+  onConfirm,
+}: TenderDialogProps) {
+  const amountDue = Math.round(due * 100) / 100;
+  const [forms, setForms] = useState<LineForm[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setForms([{ method: initialMethod, amount: amountDue.toFixed(2), tendered: '', reference: '' }]);
+    }
+  }, [open, initialMethod, amountDue]);
+
+  const lines = toLines(forms);
+  const { paid, remaining, change } = calculateTender(lines, amountDue);
+  const methods = TENDER_METHODS.filter((method) => method !== 'credit' || allowCredit);
+
+  const lineError = (line: TenderLine): string | null => {
+    if (line.amount <= 0) return 'Enter an amount';
+    if (line.tendered != null && line.tendered < line.amount) return 'Less than the cash amount';
+    if (line.method === 'credit' && !allowCredit) return 'Select a customer to sell on credit';
+    return null;
+  };
+  const canConfirm = lines.length > 0 && remaining === 0 && lines.every((line) => !lineError(line)) && !processing;
+
+  const update = (index: number, changes: Partial<LineForm>) => {
+    setForms((prev) => prev.map((form, i) => (i === index ? { ...form, ...changes } : form)));
+  };
+
+  const handleAddLine = () => {
+    const used = new Set(forms.map((form) => form.method));
+    const method = methods.find((m) => !used.has(m)) ?? 'cash';
+    setForms((prev) => [
+      ...prev,
+      { method, amount: remaining > 0 ? remaining.toFixed(2) : '', tendered: '', reference: '' },
+    ]);
+  };
+
+  const handleRemoveLine = (index: number) => {
+    setForms((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canConfirm) return;
+    onConfirm(lines);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Take Payment
+          </DialogTitle>
+          <DialogDescription>
+            Review the order and record how the customer is paying. A sale can be split across several payments.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {summary}
+
+          <div className="space-y-3">
+            {forms.map((form, index) => {
+              const error = lineError(lines[index]);
+              return (
+                <div key={index} className="p-3 rounded-xl border border-border bg-muted/30 space-y-2">
+                  <div className="flex items-end gap-2">
+                    <div className="space-y-1 w-36">
+                      <Label className="text-xs">Method</Label>
+                      <Select
+                        value={form.method}
+                        onValueChange={(value) => update(index, { method: value as TenderMethod, tendered: '', reference: '' })}
+                      >
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {methods.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {TENDER_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1 flex-1">
+                      <Label className="text-xs" htmlFor={`tender-amount-${index}`}>Amount</Label>
+                      <Input
+                        id={`tender-amount-${index}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.amount}
+                        onChange={(e) => update(index, { amount: e.target.value })}
+                        className="h-9"
+                      />
+                    </div>
+                    {form.method === 'cash' && (
+                      <div className="space-y-1 flex-1">
+                        <Label className="text-xs" htmlFor={`tender-given-${index}`}>Cash Given</Label>
+                        <Input
+                          id={`tender-given-${index}`}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={form.tendered}
+                          onChange={(e) => update(index, { tendered: e.target.value })}
+                          placeholder={form.amount || '0'}
+                          className="h-9"
+                        />
+                      </div>
+                    )}
+                    {form.method !== 'cash' && form.method !== 'credit' && (
+                      <div className="space-y-1 flex-1">
+                        <Label className="text-xs" htmlFor={`tender-ref-${index}`}>Transaction ID</Label>
+                        <Input
+                          id={`tender-ref-${index}`}
+                          value={form.reference}
+                          onChange={(e) => update(index, { reference: e.target.value })}
+                          placeholder="Optional"
+                          className="h-9"
+                        />
+                      </div>
+                    )}
+                    {forms.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-9 w-9 flex-shrink-0"
+                        onClick={() => handleRemoveLine(index)}
+                        aria-label="Remove payment"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {error && <p className="text-xs text-destructive">{error}</p>}
+                </div>
+              );
+            })}
+            <Button type="button" variant="outline" size="sm" onClick={handleAddLine}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Payment
+            </Button>
+          </div>
+
+          <div className="border-t border-border pt-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Amount Due</span>
+              <span className="font-semibold">{formatPKR(amountDue)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Paid</span>
+              <span>{formatPKR(paid)}</span>
+            </div>
+            {remaining !== 0 && (
+              <div className="flex justify-between text-destructive">
+                <span>{remaining > 0 ? 'Remaining' : 'Overpaid'}</span>
+                <span className="font-medium">{formatPKR(Math.abs(remaining))}</span>
+              </div>
+            )}
+            {change > 0 && (
+              <div className="flex justify-between items-center pt-2 border-t border-border">
+                <span className="font-semibold">Change Due</span>
+                <span className="text-lg font-bold text-primary">{formatPKR(change)}</span>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Add More
+            </Button>
+            <Button type="submit" disabled={!canConfirm}>
+              {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirm Order
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
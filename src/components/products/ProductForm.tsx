@@ -3,9 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Product, useProducts } from '@/hooks/useProducts';
+import { Product, ProductUnit, useProducts } from '@/hooks/useProducts';
 import { useRacks } from '@/hooks/useRacks';
-import { Loader2 } from 'lucide-react';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { DRUG_SCHEDULE_LABELS, DrugSchedule, isControlledSchedule } from '@/lib/drugSchedules';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface ProductFormProps {
@@ -94,9 +96,28 @@ const dosageForms = [
   'Other',
 ];
 
+const NO_SUPPLIER = 'none';
+
+// Pack rows are kept as strings while being edited
+interface PackRow {
+  name: string;
+  factor: string;
+  price: string;
+}
+
+const toPackRows = (units: ProductUnit[] | undefined): PackRow[] =>
+  [...(units ?? [])]
+    .sort((a, b) => a.factor - b.factor)
+    .map((unit) => ({
+      name: unit.name,
+      factor: unit.factor.toString(),
+      price: unit.selling_price != null ? unit.selling_price.toString() : '',
+    }));
+
 export function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
   const { generateBarcode } = useProducts();
   const { racks } = useRacks();
+  const { activeSuppliers } = useSuppliers();
   const [isGeneratingBarcode, setIsGeneratingBarcode] = useState(false);
   
   // Initialize rack_id - prefer rack_id, fallback to rack.id if rack object exists
@@ -115,7 +136,11 @@ export function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
     manufacturer: product?.manufacturer || '',
     salt_formula: product?.salt_formula || '',
     rack_id: initialRackId,
+    preferred_supplier_id: product?.preferred_supplier_id || '',
+    drug_schedule: product?.drug_schedule || ('none' as DrugSchedule),
+    base_unit: product?.base_unit || 'Unit',
   });
+  const [packRows, setPackRows] = useState<PackRow[]>(toPackRows(product?.units));
 
   // Update form when product changes (for editing or scanned barcode)
   useEffect(() => {
@@ -131,7 +156,11 @@ export function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
         manufacturer: product.manufacturer || '',
         salt_formula: product.salt_formula || '',
         rack_id: newRackId,
+        preferred_supplier_id: product.preferred_supplier_id || '',
+        drug_schedule: product.drug_schedule || 'none',
+        base_unit: product.base_unit || 'Unit',
       });
+      setPackRows(toPackRows(product.units));
     } else {
       // Reset form for new product
       setFormData({
@@ -144,10 +173,17 @@ export function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
         manufacturer: '',
         salt_formula: '',
         rack_id: '',
+        preferred_supplier_id: '',
+        drug_schedule: 'none',
+        base_unit: 'Unit',
       });
+      setPackRows([]);
     }
   }, [product]);
 
+  const updatePackRow = (index: number, changes: Partial<PackRow>) =>
+    setPackRows((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
   const handleGenerateBarcode = async () => {
     setIsGeneratingBarcode(true);
     const barcode = await generateBarcode();
@@ -185,6 +221,40 @@ export function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
       toast.error('Minimum stock must be a valid number (0 or greater)');
       return;
     }
+
+    const baseUnit = formData.base_unit.trim();
+    if (!baseUnit) {
+      toast.error('Base unit is required, e.g. Tablet');
+      return;
+    }
+
+    // Validate pack sizes
+    const units: ProductUnit[] = [];
+    for (const row of packRows) {
+      const name = row.name.trim();
+      const factor = Number(row.factor);
+      const price = row.price.trim() === '' ? null : Number(row.price);
+      if (!name) {
+        toast.error('Every pack needs a name, e.g. Strip');
+        return;
+      }
+      if (!Number.isInteger(factor) || factor <= 1) {
+        toast.error(`${name} must hold a whole number of ${baseUnit} greater than 1`);
+        return;
+      }
+      if (price !== null && (isNaN(price) || price < 0)) {
+        toast.error(`${name} price must be a valid amount`);
+        return;
+      }
+      const duplicate =
+        name.toLowerCase() === baseUnit.toLowerCase() ||
+        units.some((u) => u.factor === factor || u.name.toLowerCase() === name.toLowerCase());
+      if (duplicate) {
+        toast.error(`Pack sizes must have different names and sizes (${name})`);
+        return;
+      }
+      units.push({ name, factor, selling_price: price });
+    }
     
     // Auto-generate barcode if none provided
     let finalBarcode = formData.barcode.trim();
@@ -229,6 +299,10 @@ export function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
       manufacturer: formData.manufacturer?.trim() || null,
       salt_formula: formData.salt_formula?.trim() || null,
       rack_id: formData.rack_id, // Required - always a valid rack.id
+      preferred_supplier_id: formData.preferred_supplier_id || null,
+      drug_schedule: formData.drug_schedule,
+      base_unit: baseUnit,
+      units,
     });
   };
 
@@ -422,6 +496,129 @@ export function ProductForm({ product, onSubmit, onCancel }: ProductFormProps) {
               required
             />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="preferred_supplier_id">Preferred Supplier</Label>
+            <Select
+              value={formData.preferred_supplier_id || NO_SUPPLIER}
+              onValueChange={(value) =>
+                setFormData({ ...formData, preferred_supplier_id: value === NO_SUPPLIER ? '' : value })
+              }
+            >
+              <SelectTrigger id="preferred_supplier_id">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SUPPLIER}>Last supplier used</SelectItem>
+                {activeSuppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="drug_schedule">Drug Schedule</Label>
+            <Select
+              value={formData.drug_schedule}
+              onValueChange={(value) => setFormData({ ...formData, drug_schedule: value as DrugSchedule })}
+            >
+              <SelectTrigger id="drug_schedule">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DRUG_SCHEDULE_LABELS) as DrugSchedule[]).map((schedule) => (
+                  <SelectItem key={schedule} value={schedule}>
+                    {DRUG_SCHEDULE_LABELS[schedule]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {formData.drug_schedule !== 'none' && (
+              <p className="text-xs text-muted-foreground">
+                A prescription will be required at checkout
+                {isControlledSchedule(formData.drug_schedule) && ' and every movement is kept in the controlled drug register'}.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="base_unit">Base Unit</Label>
+              <Input
+                id="base_unit"
+                value={formData.base_unit}
+                onChange={(e) => setFormData({ ...formData, base_unit: e.target.value })}
+                placeholder="e.g., Tablet, Bottle"
+              />
+              <p className="text-xs text-muted-foreground">Stock, batch quantities and batch prices are per base unit</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label>Pack Sizes</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPackRows((rows) => [...rows, { name: '', factor: '', price: '' }])}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Pack
+              </Button>
+            </div>
+            {packRows.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Sold only by the {formData.base_unit.trim() || 'unit'}. Add packs such as Strip or Box to sell those too.
+              </p>
+            ) : (
+              packRows.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_6rem_7rem_auto] gap-2 items-center">
+                  <Input
+                    value={row.name}
+                    onChange={(e) => updatePackRow(index, { name: e.target.value })}
+                    placeholder="e.g., Strip"
+                    aria-label="Pack name"
+                  />
+                  <Input
+                    type="number"
+                    min="2"
+                    step="1"
+                    value={row.factor}
+                    onChange={(e) => updatePackRow(index, { factor: e.target.value })}
+                    placeholder={`${formData.base_unit.trim() || 'Units'} in it`}
+                    aria-label="Base units in pack"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.price}
+                    onChange={(e) => updatePackRow(index, { price: e.target.value })}
+                    placeholder="Auto price"
+                    aria-label="Pack price"
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-9 w-9 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => setPackRows((rows) => rows.filter((_, i) => i !== index))}
+                    aria-label="Remove pack"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            {packRows.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Leave the price empty to charge the batch price for every {formData.base_unit.trim() || 'unit'} in the pack.
+              </p>
+            )}
+          </div>
         </div>
 
         <div className="p-4 bg-muted/50 rounded-xl border border-border">
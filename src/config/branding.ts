@@ -1,3 +1,6 @@
+// Fallback store identity, shown until store_settings has loaded (first run,
+// or offline before the first sync). The live values are edited on the
+// Settings page.
 export const BRANDING = {
   name: "Khalil Pharmacy",
   tagline: "GT- Road, Salhad Abbottabad • Licence no. : 8b-1rd73Z76k",
@@ -1,13 +1,28 @@
 import { createContext, useContext, useState, ReactNode } from 'react';
 import { SaleItem } from '@/types/pharmacy';
+import type { TenderLine } from '@/lib/tender';
 
-interface ReceiptData {
+export interface ReceiptData {
   items: SaleItem[];
   total: number;
   discount: number;
   finalTotal: number;
   paymentMethod: string;
+  payments?: TenderLine[];
   saleId: string;
+  // Set when reprinting a past sale
+  branchId?: string;
+  soldAt?: string;
+  reprintedAt?: string | null;
+  returns?: ReceiptReturnLine[];
+}
+
+// An item returned after the sale, shown on duplicates
+export interface ReceiptReturnLine {
+  receiptNumber: string;
+  productName: string;
+  quantity: string; // e.g. "1 Strip"
+  amount: number;
 }
 
 interface ReceiptContextType {
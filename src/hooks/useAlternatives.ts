@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { usePharmacyStore } from '@/store/pharmacyStore';
+import { isNetworkError } from '@/lib/offline';
+import { saltKey } from '@/lib/salts';
+import type { Product } from './useProducts';
+
+/**
+ * Active products with a salt formula, grouped by salt and strength so the
+ * POS can offer generics of an out-of-stock or expensive brand. The POS
+ * product list is filtered by the search box, so this loads its own copy.
+ */
+export function useAlternatives() {
+  const [catalogue, setCatalogue] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCatalogue = useCallback(async () => {
+    try {
+      const { data, error: queryError } = await supabase
+        .from('products')
+        .select('*, rack:racks(id, name, color), units:product_units(name, factor, selling_price)')
+        .eq('is_active', true)
+        .not('salt_formula', 'is', null)
+        .order('name');
+
+      if (queryError) throw queryError;
+
+      setCatalogue(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      // Offline: the cached catalogue is good enough to find generics
+      if (isNetworkError(err)) {
+        setCatalogue(usePharmacyStore.getState().cachedProducts.filter((p) => p.is_active !== false && p.salt_formula));
+      } else {
+        console.error('Error fetching salt catalogue:', err);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCatalogue();
+  }, [fetchCatalogue]);
+
+  // Products keyed by id, and ids grouped by salt key
+  const { byId, bySalt } = useMemo(() => {
+    const byId = new Map<string, { product: Product; key: string }>();
+    const bySalt = new Map<string, Product[]>();
+    for (const product of catalogue) {
+      const key = saltKey(product);
+      if (!key) continue;
+      byId.set(product.id, { product, key });
+      bySalt.set(key, [...(bySalt.get(key) ?? []), product]);
+    }
+    return { byId, bySalt };
+  }, [catalogue]);
+
+  /**
+   * Other products with the same salt and strength, whatever their stock
+   */
+  const alternativesFor = useCallback((product: Pick<Product, 'id' | 'salt_formula' | 'strength'>) => {
+    const key = byId.get(product.id)?.key ?? saltKey(product);
+    if (!key) return [];
+    return (bySalt.get(key) ?? []).filter((p) => p.id !== product.id);
+  }, [byId, bySalt]);
+
+  const getCatalogueProduct = useCallback((productId: string) => byId.get(productId)?.product, [byId]);
+
+  return {
+    loading,
+    alternativesFor,
+    getCatalogueProduct,
+    refetch: fetchCatalogue,
+  };
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface AuditFilters {
+  entityType?: string;
+  actorId?: string;
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+}
+
+// Tables with row-level audit triggers (audit_row_change() in the migrations)
+export const AUDITED_TABLES = [
+  'products',
+  'product_units',
+  'stock_batches',
+  'racks',
+  'sales',
+  'sales_returns',
+  'user_roles',
+  'suppliers',
+  'purchase_orders',
+  'purchase_order_items',
+  'goods_received_notes',
+  'prescriptions',
+  'sale_interaction_acknowledgements',
+  'store_settings',
+  'receipt_reprints',
+  'customers',
+  'customer_ledger',
+  'cash_shifts',
+  'cash_movements',
+  'branches',
+  'stock_transfers',
+  'stock_adjustments',
+  'stock_counts',
+  'supplier_returns',
+] as const;
+
+const PAGE_SIZE = 200;
+
+export function useAuditLog(filters: AuditFilters) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const { entityType, actorId, from, to } = filters;
+
+  const fetchEntries = useCallback(async (before?: number) => {
+    try {
+      setError(null);
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (entityType) query = query.eq('entity_type', entityType);
+      if (actorId) query = query.eq('actor_id', actorId);
+      if (from) query = query.gte('occurred_at', new Date(`${from}T00:00:00`).toISOString());
+      if (to) query = query.lte('occurred_at', new Date(`${to}T23:59:59.999`).toISOString());
+      if (before) query = query.lt('id', before);
+
+      const { data, error: queryError } = await query;
+
+      if (queryError) throw queryError;
+
+      const rows = Array.isArray(data) ? data : [];
+      setEntries((prev) => (before ? [...prev, ...rows] : rows));
+      setHasMore(rows.length === PAGE_SIZE);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load audit log';
+      console.error('Error fetching audit log:', err);
+      setError(errorMessage);
+      toast.error('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, actorId, from, to]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const loadMore = useCallback(() => {
+    const last = entries[entries.length - 1];
+    if (last) fetchEntries(last.id);
+  }, [entries, fetchEntries]);
+
+  return {
+    entries,
+    loading,
+    error,
+    hasMore,
+    loadMore,
+    refetch: fetchEntries,
+  };
+}
@@ -1,14 +1,16 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { AppRole, Permission, hasPermission, isAppRole } from '@/lib/permissions';
+import { isNetworkError } from '@/lib/offline';
+import { usePharmacyStore } from '@/store/pharmacyStore';
 type User = { id: string; email?: string | null } & Record<string, unknown>;
 type Session = { user: User } | null;
 
-// Owner-only system - only one role exists
-type AppRole = 'owner';
-
-interface UserRole {
+export interface UserRole {
   role: AppRole;
-  can_add_products: boolean; // Always true for owner
+  can_add_products: boolean;
+  is_active: boolean;
+  branch_id: string | null;
 }
 
 interface Profile {
@@ -24,12 +26,17 @@ interface AuthContextType {
   session: Session | null;
   profile: Profile | null;
   userRole: UserRole | null;
-  isOwner: boolean; // Owner-only system
-  canAddProducts: boolean; // Always true for owner
+  role: AppRole | null;
+  // Branch the user is working in; new stock, sales and shifts belong to it
+  branchId: string | null;
+  isOwner: boolean;
+  canAddProducts: boolean;
+  can: (permission: Permission) => boolean;
   loading: boolean;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  updatePassword: (password: string) => Promise<{ error: Error | null }>;
   refreshUserData: () => Promise<void>;
 }
 
@@ -41,6 +48,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [userRole, setUserRole] = useState<UserRole | null>(null);
   const [loading, setLoading] = useState(true);
+  const [roleLoading, setRoleLoading] = useState(false);
 
   /**
    * Safely fetches user profile and role data from Supabase.
@@ -52,6 +60,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return;
     }
 
+    // Roles the server confirms are kept for offline reloads
+    const confirmRole = (confirmed: UserRole) => {
+      setUserRole(confirmed);
+      usePharmacyStore.getState().cacheRole({ ...confirmed, userId });
+    };
+
     try {
       // Fetch profile with error handling
       const { data: profileData, error: profileError } = await supabase
@@ -67,52 +81,44 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setProfile(profileData);
       }
 
-      // Fetch role with error handling - owner-only system
+      // Fetch role. Users without one are assigned a role by the database:
+      // the very first account becomes owner, everyone after that a cashier.
       const { data: roleData, error: roleError } = await supabase
         .from('user_roles')
-        .select('role, can_add_products')
+        .select('role, can_add_products, is_active, branch_id')
         .eq('user_id', userId)
         .maybeSingle();
-      
+
       if (roleError) {
-        // If no role exists, create owner role for this user (first user becomes owner)
-        const { error: insertError } = await supabase
-          .from('user_roles')
-          .insert({
-            user_id: userId,
-            role: 'owner',
-            can_add_products: true,
-          });
-        
-        if (!insertError) {
-          setUserRole({ role: 'owner', can_add_products: true });
-        } else {
-          console.warn('Error creating owner role:', insertError);
-        }
-      } else if (roleData) {
-        // Ensure role is owner (security enforcement)
-        if (roleData.role !== 'owner') {
-          // Update to owner if somehow not owner
-          await supabase
-            .from('user_roles')
-            .update({ role: 'owner', can_add_products: true })
-            .eq('user_id', userId);
-          setUserRole({ role: 'owner', can_add_products: true });
-        } else {
-          setUserRole({ role: 'owner', can_add_products: true });
+        // Offline: keep selling with the role this user last had
+        const cachedRole = usePharmacyStore.getState().cachedRole;
+        if (isNetworkError(roleError) && cachedRole?.userId === userId) {
+          const { userId: _userId, ...cached } = cachedRole;
+          setUserRole(cached);
+          return;
         }
+        console.warn('Error fetching user role:', roleError);
+        setUserRole(null);
+      } else if (roleData && isAppRole(roleData.role)) {
+        confirmRole({
+          role: roleData.role,
+          can_add_products: !!roleData.can_add_products,
+          is_active: roleData.is_active !== false,
+          branch_id: roleData.branch_id ?? null,
+        });
       } else {
-        // No role found, create owner role
-        const { error: insertError } = await supabase
-          .from('user_roles')
-          .insert({
-            user_id: userId,
-            role: 'owner',
-            can_add_products: true,
+        const { data: assignedRole, error: assignError } = await supabase.rpc('ensure_user_role');
+
+        if (assignError) {
+          console.warn('Error assigning user role:', assignError);
+          setUserRole(null);
+        } else if (isAppRole(assignedRole)) {
+          confirmRole({
+            role: assignedRole,
+            can_add_products: hasPermission(assignedRole, 'products.manage'),
+            is_active: true,
+            branch_id: null,
           });
-        
-        if (!insertError) {
-          setUserRole({ role: 'owner', can_add_products: true });
         }
       }
     } catch (error) {
@@ -120,6 +126,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error('Unexpected error fetching user data:', errorMessage);
       // Don't throw - allow app to continue with partial data
+    } finally {
+      setRoleLoading(false);
     }
   };
 
@@ -142,6 +150,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           setUser(session?.user ?? null);
           
           if (session?.user) {
+            setRoleLoading(true);
             // Defer Supabase calls with setTimeout to avoid race conditions
             setTimeout(() => {
               if (isMounted) {
@@ -156,6 +165,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           if (event === 'SIGNED_OUT') {
             setProfile(null);
             setUserRole(null);
+            usePharmacyStore.getState().cacheRole(null);
           }
           
           setLoading(false);
@@ -185,6 +195,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           setUser(session?.user ?? null);
           
           if (session?.user) {
+            setRoleLoading(true);
             fetchUserData(session.user.id);
           }
           setLoading(false);
@@ -270,6 +281,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Sets a new password for the signed-in user.
+   * Used after following an invitation or password reset email.
+   */
+  const updatePassword = async (password: string) => {
+    try {
+      if (!password) {
+        return { error: new Error('Password is required') };
+      }
+
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error('Unexpected error updating password:', err);
+      return { error: err };
+    }
+  };
+
   /**
    * Safely handles user sign out with error handling.
    */
@@ -285,6 +320,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setSession(null);
       setProfile(null);
       setUserRole(null);
+      usePharmacyStore.getState().cacheRole(null);
     } catch (error) {
       console.error('Unexpected error during sign out:', error);
       // Clear local state even on unexpected errors
@@ -292,12 +328,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setSession(null);
       setProfile(null);
       setUserRole(null);
+      usePharmacyStore.getState().cacheRole(null);
     }
   };
 
-  // Owner-only system - user is owner if authenticated
-  const isOwner = !!user && !!session;
-  const canAddProducts = isOwner; // Owner always has full permissions
+  // Permissions come from the role stored in user_roles; RLS enforces the same matrix
+  // Deactivated accounts keep their row in user_roles but get no permissions
+  const role = user && session && userRole?.is_active ? userRole.role : null;
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+  const isOwner = role === 'owner';
+  const canAddProducts = can('products.manage');
 
   return (
     <AuthContext.Provider
@@ -306,12 +346,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         session,
         profile,
         userRole,
+        role,
+        branchId: userRole?.branch_id ?? null,
         isOwner,
         canAddProducts,
-        loading,
+        can,
+        // Keep routes waiting until the first role lookup finishes, otherwise
+        // permission checks would briefly deny everything after sign in
+        loading: loading || (!!user && !userRole && roleLoading),
         signUp,
         signIn,
         signOut,
+        updatePassword,
         refreshUserData,
       }}
     >
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { isNetworkError } from '@/lib/offline';
+
+export interface Branch {
+  id: string;
+  code: string;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  license_number: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type BranchInput = Omit<Branch, 'id' | 'is_active' | 'created_at'>;
+
+// Branch filter value for consolidated views
+export const ALL_BRANCHES = 'all';
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export function useBranches() {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user, branchId, can, refreshUserData } = useAuth();
+
+  const fetchBranches = useCallback(async () => {
+    if (!user?.id) {
+      setBranches([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('branches')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (queryError) throw queryError;
+
+      setBranches(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load branches';
+      console.error('Error fetching branches:', err);
+      setError(errorMessage);
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load branches');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchBranches();
+  }, [fetchBranches]);
+
+  const addBranch = async (branch: BranchInput) => {
+    try {
+      if (!can('settings.manage')) {
+        toast.error('You do not have permission to add branches');
+        return null;
+      }
+
+      if (!branch.name.trim() || !branch.code.trim()) {
+        toast.error('Branch code and name are required');
+        return null;
+      }
+
+      const { data, error: insertError } = await supabase
+        .from('branches')
+        .insert({ ...branch, code: normalizeCode(branch.code), name: branch.name.trim() })
+        .select()
+        .single();
+
+      if (insertError) {
+        if (insertError.code === '23505') {
+          toast.error('A branch with this code already exists');
+          return null;
+        }
+        if (insertError.code === '23514') {
+          toast.error('Branch code must be 2-12 letters, digits or dashes');
+          return null;
+        }
+        throw insertError;
+      }
+
+      setBranches((prev) => [...prev, data]);
+      toast.success('Branch added');
+      return data as Branch;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add branch';
+      console.error('Error adding branch:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const updateBranch = async (id: string, updates: Partial<BranchInput & { is_active: boolean }>) => {
+    try {
+      if (!can('settings.manage')) {
+        toast.error('You do not have permission to update branches');
+        return false;
+      }
+
+      if (updates.is_active === false && id === branchId) {
+        toast.error('Switch to another branch before deactivating this one');
+        return false;
+      }
+
+      const { data, error: updateError } = await supabase
+        .from('branches')
+        .update({
+          ...updates,
+          ...(updates.code !== undefined && { code: normalizeCode(updates.code) }),
+          ...(updates.name !== undefined && { name: updates.name.trim() }),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (updateError) {
+        if (updateError.code === '23505') {
+          toast.error('A branch with this code already exists');
+          return false;
+        }
+        if (updateError.code === '23514') {
+          toast.error('Branch code must be 2-12 letters, digits or dashes');
+          return false;
+        }
+        throw updateError;
+      }
+
+      setBranches((prev) => prev.map((b) => (b.id === id ? data : b)));
+      toast.success('Branch updated');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update branch';
+      console.error('Error updating branch:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  /**
+   * Move the signed-in owner to another branch
+   */
+  const switchBranch = async (id: string) => {
+    try {
+      if (!user?.id || !can('users.manage')) {
+        toast.error('You do not have permission to switch branch');
+        return false;
+      }
+
+      const { error: rpcError } = await supabase.rpc('set_staff_branch', {
+        p_user_id: user.id,
+        p_branch_id: id,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await refreshUserData();
+      toast.success(`Now working in ${branches.find((b) => b.id === id)?.name ?? 'the selected branch'}`);
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to switch branch';
+      console.error('Error switching branch:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    branches,
+    activeBranches: branches.filter((b) => b.is_active),
+    currentBranch: branches.find((b) => b.id === branchId) ?? null,
+    loading,
+    error,
+    addBranch,
+    updateBranch,
+    switchBranch,
+    refetch: fetchBranches,
+  };
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export type RegisterEntryType =
+  | 'balance_forward'
+  | 'opening'
+  | 'receipt'
+  | 'sale'
+  | 'return'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'adjustment'
+  | 'supplier_return';
+
+export interface RegisterEntry {
+  entry_id: number | null;
+  entry_date: string;
+  entry_type: RegisterEntryType;
+  reference: string | null;
+  quantity_in: number | null;
+  quantity_out: number | null;
+  balance: number;
+  sale_id: string | null;
+  doctor_name: string | null;
+  doctor_pmdc_number: string | null;
+  patient_name: string | null;
+  patient_cnic: string | null;
+  prescription_image_path: string | null;
+}
+
+export const REGISTER_ENTRY_LABELS: Record<RegisterEntryType, string> = {
+  balance_forward: 'Balance brought forward',
+  opening: 'Opening stock',
+  receipt: 'Received',
+  sale: 'Sold',
+  return: 'Returned',
+  transfer_in: 'Transferred in',
+  transfer_out: 'Transferred out',
+  adjustment: 'Stock adjustment',
+  supplier_return: 'Returned to supplier',
+};
+
+/**
+ * Controlled drug register for one product between two dates (yyyy-MM-dd)
+ */
+export function useControlledRegister(productId: string | null, from: string, to: string) {
+  const [entries, setEntries] = useState<RegisterEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRegister = useCallback(async () => {
+    if (!productId || !from || !to) {
+      setEntries([]);
+      return;
+    }
+
+    try {
+      setError(null);
+      setLoading(true);
+      const { data, error: rpcError } = await supabase.rpc('controlled_drug_register', {
+        p_product_id: productId,
+        p_from: from,
+        p_to: to,
+      });
+
+      if (rpcError) {
+        throw rpcError;
+      }
+
+      const rows: RegisterEntry[] = Array.isArray(data) ? data : [];
+      setEntries(
+        rows.map((row) => ({
+          ...row,
+          quantity_in: row.quantity_in != null ? Number(row.quantity_in) : null,
+          quantity_out: row.quantity_out != null ? Number(row.quantity_out) : null,
+          balance: Number(row.balance) || 0,
+        }))
+      );
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load register';
+      console.error('Error fetching controlled drug register:', err);
+      setError(errorMessage);
+      toast.error('Failed to load register');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, from, to]);
+
+  useEffect(() => {
+    fetchRegister();
+  }, [fetchRegister]);
+
+  /**
+   * Short-lived link to a stored prescription scan
+   */
+  const getPrescriptionUrl = async (path: string): Promise<string | null> => {
+    const { data, error: urlError } = await supabase.storage.from('prescriptions').createSignedUrl(path, 300);
+    if (urlError || !data) {
+      console.error('Error opening prescription:', urlError);
+      toast.error('Failed to open prescription');
+      return null;
+    }
+    return data.signedUrl;
+  };
+
+  const movements = entries.filter((entry) => entry.entry_type !== 'balance_forward');
+  const openingBalance = entries.find((entry) => entry.entry_type === 'balance_forward')?.balance ?? 0;
+  const closingBalance = entries.length > 0 ? entries[entries.length - 1].balance : 0;
+  const totalIn = movements.reduce((sum, entry) => sum + (entry.quantity_in || 0), 0);
+  const totalOut = movements.reduce((sum, entry) => sum + (entry.quantity_out || 0), 0);
+
+  return {
+    entries: movements,
+    openingBalance,
+    closingBalance,
+    totalIn,
+    totalOut,
+    loading,
+    error,
+    getPrescriptionUrl,
+    refetch: fetchRegister,
+  };
+}
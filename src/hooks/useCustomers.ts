@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import type { AgeingBucketKey, LedgerEntry } from '@/lib/ledger';
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  cnic: string | null;
+  allergies: string | null;
+  chronic_medications: string | null;
+  credit_limit: number | null;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomerInput = Omit<Customer, 'id' | 'is_active' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export type CustomerBalance = {
+  customer_id: string;
+  balance: number;
+  last_payment_at: string | null;
+} & Record<AgeingBucketKey, number>;
+
+export const EMPTY_BALANCE: Omit<CustomerBalance, 'customer_id'> = {
+  balance: 0,
+  last_payment_at: null,
+  due_0_30: 0,
+  due_31_60: 0,
+  due_61_90: 0,
+  due_over_90: 0,
+};
+
+/**
+ * Digits only, so "0300-1234567" and "03001234567" match each other
+ */
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+export function useCustomers() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [balances, setBalances] = useState<Map<string, CustomerBalance>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user, can } = useAuth();
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      setError(null);
+      const [customersResult, balancesResult] = await Promise.all([
+        supabase.from('customers').select('*').order('name'),
+        supabase.rpc('customer_balances'),
+      ]);
+
+      if (customersResult.error) {
+        throw customersResult.error;
+      }
+      if (balancesResult.error) {
+        throw balancesResult.error;
+      }
+
+      const rows: CustomerBalance[] = Array.isArray(balancesResult.data) ? balancesResult.data : [];
+      setCustomers(Array.isArray(customersResult.data) ? customersResult.data : []);
+      setBalances(
+        new Map(
+          rows.map((row) => [
+            row.customer_id,
+            {
+              customer_id: row.customer_id,
+              balance: Number(row.balance) || 0,
+              last_payment_at: row.last_payment_at,
+              due_0_30: Number(row.due_0_30) || 0,
+              due_31_60: Number(row.due_31_60) || 0,
+              due_61_90: Number(row.due_61_90) || 0,
+              due_over_90: Number(row.due_over_90) || 0,
+            },
+          ])
+        )
+      );
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load customers';
+      console.error('Error fetching customers:', err);
+      setError(errorMessage);
+      toast.error('Failed to load customers');
+      setCustomers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const getBalance = useCallback(
+    (customerId: string): CustomerBalance => balances.get(customerId) ?? { customer_id: customerId, ...EMPTY_BALANCE },
+    [balances]
+  );
+
+  /**
+   * Active customers whose phone number contains the typed digits
+   */
+  const searchByPhone = useCallback(
+    (query: string) => {
+      const digits = normalizePhone(query);
+      if (digits.length < 3) return [];
+      return customers.filter((c) => c.is_active && normalizePhone(c.phone).includes(digits));
+    },
+    [customers]
+  );
+
+  const addCustomer = async (customer: CustomerInput) => {
+    try {
+      if (!can('sales.create')) {
+        toast.error('You do not have permission to add customers');
+        return null;
+      }
+
+      if (!customer.name.trim() || !customer.phone.trim()) {
+        toast.error('Customer name and phone are required');
+        return null;
+      }
+
+      if (customer.credit_limit !== 0 && !can('settings.manage')) {
+        toast.error('Only the owner can give a customer credit');
+        return null;
+      }
+
+      const { data, error: insertError } = await supabase
+        .from('customers')
+        .insert({ ...customer, name: customer.name.trim(), phone: customer.phone.trim(), created_by: user?.id })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      setCustomers((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success('Customer added');
+      return data as Customer;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add customer';
+      console.error('Error adding customer:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const updateCustomer = async (id: string, updates: Partial<CustomerInput & { is_active: boolean }>) => {
+    try {
+      if (!can('sales.create')) {
+        toast.error('You do not have permission to update customers');
+        return false;
+      }
+
+      if ((updates.name !== undefined && !updates.name.trim()) || (updates.phone !== undefined && !updates.phone.trim())) {
+        toast.error('Customer name and phone are required');
+        return false;
+      }
+
+      const current = customers.find((c) => c.id === id);
+      if (
+        updates.credit_limit !== undefined &&
+        updates.credit_limit !== current?.credit_limit &&
+        !can('settings.manage')
+      ) {
+        toast.error("Only the owner can change a customer's credit limit");
+        return false;
+      }
+
+      const { data, error: updateError } = await supabase
+        .from('customers')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      setCustomers((prev) =>
+        prev.map((c) => (c.id === id ? data : c)).sort((a, b) => a.name.localeCompare(b.name))
+      );
+      toast.success('Customer updated');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update customer';
+      console.error('Error updating customer:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  /**
+   * A customer's ledger entries, oldest first
+   */
+  const fetchLedger = async (customerId: string): Promise<LedgerEntry[]> => {
+    try {
+      const { data, error: queryError } = await supabase
+        .from('customer_ledger')
+        .select('*')
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (queryError) throw queryError;
+
+      return Array.isArray(data) ? data : [];
+    } catch (err: unknown) {
+      console.error('Error fetching customer ledger:', err);
+      toast.error('Failed to load customer ledger');
+      return [];
+    }
+  };
+
+  const recordPayment = async (customerId: string, amount: number, paymentMethod: string, notes?: string) => {
+    try {
+      if (!user?.id || !can('sales.create')) {
+        toast.error('You do not have permission to record payments');
+        return false;
+      }
+
+      if (!Number.isFinite(amount) || amount <= 0) {
+        toast.error('Payment amount must be greater than zero');
+        return false;
+      }
+
+      const { error: insertError } = await supabase.from('customer_ledger').insert({
+        customer_id: customerId,
+        entry_type: 'payment',
+        amount: -Math.round(amount * 100) / 100,
+        payment_method: paymentMethod,
+        notes: notes?.trim() || null,
+        created_by: user.id,
+      });
+
+      if (insertError) throw insertError;
+
+      await fetchCustomers();
+      toast.success('Payment recorded');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to record payment';
+      console.error('Error recording payment:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    customers,
+    activeCustomers: customers.filter((c) => c.is_active),
+    loading,
+    error,
+    getBalance,
+    searchByPhone,
+    addCustomer,
+    updateCustomer,
+    fetchLedger,
+    recordPayment,
+    refetch: fetchCustomers,
+  };
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+
+export interface GoodsReceivedNote {
+  id: string;
+  grn_number: string;
+  supplier_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  invoice_total: number;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  suppliers: { name: string } | null;
+  stock_batches: { count: number }[];
+}
+
+export interface GoodsReceivedLineInput {
+  product_id: string;
+  batch_number: string;
+  quantity: number;
+  cost_price: number;
+  selling_price: number;
+  expiry_date: string;
+  purchase_order_item_id: string | null;
+}
+
+export interface GoodsReceivedInput {
+  supplierId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  discountAmount: number;
+  taxAmount: number;
+  invoiceTotal: number | null;
+  notes?: string;
+  lines: GoodsReceivedLineInput[];
+}
+
+const MAX_RECORDS_PER_QUERY = 200;
+
+export function useGoodsReceived() {
+  const [notes, setNotes] = useState<GoodsReceivedNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('goods_received_notes')
+        .select('*, suppliers(name), stock_batches(count)')
+        .order('created_at', { ascending: false })
+        .limit(MAX_RECORDS_PER_QUERY);
+
+      if (queryError) {
+        throw queryError;
+      }
+
+      setNotes(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load goods received notes';
+      console.error('Error fetching goods received notes:', err);
+      setError(errorMessage);
+      toast.error('Failed to load goods received notes');
+      setNotes([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+
+  /**
+   * Save a supplier invoice and all of its batches in one transaction
+   */
+  const saveGoodsReceived = async (input: GoodsReceivedInput) => {
+    try {
+      if (!can('stock.receive')) {
+        toast.error('You do not have permission to receive stock');
+        return null;
+      }
+
+      if (!input.supplierId) {
+        toast.error('Please select a supplier');
+        return null;
+      }
+
+      if (!input.invoiceNumber.trim()) {
+        toast.error('Invoice number is required');
+        return null;
+      }
+
+      if (input.lines.length === 0) {
+        toast.error('Add at least one line');
+        return null;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('receive_goods', {
+        p_supplier_id: input.supplierId,
+        p_invoice_number: input.invoiceNumber.trim(),
+        p_invoice_date: input.invoiceDate,
+        p_lines: input.lines,
+        p_discount_amount: input.discountAmount,
+        p_tax_amount: input.taxAmount,
+        p_invoice_total: input.invoiceTotal,
+        p_notes: input.notes || null,
+      });
+
+      if (rpcError) {
+        if (rpcError.code === '23505') {
+          toast.error('This invoice has already been received from this supplier');
+          return null;
+        }
+        // Line validation errors name the offending line, so show them as-is
+        if (rpcError.code === '22023') {
+          toast.error(rpcError.message);
+          return null;
+        }
+        throw rpcError;
+      }
+
+      await fetchNotes();
+      toast.success(`${data?.grn_number ?? 'GRN'} saved`, {
+        description: `${input.lines.length} batch${input.lines.length === 1 ? '' : 'es'} added to stock`,
+      });
+      return data as Omit<GoodsReceivedNote, 'suppliers' | 'stock_batches'>;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save goods received note';
+      console.error('Error saving goods received note:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  return {
+    notes,
+    loading,
+    error,
+    saveGoodsReceived,
+    refetch: fetchNotes,
+  };
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { usePharmacyStore } from '@/store/pharmacyStore';
+import { isNetworkError } from '@/lib/offline';
+
+// How often queued sales are retried while the counter is online
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+// Postgres error codes process_sale raises for stock/validation problems.
+// These will not fix themselves on retry, so they need a human.
+const CONFLICT_ERROR_CODES = ['P0001', '22023'];
+
+// Shared across every mounted instance so two layouts never replay the same queue
+let syncInFlight = false;
+
+/**
+ * Tracks connectivity and replays sales queued while offline through the
+ * process_sale RPC. Rejected sales are moved to saleConflicts for manual resolution.
+ */
+export function useOfflineSync() {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const pendingSales = usePharmacyStore((state) => state.pendingSales);
+  const saleConflicts = usePharmacyStore((state) => state.saleConflicts);
+  const catalogueCachedAt = usePharmacyStore((state) => state.catalogueCachedAt);
+
+  const syncPendingSales = useCallback(async () => {
+    if (syncInFlight || !navigator.onLine) return;
+
+    const queue = usePharmacyStore.getState().pendingSales;
+    if (queue.length === 0) return;
+
+    syncInFlight = true;
+    setSyncing(true);
+    let synced = 0;
+    let conflicts = 0;
+
+    try {
+      // Replay oldest first so FEFO picks batches in the order sales happened
+      for (const sale of queue) {
+        const { error: rpcError } = await supabase.rpc('process_sale', {
+          p_items: sale.items,
+          p_payment_method: sale.paymentMethod,
+          p_discount: sale.discount,
+          p_client_ref: sale.clientRef,
+          p_sold_at: sale.soldAt,
+          p_customer_id: sale.customerId ?? null,
+          p_payments: sale.payments ?? null,
+        });
+
+        if (!rpcError) {
+          usePharmacyStore.getState().removePendingSale(sale.clientRef);
+          synced += 1;
+          continue;
+        }
+
+        if (isNetworkError(rpcError)) {
+          // Connection dropped again - keep the rest queued for the next attempt
+          break;
+        }
+
+        if (CONFLICT_ERROR_CODES.includes(rpcError.code)) {
+          usePharmacyStore.getState().markSaleConflict(sale.clientRef, rpcError.message);
+          conflicts += 1;
+        } else {
+          console.error('Error syncing offline sale:', rpcError);
+          usePharmacyStore.getState().updatePendingSale(sale.clientRef, { lastError: rpcError.message });
+        }
+      }
+    } finally {
+      syncInFlight = false;
+      setSyncing(false);
+    }
+
+    if (synced > 0) {
+      toast.success('Offline sales synced', {
+        description: `${synced} sale(s) uploaded to the server`,
+      });
+    }
+    if (conflicts > 0) {
+      toast.error('Some offline sales need attention', {
+        description: `${conflicts} sale(s) could not be recorded because of stock conflicts`,
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPendingSales();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Catch up on anything left over from a previous session
+    syncPendingSales();
+    const interval = setInterval(syncPendingSales, SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, [syncPendingSales]);
+
+  const retryConflict = useCallback((clientRef: string) => {
+    usePharmacyStore.getState().retryConflict(clientRef);
+    syncPendingSales();
+  }, [syncPendingSales]);
+
+  const discardConflict = useCallback((clientRef: string) => {
+    usePharmacyStore.getState().discardConflict(clientRef);
+  }, []);
+
+  return {
+    isOnline,
+    syncing,
+    pendingSales,
+    saleConflicts,
+    catalogueCachedAt,
+    syncNow: syncPendingSales,
+    retryConflict,
+    discardConflict,
+  };
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { isNetworkError } from '@/lib/offline';
+import type { Customer } from './useCustomers';
+import type { DrugSchedule } from '@/lib/drugSchedules';
+
+export interface ParkedCartItem {
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  drug_schedule: DrugSchedule;
+  unit_name?: string;
+  unit_factor?: number; // Base units per item; absent on carts parked before pack sizes
+  batch_number?: string; // Scanned batch to sell ahead of FEFO
+}
+
+export interface ParkedCart {
+  id: string;
+  name: string;
+  items: ParkedCartItem[];
+  discount_type: 'percent' | 'rupees';
+  discount_value: number | null;
+  customer_id: string | null;
+  customer?: Customer | null;
+  branch_id: string;
+  parked_by: string | null;
+  created_at: string;
+}
+
+export type ParkedCartInput = Pick<ParkedCart, 'name' | 'items' | 'discount_type' | 'discount_value' | 'customer_id'>;
+
+export function useParkedCarts() {
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user, branchId, can } = useAuth();
+
+  const fetchParkedCarts = useCallback(async () => {
+    try {
+      setError(null);
+      // Carts parked at this branch's tills
+      let query = supabase
+        .from('parked_carts')
+        .select('*, customer:customers(*)')
+        .order('created_at', { ascending: true });
+
+      if (branchId) {
+        query = query.eq('branch_id', branchId);
+      }
+
+      const { data, error: queryError } = await query;
+
+      if (queryError) throw queryError;
+
+      setParkedCarts(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load parked carts';
+      console.error('Error fetching parked carts:', err);
+      setError(errorMessage);
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load parked carts');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [branchId]);
+
+  // Parks and recalls made on other tills
+  useEffect(() => {
+    fetchParkedCarts();
+
+    const channel = supabase
+      .channel('parked-carts-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'parked_carts',
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE' && payload.old) {
+            setParkedCarts((prev) => prev.filter((c) => c.id !== payload.old.id));
+          } else {
+            // Refetch so the joined customer comes with the new cart
+            fetchParkedCarts();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchParkedCarts]);
+
+  const parkCart = async (cart: ParkedCartInput) => {
+    try {
+      if (!user?.id || !can('sales.create')) {
+        toast.error('You do not have permission to park carts');
+        return false;
+      }
+
+      if (!cart.name.trim()) {
+        toast.error('Give the parked cart a name');
+        return false;
+      }
+
+      if (cart.items.length === 0) {
+        toast.error('Cart is empty');
+        return false;
+      }
+
+      const { error: insertError } = await supabase.from('parked_carts').insert({
+        ...cart,
+        name: cart.name.trim(),
+        parked_by: user.id,
+      });
+
+      if (insertError) throw insertError;
+
+      await fetchParkedCarts();
+      toast.success(`Cart parked as "${cart.name.trim()}"`);
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to park cart';
+      console.error('Error parking cart:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  /**
+   * Take a parked cart off the shelf. Returns null if another till recalled
+   * or discarded it first.
+   */
+  const recallCart = async (id: string): Promise<ParkedCart | null> => {
+    try {
+      const { data, error: deleteError } = await supabase
+        .from('parked_carts')
+        .delete()
+        .eq('id', id)
+        .select('*, customer:customers(*)')
+        .maybeSingle();
+
+      if (deleteError) throw deleteError;
+
+      setParkedCarts((prev) => prev.filter((c) => c.id !== id));
+      if (!data) {
+        toast.error('That cart was already recalled on another till');
+        return null;
+      }
+      return data as ParkedCart;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to recall cart';
+      console.error('Error recalling cart:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const discardCart = async (id: string) => {
+    try {
+      const { error: deleteError } = await supabase.from('parked_carts').delete().eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      setParkedCarts((prev) => prev.filter((c) => c.id !== id));
+      toast.success('Parked cart discarded');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to discard cart';
+      console.error('Error discarding cart:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    parkedCarts,
+    loading,
+    error,
+    parkCart,
+    recallCart,
+    discardCart,
+    refetch: fetchParkedCarts,
+  };
+}
@@ -2,6 +2,11 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useAuth } from './useAuth';
+import { usePharmacyStore } from '@/store/pharmacyStore';
+import { isNetworkError } from '@/lib/offline';
+import { barcodeCandidates } from '@/lib/gs1';
+import type { DrugSchedule } from '@/lib/drugSchedules';
+import { ALL_BRANCHES } from './useBranches';
 
 export interface Product {
   id: string;
@@ -13,6 +18,9 @@ export interface Product {
   manufacturer: string | null;
   salt_formula: string | null;
   rack_id: string | null;
+  preferred_supplier_id?: string | null;
+  drug_schedule?: DrugSchedule;
+  base_unit?: string; // Unit stock is counted in, e.g. Tablet
   min_stock: number;
   is_active: boolean;
   created_by: string | null;
@@ -23,6 +31,14 @@ export interface Product {
     name: string;
     color: string;
   } | null;
+  units?: ProductUnit[];
+}
+
+// A pack the product is also sold in, holding factor base units
+export interface ProductUnit {
+  name: string;
+  factor: number;
+  selling_price: number | null;
 }
 
 export interface StockBatch {
@@ -35,16 +51,36 @@ export interface StockBatch {
   expiry_date: string;
   purchase_date: string;
   supplier: string | null;
+  supplier_id: string | null;
+  purchase_order_item_id: string | null;
+  branch_id: string;
   created_by: string | null;
   created_at: string;
 }
 
-export function useProducts() {
+/**
+ * Units of a product in batches that have not expired
+ */
+export function unexpiredStock(batches: StockBatch[], productId: string): number {
+  const today = new Date().toISOString().split('T')[0];
+  return batches
+    .filter((b) => b && b.product_id === productId && b.expiry_date >= today)
+    .reduce((sum, b) => sum + (b.quantity || 0), 0);
+}
+
+/**
+ * @param branchScope - Branch whose stock to load: a branch id, ALL_BRANCHES,
+ * or the user's own branch when omitted
+ */
+export function useProducts(branchScope?: string) {
   const [products, setProducts] = useState<Product[]>([]);
   const [batches, setBatches] = useState<StockBatch[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
+  const { user, branchId, can } = useAuth();
+  const stockBranchId = branchScope === ALL_BRANCHES ? null : branchScope ?? branchId;
+  // Only the user's own stock is cached for selling offline
+  const cachesStock = branchScope === undefined;
 
   // Maximum number of records to fetch per query (pagination limit)
   const MAX_RECORDS_PER_QUERY = 1000;
@@ -57,7 +93,8 @@ export function useProducts() {
         .from('products')
         .select(`
           *,
-          rack:racks(id, name, color)
+          rack:racks(id, name, color),
+          units:product_units(name, factor, selling_price)
         `);
 
       // Apply search filter if provided
@@ -99,7 +136,24 @@ export function useProducts() {
 
       // Defensive null handling
       setProducts(Array.isArray(data) ? data : []);
+
+      // Keep the full (unfiltered) catalogue cached for offline selling
+      if ((!searchTerm || searchTerm.trim() === '') && (!rackId || rackId.trim() === '') && Array.isArray(data)) {
+        usePharmacyStore.getState().cacheProducts(data);
+      }
     } catch (err: unknown) {
+      // Offline: serve the cached catalogue with the same name/barcode/rack filtering
+      const cachedProducts = usePharmacyStore.getState().cachedProducts;
+      if (isNetworkError(err) && cachedProducts.length > 0) {
+        const term = searchTerm?.trim().toLowerCase() || '';
+        setProducts(cachedProducts.filter((p) => {
+          if (rackId && rackId.trim() !== '' && p.rack_id !== rackId) return false;
+          if (!term) return true;
+          return p.name.toLowerCase().startsWith(term) || p.barcode?.toLowerCase() === term;
+        }));
+        return;
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to load products';
       const errorDetails = err && typeof err === 'object' && 'code' in err ? err : null;
       console.error('Error fetching products:', {
@@ -113,39 +167,61 @@ export function useProducts() {
     }
   }, []);
 
-  const fetchBatches = useCallback(async () => {
+  // Resolves to the batches loaded, or null when they could not be
+  const fetchBatches = useCallback(async (): Promise<StockBatch[] | null> => {
     try {
       setError(null);
       // Optimize query - select only required fields for better performance
-      const { data, error: queryError } = await supabase
+      let query = supabase
         .from('stock_batches')
-        .select('id, product_id, batch_number, quantity, cost_price, selling_price, expiry_date, purchase_date, supplier, created_by, created_at')
+        .select('id, product_id, batch_number, quantity, cost_price, selling_price, expiry_date, purchase_date, supplier, supplier_id, purchase_order_item_id, branch_id, created_by, created_at')
         .order('expiry_date')
         .limit(MAX_RECORDS_PER_QUERY);
 
+      if (stockBranchId) {
+        query = query.eq('branch_id', stockBranchId);
+      }
+
+      const { data, error: queryError } = await query;
+
       if (queryError) {
         throw queryError;
       }
 
       // Defensive null handling
-      setBatches(Array.isArray(data) ? data : []);
+      const loaded: StockBatch[] = Array.isArray(data) ? data : [];
+      setBatches(loaded);
+      if (cachesStock) {
+        usePharmacyStore.getState().cacheBatches(loaded);
+      }
+      return loaded;
     } catch (err: unknown) {
+      // Offline: fall back to the cached snapshot (already net of queued sales)
+      const cachedBatches = usePharmacyStore.getState().cachedBatches;
+      if (cachesStock && isNetworkError(err) && cachedBatches.length > 0) {
+        setBatches(cachedBatches);
+        return cachedBatches;
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to load batches';
       console.error('Error fetching batches:', err);
       setError(errorMessage);
       toast.error('Failed to load stock batches');
       setBatches([]); // Set empty array on error
+      return null;
     }
-  }, []);
+  }, [stockBranchId, cachesStock]);
 
   const fetchAll = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      await Promise.all([fetchProducts(undefined, undefined), fetchBatches()]);
+      const [, loadedBatches] = await Promise.all([fetchProducts(undefined, undefined), fetchBatches()]);
+      return loadedBatches;
     } catch (err) {
       // Errors are handled in individual fetch functions
       console.error('Error in fetchAll:', err);
+      return null;
     } finally {
       setLoading(false);
     }
@@ -194,6 +270,13 @@ export function useProducts() {
           table: 'stock_batches',
         },
         (payload) => {
+          // Batches in other branches are not ours to show
+          const changed = payload.new as Partial<StockBatch> | undefined;
+          if (stockBranchId && changed?.branch_id && changed.branch_id !== stockBranchId) {
+            setBatches((prev) => prev.filter((b) => b.id !== changed.id));
+            return;
+          }
+
           // Use incremental updates for better performance
           if (payload.eventType === 'INSERT' && payload.new) {
             setBatches((prev) => {
@@ -222,7 +305,7 @@ export function useProducts() {
       supabase.removeChannel(productsChannel);
       supabase.removeChannel(batchesChannel);
     };
-  }, [fetchProducts, fetchBatches]);
+  }, [fetchProducts, fetchBatches, stockBranchId]);
 
   const generateBarcode = async (): Promise<string | null> => {
     try {
@@ -239,6 +322,44 @@ export function useProducts() {
     }
   };
 
+  /**
+   * Replace a product's pack sizes. Returns the saved packs, or null after
+   * showing an error.
+   */
+  const saveProductUnits = async (productId: string, units: ProductUnit[]) => {
+    try {
+      const rows = units.map((unit) => ({
+        product_id: productId,
+        name: unit.name.trim(),
+        factor: unit.factor,
+        selling_price: unit.selling_price,
+      }));
+
+      let deleteQuery = supabase.from('product_units').delete().eq('product_id', productId);
+      if (rows.length > 0) {
+        deleteQuery = deleteQuery.not('factor', 'in', `(${rows.map((row) => row.factor).join(',')})`);
+      }
+      const { error: deleteError } = await deleteQuery;
+      if (deleteError) throw deleteError;
+
+      if (rows.length === 0) return [];
+
+      const { data, error: upsertError } = await supabase
+        .from('product_units')
+        .upsert(rows, { onConflict: 'product_id,factor' })
+        .select('name, factor, selling_price');
+
+      if (upsertError) throw upsertError;
+
+      return (Array.isArray(data) ? data : []) as ProductUnit[];
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save pack sizes';
+      console.error('Error saving pack sizes:', err);
+      toast.error('Pack sizes were not saved', { description: errorMessage });
+      return null;
+    }
+  };
+
   const addProduct = async (product: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'created_by' | 'rack'>) => {
     try {
       if (!user?.id) {
@@ -246,34 +367,9 @@ export function useProducts() {
         return null;
       }
 
-      // Ensure user has a role - critical for RLS policy to work
-      // This prevents RLS policy violations
-      const { data: roleCheck, error: roleCheckError } = await supabase
-        .from('user_roles')
-        .select('id')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (roleCheckError || !roleCheck) {
-        // User doesn't have a role - create one automatically
-        console.warn('User missing role, creating owner role:', user.id);
-        const { error: roleCreateError } = await supabase
-          .from('user_roles')
-          .insert({
-            user_id: user.id,
-            role: 'owner',
-            can_add_products: true,
-          })
-          .select('id')
-          .single();
-
-        if (roleCreateError) {
-          console.error('Failed to create user role:', roleCreateError);
-          toast.error('Permission setup failed', {
-            description: 'Unable to set up your permissions. Please contact support or try logging out and back in.',
-          });
-          return null;
-        }
+      if (!can('products.manage')) {
+        toast.error('You do not have permission to add products');
+        return null;
       }
 
       // Validate required fields
@@ -322,6 +418,9 @@ export function useProducts() {
         category: toOptionalString(product.category),
         manufacturer: toOptionalString(product.manufacturer),
         rack_id: product.rack_id,
+        preferred_supplier_id: product.preferred_supplier_id || null,
+        drug_schedule: product.drug_schedule || 'none',
+        base_unit: product.base_unit?.trim() || 'Unit',
         min_stock: product.min_stock,
         is_active: true, // New products are always active
         created_by: user.id,
@@ -340,7 +439,8 @@ export function useProducts() {
         .insert(payload)
         .select(`
           *,
-          rack:racks(id, name, color)
+          rack:racks(id, name, color),
+          units:product_units(name, factor, selling_price)
         `)
         .single();
 
@@ -353,46 +453,10 @@ export function useProducts() {
           return null;
         }
 
-        // Handle RLS policy violations - try to fix by ensuring user has role
+        // Handle RLS policy violations
         if (insertError.message?.includes('row-level security policy') || insertError.code === '42501') {
-          console.error('RLS Policy Error - User ID:', user?.id, 'Authenticated:', !!user);
-
-          // Try to fix by ensuring user has a role, then retry once
-          if (user?.id) {
-            const { error: roleFixError } = await supabase
-              .from('user_roles')
-              .upsert({
-                user_id: user.id,
-                role: 'owner',
-                can_add_products: true,
-              }, {
-                onConflict: 'user_id,role'
-              });
-
-            if (!roleFixError) {
-              // Retry the insert after fixing the role
-              const retryResult = await supabase
-                .from('products')
-                .insert(payload)
-                .select(`
-                  *,
-                  rack:racks(id, name, color)
-                `)
-                .single();
-
-              if (!retryResult.error && retryResult.data) {
-                setProducts((prev) => {
-                  const updated = [...prev, retryResult.data!];
-                  return updated.sort((a, b) => a.name.localeCompare(b.name));
-                });
-                toast.success('Product added successfully');
-                return retryResult.data;
-              }
-            }
-          }
-
           toast.error('Permission denied', {
-            description: 'You do not have permission to add products. Please ensure you are logged in and have the proper role assigned. If the problem persists, try logging out and back in.',
+            description: 'Your role does not allow adding products. Ask the pharmacy owner if you need access.',
           });
           return null;
         }
@@ -405,7 +469,8 @@ export function useProducts() {
             .insert(payloadWithoutSalt)
             .select(`
               *,
-              rack:racks(id, name, color)
+              rack:racks(id, name, color),
+              units:product_units(name, factor, selling_price)
             `)
             .single();
 
@@ -450,6 +515,10 @@ export function useProducts() {
         return null;
       }
 
+      if (product.units && product.units.length > 0) {
+        data.units = (await saveProductUnits(data.id, product.units)) ?? [];
+      }
+
       setProducts((prev) => {
         const updated = [...prev, data];
         return updated.sort((a, b) => a.name.localeCompare(b.name));
@@ -476,25 +545,12 @@ export function useProducts() {
         return null;
       }
 
-      // Ensure user has a role - critical for RLS policy to work
-      const { data: roleCheck } = await supabase
-        .from('user_roles')
-        .select('id')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (!roleCheck) {
-        // User doesn't have a role - create one automatically
-        await supabase
-          .from('user_roles')
-          .insert({
-            user_id: user.id,
-            role: 'owner',
-            can_add_products: true,
-          });
+      if (!can('products.manage')) {
+        toast.error('You do not have permission to update products');
+        return null;
       }
 
-      const { rack, salt_formula, ...updateData } = updates;
+      const { rack, salt_formula, units, ...updateData } = updates;
 
       // Helper to convert empty strings to null for optional fields
       const toOptionalString = (value: string | null | undefined): string | null => {
@@ -518,7 +574,8 @@ export function useProducts() {
         .eq('id', id)
         .select(`
           *,
-          rack:racks(id, name, color)
+          rack:racks(id, name, color),
+          units:product_units(name, factor, selling_price)
         `)
         .single();
 
@@ -541,7 +598,8 @@ export function useProducts() {
             .eq('id', id)
             .select(`
               *,
-              rack:racks(id, name, color)
+              rack:racks(id, name, color),
+              units:product_units(name, factor, selling_price)
             `)
             .single();
 
@@ -580,6 +638,11 @@ export function useProducts() {
         return null;
       }
 
+      if (units !== undefined) {
+        const savedUnits = await saveProductUnits(id, units);
+        if (savedUnits) data.units = savedUnits;
+      }
+
       setProducts((prev) =>
         prev.map((p) => (p.id === id ? data : p))
       );
@@ -605,13 +668,19 @@ export function useProducts() {
         return false;
       }
 
+      if (!can('products.manage')) {
+        toast.error('You do not have permission to disable products');
+        return false;
+      }
+
       const { data, error: updateError } = await supabase
         .from('products')
         .update({ is_active: false })
         .eq('id', id)
         .select(`
           *,
-          rack:racks(id, name, color)
+          rack:racks(id, name, color),
+          units:product_units(name, factor, selling_price)
         `)
         .single();
 
@@ -656,13 +725,19 @@ export function useProducts() {
         return false;
       }
 
+      if (!can('products.manage')) {
+        toast.error('You do not have permission to enable products');
+        return false;
+      }
+
       const { data, error: updateError } = await supabase
         .from('products')
         .update({ is_active: true })
         .eq('id', id)
         .select(`
           *,
-          rack:racks(id, name, color)
+          rack:racks(id, name, color),
+          units:product_units(name, factor, selling_price)
         `)
         .single();
 
@@ -701,18 +776,44 @@ export function useProducts() {
     }
     const trimmedBarcode = barcode.trim();
     if (!trimmedBarcode) return undefined;
-    // Only return active products
-    return products.find((p) => p.barcode && p.barcode.trim() === trimmedBarcode && p.is_active !== false) || undefined;
+    // GS1 scans match on their GTIN; only return active products
+    const candidates = barcodeCandidates(trimmedBarcode);
+    return products.find((p) => p.barcode && candidates.includes(p.barcode.trim()) && p.is_active !== false) || undefined;
   }, [products]);
 
+  /**
+   * Find an active product for a scan in the whole catalogue, not just the
+   * products currently loaded (which may be filtered by a search)
+   */
+  const lookupBarcode = useCallback(async (scan: string): Promise<Product | undefined> => {
+    const candidates = barcodeCandidates(scan);
+    try {
+      const { data, error: queryError } = await supabase
+        .from('products')
+        .select('*, rack:racks(id, name, color), units:product_units(name, factor, selling_price)')
+        .in('barcode', candidates)
+        .eq('is_active', true)
+        .limit(1);
+
+      if (queryError) throw queryError;
+
+      return Array.isArray(data) && data.length > 0 ? data[0] : undefined;
+    } catch (err: unknown) {
+      if (!isNetworkError(err)) {
+        console.error('Error looking up barcode:', err);
+      }
+      // Offline: the cached catalogue is the whole catalogue
+      return usePharmacyStore
+        .getState()
+        .cachedProducts.find((p) => p.barcode && candidates.includes(p.barcode.trim()) && p.is_active !== false);
+    }
+  }, []);
+
   const getProductStock = useCallback((productId: string | null | undefined) => {
     if (!productId || typeof productId !== 'string') {
       return 0;
     }
-    const today = new Date().toISOString().split('T')[0];
-    return batches
-      .filter((b) => b && b.product_id === productId && b.expiry_date >= today)
-      .reduce((sum, b) => sum + (b.quantity || 0), 0);
+    return unexpiredStock(batches, productId);
   }, [batches]);
 
   const getProductBatches = useCallback((productId: string | null | undefined) => {
@@ -751,13 +852,18 @@ export function useProducts() {
       .sort((a, b) => a.expiry_date.localeCompare(b.expiry_date));
   }, [batches]);
 
-  const addBatch = async (batch: Omit<StockBatch, 'id' | 'created_at' | 'created_by'>) => {
+  const addBatch = async (batch: Omit<StockBatch, 'id' | 'created_at' | 'created_by' | 'branch_id'>) => {
     try {
       if (!user?.id) {
         toast.error('You must be logged in to add stock batches');
         return null;
       }
 
+      if (!can('stock.receive')) {
+        toast.error('You do not have permission to receive stock');
+        return null;
+      }
+
       const { data, error: insertError } = await supabase
         .from('stock_batches')
         .insert({
@@ -790,17 +896,38 @@ export function useProducts() {
     }
   };
 
-  const updateBatchQuantity = async (batchId: string, newQuantity: number) => {
+  /**
+   * Correct a batch to a counted quantity. This raises a count correction
+   * adjustment for an owner to approve rather than overwriting the stock.
+   */
+  const updateBatchQuantity = async (batchId: string, newQuantity: number, notes?: string) => {
     try {
-      const { error } = await supabase
-        .from('stock_batches')
-        .update({ quantity: newQuantity })
-        .eq('id', batchId);
+      if (!can('stock.receive')) {
+        toast.error('You do not have permission to change stock quantities');
+        return false;
+      }
+
+      const batch = batches.find((b) => b.id === batchId);
+      if (!batch) {
+        toast.error('Batch not found');
+        return false;
+      }
+
+      const delta = newQuantity - batch.quantity;
+      if (delta === 0) return true;
+
+      const { data, error } = await supabase.rpc('submit_stock_adjustment', {
+        p_reason: 'count_correction',
+        p_items: [{ batch_id: batchId, quantity_delta: delta }],
+        p_notes: notes?.trim() || null,
+      });
 
       if (error) throw error;
 
-      setBatches((prev) =>
-        prev.map((b) => (b.id === batchId ? { ...b, quantity: newQuantity } : b))
+      toast.success(
+        data?.adjustment_number
+          ? `Adjustment ${data.adjustment_number} sent for approval`
+          : 'Adjustment sent for approval'
       );
       return true;
     } catch (err: unknown) {
@@ -826,6 +953,7 @@ export function useProducts() {
     disableProduct,
     enableProduct,
     getProductByBarcode,
+    lookupBarcode,
     getProductStock,
     getProductBatches,
     getAvailableBatches,
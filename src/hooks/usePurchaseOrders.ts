@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  created_at: string;
+  products: { name: string; strength: string | null } | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  suppliers: { name: string } | null;
+  purchase_order_items: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderLineInput {
+  product_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface SupplierFillRate {
+  supplierId: string;
+  supplierName: string;
+  orders: number;
+  quantityOrdered: number;
+  quantityReceived: number;
+  valueOrdered: number;
+  valueReceived: number;
+  fillRate: number; // 0..1, received / ordered
+}
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const MAX_RECORDS_PER_QUERY = 1000;
+
+/**
+ * Compare ordered and received quantities per supplier.
+ * Drafts are left out because nothing has been asked of the supplier yet.
+ */
+export function getSupplierFillRates(orders: PurchaseOrder[]): SupplierFillRate[] {
+  const bySupplier = new Map<string, SupplierFillRate>();
+
+  for (const order of orders) {
+    if (order.status === 'draft') continue;
+
+    const entry = bySupplier.get(order.supplier_id) ?? {
+      supplierId: order.supplier_id,
+      supplierName: order.suppliers?.name || 'Unknown Supplier',
+      orders: 0,
+      quantityOrdered: 0,
+      quantityReceived: 0,
+      valueOrdered: 0,
+      valueReceived: 0,
+      fillRate: 0,
+    };
+
+    entry.orders += 1;
+    for (const item of order.purchase_order_items) {
+      entry.quantityOrdered += item.quantity_ordered;
+      entry.quantityReceived += item.quantity_received;
+      entry.valueOrdered += item.quantity_ordered * Number(item.unit_cost);
+      entry.valueReceived += item.quantity_received * Number(item.unit_cost);
+    }
+    bySupplier.set(order.supplier_id, entry);
+  }
+
+  return [...bySupplier.values()]
+    .map((entry) => ({
+      ...entry,
+      fillRate: entry.quantityOrdered > 0 ? entry.quantityReceived / entry.quantityOrdered : 0,
+    }))
+    .sort((a, b) => a.supplierName.localeCompare(b.supplierName));
+}
+
+export function usePurchaseOrders() {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('purchase_orders')
+        .select('*, suppliers(name), purchase_order_items(*, products(name, strength))')
+        .order('created_at', { ascending: false })
+        .limit(MAX_RECORDS_PER_QUERY);
+
+      if (queryError) {
+        throw queryError;
+      }
+
+      setOrders(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load purchase orders';
+      console.error('Error fetching purchase orders:', err);
+      setError(errorMessage);
+      toast.error('Failed to load purchase orders');
+      setOrders([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const createPurchaseOrder = async (
+    supplierId: string,
+    items: PurchaseOrderLineInput[],
+    expectedDate?: string,
+    notes?: string
+  ) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to create purchase orders');
+        return null;
+      }
+
+      if (!supplierId) {
+        toast.error('Please select a supplier');
+        return null;
+      }
+
+      if (items.length === 0) {
+        toast.error('Add at least one product to the order');
+        return null;
+      }
+
+      if (items.some((item) => !Number.isInteger(item.quantity) || item.quantity <= 0)) {
+        toast.error('Quantities must be positive whole numbers');
+        return null;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('create_purchase_order', {
+        p_supplier_id: supplierId,
+        p_items: items,
+        p_expected_date: expectedDate || null,
+        p_notes: notes || null,
+      });
+
+      if (rpcError) {
+        if (rpcError.code === '23505') {
+          toast.error('Each product can only appear once on an order');
+          return null;
+        }
+        throw rpcError;
+      }
+
+      await fetchOrders();
+      toast.success(`Purchase order ${data?.po_number ?? ''} created`.trim());
+      return data as Omit<PurchaseOrder, 'suppliers' | 'purchase_order_items'>;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create purchase order';
+      console.error('Error creating purchase order:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const updateStatus = async (id: string, status: Extract<PurchaseOrderStatus, 'sent' | 'cancelled'>) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to update purchase orders');
+        return false;
+      }
+
+      const order = orders.find((o) => o.id === id);
+      if (!order) {
+        toast.error('Purchase order not found');
+        return false;
+      }
+
+      if (status === 'sent' && order.status !== 'draft') {
+        toast.error('Only draft orders can be marked as sent');
+        return false;
+      }
+
+      if (status === 'cancelled' && (order.status === 'received' || order.status === 'cancelled')) {
+        toast.error(`A ${PO_STATUS_LABELS[order.status].toLowerCase()} order cannot be cancelled`);
+        return false;
+      }
+
+      const { error: updateError } = await supabase
+        .from('purchase_orders')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setOrders((prev) => prev.map((o) => (o.id === id ? { ...o, status } : o)));
+      toast.success(status === 'sent' ? 'Order marked as sent' : 'Order cancelled');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update purchase order';
+      console.error('Error updating purchase order:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    orders,
+    loading,
+    error,
+    createPurchaseOrder,
+    updateStatus,
+    refetch: fetchOrders,
+  };
+}
@@ -1,12 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { useAuth } from './useAuth';
 
 export interface Rack {
   id: string;
   name: string;
   color: string;
   description: string | null;
+  branch_id: string;
   created_at: string;
 }
 
@@ -14,6 +16,7 @@ export function useRacks() {
   const [racks, setRacks] = useState<Rack[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { branchId, can } = useAuth();
 
   // Maximum number of records to fetch per query (pagination limit)
   const MAX_RECORDS_PER_QUERY = 1000;
@@ -21,11 +24,17 @@ export function useRacks() {
   const fetchRacks = useCallback(async () => {
     try {
       setError(null);
-      const { data, error: queryError } = await supabase
+      let query = supabase
         .from('racks')
         .select('*')
         .order('name')
         .limit(MAX_RECORDS_PER_QUERY);
+
+      if (branchId) {
+        query = query.eq('branch_id', branchId);
+      }
+
+      const { data, error: queryError } = await query;
       
       if (queryError) {
         throw queryError;
@@ -42,7 +51,7 @@ export function useRacks() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [branchId]);
 
   useEffect(() => {
     fetchRacks();
@@ -50,6 +59,11 @@ export function useRacks() {
 
   const addRack = async (name: string, color: string, description?: string) => {
     try {
+      if (!can('racks.manage')) {
+        toast.error('You do not have permission to add racks');
+        return null;
+      }
+
       if (!name || typeof name !== 'string' || name.trim() === '') {
         toast.error('Rack name is required');
         return null;
@@ -94,6 +108,11 @@ export function useRacks() {
 
   const updateRack = async (id: string, updates: Partial<Rack>) => {
     try {
+      if (!can('racks.manage')) {
+        toast.error('You do not have permission to update racks');
+        return false;
+      }
+
       if (!id || typeof id !== 'string') {
         toast.error('Invalid rack ID');
         return false;
@@ -123,6 +142,11 @@ export function useRacks() {
 
   const deleteRack = async (id: string) => {
     try {
+      if (!can('racks.manage')) {
+        toast.error('You do not have permission to delete racks');
+        return false;
+      }
+
       if (!id || typeof id !== 'string') {
         toast.error('Invalid rack ID');
         return false;
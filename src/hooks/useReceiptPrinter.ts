@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import type { ReceiptData } from '@/contexts/ReceiptContext';
+import { usePharmacyStore } from '@/store/pharmacyStore';
+import { printEscPosReceipt } from '@/lib/receiptPrinter';
+import { useBranches } from './useBranches';
+import { useSettings } from './useSettings';
+
+/**
+ * This till's thermal printer. print() resolves false when no printer is
+ * set up or it could not be reached, so the caller can fall back to the
+ * browser's print dialog.
+ */
+export function useReceiptPrinter() {
+  const settings = usePharmacyStore((state) => state.receiptPrinter);
+  const { branches, currentBranch } = useBranches();
+  const { settings: store } = useSettings();
+
+  const print = useCallback(
+    async (data: ReceiptData): Promise<boolean> => {
+      if (!settings.endpoint) return false;
+      // Reprints show the branch the sale was made in
+      const branch = branches.find((b) => b.id === data.branchId) ?? currentBranch;
+      return printEscPosReceipt(settings, store, data, branch);
+    },
+    [settings, store, branches, currentBranch]
+  );
+
+  return {
+    settings,
+    enabled: Boolean(settings.endpoint),
+    branch: currentBranch,
+    store,
+    print,
+  };
+}
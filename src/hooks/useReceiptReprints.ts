@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+
+export type ReprintFormat = 'thermal' | 'browser' | 'pdf';
+
+export interface ReceiptReprint {
+  id: string;
+  sale_id: string;
+  format: ReprintFormat;
+  reprinted_by: string;
+  reprinted_at: string;
+}
+
+/**
+ * Reprints and PDF downloads of one sale's receipt, newest first
+ */
+export function useReceiptReprints(saleId: string | null | undefined) {
+  const [reprints, setReprints] = useState<ReceiptReprint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const fetchReprints = useCallback(async () => {
+    if (!saleId) {
+      setReprints([]);
+      return;
+    }
+    try {
+      setLoading(true);
+      const { data, error: queryError } = await supabase
+        .from('receipt_reprints')
+        .select('*')
+        .eq('sale_id', saleId)
+        .order('reprinted_at', { ascending: false });
+
+      if (queryError) throw queryError;
+
+      setReprints(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      console.error('Error fetching receipt reprints:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [saleId]);
+
+  useEffect(() => {
+    fetchReprints();
+  }, [fetchReprints]);
+
+  /**
+   * Record a reprint. Call it before printing or downloading, and give no
+   * copy out when it returns false, so every duplicate is in the log.
+   */
+  const logReprint = async (format: ReprintFormat) => {
+    try {
+      if (!saleId || !user) return false;
+
+      const { error: insertError } = await supabase
+        .from('receipt_reprints')
+        .insert({ sale_id: saleId, format, reprinted_by: user.id });
+
+      if (insertError) throw insertError;
+
+      await fetchReprints();
+      return true;
+    } catch (err: unknown) {
+      console.error('Error logging receipt reprint:', err);
+      toast.error('Could not record the reprint', {
+        description: 'No copy was printed. Check your connection and try again.',
+      });
+      return false;
+    }
+  };
+
+  return {
+    reprints,
+    loading,
+    logReprint,
+    refetch: fetchReprints,
+  };
+}
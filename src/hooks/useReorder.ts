@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { useProducts } from './useProducts';
+import { useSuppliers } from './useSuppliers';
+import { usePurchaseOrders } from './usePurchaseOrders';
+import { buildReorderGroups, ReorderProductInput, ReorderSettings } from '@/lib/reorder';
+
+/**
+ * Reorder suggestions from sales velocity, stock on hand and open purchase orders
+ */
+export function useReorder(settings: ReorderSettings) {
+  const { branchId } = useAuth();
+  const { products, batches, getProductStock, loading: productsLoading } = useProducts();
+  const { suppliers, loading: suppliersLoading } = useSuppliers();
+  const { orders, loading: ordersLoading, createPurchaseOrder } = usePurchaseOrders();
+  const [unitsSold, setUnitsSold] = useState<Map<string, number>>(new Map());
+  const [velocityLoading, setVelocityLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { historyDays } = settings;
+
+  const fetchVelocity = useCallback(async () => {
+    try {
+      setError(null);
+      setVelocityLoading(true);
+      const { data, error: rpcError } = await supabase.rpc('product_sales_velocity', { p_days: historyDays });
+
+      if (rpcError) {
+        throw rpcError;
+      }
+
+      const rows: { product_id: string; units_sold: number }[] = Array.isArray(data) ? data : [];
+      setUnitsSold(new Map(rows.map((row) => [row.product_id, Number(row.units_sold) || 0])));
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load sales history';
+      console.error('Error fetching sales velocity:', err);
+      setError(errorMessage);
+      toast.error('Failed to load sales history');
+      setUnitsSold(new Map());
+    } finally {
+      setVelocityLoading(false);
+    }
+  }, [historyDays]);
+
+  // Velocity is per branch, so a branch switch needs a fresh read
+  useEffect(() => {
+    fetchVelocity();
+  }, [fetchVelocity, branchId]);
+
+  const groups = useMemo(() => {
+    const supplierById = new Map(suppliers.map((s) => [s.id, s]));
+
+    // Units still expected on orders the supplier already has
+    const onOrder = new Map<string, number>();
+    for (const order of orders) {
+      if (order.status !== 'sent' && order.status !== 'partially_received') continue;
+      for (const item of order.purchase_order_items) {
+        const outstanding = Math.max(item.quantity_ordered - item.quantity_received, 0);
+        onOrder.set(item.product_id, (onOrder.get(item.product_id) || 0) + outstanding);
+      }
+    }
+
+    // Latest batch per product, for the fallback supplier and last cost
+    const latestBatch = new Map<string, (typeof batches)[number]>();
+    for (const batch of batches) {
+      const current = latestBatch.get(batch.product_id);
+      if (!current || batch.purchase_date > current.purchase_date) {
+        latestBatch.set(batch.product_id, batch);
+      }
+    }
+
+    const inputs: ReorderProductInput[] = products
+      .filter((p) => p.is_active)
+      .map((product) => {
+        const batch = latestBatch.get(product.id);
+        const supplierId = product.preferred_supplier_id || batch?.supplier_id || null;
+        const supplier = supplierId ? supplierById.get(supplierId) : undefined;
+        return {
+          productId: product.id,
+          name: product.name,
+          strength: product.strength,
+          minStock: product.min_stock || 0,
+          currentStock: getProductStock(product.id),
+          onOrder: onOrder.get(product.id) || 0,
+          unitsSold: unitsSold.get(product.id) || 0,
+          supplierId: supplier ? supplier.id : null,
+          supplierName: supplier?.name ?? null,
+          leadTimeDays: supplier?.lead_time_days ?? null,
+          lastCost: batch ? Number(batch.cost_price) : null,
+        };
+      });
+
+    return buildReorderGroups(inputs, settings);
+  }, [products, batches, suppliers, orders, unitsSold, getProductStock, settings]);
+
+  return {
+    groups,
+    loading: productsLoading || suppliersLoading || ordersLoading || velocityLoading,
+    error,
+    createPurchaseOrder,
+    refetch: fetchVelocity,
+  };
+}
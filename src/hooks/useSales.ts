@@ -1,7 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { addDays, parseISO, startOfDay } from 'date-fns';
 import { useAuth } from './useAuth';
+import { usePharmacyStore } from '@/store/pharmacyStore';
+import { isNetworkError } from '@/lib/offline';
+import type { PrescriptionDetails } from '@/lib/drugSchedules';
+import type { InteractionAcknowledgement } from '@/lib/interactions';
+import { summarizeMethod, type SalePayment, type TenderLine } from '@/lib/tender';
+import type { PendingSale } from '@/types/pharmacy';
 
 export interface BatchDeduction {
   batch_id: string;
@@ -19,6 +26,9 @@ export interface SaleItem {
   unit_price: number;
   total: number;
   batch_deductions: BatchDeduction[] | null;
+  // Sold as unit_name packs of unit_factor; quantity and unit_price stay per base unit
+  unit_name?: string | null;
+  unit_factor?: number;
 }
 
 export interface ReturnItem {
@@ -41,10 +51,13 @@ export interface Sale {
   total: number;
   payment_method: string;
   cashier_id: string | null;
+  customer_id?: string | null;
+  branch_id?: string;
   created_at: string;
   discount?: number;
   items?: SaleItem[];
   returns?: SalesReturn[];
+  payments?: SalePayment[];
 }
 
 export interface CartItem {
@@ -55,13 +68,27 @@ export interface CartItem {
   unit_price: number;
   total: number;
   available_stock: number;
+  // quantity and unit_price are per pack when unit_factor > 1
+  unit_name?: string;
+  unit_factor?: number;
+  batch_number?: string; // Sold ahead of FEFO when it is in stock
 }
 
+// Receipt viewer search; every field given must match
+export interface SaleSearch {
+  receiptNumber?: string;
+  date?: string; // yyyy-MM-dd
+  amount?: number | null;
+}
+
+const MAX_SEARCH_SCAN = 200;
+const MAX_SEARCH_RESULTS = 50;
+
 export function useSales() {
   const [sales, setSales] = useState<Sale[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   // Maximum number of records to fetch per query (pagination limit)
   const MAX_RECORDS_PER_QUERY = 1000;
@@ -74,8 +101,9 @@ export function useSales() {
       const { data, error: queryError } = await supabase
         .from('sales')
         .select(`
-          id, receipt_number, total, payment_method, cashier_id, created_at, discount,
-          items:sale_items(id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions),
+          id, receipt_number, total, payment_method, cashier_id, customer_id, branch_id, created_at, discount,
+          items:sale_items(id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor),
+          payments:sale_payments(method, amount, tendered, reference),
           returns:sales_returns(id, receipt_number, created_at, return_items(id, sale_item_id, quantity, product_id))
         `)
         .order('created_at', { ascending: false })
@@ -89,7 +117,7 @@ export function useSales() {
             .from('sales')
             .select(`
               id, receipt_number, total, payment_method, cashier_id, created_at,
-              items:sale_items(id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions),
+              items:sale_items(id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor),
               returns:sales_returns(id, receipt_number, created_at, return_items(id, sale_item_id, quantity, product_id))
             `)
             .order('created_at', { ascending: false })
@@ -117,7 +145,9 @@ export function useSales() {
         code: errorDetails && 'code' in errorDetails ? errorDetails.code : undefined,
       });
       setError(errorMessage);
-      toast.error('Failed to load sales');
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load sales');
+      }
       setSales([]); // Set empty array on error
     } finally {
       setLoading(false);
@@ -128,189 +158,162 @@ export function useSales() {
     fetchSales();
   }, [fetchSales]);
 
-  const generateReceiptNumber = async () => {
-    try {
-      const { data } = await supabase
-        .from('sales')
-        .select('receipt_number')
-        .ilike('receipt_number', 'KP-%')
-        .order('receipt_number', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      let nextNum = 1;
-      if (data && data.receipt_number) {
-        const parts = data.receipt_number.split('-');
-        if (parts.length === 2) {
-          const num = parseInt(parts[1], 10);
-          if (!isNaN(num)) {
-            nextNum = num + 1;
-          }
-        }
-      }
-      return `KP-${nextNum.toString().padStart(5, '0')}`;
-    } catch (error) {
-      console.error('Error generating receipt number:', error);
-      throw new Error('Failed to generate receipt number');
-    }
+  // Record the sale locally so the counter keeps selling; useOfflineSync
+  // replays it through process_sale with the same client_ref later
+  const queueOfflineSale = (pending: PendingSale): Sale => {
+    usePharmacyStore.getState().queueOfflineSale(pending);
+    return {
+      id: pending.clientRef,
+      receipt_number: pending.provisionalReceipt,
+      total: pending.items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0),
+      payment_method: pending.paymentMethod,
+      cashier_id: pending.cashierId,
+      customer_id: pending.customerId ?? null,
+      created_at: pending.soldAt,
+      discount: pending.discount,
+      items: [],
+      returns: [],
+      payments: (pending.payments ?? []).map((line) => ({
+        method: line.method,
+        amount: line.amount,
+        tendered: line.tendered ?? null,
+        reference: line.reference ?? null,
+      })),
+    };
   };
 
-  interface AvailableBatch {
-    id: string;
-    batch_number: string;
-    quantity: number;
-    expiry_date: string;
-  }
-
   const processSale = async (
     items: CartItem[],
-    paymentMethod: string,
-    getAvailableBatches: (productId: string) => AvailableBatch[]
-  ): Promise<{ success: boolean; error?: string; sale?: Sale }> => {
-    try {
-      // Validate stock and prepare batch deductions
-      const itemsWithDeductions: Array<{
-        product_id: string;
-        product_name: string;
-        quantity: number;
-        unit_price: number;
-        total: number;
-        batch_deductions: BatchDeduction[];
-      }> = [];
-
-      for (const item of items) {
-        if (!item || !item.product_id || !item.product_name) {
-          return {
-            success: false,
-            error: 'Invalid cart item',
-          };
-        }
-
-        const availableBatches = getAvailableBatches(item.product_id);
-        const totalAvailable = availableBatches.reduce((sum: number, b: AvailableBatch) => {
-          return sum + (b?.quantity || 0);
-        }, 0);
+    payments: TenderLine[],
+    discount = 0,
+    options: {
+      prescription?: PrescriptionDetails;
+      customerId?: string | null;
+      interactions?: InteractionAcknowledgement;
+    } = {}
+  ): Promise<{ success: boolean; error?: string; sale?: Sale; queued?: boolean }> => {
+    if (!can('sales.create')) {
+      return { success: false, error: 'You do not have permission to process sales' };
+    }
 
-        if (totalAvailable < item.quantity) {
-          return {
-            success: false,
-            error: `Insufficient stock for ${item.product_name}. Available: ${totalAvailable}`,
-          };
-        }
+    if (!Array.isArray(items) || items.length === 0) {
+      return { success: false, error: 'Cart is empty' };
+    }
 
-        // Calculate FEFO deductions
-        let remainingQty = item.quantity;
-        const deductions: BatchDeduction[] = [];
+    if (!Array.isArray(payments) || payments.length === 0) {
+      return { success: false, error: 'Add at least one payment' };
+    }
 
-        for (const batch of availableBatches) {
-          if (remainingQty <= 0 || !batch) break;
+    for (const item of items) {
+      if (!item || !item.product_id || !item.product_name) {
+        return {
+          success: false,
+          error: 'Invalid cart item',
+        };
+      }
+    }
 
-          const deductQty = Math.min(batch.quantity || 0, remainingQty);
-          if (deductQty <= 0) continue;
+    const clientRef = crypto.randomUUID();
+    const payloadItems = items.map((item) => ({
+      product_id: item.product_id,
+      product_name: item.product_name,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      unit_factor: item.unit_factor ?? 1,
+      batch_number: item.batch_number ?? null,
+    }));
+    const pending: PendingSale = {
+      clientRef,
+      provisionalReceipt: `OFF-${clientRef.slice(0, 8).toUpperCase()}`,
+      items: payloadItems,
+      paymentMethod: summarizeMethod(payments),
+      payments,
+      discount,
+      soldAt: new Date().toISOString(),
+      cashierId: user?.id ?? null,
+      customerId: options.customerId ?? null,
+    };
+    const { prescription, interactions } = options;
+
+    // The prescription scan and the pharmacist's acknowledgement have to be
+    // stored with the sale, so neither is sold into the offline queue
+    if (!navigator.onLine) {
+      if (prescription) {
+        return { success: false, error: 'Scheduled drugs can only be sold while online' };
+      }
+      if (interactions) {
+        return { success: false, error: 'Sales with acknowledged interactions can only be made while online' };
+      }
+      return { success: true, sale: queueOfflineSale(pending), queued: true };
+    }
 
-          deductions.push({
-            batch_id: batch.id,
-            batch_number: batch.batch_number || '',
-            quantity: deductQty,
-            expiry_date: batch.expiry_date || '',
-          });
-          remainingQty -= deductQty;
+    try {
+      let prescriptionPayload = null;
+      if (prescription) {
+        if (!prescription.image) {
+          return { success: false, error: 'Attach a photo or scan of the prescription' };
         }
 
-        itemsWithDeductions.push({
-          product_id: item.product_id,
-          product_name: item.product_name,
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-          total: item.total,
-          batch_deductions: deductions,
-        });
+        const extension = prescription.image.name.split('.').pop()?.toLowerCase() || 'jpg';
+        const imagePath = `${new Date().getFullYear()}/${clientRef}.${extension}`;
+        const { error: uploadError } = await supabase.storage
+          .from('prescriptions')
+          .upload(imagePath, prescription.image, { contentType: prescription.image.type });
+
+        if (uploadError) throw uploadError;
+
+        prescriptionPayload = {
+          doctor_name: prescription.doctorName.trim(),
+          doctor_pmdc_number: prescription.doctorPmdcNumber.trim(),
+          patient_name: prescription.patientName.trim(),
+          patient_cnic: prescription.patientCnic.trim(),
+          image_path: imagePath,
+        };
       }
 
-      // Create sale record
-      const receiptNumber = await generateReceiptNumber();
-      const total = items.reduce((sum, item) => sum + item.total, 0);
-
-      const { data: saleData, error: saleError } = await supabase
-        .from('sales')
-        .insert({
-          receipt_number: receiptNumber,
-          total,
-          payment_method: paymentMethod,
-          cashier_id: user?.id,
-        })
-        .select()
-        .single();
-
-      if (saleError) throw saleError;
-
-      // Create sale items
-      const saleItems = itemsWithDeductions.map((item) => ({
-        sale_id: saleData.id,
-        product_id: item.product_id,
-        product_name: item.product_name,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        total: item.total,
-        batch_deductions: item.batch_deductions,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('sale_items')
-        .insert(saleItems);
+      // Batch selection (FEFO), locking and stock deduction happen inside the
+      // process_sale transaction so concurrent tills cannot oversell a batch
+      const { data, error: rpcError } = await supabase.rpc('process_sale', {
+        p_items: payloadItems,
+        p_payment_method: pending.paymentMethod,
+        p_discount: discount,
+        p_client_ref: clientRef,
+        p_prescription: prescriptionPayload,
+        p_customer_id: options.customerId ?? null,
+        p_payments: payments,
+        p_interactions: interactions
+          ? {
+              note: interactions.note.trim(),
+              interactions: interactions.interactions.map((interaction) => ({
+                severity: interaction.severity,
+                kind: interaction.kind,
+                products: interaction.products,
+                ingredients: interaction.ingredients,
+                description: interaction.description,
+              })),
+            }
+          : null,
+      });
 
-      if (itemsError) throw itemsError;
+      if (rpcError) throw rpcError;
 
-      // Optimize batch quantity updates - batch multiple updates together
-      // Collect all batch updates first
-      const batchUpdates: Array<{ id: string; quantity: number }> = [];
-      const batchIdsToFetch = new Set<string>();
-      
-      for (const item of itemsWithDeductions) {
-        for (const deduction of item.batch_deductions) {
-          batchIdsToFetch.add(deduction.batch_id);
-        }
+      if (!data) {
+        return { success: false, error: 'Sale was not created' };
       }
 
-      // Fetch all current batch quantities in a single query
-      if (batchIdsToFetch.size > 0) {
-        const { data: currentBatches } = await supabase
-          .from('stock_batches')
-          .select('id, quantity')
-          .in('id', Array.from(batchIdsToFetch));
-
-        if (currentBatches) {
-          const batchMap = new Map(currentBatches.map(b => [b.id, b.quantity]));
-          
-          // Calculate new quantities
-          for (const item of itemsWithDeductions) {
-            for (const deduction of item.batch_deductions) {
-              const currentQty = batchMap.get(deduction.batch_id) || 0;
-              const newQty = currentQty - deduction.quantity;
-              batchUpdates.push({ id: deduction.batch_id, quantity: newQty });
-            }
-          }
+      await fetchSales();
 
-          // Execute all updates in parallel using Promise.all
-          await Promise.all(
-            batchUpdates.map(update =>
-              supabase
-                .from('stock_batches')
-                .update({ quantity: update.quantity })
-                .eq('id', update.id)
-            )
-          );
+      return { success: true, sale: data as Sale };
+    } catch (err: unknown) {
+      // Connection dropped mid-checkout: the server may or may not have the
+      // sale, but replaying the same client_ref is safe either way
+      if (isNetworkError(err)) {
+        if (prescription || interactions) {
+          return { success: false, error: 'Connection lost. Check Sales History before trying this sale again' };
         }
+        return { success: true, sale: queueOfflineSale(pending), queued: true };
       }
 
-      await fetchSales();
-      
-      if (!saleData) {
-        return { success: false, error: 'Sale was not created' };
-      }
-
-      return { success: true, sale: saleData as Sale };
-    } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to process sale';
       console.error('Error processing sale:', err);
       return { success: false, error: errorMessage };
@@ -328,22 +331,20 @@ export function useSales() {
     returnReason: string
   ): Promise<{ success: boolean; error?: string }> => {
     try {
+      if (!can('sales.return')) {
+        return { success: false, error: 'You do not have permission to process returns' };
+      }
+
       if (!saleId || !returnItems.length) {
         return { success: false, error: 'Invalid return request' };
       }
 
-      // Generate Return Receipt Number
-      const date = new Date();
-      const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
-      const timeStr = date.getTime().toString().slice(-6);
-      const receiptNumber = `RET-${dateStr}-${timeStr}`;
-
       // 1. Create Sales Return Record
+      // receipt_number is assigned by the database from the 'return' document sequence
       const { data: returnData, error: returnError } = await supabase
         .from('sales_returns')
         .insert({
           sale_id: saleId,
-          receipt_number: receiptNumber,
           return_reason: returnReason,
           returned_by: user?.id,
         })
@@ -455,6 +456,7 @@ export function useSales() {
         .select(`
           *,
           items:sale_items(*),
+          payments:sale_payments(method, amount, tendered, reference),
           returns:sales_returns(id, receipt_number, created_at, return_items(id, sale_item_id, quantity, product_id))
         `)
         .eq('receipt_number', receiptNumber)
@@ -472,6 +474,53 @@ export function useSales() {
     }
   };
 
+  /**
+   * Past sales for the receipt viewer, newest first. The amount matches either
+   * the subtotal or what was paid after the discount.
+   */
+  const findSales = async (search: SaleSearch): Promise<Sale[]> => {
+    try {
+      const receiptNumber = search.receiptNumber?.trim();
+      if (!receiptNumber && !search.date && search.amount == null) {
+        return [];
+      }
+
+      let query = supabase
+        .from('sales')
+        .select(`
+          *,
+          items:sale_items(*),
+          payments:sale_payments(method, amount, tendered, reference),
+          returns:sales_returns(id, receipt_number, created_at, return_items(id, sale_item_id, quantity, product_id))
+        `)
+        .order('created_at', { ascending: false })
+        .limit(MAX_SEARCH_SCAN);
+
+      if (receiptNumber) query = query.ilike('receipt_number', `%${receiptNumber}%`);
+      if (search.date) {
+        const from = startOfDay(parseISO(search.date));
+        query = query.gte('created_at', from.toISOString()).lt('created_at', addDays(from, 1).toISOString());
+      }
+      // The paid amount is never more than the subtotal
+      if (search.amount != null) query = query.gte('total', search.amount - 0.01);
+
+      const { data, error: queryError } = await query;
+      if (queryError) throw queryError;
+
+      const found = (Array.isArray(data) ? data : []) as unknown as Sale[];
+      const matchesAmount = (sale: Sale) =>
+        search.amount == null ||
+        Math.abs(sale.total - search.amount) < 0.01 ||
+        Math.abs(sale.total - (sale.discount || 0) - search.amount) < 0.01;
+      return found.filter(matchesAmount).slice(0, MAX_SEARCH_RESULTS);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to search sales';
+      console.error('Error searching sales:', err);
+      toast.error(errorMessage);
+      return [];
+    }
+  };
+
   // Memoize refetch function to prevent unnecessary re-renders
   const stableRefetch = useCallback(() => {
     return fetchSales();
@@ -484,6 +533,7 @@ export function useSales() {
     processSale,
     processReturn,
     getSaleByReceipt,
+    findSales,
     refetch: stableRefetch,
   };
 }
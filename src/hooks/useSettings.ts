@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { usePharmacyStore } from '@/store/pharmacyStore';
+import { BRANDING } from '@/config/branding';
+import type { PaperWidth } from '@/lib/escpos';
+import type { TenderMethod } from '@/lib/tender';
+
+export interface StoreSettings {
+  store_name: string;
+  tagline: string | null;
+  address: string | null;
+  license_number: string | null;
+  phone: string | null;
+  email: string | null;
+  logo_url: string | null;
+  receipt_header: string | null; // Extra lines under the store details, e.g. NTN
+  receipt_footer: string | null;
+  return_policy: string | null;
+  expiry_warning_days: number;
+  short_expiry_days: number; // Flagged while receiving goods
+  return_window_hours: number;
+  max_discount_percent: number; // Owners are not limited
+  receipt_paper_width: PaperWidth;
+  default_payment_method: TenderMethod;
+  updated_by?: string | null;
+  updated_at?: string;
+}
+
+export type StoreSettingsInput = Omit<StoreSettings, 'updated_by' | 'updated_at'>;
+
+// Methods a sale can start with; credit always needs a customer first
+export const DEFAULT_PAYMENT_METHODS: TenderMethod[] = ['cash', 'card', 'jazzcash', 'easypaisa'];
+
+// Used until the settings row has loaded
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  store_name: BRANDING.name,
+  tagline: BRANDING.tagline,
+  address: BRANDING.address,
+  license_number: BRANDING.license,
+  phone: BRANDING.phone || null,
+  email: BRANDING.email || null,
+  logo_url: null,
+  receipt_header: null,
+  receipt_footer: BRANDING.footer,
+  return_policy: BRANDING.returnPolicy,
+  expiry_warning_days: 30,
+  short_expiry_days: 90,
+  return_window_hours: 48,
+  max_discount_percent: 100,
+  receipt_paper_width: 80,
+  default_payment_method: 'cash',
+};
+
+const MAX_LOGO_BYTES = 1024 * 1024;
+
+const trimOrNull = (value: string | null | undefined) => value?.trim() || null;
+
+/**
+ * Store-wide settings. Reads come from the last copy fetched (or the
+ * defaults) straight away and refresh in the background, so pages never
+ * wait on them and keep working offline.
+ */
+export function useSettings() {
+  const cached = usePharmacyStore((state) => state.storeSettings);
+  const cacheStoreSettings = usePharmacyStore((state) => state.cacheStoreSettings);
+  // True until this copy has been refreshed; settings are usable before that
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('store_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (queryError) throw queryError;
+
+      if (data) {
+        cacheStoreSettings({ ...data, max_discount_percent: Number(data.max_discount_percent) });
+      }
+    } catch (err: unknown) {
+      // Pages carry on with the cached or default values
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load store settings';
+      console.error('Error fetching store settings:', err);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [cacheStoreSettings]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSettings = async (updates: Partial<StoreSettingsInput>) => {
+    try {
+      if (!can('settings.manage')) {
+        toast.error('You do not have permission to change settings');
+        return false;
+      }
+
+      if (updates.store_name !== undefined && !updates.store_name.trim()) {
+        toast.error('Store name is required');
+        return false;
+      }
+
+      const payload: Partial<StoreSettingsInput> = { ...updates };
+      if (updates.store_name !== undefined) payload.store_name = updates.store_name.trim();
+      for (const key of [
+        'tagline',
+        'address',
+        'license_number',
+        'phone',
+        'email',
+        'logo_url',
+        'receipt_header',
+        'receipt_footer',
+        'return_policy',
+      ] as const) {
+        if (key in updates) payload[key] = trimOrNull(updates[key]);
+      }
+
+      const { data, error: updateError } = await supabase
+        .from('store_settings')
+        .update(payload)
+        .eq('id', true)
+        .select()
+        .single();
+
+      if (updateError) {
+        if (updateError.code === '23514') {
+          toast.error('A setting is outside its allowed range');
+          return false;
+        }
+        throw updateError;
+      }
+
+      cacheStoreSettings({ ...data, max_discount_percent: Number(data.max_discount_percent) });
+      toast.success('Settings saved');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save settings';
+      console.error('Error updating store settings:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  /**
+   * Upload a logo image and return its public URL, to save as logo_url
+   */
+  const uploadLogo = async (file: File) => {
+    try {
+      if (!can('settings.manage')) {
+        toast.error('You do not have permission to change settings');
+        return null;
+      }
+
+      if (!file.type.startsWith('image/')) {
+        toast.error('The logo must be an image');
+        return null;
+      }
+      if (file.size > MAX_LOGO_BYTES) {
+        toast.error('The logo must be smaller than 1 MB');
+        return null;
+      }
+
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const path = `logo-${Date.now()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from('store-assets')
+        .upload(path, file, { contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      return supabase.storage.from('store-assets').getPublicUrl(path).data.publicUrl;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to upload logo';
+      console.error('Error uploading logo:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  return {
+    settings: cached ?? DEFAULT_STORE_SETTINGS,
+    loading,
+    error,
+    refetch: fetchSettings,
+    updateSettings,
+    uploadLogo,
+  };
+}
@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { isNetworkError } from '@/lib/offline';
+import type { TenderMethod } from '@/lib/tender';
+
+export type CashMovementType = 'cash_in' | 'payout';
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  cash_in: 'Cash in',
+  payout: 'Payout',
+};
+
+export interface ShiftCount {
+  method: TenderMethod;
+  expected: number;
+  counted: number | null;
+}
+
+export interface CashShift {
+  id: string;
+  shift_number: string;
+  cashier_id: string;
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  closed_by: string | null;
+  notes: string | null;
+  counts?: ShiftCount[];
+}
+
+export interface CashMovement {
+  id: number;
+  shift_id: string;
+  movement_type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Shape returned by public.shift_report()
+export interface ShiftReport {
+  shift: CashShift & { cashier_name: string | null };
+  sales_count: number;
+  gross_sales: number;
+  discounts: number;
+  net_sales: number;
+  tenders: { method: TenderMethod; amount: number }[];
+  movements: Pick<CashMovement, 'id' | 'movement_type' | 'amount' | 'reason' | 'created_at'>[];
+  returns: { count: number; amount: number };
+  // Customers paying off their credit in cash
+  credit_payments: { count: number; amount: number };
+  counts: ShiftCount[];
+}
+
+// Recent shifts listed on the Cash Drawer page
+const HISTORY_LIMIT = 100;
+
+export function useShifts() {
+  const [currentShift, setCurrentShift] = useState<CashShift | null>(null);
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [shifts, setShifts] = useState<CashShift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user, can } = useAuth();
+
+  const fetchShifts = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const [currentResult, historyResult] = await Promise.all([
+        supabase
+          .from('cash_shifts')
+          .select('*')
+          .eq('cashier_id', user.id)
+          .is('closed_at', null)
+          .maybeSingle(),
+        supabase
+          .from('cash_shifts')
+          .select('*, counts:cash_shift_counts(method, expected, counted)')
+          .order('opened_at', { ascending: false })
+          .limit(HISTORY_LIMIT),
+      ]);
+
+      if (currentResult.error) throw currentResult.error;
+      if (historyResult.error) throw historyResult.error;
+
+      const open = (currentResult.data as CashShift | null) ?? null;
+      setCurrentShift(open);
+      setShifts(Array.isArray(historyResult.data) ? historyResult.data : []);
+
+      if (open) {
+        const { data, error: movementsError } = await supabase
+          .from('cash_movements')
+          .select('*')
+          .eq('shift_id', open.id)
+          .order('created_at', { ascending: true });
+
+        if (movementsError) throw movementsError;
+        setMovements(Array.isArray(data) ? data : []);
+      } else {
+        setMovements([]);
+      }
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load shifts';
+      console.error('Error fetching shifts:', err);
+      setError(errorMessage);
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load shifts');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchShifts();
+  }, [fetchShifts]);
+
+  const openShift = async (openingFloat: number, notes?: string) => {
+    try {
+      if (!can('sales.create')) {
+        toast.error('You do not have permission to open a shift');
+        return false;
+      }
+
+      if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+        toast.error('Opening float must be zero or more');
+        return false;
+      }
+
+      const { error: rpcError } = await supabase.rpc('open_shift', {
+        p_opening_float: openingFloat,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchShifts();
+      toast.success('Shift opened');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to open shift';
+      console.error('Error opening shift:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const recordMovement = async (movementType: CashMovementType, amount: number, reason: string) => {
+    try {
+      if (!user?.id || !currentShift) {
+        toast.error('Open a shift first');
+        return false;
+      }
+
+      if (!Number.isFinite(amount) || amount <= 0) {
+        toast.error('Amount must be greater than zero');
+        return false;
+      }
+
+      if (!reason.trim()) {
+        toast.error('Enter a reason');
+        return false;
+      }
+
+      const { data, error: insertError } = await supabase
+        .from('cash_movements')
+        .insert({
+          shift_id: currentShift.id,
+          movement_type: movementType,
+          amount: Math.round(amount * 100) / 100,
+          reason: reason.trim(),
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      setMovements((prev) => [...prev, data]);
+      toast.success(movementType === 'payout' ? 'Payout recorded' : 'Cash in recorded');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to record cash movement';
+      console.error('Error recording cash movement:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  /**
+   * Close a shift with the amounts counted per tender
+   * @param counts - Counted amount per tender; cash is required
+   */
+  const closeShift = async (shiftId: string, counts: Partial<Record<TenderMethod, number>>, notes?: string) => {
+    try {
+      if (counts.cash === undefined || !Number.isFinite(counts.cash) || counts.cash < 0) {
+        toast.error('Enter the cash counted in the drawer');
+        return false;
+      }
+
+      const { error: rpcError } = await supabase.rpc('close_shift', {
+        p_shift_id: shiftId,
+        p_counts: counts,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchShifts();
+      toast.success('Shift closed');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to close shift';
+      console.error('Error closing shift:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  /**
+   * X report for an open shift, Z report for a closed one
+   */
+  const fetchReport = async (shiftId: string): Promise<ShiftReport | null> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('shift_report', { p_shift_id: shiftId });
+
+      if (rpcError) throw rpcError;
+
+      return (data as ShiftReport) ?? null;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load shift report';
+      console.error('Error fetching shift report:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  return {
+    currentShift,
+    movements,
+    shifts,
+    loading,
+    error,
+    openShift,
+    recordMovement,
+    closeShift,
+    fetchReport,
+    refetch: fetchShifts,
+  };
+}
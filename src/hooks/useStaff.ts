@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import type { AppRole } from '@/lib/permissions';
+
+export interface StaffMember {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  id_card_number: string | null;
+  address: string | null;
+  email: string | null;
+  role: AppRole | null;
+  is_active: boolean;
+  branch_id: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  invited_at: string | null;
+}
+
+export interface StaffProfileUpdate {
+  full_name: string;
+  phone: string;
+  id_card_number: string;
+  address: string;
+}
+
+// Where invite and password reset emails send the user to choose a password
+const setPasswordRedirect = () => `${window.location.origin}/auth?mode=set-password`;
+
+/**
+ * Call the staff-admin edge function and surface its error message
+ */
+async function invokeStaffAdmin(body: Record<string, unknown>) {
+  const { data, error: fnError } = await supabase.functions.invoke('staff-admin', { body });
+
+  if (fnError) {
+    // Non-2xx responses carry the real reason in the JSON body
+    const details = await fnError.context?.json?.().catch(() => null);
+    throw new Error(details?.error || fnError.message);
+  }
+
+  return data;
+}
+
+export function useStaff() {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+
+  const fetchStaff = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: rpcError } = await supabase.rpc('list_staff');
+
+      if (rpcError) throw rpcError;
+
+      setStaff(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load users';
+      console.error('Error fetching users:', err);
+      setError(errorMessage);
+      toast.error(errorMessage);
+      setStaff([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (can('users.manage')) {
+      fetchStaff();
+    } else {
+      setLoading(false);
+    }
+  }, [can, fetchStaff]);
+
+  const inviteStaff = async (email: string, fullName: string, role: AppRole) => {
+    try {
+      if (!email.trim() || !fullName.trim()) {
+        toast.error('Name and email are required');
+        return false;
+      }
+
+      await invokeStaffAdmin({
+        action: 'invite',
+        email: email.trim(),
+        full_name: fullName.trim(),
+        role,
+        redirect_to: setPasswordRedirect(),
+      });
+
+      toast.success('Invitation sent', { description: `${email.trim()} will receive an email to set a password` });
+      await fetchStaff();
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to invite user';
+      console.error('Error inviting user:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const updateProfile = async (userId: string, updates: StaffProfileUpdate) => {
+    try {
+      const { error: rpcError } = await supabase.rpc('update_staff_profile', {
+        p_user_id: userId,
+        p_full_name: updates.full_name,
+        p_phone: updates.phone,
+        p_id_card_number: updates.id_card_number,
+        p_address: updates.address,
+      });
+
+      if (rpcError) throw rpcError;
+
+      toast.success('User updated successfully');
+      await fetchStaff();
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update user';
+      console.error('Error updating user:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const setRole = async (userId: string, role: AppRole) => {
+    try {
+      const { error: rpcError } = await supabase.rpc('set_staff_role', {
+        p_user_id: userId,
+        p_role: role,
+      });
+
+      if (rpcError) throw rpcError;
+
+      setStaff((prev) => prev.map((s) => (s.id === userId ? { ...s, role } : s)));
+      toast.success('Role updated');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update role';
+      console.error('Error updating role:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const setActive = async (userId: string, isActive: boolean) => {
+    try {
+      const { error: rpcError } = await supabase.rpc('set_staff_active', {
+        p_user_id: userId,
+        p_active: isActive,
+      });
+
+      if (rpcError) throw rpcError;
+
+      setStaff((prev) => prev.map((s) => (s.id === userId ? { ...s, is_active: isActive } : s)));
+      toast.success(isActive ? 'Account reactivated' : 'Account deactivated');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update account status';
+      console.error('Error updating account status:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const setBranch = async (userId: string, branchId: string) => {
+    try {
+      const { error: rpcError } = await supabase.rpc('set_staff_branch', {
+        p_user_id: userId,
+        p_branch_id: branchId,
+      });
+
+      if (rpcError) throw rpcError;
+
+      setStaff((prev) => prev.map((s) => (s.id === userId ? { ...s, branch_id: branchId } : s)));
+      toast.success('Branch updated');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update branch';
+      console.error('Error updating branch:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const resetPassword = async (userId: string) => {
+    try {
+      await invokeStaffAdmin({
+        action: 'reset_password',
+        user_id: userId,
+        redirect_to: setPasswordRedirect(),
+      });
+
+      toast.success('Password reset email sent');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send password reset';
+      console.error('Error resetting password:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    staff,
+    loading,
+    error,
+    inviteStaff,
+    updateProfile,
+    setRole,
+    setActive,
+    setBranch,
+    resetPassword,
+    refetch: fetchStaff,
+  };
+}
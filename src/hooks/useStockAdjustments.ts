@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { isNetworkError } from '@/lib/offline';
+
+export type AdjustmentReason = 'damaged' | 'expired' | 'theft' | 'sample' | 'count_correction';
+
+export type AdjustmentStatus = 'pending' | 'approved' | 'rejected';
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  damaged: 'Damaged',
+  expired: 'Expired',
+  theft: 'Theft / missing',
+  sample: 'Sample',
+  count_correction: 'Count correction',
+};
+
+export interface StockAdjustmentItem {
+  id: number;
+  batch_id: string | null;
+  product_id: string;
+  batch_number: string;
+  quantity_delta: number;
+  cost_price: number;
+  product?: { name: string } | null;
+}
+
+export interface StockAdjustment {
+  id: string;
+  adjustment_number: string;
+  branch_id: string;
+  reason: AdjustmentReason;
+  status: AdjustmentStatus;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  items?: StockAdjustmentItem[];
+}
+
+export interface AdjustmentLineInput {
+  batch_id: string;
+  quantity_delta: number;
+}
+
+export interface BatchHistoryEntry {
+  entry_date: string;
+  entry_type:
+    | 'receipt'
+    | 'transfer_in'
+    | 'sale'
+    | 'return'
+    | 'transfer_out'
+    | 'adjustment'
+    | 'supplier_return';
+  reference: string | null;
+  quantity: number;
+  balance: number;
+}
+
+export interface StockLossRow {
+  reason: AdjustmentReason;
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  value: number;
+}
+
+// Recent adjustments listed on the Adjustments page
+const HISTORY_LIMIT = 200;
+
+export function useStockAdjustments() {
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { branchId, can } = useAuth();
+
+  const fetchAdjustments = useCallback(async () => {
+    if (!branchId) {
+      setAdjustments([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('stock_adjustments')
+        .select('*, items:stock_adjustment_items(*, product:products(name))')
+        .eq('branch_id', branchId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (queryError) throw queryError;
+
+      setAdjustments(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load adjustments';
+      console.error('Error fetching adjustments:', err);
+      setError(errorMessage);
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load adjustments');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [branchId]);
+
+  useEffect(() => {
+    fetchAdjustments();
+  }, [fetchAdjustments]);
+
+  /**
+   * Raise a pending adjustment; stock only changes once it is approved
+   */
+  const submitAdjustment = async (reason: AdjustmentReason, lines: AdjustmentLineInput[], notes?: string) => {
+    try {
+      if (!can('stock.receive')) {
+        toast.error('You do not have permission to adjust stock');
+        return null;
+      }
+
+      const items = lines.filter((line) => line.quantity_delta !== 0);
+      if (items.length === 0) {
+        toast.error('Add at least one batch to the adjustment');
+        return null;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('submit_stock_adjustment', {
+        p_reason: reason,
+        p_items: items,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchAdjustments();
+      toast.success(
+        data?.adjustment_number
+          ? `Adjustment ${data.adjustment_number} sent for approval`
+          : 'Adjustment sent for approval'
+      );
+      return data as StockAdjustment;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit adjustment';
+      console.error('Error submitting adjustment:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const reviewAdjustment = async (id: string, approve: boolean, reviewNotes?: string) => {
+    try {
+      if (!can('products.manage')) {
+        toast.error('You do not have permission to review adjustments');
+        return false;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc(
+        approve ? 'approve_stock_adjustment' : 'reject_stock_adjustment',
+        { p_adjustment_id: id, p_review_notes: reviewNotes?.trim() || null }
+      );
+
+      if (rpcError) throw rpcError;
+
+      await fetchAdjustments();
+      const outcome = approve ? 'approved' : 'rejected';
+      toast.success(data?.adjustment_number ? `Adjustment ${data.adjustment_number} ${outcome}` : `Adjustment ${outcome}`);
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to review adjustment';
+      console.error('Error reviewing adjustment:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const getBatchHistory = async (batchId: string): Promise<BatchHistoryEntry[]> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('stock_batch_history', { p_batch_id: batchId });
+
+      if (rpcError) throw rpcError;
+
+      return Array.isArray(data) ? data : [];
+    } catch (err: unknown) {
+      console.error('Error fetching batch history:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to load batch history');
+      return [];
+    }
+  };
+
+  const getLossReport = async (from: string, to: string): Promise<StockLossRow[]> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('stock_loss_report', { p_from: from, p_to: to });
+
+      if (rpcError) throw rpcError;
+
+      return (Array.isArray(data) ? data : []).map((row) => ({
+        ...row,
+        quantity: Number(row.quantity) || 0,
+        value: Number(row.value) || 0,
+      }));
+    } catch (err: unknown) {
+      console.error('Error fetching loss report:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to load loss report');
+      return [];
+    }
+  };
+
+  return {
+    adjustments,
+    pendingAdjustments: adjustments.filter((a) => a.status === 'pending'),
+    loading,
+    error,
+    submitAdjustment,
+    reviewAdjustment,
+    getBatchHistory,
+    getLossReport,
+    refetch: fetchAdjustments,
+  };
+}
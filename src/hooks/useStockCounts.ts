@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { isNetworkError } from '@/lib/offline';
+
+export type StockCountStatus = 'open' | 'submitted' | 'posted' | 'cancelled';
+
+export interface StockCount {
+  id: string;
+  count_number: string;
+  branch_id: string;
+  rack_ids: string[];
+  blind: boolean;
+  status: StockCountStatus;
+  notes: string | null;
+  started_by: string | null;
+  started_at: string;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  adjustment_id: string | null;
+}
+
+/**
+ * One batch on the count sheet. expected_quantity, variance and cost_price
+ * are null while a blind count is open.
+ */
+export interface StockCountLine {
+  item_id: number;
+  batch_id: string;
+  product_id: string;
+  product_name: string;
+  barcode: string | null;
+  rack_id: string | null;
+  batch_number: string;
+  expiry_date: string;
+  expected_quantity: number | null;
+  counted_quantity: number | null;
+  variance: number | null;
+  cost_price: number | null;
+  counted_by: string | null;
+  counted_at: string | null;
+}
+
+// Recent sessions listed on the Stock Counts page
+const HISTORY_LIMIT = 100;
+
+export function useStockCounts() {
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { branchId, can } = useAuth();
+
+  const fetchCounts = useCallback(async () => {
+    if (!branchId) {
+      setCounts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('stock_counts')
+        .select('*')
+        .eq('branch_id', branchId)
+        .order('started_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (queryError) throw queryError;
+
+      setCounts(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load stock counts';
+      console.error('Error fetching stock counts:', err);
+      setError(errorMessage);
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load stock counts');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [branchId]);
+
+  useEffect(() => {
+    fetchCounts();
+  }, [fetchCounts]);
+
+  /**
+   * Open a session and freeze the quantities on the chosen racks
+   */
+  const startCount = async (rackIds: string[], blind: boolean, notes?: string) => {
+    try {
+      if (!can('stock.receive')) {
+        toast.error('You do not have permission to count stock');
+        return null;
+      }
+
+      if (rackIds.length === 0) {
+        toast.error('Choose at least one rack to count');
+        return null;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('start_stock_count', {
+        p_rack_ids: rackIds,
+        p_blind: blind,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (rpcError) {
+        if (rpcError.code === '23505') {
+          toast.error('One of these racks is already being counted');
+          return null;
+        }
+        throw rpcError;
+      }
+
+      await fetchCounts();
+      toast.success(data?.count_number ? `Count ${data.count_number} started` : 'Count started');
+      return data as StockCount;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start count';
+      console.error('Error starting count:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const getCountSheet = async (countId: string): Promise<StockCountLine[]> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('stock_count_sheet', { p_count_id: countId });
+
+      if (rpcError) throw rpcError;
+
+      return Array.isArray(data) ? data : [];
+    } catch (err: unknown) {
+      console.error('Error fetching count sheet:', err);
+      if (!isNetworkError(err)) {
+        toast.error(err instanceof Error ? err.message : 'Failed to load count sheet');
+      }
+      return [];
+    }
+  };
+
+  /**
+   * Save the counted quantity of one batch; null clears it
+   */
+  const recordCount = async (countId: string, batchId: string, counted: number | null) => {
+    try {
+      const { error: rpcError } = await supabase.rpc('record_stock_count', {
+        p_count_id: countId,
+        p_batch_id: batchId,
+        p_counted: counted,
+      });
+
+      if (rpcError) throw rpcError;
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save count';
+      console.error('Error recording count:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const runAction = async (
+    rpcName: 'submit_stock_count' | 'post_stock_count' | 'cancel_stock_count',
+    countId: string,
+    verb: string
+  ) => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc(rpcName, { p_count_id: countId });
+
+      if (rpcError) throw rpcError;
+
+      await fetchCounts();
+      toast.success(data?.count_number ? `Count ${data.count_number} ${verb}` : `Count ${verb}`);
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update count';
+      console.error('Error updating count:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const submitCount = (countId: string) => runAction('submit_stock_count', countId, 'submitted');
+
+  const postCount = async (countId: string) => {
+    if (!can('products.manage')) {
+      toast.error('You do not have permission to post stock counts');
+      return false;
+    }
+    return runAction('post_stock_count', countId, 'posted');
+  };
+
+  const cancelCount = async (countId: string) => {
+    if (!can('products.manage')) {
+      toast.error('You do not have permission to cancel stock counts');
+      return false;
+    }
+    return runAction('cancel_stock_count', countId, 'cancelled');
+  };
+
+  return {
+    counts,
+    loading,
+    error,
+    startCount,
+    getCountSheet,
+    recordCount,
+    submitCount,
+    postCount,
+    cancelCount,
+    refetch: fetchCounts,
+  };
+}
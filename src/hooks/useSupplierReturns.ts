@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { isNetworkError } from '@/lib/offline';
+
+export type SupplierReturnStatus = 'draft' | 'dispatched' | 'credited' | 'cancelled';
+
+export interface SupplierReturnItem {
+  id: number;
+  batch_id: string | null;
+  product_id: string;
+  batch_number: string;
+  expiry_date: string;
+  quantity: number;
+  cost_price: number;
+  product?: { name: string } | null;
+}
+
+export interface SupplierReturnCredit {
+  id: number;
+  amount: number;
+  reference: string | null;
+  received_at: string;
+}
+
+export interface SupplierReturn {
+  id: string;
+  return_number: string;
+  branch_id: string;
+  supplier_id: string;
+  status: SupplierReturnStatus;
+  notes: string | null;
+  credit_received: number;
+  created_by: string | null;
+  created_at: string;
+  dispatched_by: string | null;
+  dispatched_at: string | null;
+  closed_at: string | null;
+  supplier?: { name: string } | null;
+  items?: SupplierReturnItem[];
+  credits?: SupplierReturnCredit[];
+}
+
+export interface SupplierReturnLineInput {
+  batch_id: string;
+  quantity: number;
+}
+
+// Recent debit notes listed on the Supplier Returns page
+const HISTORY_LIMIT = 200;
+
+/**
+ * Cost value of a debit note
+ */
+export const supplierReturnValue = (supplierReturn: SupplierReturn) =>
+  (supplierReturn.items ?? []).reduce((sum, item) => sum + item.quantity * Number(item.cost_price), 0);
+
+export function useSupplierReturns() {
+  const [returns, setReturns] = useState<SupplierReturn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { branchId, can } = useAuth();
+
+  const fetchReturns = useCallback(async () => {
+    if (!branchId) {
+      setReturns([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('supplier_returns')
+        .select(
+          '*, supplier:suppliers(name), items:supplier_return_items(*, product:products(name)), credits:supplier_return_credits(id, amount, reference, received_at)'
+        )
+        .eq('branch_id', branchId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (queryError) throw queryError;
+
+      setReturns(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load supplier returns';
+      console.error('Error fetching supplier returns:', err);
+      setError(errorMessage);
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load supplier returns');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [branchId]);
+
+  useEffect(() => {
+    fetchReturns();
+  }, [fetchReturns]);
+
+  /**
+   * Draft a debit note; stock only moves once it is dispatched. Does not
+   * refetch, so drafting one note per supplier reloads the list once.
+   */
+  const createReturn = async (supplierId: string, lines: SupplierReturnLineInput[], notes?: string) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to return stock to suppliers');
+        return null;
+      }
+
+      const items = lines.filter((line) => line.quantity > 0);
+      if (items.length === 0) {
+        toast.error('Add at least one batch to the debit note');
+        return null;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('create_supplier_return', {
+        p_supplier_id: supplierId,
+        p_items: items,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (rpcError) throw rpcError;
+
+      return data as SupplierReturn;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create debit note';
+      console.error('Error creating debit note:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const dispatchReturn = async (id: string) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to return stock to suppliers');
+        return false;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('dispatch_supplier_return', { p_return_id: id });
+
+      if (rpcError) throw rpcError;
+
+      await fetchReturns();
+      toast.success(data?.return_number ? `Debit note ${data.return_number} dispatched` : 'Debit note dispatched');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to dispatch debit note';
+      console.error('Error dispatching debit note:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  /**
+   * Record a credit note from the supplier; close settles the debit note
+   * even when the supplier credited less than its value
+   */
+  const recordCredit = async (id: string, amount: number, reference?: string, close = false) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to record supplier credits');
+        return false;
+      }
+
+      if (isNaN(amount) || amount < 0 || (amount === 0 && !close)) {
+        toast.error('Enter the credit amount');
+        return false;
+      }
+
+      const { error: rpcError } = await supabase.rpc('record_supplier_credit', {
+        p_return_id: id,
+        p_amount: amount,
+        p_reference: reference?.trim() || null,
+        p_close: close,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchReturns();
+      toast.success('Supplier credit recorded');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to record supplier credit';
+      console.error('Error recording supplier credit:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const cancelReturn = async (id: string) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to cancel debit notes');
+        return false;
+      }
+
+      const { error: rpcError } = await supabase.rpc('cancel_supplier_return', { p_return_id: id });
+
+      if (rpcError) throw rpcError;
+
+      await fetchReturns();
+      toast.success('Debit note cancelled');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel debit note';
+      console.error('Error cancelling debit note:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    returns,
+    loading,
+    error,
+    createReturn,
+    dispatchReturn,
+    recordCredit,
+    cancelReturn,
+    refetch: fetchReturns,
+  };
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_person: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  ntn: string | null;
+  payment_terms_days: number;
+  lead_time_days: number;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SupplierInput = Omit<Supplier, 'id' | 'is_active' | 'created_at' | 'updated_at'>;
+
+export function useSuppliers() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('suppliers')
+        .select('*')
+        .order('name');
+
+      if (queryError) {
+        throw queryError;
+      }
+
+      setSuppliers(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load suppliers';
+      console.error('Error fetching suppliers:', err);
+      setError(errorMessage);
+      toast.error('Failed to load suppliers');
+      setSuppliers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  const addSupplier = async (supplier: SupplierInput) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to add suppliers');
+        return null;
+      }
+
+      if (!supplier.name.trim()) {
+        toast.error('Supplier name is required');
+        return null;
+      }
+
+      const { data, error: insertError } = await supabase
+        .from('suppliers')
+        .insert({ ...supplier, name: supplier.name.trim() })
+        .select()
+        .single();
+
+      if (insertError) {
+        if (insertError.code === '23505') {
+          toast.error('A supplier with this name already exists');
+          return null;
+        }
+        throw insertError;
+      }
+
+      setSuppliers((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success('Supplier added');
+      return data as Supplier;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add supplier';
+      console.error('Error adding supplier:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const updateSupplier = async (id: string, updates: Partial<SupplierInput & { is_active: boolean }>) => {
+    try {
+      if (!can('purchasing.manage')) {
+        toast.error('You do not have permission to update suppliers');
+        return false;
+      }
+
+      if (updates.name !== undefined && !updates.name.trim()) {
+        toast.error('Supplier name is required');
+        return false;
+      }
+
+      const { data, error: updateError } = await supabase
+        .from('suppliers')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (updateError) {
+        if (updateError.code === '23505') {
+          toast.error('A supplier with this name already exists');
+          return false;
+        }
+        throw updateError;
+      }
+
+      setSuppliers((prev) =>
+        prev.map((s) => (s.id === id ? data : s)).sort((a, b) => a.name.localeCompare(b.name))
+      );
+      toast.success('Supplier updated');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update supplier';
+      console.error('Error updating supplier:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    suppliers,
+    activeSuppliers: suppliers.filter((s) => s.is_active),
+    loading,
+    error,
+    addSupplier,
+    updateSupplier,
+    refetch: fetchSuppliers,
+  };
+}
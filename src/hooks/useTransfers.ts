@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from './useAuth';
+import { isNetworkError } from '@/lib/offline';
+
+export type TransferStatus = 'dispatched' | 'received';
+
+export interface StockTransferItem {
+  id: number;
+  source_batch_id: string | null;
+  product_id: string;
+  batch_number: string;
+  expiry_date: string;
+  cost_price: number;
+  selling_price: number;
+  quantity: number;
+  received_batch_id: string | null;
+  product?: { name: string } | null;
+}
+
+export interface StockTransfer {
+  id: string;
+  transfer_number: string;
+  from_branch_id: string;
+  to_branch_id: string;
+  status: TransferStatus;
+  notes: string | null;
+  dispatched_by: string | null;
+  dispatched_at: string;
+  received_by: string | null;
+  received_at: string | null;
+  items?: StockTransferItem[];
+}
+
+export interface TransferLineInput {
+  batch_id: string;
+  quantity: number;
+}
+
+// Recent transfers listed on the Transfers page
+const HISTORY_LIMIT = 200;
+
+export function useTransfers() {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+
+  const fetchTransfers = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: queryError } = await supabase
+        .from('stock_transfers')
+        .select('*, items:stock_transfer_items(*, product:products(name))')
+        .order('dispatched_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (queryError) throw queryError;
+
+      setTransfers(Array.isArray(data) ? data : []);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load transfers';
+      console.error('Error fetching transfers:', err);
+      setError(errorMessage);
+      if (!isNetworkError(err)) {
+        toast.error('Failed to load transfers');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [fetchTransfers]);
+
+  /**
+   * Send batches from the user's branch to another branch
+   */
+  const dispatchTransfer = async (toBranchId: string, lines: TransferLineInput[], notes?: string) => {
+    try {
+      if (!can('stock.receive')) {
+        toast.error('You do not have permission to transfer stock');
+        return null;
+      }
+
+      const items = lines.filter((line) => line.quantity > 0);
+      if (items.length === 0) {
+        toast.error('Add at least one batch to the transfer');
+        return null;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('dispatch_transfer', {
+        p_to_branch_id: toBranchId,
+        p_items: items,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchTransfers();
+      toast.success(data?.transfer_number ? `Transfer ${data.transfer_number} dispatched` : 'Transfer dispatched');
+      return data as StockTransfer;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to dispatch transfer';
+      console.error('Error dispatching transfer:', err);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  /**
+   * Book a dispatched transfer into the receiving branch
+   */
+  const receiveTransfer = async (transferId: string) => {
+    try {
+      if (!can('stock.receive')) {
+        toast.error('You do not have permission to receive stock');
+        return false;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc('receive_transfer', {
+        p_transfer_id: transferId,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchTransfers();
+      toast.success(data?.transfer_number ? `Transfer ${data.transfer_number} received` : 'Transfer received');
+      return true;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to receive transfer';
+      console.error('Error receiving transfer:', err);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  return {
+    transfers,
+    loading,
+    error,
+    dispatchTransfer,
+    receiveTransfer,
+    refetch: fetchTransfers,
+  };
+}
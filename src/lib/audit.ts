@@ -0,0 +1,69 @@
+/**
+ * Helpers for reading audit_log entries.
+ * Row triggers store `{ old, new }` snapshots in `details`; staff console
+ * events store the same shape with only the fields that changed.
+ */
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  changed: boolean;
+}
+
+// Columns that change on every write and only add noise to a diff
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Turn an audit entry's details into a field-by-field comparison
+ * @param details - audit_log.details
+ * @returns One entry per field, changed fields first
+ */
+export function diffAuditDetails(details: unknown): AuditFieldChange[] {
+  if (!isRecord(details)) return [];
+
+  const hasSnapshots = 'old' in details || 'new' in details;
+  const before = hasSnapshots && isRecord(details.old) ? details.old : {};
+  const after = hasSnapshots ? (isRecord(details.new) ? details.new : {}) : details;
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const oldValue = before[field];
+    const newValue = after[field];
+    changes.push({
+      field,
+      before: oldValue,
+      after: newValue,
+      changed: JSON.stringify(oldValue) !== JSON.stringify(newValue),
+    });
+  }
+
+  return changes.sort((a, b) => Number(b.changed) - Number(a.changed) || a.field.localeCompare(b.field));
+}
+
+/**
+ * Format a JSON value from a snapshot for display
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Best-effort human label for the row an entry refers to
+ */
+export function describeAuditEntity(details: unknown): string | null {
+  if (!isRecord(details)) return null;
+  const row = isRecord(details.new) ? details.new : isRecord(details.old) ? details.old : details;
+  const label = row.name ?? row.product_name ?? row.batch_number ?? row.receipt_number ?? row.po_number ?? row.grn_number ?? row.shift_number ?? row.transfer_number ?? row.adjustment_number ?? row.count_number ?? row.return_number ?? row.patient_name ?? row.full_name ?? row.email ?? row.reference ?? row.reason;
+  return typeof label === 'string' ? label : null;
+}
@@ -0,0 +1,95 @@
+/**
+ * Drug schedules and prescription capture.
+ * Mirrors the products.drug_schedule check and the prescription checks in
+ * process_sale() so the counter can reject bad input before checkout.
+ */
+
+export type DrugSchedule = 'none' | 'prescription' | 'psychotropic' | 'narcotic';
+
+export const DRUG_SCHEDULE_LABELS: Record<DrugSchedule, string> = {
+  none: 'Not scheduled (OTC)',
+  prescription: 'Prescription only',
+  psychotropic: 'Psychotropic',
+  narcotic: 'Narcotic',
+};
+
+// Short labels for badges on product tiles and tables
+export const DRUG_SCHEDULE_BADGES: Record<DrugSchedule, string> = {
+  none: '',
+  prescription: 'Rx',
+  psychotropic: 'Psychotropic',
+  narcotic: 'Narcotic',
+};
+
+/** Any scheduled drug needs a prescription at checkout */
+export function requiresPrescription(schedule: DrugSchedule | null | undefined): boolean {
+  return !!schedule && schedule !== 'none';
+}
+
+/** Psychotropics and narcotics are also kept in the controlled drug register */
+export function isControlledSchedule(schedule: DrugSchedule | null | undefined): boolean {
+  return schedule === 'psychotropic' || schedule === 'narcotic';
+}
+
+export interface PrescriptionDetails {
+  doctorName: string;
+  doctorPmdcNumber: string;
+  patientName: string;
+  patientCnic: string;
+  image: File | null;
+}
+
+export type PrescriptionField = keyof PrescriptionDetails;
+
+export type PrescriptionErrors = Partial<Record<PrescriptionField, string>>;
+
+export const EMPTY_PRESCRIPTION: PrescriptionDetails = {
+  doctorName: '',
+  doctorPmdcNumber: '',
+  patientName: '',
+  patientCnic: '',
+  image: null,
+};
+
+const CNIC_PATTERN = /^\d{5}-\d{7}-\d$/;
+
+// Largest prescription scan accepted, in bytes
+export const MAX_PRESCRIPTION_IMAGE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Format CNIC digits as they are typed, e.g. 3520212345671 -> 35202-1234567-1
+ */
+export function formatCnic(value: string): string {
+  const digits = value.replace(/\D/g, '').slice(0, 13);
+  if (digits.length <= 5) return digits;
+  if (digits.length <= 12) return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+  return `${digits.slice(0, 5)}-${digits.slice(5, 12)}-${digits.slice(12)}`;
+}
+
+/**
+ * Check prescription details before checkout
+ * @returns Field errors; empty when the prescription can be submitted
+ */
+export function validatePrescription(details: PrescriptionDetails): PrescriptionErrors {
+  const errors: PrescriptionErrors = {};
+
+  if (!details.doctorName.trim()) errors.doctorName = 'Doctor name is required';
+  if (!details.doctorPmdcNumber.trim()) errors.doctorPmdcNumber = 'PMDC number is required';
+  if (!details.patientName.trim()) errors.patientName = 'Patient name is required';
+
+  if (!details.patientCnic.trim()) {
+    errors.patientCnic = 'Patient CNIC is required';
+  } else if (!CNIC_PATTERN.test(details.patientCnic.trim())) {
+    errors.patientCnic = 'CNIC must be in the format 12345-1234567-1';
+  }
+
+  if (!details.image) {
+    errors.image = 'Attach a photo or scan of the prescription';
+  } else if (!details.image.type.startsWith('image/') && details.image.type !== 'application/pdf') {
+    errors.image = 'Prescription must be an image or PDF';
+  } else if (details.image.size > MAX_PRESCRIPTION_IMAGE_SIZE) {
+    errors.image = 'Prescription file must be 5 MB or smaller';
+  }
+
+  return errors;
+}
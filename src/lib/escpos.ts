@@ -0,0 +1,245 @@
+import { format } from 'date-fns';
+
+/**
+ * ESC/POS byte streams for 58mm and 80mm thermal receipt printers.
+ * Everything here is pure: the same receipt and options always give the same
+ * bytes, so output can be compared byte for byte against saved files.
+ *
+ * Text is sent in the printer's default code page; anything outside printable
+ * ASCII is replaced with "?".
+ */
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the default font (Font A, 12x24)
+export const LINE_WIDTH: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+export type Alignment = 'left' | 'center' | 'right';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<Alignment, number> = { left: 0, center: 1, right: 2 };
+
+export const COMMANDS = {
+  init: [ESC, 0x40],
+  align: (alignment: Alignment) => [ESC, 0x61, ALIGN_CODES[alignment]],
+  bold: (on: boolean) => [ESC, 0x45, on ? 1 : 0],
+  // Width and height multipliers, 1 or 2
+  size: (width: 1 | 2, height: 1 | 2) => [GS, 0x21, ((width - 1) << 4) | (height - 1)],
+  feed: (lines: number) => [ESC, 0x64, lines],
+  // Feed to the cutter, then a partial cut
+  cut: [GS, 0x56, 0x42, 0x00],
+  // Pulse drawer pin 2: on 50ms, off 500ms
+  drawerKick: [ESC, 0x70, 0x00, 0x19, 0xfa],
+};
+
+/**
+ * Printable ASCII bytes for a piece of text
+ */
+export function encodeText(text: string): number[] {
+  return Array.from(text).map((char) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code <= 0x7e ? code : 0x3f;
+  });
+}
+
+/**
+ * QR code (GS ( k): model 2, error correction M, then store and print
+ */
+export function qrCode(data: string, moduleSize = 6): number[] {
+  const bytes = encodeText(data);
+  const storeLength = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...bytes,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ];
+}
+
+/**
+ * Break text into lines of at most width characters, on spaces where it can
+ */
+export function wrapText(text: string, maxWidth: number): string[] {
+  const width = Math.max(1, maxWidth);
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    while (rest.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    if (!current) {
+      current = rest;
+    } else if (current.length + 1 + rest.length <= width) {
+      current = `${current} ${rest}`;
+    } else {
+      lines.push(current);
+      current = rest;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Left text and right text on one line, the left side cut short to fit. When
+ * the right side leaves no room, the left side gets lines of its own above it.
+ */
+export function columns(left: string, right: string, width: number): string[] {
+  const rightPart = right.slice(0, width);
+  const space = width - rightPart.length - 1; // Left of the right side, less a gap
+  if (space >= 1 || !left) {
+    const leftPart = left.slice(0, Math.max(0, space));
+    return [leftPart + ' '.repeat(Math.max(0, width - leftPart.length - rightPart.length)) + rightPart];
+  }
+  return [...wrapText(left, width), ' '.repeat(width - rightPart.length) + rightPart];
+}
+
+export interface EscPosReceiptLine {
+  name: string;
+  quantity: string; // e.g. "2 Strip"
+  unitPrice: string;
+  total: string;
+}
+
+// Everything printed, already formatted as text
+export interface EscPosReceipt {
+  storeName: string;
+  headerLines: string[]; // Address, phone, licence
+  receiptNumber: string;
+  printedAt: Date; // When the sale was made
+  reprintedAt?: Date | null; // Set on duplicates
+  items: EscPosReceiptLine[];
+  totals: Array<{ label: string; amount: string; emphasis?: boolean }>;
+  payments: Array<{ label: string; amount: string; reference?: string | null }>;
+  returns?: Array<{ label: string; amount: string }>; // Returned since the sale, on duplicates
+  paymentMethod: string;
+  footerLines: string[]; // Return policy, thank-you note
+}
+
+export interface EscPosOptions {
+  paperWidth: PaperWidth;
+  openDrawer?: boolean;
+}
+
+// A printed line: large is double width and height, tall is double height
+export type ReceiptBlock =
+  | { kind: 'text'; text: string; align: Alignment; bold?: boolean; size?: 'large' | 'tall' }
+  | { kind: 'qr'; data: string };
+
+/**
+ * Lay a receipt out as lines for a paper width of width characters. Shared by
+ * the ESC/POS and PDF renderers so both print the same receipt.
+ */
+export function layoutReceipt(receipt: EscPosReceipt, width: number): ReceiptBlock[] {
+  const blocks: ReceiptBlock[] = [];
+  const text = (value: string, align: Alignment, style: { bold?: boolean; size?: 'large' | 'tall' } = {}) =>
+    blocks.push({ kind: 'text', text: value, align, ...style });
+  const wrapped = (value: string, align: Alignment, bold?: boolean) =>
+    wrapText(value, width).forEach((part) => text(part, align, { bold }));
+  const row = (left: string, right: string, style: { bold?: boolean; size?: 'large' | 'tall' } = {}) =>
+    columns(left, right, width).forEach((line) => text(line, 'left', style));
+  const rule = () => text('-'.repeat(width), 'left');
+  const duplicateBanner = () => text('*** DUPLICATE ***', 'center', { bold: true });
+
+  // Header
+  if (receipt.reprintedAt) duplicateBanner();
+  wrapText(receipt.storeName, Math.floor(width / 2)).forEach((part) => text(part, 'center', { bold: true, size: 'large' }));
+  receipt.headerLines.filter(Boolean).forEach((header) => wrapped(header, 'center'));
+  text(format(receipt.printedAt, 'MMM dd, yyyy hh:mm a'), 'center');
+  if (receipt.receiptNumber) text(`Receipt #: ${receipt.receiptNumber}`, 'center');
+  if (receipt.reprintedAt) text(`Reprinted ${format(receipt.reprintedAt, 'MMM dd, yyyy hh:mm a')}`, 'center');
+
+  // Items
+  rule();
+  row('Item', 'Amount', { bold: true });
+  for (const item of receipt.items) {
+    const nameWidth = width - item.total.length - 1;
+    if (nameWidth >= 1) {
+      const [first = '', ...rest] = wrapText(item.name, nameWidth);
+      row(first, item.total);
+      rest.forEach((part) => text(part, 'left'));
+    } else {
+      row(item.name, item.total);
+    }
+    text(`  ${item.quantity} x ${item.unitPrice}`, 'left');
+  }
+  rule();
+
+  // Totals and payments
+  for (const total of receipt.totals) {
+    row(total.label, total.amount, total.emphasis ? { bold: true, size: 'tall' } : {});
+  }
+  for (const payment of receipt.payments) {
+    row(payment.label, payment.amount);
+    if (payment.reference) text(`  Ref: ${payment.reference}`, 'left');
+  }
+  if (receipt.returns && receipt.returns.length > 0) {
+    rule();
+    text('Returns', 'left', { bold: true });
+    receipt.returns.forEach((line) => row(line.label, line.amount));
+  }
+  rule();
+
+  // Footer with a QR code of the receipt number for look-ups and returns
+  text(`Payment Method: ${receipt.paymentMethod}`, 'center');
+  receipt.footerLines.forEach((footer, index) => wrapped(footer, 'center', index === 0));
+  if (receipt.receiptNumber) {
+    text('', 'center');
+    blocks.push({ kind: 'qr', data: receipt.receiptNumber });
+    text('', 'center');
+  }
+  if (receipt.reprintedAt) duplicateBanner();
+
+  return blocks;
+}
+
+const SIZE_CODES = { normal: COMMANDS.size(1, 1), large: COMMANDS.size(2, 2), tall: COMMANDS.size(1, 2) };
+
+/**
+ * Render a receipt as the bytes to send to the printer
+ */
+export function renderReceipt(receipt: EscPosReceipt, options: EscPosOptions): Uint8Array {
+  const out: number[] = [...COMMANDS.init];
+  let align: Alignment = 'left';
+  let bold = false;
+  let size: keyof typeof SIZE_CODES = 'normal';
+
+  for (const block of layoutReceipt(receipt, LINE_WIDTH[options.paperWidth])) {
+    if (block.kind === 'qr') {
+      out.push(...qrCode(block.data, options.paperWidth === 58 ? 5 : 6));
+      continue;
+    }
+    if (block.align !== align) {
+      align = block.align;
+      out.push(...COMMANDS.align(align));
+    }
+    if (Boolean(block.bold) !== bold) {
+      bold = Boolean(block.bold);
+      out.push(...COMMANDS.bold(bold));
+    }
+    if ((block.size ?? 'normal') !== size) {
+      size = block.size ?? 'normal';
+      out.push(...SIZE_CODES[size]);
+    }
+    out.push(...encodeText(block.text), LF);
+  }
+
+  out.push(...COMMANDS.align('left'), ...COMMANDS.bold(false), ...SIZE_CODES.normal, ...COMMANDS.feed(3));
+  if (options.openDrawer) out.push(...COMMANDS.drawerKick);
+  out.push(...COMMANDS.cut);
+
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,106 @@
+import { addDays, isBefore, parseISO, startOfToday } from 'date-fns';
+
+/**
+ * Goods received note (GRN) helpers.
+ * Grid lines are kept as strings while being edited and converted once on save.
+ */
+
+export interface GrnLine {
+  key: string;
+  productId: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: string;
+  costPrice: string;
+  sellingPrice: string;
+  purchaseOrderItemId: string | null;
+}
+
+export type GrnLineField = 'productId' | 'batchNumber' | 'expiryDate' | 'quantity' | 'costPrice' | 'sellingPrice';
+
+export type GrnLineErrors = Partial<Record<GrnLineField, string>>;
+
+// Column order of the entry grid, used for keyboard navigation
+export const GRN_COLUMNS: GrnLineField[] = ['productId', 'batchNumber', 'expiryDate', 'quantity', 'costPrice', 'sellingPrice'];
+
+// Expiry closer than this is allowed but flagged while entering; the store
+// setting short_expiry_days overrides it
+export const SHORT_EXPIRY_DAYS = 90;
+
+let lineCounter = 0;
+
+export function createGrnLine(overrides: Partial<GrnLine> = {}): GrnLine {
+  lineCounter += 1;
+  return {
+    key: `line-${Date.now()}-${lineCounter}`,
+    productId: '',
+    batchNumber: '',
+    expiryDate: '',
+    quantity: '',
+    costPrice: '',
+    sellingPrice: '',
+    purchaseOrderItemId: null,
+    ...overrides,
+  };
+}
+
+/**
+ * A line nobody has typed into yet. Blank rows are dropped on save.
+ */
+export function isBlankGrnLine(line: GrnLine): boolean {
+  return !line.productId && !line.batchNumber && !line.expiryDate && !line.quantity && !line.costPrice && !line.sellingPrice;
+}
+
+/**
+ * Validate one grid line
+ * @returns Field errors; empty when the line can be saved
+ */
+export function validateGrnLine(line: GrnLine, today: Date = startOfToday()): GrnLineErrors {
+  const errors: GrnLineErrors = {};
+
+  if (!line.productId) errors.productId = 'Select a product';
+  if (!line.batchNumber.trim()) errors.batchNumber = 'Required';
+
+  if (!line.expiryDate) {
+    errors.expiryDate = 'Required';
+  } else if (isBefore(parseISO(line.expiryDate), today)) {
+    errors.expiryDate = 'Expired';
+  }
+
+  const quantity = Number(line.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) errors.quantity = 'Whole number > 0';
+
+  const cost = parseFloat(line.costPrice);
+  if (isNaN(cost) || cost <= 0) errors.costPrice = 'Must be > 0';
+
+  const selling = parseFloat(line.sellingPrice);
+  if (isNaN(selling) || selling <= 0) errors.sellingPrice = 'Must be > 0';
+
+  return errors;
+}
+
+/**
+ * Stock that will expire soon after arriving, worth a second look
+ */
+export function isShortExpiry(line: GrnLine, today: Date = startOfToday(), days: number = SHORT_EXPIRY_DAYS): boolean {
+  if (!line.expiryDate) return false;
+  const expiry = parseISO(line.expiryDate);
+  return !isBefore(expiry, today) && isBefore(expiry, addDays(today, days));
+}
+
+export function grnLineTotal(line: GrnLine): number {
+  return (parseInt(line.quantity) || 0) * (parseFloat(line.costPrice) || 0);
+}
+
+/**
+ * Totals for the invoice footer
+ */
+export function calculateGrnTotals(lines: GrnLine[], discount: number, tax: number) {
+  const subtotal = lines.reduce((sum, line) => sum + grnLineTotal(line), 0);
+  return {
+    subtotal,
+    discount,
+    tax,
+    total: subtotal - discount + tax,
+  };
+}
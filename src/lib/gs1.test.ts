@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { barcodeCandidates, gtinCandidates, isValidGtin, parseGs1 } from './gs1';
+
+const GS = '\u001d';
+const GTIN = '08964000123454';
+
+describe('GS1 scans', () => {
+  it('reads a DataMatrix scan with its symbology identifier', () => {
+    expect(parseGs1(`]d201${GTIN}1727033110AB1234${GS}21XYZ987`)).toEqual({
+      gtin: GTIN,
+      batchNumber: 'AB1234',
+      expiryDate: '2027-03-31',
+      serial: 'XYZ987',
+    });
+  });
+
+  it('ends a variable-length AI at a group separator or its maximum length', () => {
+    expect(parseGs1(`01${GTIN}10AB1234${GS}17270331`)).toMatchObject({ batchNumber: 'AB1234', expiryDate: '2027-03-31' });
+    expect(parseGs1(`01${GTIN}10${'A'.repeat(20)}17270331`)).toMatchObject({
+      batchNumber: 'A'.repeat(20),
+      expiryDate: '2027-03-31',
+    });
+  });
+
+  it('accepts separators typed by keyboard-wedge scanners', () => {
+    for (const standIn of ['<GS>', '{GS}', '[gs]']) {
+      expect(parseGs1(`]C101${GTIN}10AB1234${standIn}21XYZ987`)).toMatchObject({ batchNumber: 'AB1234', serial: 'XYZ987' });
+    }
+  });
+
+  it('treats a leading FNC1 sent as a group separator like a symbology identifier', () => {
+    expect(parseGs1(`${GS}17270331${GS}01${GTIN}`)).toMatchObject({ gtin: GTIN, expiryDate: '2027-03-31' });
+    expect(parseGs1(`]d2${GS}01${GTIN}10AB1234`)).toMatchObject({ gtin: GTIN, batchNumber: 'AB1234' });
+    expect(parseGs1(`17270331${GS}01${GTIN}`)).toBeNull();
+  });
+
+  it('reads the human-readable form', () => {
+    expect(parseGs1(`(01)${GTIN}(17)270331(10)AB1234`)).toMatchObject({
+      gtin: GTIN,
+      batchNumber: 'AB1234',
+      expiryDate: '2027-03-31',
+    });
+  });
+
+  it('takes expiry day 00 as the last day of the month', () => {
+    expect(parseGs1(`01${GTIN}17240200`)?.expiryDate).toBe('2024-02-29');
+    expect(parseGs1(`01${GTIN}17250200`)?.expiryDate).toBe('2025-02-28');
+    expect(parseGs1(`01${GTIN}17271100`)?.expiryDate).toBe('2027-11-30');
+  });
+
+  it('drops an expiry date that does not exist', () => {
+    expect(parseGs1(`01${GTIN}17270231`)).toMatchObject({ gtin: GTIN, expiryDate: null });
+    expect(parseGs1(`01${GTIN}17271301`)).toMatchObject({ gtin: GTIN, expiryDate: null });
+  });
+
+  it('rejects plain barcodes and bad check digits', () => {
+    expect(parseGs1('8964000123454')).toBeNull();
+    expect(parseGs1(`01${GTIN.slice(0, 13)}5`)).toBeNull();
+    expect(isValidGtin(GTIN)).toBe(true);
+    expect(isValidGtin('8964000123455')).toBe(false);
+  });
+});
+
+describe('barcode candidates', () => {
+  it('matches a GTIN-14 to the EAN-13 it pads out', () => {
+    expect(gtinCandidates(GTIN)).toEqual([GTIN, '8964000123454']);
+    expect(barcodeCandidates(`01${GTIN}10AB1234`)).toEqual([GTIN, '8964000123454']);
+    expect(barcodeCandidates('8964000123454')).toEqual(['8964000123454', GTIN]);
+  });
+
+  it('looks up anything else exactly', () => {
+    expect(barcodeCandidates(' PAN-500 ')).toEqual(['PAN-500']);
+  });
+});
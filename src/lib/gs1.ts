@@ -0,0 +1,175 @@
+/**
+ * GS1 barcode parsing.
+ * DRAP requires GS1 DataMatrix (or GS1-128) codes on medicine packs. One scan
+ * carries several application identifiers (AIs) run together, e.g.
+ *
+ *   ]d2 01 08964000123454 17 270331 10 AB1234 <GS> 21 XYZ987
+ *
+ * Fixed-length AIs run straight into the next one; variable-length ones end
+ * at a group separator (ASCII 29) or the end of the scan. The human-readable
+ * form "(01)08964000123454(17)270331(10)AB1234" is accepted too.
+ */
+
+export interface Gs1Scan {
+  gtin: string; // 14 digits
+  batchNumber: string | null; // AI 10
+  expiryDate: string | null; // AI 17 as yyyy-MM-dd
+  serial: string | null; // AI 21
+}
+
+const GROUP_SEPARATOR = '\u001d';
+
+// Symbology identifiers some scanners prefix: DataMatrix, GS1-128, QR, DataBar
+const SYMBOLOGY_PREFIX = /^\](d2|C1|Q3|e0)/;
+
+// Keyboard-wedge scanners often cannot type ASCII 29 and send one of these
+const SEPARATOR_STAND_INS = /<GS>|\{GS\}|\[GS\]/gi;
+
+// Data length of fixed-length AIs
+const FIXED_LENGTH: Record<string, number> = {
+  '00': 18,
+  '01': 14,
+  '02': 14,
+  '11': 6,
+  '12': 6,
+  '13': 6,
+  '15': 6,
+  '16': 6,
+  '17': 6,
+  '20': 2,
+};
+
+// Maximum data length of the variable-length AIs seen on medicine packs
+const VARIABLE_LENGTH: Record<string, number> = {
+  '10': 20,
+  '21': 20,
+  '22': 20,
+  '30': 8,
+  '37': 8,
+  '240': 30,
+  '241': 30,
+  '710': 20,
+  '711': 20,
+  '712': 20,
+  '713': 20,
+  '714': 20,
+};
+
+/**
+ * Check a GTIN's last digit (mod 10, weights 3 and 1 from the right)
+ */
+export function isValidGtin(gtin: string): boolean {
+  if (!/^\d{8}$|^\d{12,14}$/.test(gtin)) return false;
+  const digits = gtin.split('').map(Number);
+  const check = digits.pop() as number;
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+/**
+ * YYMMDD to yyyy-MM-dd. Day 00 means the last day of the month.
+ */
+function parseGs1Date(value: string): string | null {
+  if (!/^\d{6}$/.test(value)) return null;
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+  const lastDay = new Date(year, month, 0).getDate();
+  if (day === 0) {
+    day = lastDay;
+  } else if (day > lastDay) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Split element strings into AI and value pairs. Stops at an AI it does not
+ * know, since its length (and so where the next AI starts) is unknown.
+ */
+function splitElements(data: string): Map<string, string> {
+  const elements = new Map<string, string>();
+
+  // "(01)...(17)..." carries its own boundaries
+  if (data.startsWith('(')) {
+    for (const match of data.matchAll(/\((\d{2,4})\)([^(]*)/g)) {
+      elements.set(match[1], match[2].replace(new RegExp(GROUP_SEPARATOR, 'g'), '').trim());
+    }
+    return elements;
+  }
+
+  let position = 0;
+  while (position < data.length) {
+    if (data[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const ai = [2, 3].map((size) => data.slice(position, position + size)).find((candidate) =>
+      candidate in FIXED_LENGTH || candidate in VARIABLE_LENGTH
+    );
+    if (!ai) break;
+    position += ai.length;
+
+    if (ai in FIXED_LENGTH) {
+      elements.set(ai, data.slice(position, position + FIXED_LENGTH[ai]));
+      position += FIXED_LENGTH[ai];
+    } else {
+      const end = data.indexOf(GROUP_SEPARATOR, position);
+      const stop = Math.min(end === -1 ? data.length : end, position + VARIABLE_LENGTH[ai]);
+      elements.set(ai, data.slice(position, stop));
+      position = stop;
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Parse a GS1 scan. Returns null for anything that is not a GS1 element
+ * string with a valid GTIN, such as a plain EAN-13.
+ */
+export function parseGs1(raw: string): Gs1Scan | null {
+  if (!raw) return null;
+  const data = raw.trim().replace(SYMBOLOGY_PREFIX, '').replace(SEPARATOR_STAND_INS, GROUP_SEPARATOR);
+  // Scanners without symbology identifiers may send the leading FNC1 as a GS
+  const prefixed = SYMBOLOGY_PREFIX.test(raw.trim()) || data.startsWith(GROUP_SEPARATOR);
+
+  // Without a symbology identifier, only "01" + 14 digits is unambiguous
+  if (!prefixed && !data.startsWith('(01)') && !/^01\d{14}/.test(data)) return null;
+
+  const elements = splitElements(data);
+  const gtin = elements.get('01') ?? elements.get('02');
+  if (!gtin || !isValidGtin(gtin)) return null;
+
+  return {
+    gtin,
+    batchNumber: elements.get('10') || null,
+    expiryDate: elements.has('17') ? parseGs1Date(elements.get('17') as string) : null,
+    serial: elements.get('21') || null,
+  };
+}
+
+/**
+ * Barcodes a product could be stored under for this GTIN: the GTIN-14 and
+ * the EAN-13, UPC-A or EAN-8 it pads out with leading zeros
+ */
+export function gtinCandidates(gtin: string): string[] {
+  const padded = gtin.padStart(14, '0');
+  return [14, 13, 12, 8].filter((length) => /^0*$/.test(padded.slice(0, 14 - length))).map((length) => padded.slice(14 - length));
+}
+
+/**
+ * Barcodes to look a scan up by. GS1 scans and plain GTINs match a product
+ * stored in any GTIN length; anything else must match exactly.
+ */
+export function barcodeCandidates(scan: string): string[] {
+  const trimmed = scan.trim();
+  const gs1 = parseGs1(trimmed);
+  if (gs1) return gtinCandidates(gs1.gtin);
+  if (/^\d{8}$|^\d{12,14}$/.test(trimmed) && isValidGtin(trimmed)) {
+    return [...new Set([trimmed, ...gtinCandidates(trimmed)])];
+  }
+  return [trimmed];
+}
@@ -0,0 +1,115 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { findInteractions, type InteractionCheckItem } from './interactions';
+
+const item = (productId: string, saltFormula: string): InteractionCheckItem => ({
+  productId,
+  productName: productId,
+  saltFormula,
+});
+
+const check = (...formulas: string[]) => findInteractions(formulas.map((formula, index) => item(`p${index + 1}`, formula)));
+
+/**
+ * The major rules process_sale enforces, read from the migration that copies
+ * them, so the two lists cannot drift apart unnoticed
+ */
+const MIGRATION = readFileSync(
+  new URL('../../supabase/migrations/20260126000000_interaction_warnings.sql', import.meta.url),
+  'utf8'
+);
+
+const valuesAfter = (marker: string) => {
+  const start = MIGRATION.indexOf(marker);
+  const values = MIGRATION.slice(start, MIGRATION.indexOf('\n  ),', start));
+  return Array.from(values.matchAll(/\('([^']+)', '([^']+)'\)/g), (match) => [match[1], match[2]] as const);
+};
+
+const SQL_CLASSES = valuesAfter('classes (class_id, member) AS (');
+const SQL_RULES = valuesAfter('rules (a, b) AS (');
+
+const sqlTerms = (ingredient: string) => [
+  ingredient,
+  ...SQL_CLASSES.filter(([, member]) => member === ingredient).map(([classId]) => `@${classId}`),
+];
+
+const sqlIsMajor = (x: string, y: string) => {
+  if (x === y) return false;
+  const [tx, ty] = [sqlTerms(x), sqlTerms(y)];
+  return SQL_RULES.some(([a, b]) => (tx.includes(a) && ty.includes(b)) || (ty.includes(a) && tx.includes(b)));
+};
+
+describe('cart interactions', () => {
+  it('finds a major interaction between two products', () => {
+    const [finding] = check('Warfarin Sodium 5mg', 'Ibuprofen 400mg');
+    expect(finding).toMatchObject({
+      kind: 'interaction',
+      severity: 'major',
+      products: ['p1', 'p2'],
+      ingredients: ['warfarin', 'ibuprofen'],
+    });
+  });
+
+  it('finds ingredients inside combination products and under other names', () => {
+    expect(check('Paracetamol 500mg + Tramadol HCl 37.5mg', 'Sertraline 50mg')[0]).toMatchObject({
+      severity: 'major',
+      ingredients: ['tramadol', 'sertraline'],
+    });
+    expect(check('Acetaminophen 500mg', 'Panadol: Paracetamol 500mg')[0]).toMatchObject({
+      kind: 'duplicate',
+      severity: 'moderate',
+    });
+  });
+
+  it('flags two members of a class as duplicate therapy at the class severity', () => {
+    expect(check('Fluoxetine 20mg', 'Escitalopram 10mg')[0]).toMatchObject({ kind: 'duplicate', severity: 'major' });
+    expect(check('Ibuprofen 400mg', 'Diclofenac Sodium 50mg')[0]).toMatchObject({ kind: 'duplicate', severity: 'moderate' });
+  });
+
+  it('keeps the worst finding for a pair and lists the most severe first', () => {
+    const findings = check('Ciprofloxacin 500mg', 'Warfarin 5mg', 'Aluminium Hydroxide 250mg', 'Theophylline 200mg');
+    expect(findings.map((finding) => finding.severity)).toEqual(['major', 'moderate', 'minor']);
+  });
+
+  it('does not compare a product with itself in another pack size', () => {
+    expect(findInteractions([item('p1', 'Warfarin 5mg'), item('p1', 'Warfarin 5mg'), item('p2', 'Amoxicillin 500mg')])).toEqual([]);
+  });
+});
+
+describe('major rules repeated in process_sale', () => {
+  const ingredients = [
+    ...new Set([
+      ...SQL_CLASSES.map(([, member]) => member),
+      ...SQL_RULES.flat().filter((term) => !term.startsWith('@')),
+      // Moderate and minor rules only, which the server must not block
+      'omeprazole',
+      'clopidogrel',
+      'atorvastatin',
+      'captopril',
+      'spironolactone',
+      'levofloxacin',
+      'calcium carbonate',
+      'doxycycline',
+      'levothyroxine',
+      'paracetamol',
+    ]),
+  ];
+
+  it('reads the rules from the migration', () => {
+    expect(SQL_CLASSES.length).toBeGreaterThan(40);
+    expect(SQL_RULES).toContainEqual(['warfarin', '@nsaid']);
+    expect(sqlIsMajor('ibuprofen', 'warfarin')).toBe(true);
+  });
+
+  it('blocks the same pairs on the server as at the counter', () => {
+    const mismatches: string[] = [];
+    for (const x of ingredients) {
+      for (const y of ingredients) {
+        if (x >= y) continue;
+        const app = findInteractions([item('p1', x), item('p2', y)]).some((finding) => finding.severity === 'major');
+        if (app !== sqlIsMajor(x, y)) mismatches.push(`${x} + ${y}: app ${app ? 'major' : 'not major'}`);
+      }
+    }
+    expect(mismatches).toEqual([]);
+  });
+});
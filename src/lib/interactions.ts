@@ -0,0 +1,364 @@
+import { parseSaltFormula } from './salts';
+
+/**
+ * Drug-drug interaction and duplicate-therapy checks for the cart.
+ * The knowledge base below is kept in the app so it works offline. Rules name
+ * ingredients as normalised by parseSaltFormula (lower case, synonyms
+ * resolved) or a drug class as "@class".
+ *
+ * Major interactions block checkout until a pharmacist acknowledges them;
+ * moderate and minor ones are shown for counselling only. process_sale checks
+ * the major rules again, from a copy in
+ * supabase/migrations/20260126000000_interaction_warnings.sql; update both.
+ */
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major';
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { major: 3, moderate: 2, minor: 1 };
+
+interface DrugClass {
+  label: string;
+  members: string[];
+  duplicateTherapy?: InteractionSeverity; // Two different members together
+}
+
+const DRUG_CLASSES: Record<string, DrugClass> = {
+  nsaid: {
+    label: 'NSAIDs',
+    members: [
+      'aspirin',
+      'ibuprofen',
+      'diclofenac',
+      'naproxen',
+      'mefenamic acid',
+      'ketorolac',
+      'piroxicam',
+      'meloxicam',
+      'celecoxib',
+      'indomethacin',
+      'ketoprofen',
+    ],
+    duplicateTherapy: 'moderate',
+  },
+  ssri: {
+    label: 'SSRIs',
+    members: ['fluoxetine', 'sertraline', 'paroxetine', 'citalopram', 'escitalopram', 'fluvoxamine'],
+    duplicateTherapy: 'major',
+  },
+  ace_inhibitor: {
+    label: 'ACE inhibitors',
+    members: ['captopril', 'enalapril', 'lisinopril', 'ramipril', 'perindopril'],
+    duplicateTherapy: 'moderate',
+  },
+  benzodiazepine: {
+    label: 'benzodiazepines',
+    members: ['alprazolam', 'bromazepam', 'clonazepam', 'diazepam', 'lorazepam', 'midazolam'],
+    duplicateTherapy: 'moderate',
+  },
+  opioid: {
+    label: 'opioids',
+    members: ['codeine', 'tramadol', 'tapentadol', 'morphine', 'nalbuphine', 'pethidine', 'dextromethorphan'],
+    duplicateTherapy: 'major',
+  },
+  nitrate: {
+    label: 'nitrates',
+    members: ['glyceryl trinitrate', 'nitroglycerin', 'isosorbide mononitrate', 'isosorbide dinitrate'],
+  },
+  pde5_inhibitor: {
+    label: 'PDE5 inhibitors',
+    members: ['sildenafil', 'tadalafil', 'vardenafil'],
+  },
+  macrolide: {
+    label: 'macrolides',
+    members: ['clarithromycin', 'erythromycin'],
+  },
+  azole: {
+    label: 'azole antifungals',
+    members: ['fluconazole', 'itraconazole', 'ketoconazole', 'voriconazole'],
+  },
+  antacid: {
+    label: 'antacids and mineral supplements',
+    members: [
+      'aluminium hydroxide',
+      'magnesium hydroxide',
+      'magnesium trisilicate',
+      'calcium carbonate',
+      'ferrous sulfate',
+      'ferrous fumarate',
+      'zinc sulfate',
+    ],
+  },
+  quinolone: {
+    label: 'quinolones',
+    members: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin'],
+  },
+  potassium_raising: {
+    label: 'potassium-sparing drugs',
+    members: ['spironolactone', 'eplerenone', 'amiloride', 'potassium chloride'],
+  },
+};
+
+interface InteractionRule {
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+const INTERACTION_RULES: InteractionRule[] = [
+  {
+    a: 'warfarin',
+    b: '@nsaid',
+    severity: 'major',
+    description: 'Greatly raises the risk of bleeding, including stomach bleeds.',
+  },
+  {
+    a: 'warfarin',
+    b: 'metronidazole',
+    severity: 'major',
+    description: 'Metronidazole raises warfarin levels and the INR; bleeding risk.',
+  },
+  {
+    a: 'warfarin',
+    b: '@azole',
+    severity: 'major',
+    description: 'Azole antifungals raise warfarin levels and the INR; bleeding risk.',
+  },
+  {
+    a: 'warfarin',
+    b: '@quinolone',
+    severity: 'moderate',
+    description: 'May raise the INR. The patient should have it checked.',
+  },
+  {
+    a: '@pde5_inhibitor',
+    b: '@nitrate',
+    severity: 'major',
+    description: 'Can cause a sudden, dangerous fall in blood pressure.',
+  },
+  {
+    a: '@ssri',
+    b: 'tramadol',
+    severity: 'major',
+    description: 'Risk of serotonin syndrome and seizures.',
+  },
+  {
+    a: '@benzodiazepine',
+    b: '@opioid',
+    severity: 'major',
+    description: 'Combined sedation can slow or stop breathing.',
+  },
+  {
+    a: 'lithium',
+    b: '@nsaid',
+    severity: 'major',
+    description: 'NSAIDs raise lithium levels towards toxicity.',
+  },
+  {
+    a: 'methotrexate',
+    b: 'trimethoprim',
+    severity: 'major',
+    description: 'Both suppress the bone marrow; risk of severe blood disorders.',
+  },
+  {
+    a: 'digoxin',
+    b: 'amiodarone',
+    severity: 'major',
+    description: 'Amiodarone raises digoxin levels; risk of toxicity and slow heart rate.',
+  },
+  {
+    a: 'simvastatin',
+    b: '@macrolide',
+    severity: 'major',
+    description: 'Raises simvastatin levels; risk of muscle breakdown (rhabdomyolysis).',
+  },
+  {
+    a: 'domperidone',
+    b: '@macrolide',
+    severity: 'major',
+    description: 'Both prolong the QT interval; risk of dangerous heart rhythms.',
+  },
+  {
+    a: 'domperidone',
+    b: '@azole',
+    severity: 'major',
+    description: 'Raises domperidone levels and prolongs the QT interval.',
+  },
+  {
+    a: 'theophylline',
+    b: 'ciprofloxacin',
+    severity: 'major',
+    description: 'Ciprofloxacin raises theophylline levels; risk of seizures.',
+  },
+  {
+    a: 'clopidogrel',
+    b: 'omeprazole',
+    severity: 'moderate',
+    description: 'Omeprazole weakens the effect of clopidogrel. Pantoprazole is preferred.',
+  },
+  {
+    a: 'clopidogrel',
+    b: 'esomeprazole',
+    severity: 'moderate',
+    description: 'Esomeprazole weakens the effect of clopidogrel. Pantoprazole is preferred.',
+  },
+  {
+    a: 'atorvastatin',
+    b: '@macrolide',
+    severity: 'moderate',
+    description: 'Raises atorvastatin levels; watch for muscle pain.',
+  },
+  {
+    a: '@ssri',
+    b: '@nsaid',
+    severity: 'moderate',
+    description: 'Higher risk of stomach bleeding.',
+  },
+  {
+    a: '@ace_inhibitor',
+    b: '@potassium_raising',
+    severity: 'moderate',
+    description: 'Risk of high potassium levels.',
+  },
+  {
+    a: '@ace_inhibitor',
+    b: '@nsaid',
+    severity: 'moderate',
+    description: 'Reduces the blood pressure effect and can harm the kidneys.',
+  },
+  {
+    a: '@quinolone',
+    b: '@antacid',
+    severity: 'minor',
+    description: 'Antacids and minerals block absorption. Take the antibiotic 2 hours before or 6 hours after.',
+  },
+  {
+    a: 'doxycycline',
+    b: '@antacid',
+    severity: 'minor',
+    description: 'Antacids and minerals block absorption. Take them at least 2 hours apart.',
+  },
+  {
+    a: 'levothyroxine',
+    b: '@antacid',
+    severity: 'minor',
+    description: 'Reduces levothyroxine absorption. Take them at least 4 hours apart.',
+  },
+];
+
+// Anything in the cart that can take part in a check
+export interface InteractionCheckItem {
+  productId: string;
+  productName: string;
+  saltFormula: string | null | undefined;
+  strength?: string | null;
+}
+
+export interface CartInteraction {
+  key: string; // Stable while the same two products stay in the cart
+  kind: 'interaction' | 'duplicate';
+  severity: InteractionSeverity;
+  products: [string, string];
+  ingredients: [string, string];
+  description: string;
+}
+
+const classesOf = (ingredient: string) =>
+  Object.entries(DRUG_CLASSES)
+    .filter(([, drugClass]) => drugClass.members.includes(ingredient))
+    .map(([id]) => id);
+
+const matchesTerm = (ingredient: string, term: string) =>
+  term.startsWith('@') ? DRUG_CLASSES[term.slice(1)]?.members.includes(ingredient) ?? false : ingredient === term;
+
+const capitalise = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Check every pair of different products in the cart. Returns the worst
+ * finding per pair of ingredients, most severe first.
+ */
+export function findInteractions(items: InteractionCheckItem[]): CartInteraction[] {
+  const products = new Map<string, { name: string; ingredients: string[] }>();
+  for (const item of items) {
+    if (products.has(item.productId)) continue; // Same product in another pack size
+    const ingredients = parseSaltFormula(item.saltFormula, item.strength).map((i) => i.name);
+    if (ingredients.length > 0) {
+      products.set(item.productId, { name: item.productName, ingredients: [...new Set(ingredients)] });
+    }
+  }
+
+  const found = new Map<string, CartInteraction>();
+  const record = (finding: CartInteraction) => {
+    const existing = found.get(finding.key);
+    if (!existing || SEVERITY_RANK[finding.severity] > SEVERITY_RANK[existing.severity]) {
+      found.set(finding.key, finding);
+    }
+  };
+
+  const entries = [...products.entries()].sort(([a], [b]) => a.localeCompare(b));
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const [firstId, first] = entries[i];
+      const [secondId, second] = entries[j];
+
+      for (const x of first.ingredients) {
+        for (const y of second.ingredients) {
+          const pairKey = `${firstId}:${secondId}:${[x, y].sort().join('|')}`;
+
+          if (x === y) {
+            record({
+              key: pairKey,
+              kind: 'duplicate',
+              severity: 'moderate',
+              products: [first.name, second.name],
+              ingredients: [x, y],
+              description: `Both contain ${x}. Check the combined dose is not exceeded.`,
+            });
+            continue;
+          }
+
+          for (const classId of classesOf(x)) {
+            const drugClass = DRUG_CLASSES[classId];
+            if (drugClass.duplicateTherapy && drugClass.members.includes(y)) {
+              record({
+                key: pairKey,
+                kind: 'duplicate',
+                severity: drugClass.duplicateTherapy,
+                products: [first.name, second.name],
+                ingredients: [x, y],
+                description: `${capitalise(x)} and ${y} are both ${drugClass.label}; taking two adds side effects, not benefit.`,
+              });
+            }
+          }
+
+          for (const rule of INTERACTION_RULES) {
+            if ((matchesTerm(x, rule.a) && matchesTerm(y, rule.b)) || (matchesTerm(x, rule.b) && matchesTerm(y, rule.a))) {
+              record({
+                key: pairKey,
+                kind: 'interaction',
+                severity: rule.severity,
+                products: [first.name, second.name],
+                ingredients: [x, y],
+                description: rule.description,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return [...found.values()].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+// A pharmacist's sign-off on the major interactions in a cart, stored with the sale
+export interface InteractionAcknowledgement {
+  note: string;
+  interactions: CartInteraction[];
+}
@@ -0,0 +1,63 @@
+/**
+ * Customer credit (udhaar) ledger helpers.
+ * Ledger amounts are signed: sales on credit are positive, payments and
+ * returns negative, so a customer's balance is the plain sum.
+ */
+
+export type LedgerEntryType = 'sale' | 'payment' | 'return';
+
+export interface LedgerEntry {
+  id: number;
+  customer_id: string;
+  entry_type: LedgerEntryType;
+  amount: number;
+  sale_id: string | null;
+  return_id: string | null;
+  payment_method: string | null;
+  reference: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface StatementLine extends LedgerEntry {
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  sale: 'Credit sale',
+  payment: 'Payment received',
+  return: 'Return',
+};
+
+// Matches the buckets returned by public.customer_balances()
+export const AGEING_BUCKETS = [
+  { key: 'due_0_30', label: '0-30 days' },
+  { key: 'due_31_60', label: '31-60 days' },
+  { key: 'due_61_90', label: '61-90 days' },
+  { key: 'due_over_90', label: '90+ days' },
+] as const;
+
+export type AgeingBucketKey = (typeof AGEING_BUCKETS)[number]['key'];
+
+/**
+ * Turn ledger entries into statement lines with a running balance
+ * @param entries - Entries in date order
+ * @param openingBalance - Balance before the first entry
+ */
+export function buildStatement(entries: LedgerEntry[], openingBalance = 0): StatementLine[] {
+  let balance = openingBalance;
+  return entries.map((entry) => {
+    const amount = Number(entry.amount) || 0;
+    balance += amount;
+    return {
+      ...entry,
+      amount,
+      debit: amount > 0 ? amount : 0,
+      credit: amount < 0 ? -amount : 0,
+      balance,
+    };
+  });
+}
@@ -0,0 +1,49 @@
+import type { StockBatch } from '@/hooks/useProducts';
+
+/**
+ * Whether an error means the server could not be reached at all,
+ * as opposed to the server rejecting the request.
+ * @param err - Error returned or thrown by a Supabase call
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (!err || typeof err !== 'object' || !('message' in err)) return false;
+  const message = String(err.message);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+/**
+ * Deduct quantities from a local batch snapshot using FEFO, mirroring the
+ * server-side deduct_stock_fefo() so offline stock levels stay plausible.
+ * @param batches - Cached batches (not mutated)
+ * @param items - Product quantities to deduct, in packs of unit_factor base units,
+ * taking batch_number first when given
+ * @returns Updated batch list
+ */
+export function deductFromSnapshot(
+  batches: StockBatch[],
+  items: Array<{ product_id: string; quantity: number; unit_factor?: number; batch_number?: string | null }>
+): StockBatch[] {
+  const today = new Date().toISOString().split('T')[0];
+  const updated = batches.map((b) => ({ ...b }));
+
+  for (const item of items) {
+    let remaining = item.quantity * (item.unit_factor ?? 1);
+    const sellable = updated
+      .filter((b) => b.product_id === item.product_id && b.quantity > 0 && b.expiry_date >= today)
+      .sort(
+        (a, b) =>
+          Number(b.batch_number === item.batch_number) - Number(a.batch_number === item.batch_number) ||
+          a.expiry_date.localeCompare(b.expiry_date)
+      );
+
+    for (const batch of sellable) {
+      if (remaining <= 0) break;
+      const deduct = Math.min(batch.quantity, remaining);
+      batch.quantity -= deduct;
+      remaining -= deduct;
+    }
+  }
+
+  return updated;
+}
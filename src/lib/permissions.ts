@@ -0,0 +1,62 @@
+/**
+ * Role-based access control.
+ * The matrix below must stay in sync with public.has_permission() in
+ * supabase/migrations/20260126000000_interaction_warnings.sql, which is what
+ * RLS actually enforces. The client copy only decides what to show.
+ */
+
+export type AppRole = 'owner' | 'pharmacist' | 'cashier';
+
+export type Permission =
+  | 'sales.create'
+  | 'sales.return'
+  | 'stock.receive'
+  | 'purchasing.manage'
+  | 'products.manage'
+  | 'racks.manage'
+  | 'reports.view'
+  | 'users.manage'
+  | 'audit.view'
+  | 'settings.manage'
+  | 'interactions.acknowledge';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  owner: 'Owner',
+  pharmacist: 'Pharmacist',
+  cashier: 'Cashier',
+};
+
+export const ROLE_PERMISSIONS: Record<AppRole, readonly Permission[]> = {
+  cashier: ['sales.create'],
+  pharmacist: ['sales.create', 'sales.return', 'stock.receive', 'reports.view', 'interactions.acknowledge'],
+  owner: [
+    'sales.create',
+    'sales.return',
+    'stock.receive',
+    'purchasing.manage',
+    'products.manage',
+    'racks.manage',
+    'reports.view',
+    'users.manage',
+    'audit.view',
+    'settings.manage',
+    'interactions.acknowledge',
+  ],
+};
+
+/**
+ * Check whether a role grants a permission
+ * @param role - The user's role, or null while it is still loading
+ * @param permission - Permission to check
+ */
+export function hasPermission(role: AppRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Narrow an arbitrary value from the database to a known role
+ */
+export function isAppRole(value: unknown): value is AppRole {
+  return value === 'owner' || value === 'pharmacist' || value === 'cashier';
+}
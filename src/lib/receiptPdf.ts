@@ -0,0 +1,105 @@
+import { LINE_WIDTH, layoutReceipt, type EscPosReceipt, type PaperWidth } from './escpos';
+
+/**
+ * A receipt as a PDF, built in the browser.
+ * The page is the width of the receipt roll and as long as the receipt, set
+ * in Courier so it lines up like the thermal print. The QR code is left out;
+ * the receipt number is printed above it anyway.
+ */
+
+export interface ReceiptPdfOptions {
+  paperWidth: PaperWidth;
+  duplicate?: boolean; // Watermark every page DUPLICATE
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+const MARGIN = 8;
+const COURIER_ADVANCE = 0.6; // Width of a Courier character, in ems
+const LINE_SPACING = 1.25;
+const WATERMARK = 'DUPLICATE';
+const WATERMARK_WIDTH = 5.722; // Helvetica-Bold, in ems
+
+// PDF strings are Latin-1 with \, ( and ) escaped
+function pdfString(value: string): string {
+  const latin1 = Array.from(value, (char) => (char.charCodeAt(0) < 256 ? char : '?')).join('');
+  return `(${latin1.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Render a receipt as the bytes of a one-page PDF file
+ */
+export function renderReceiptPdf(receipt: EscPosReceipt, options: ReceiptPdfOptions): Uint8Array {
+  const width = LINE_WIDTH[options.paperWidth];
+  const pageWidth = options.paperWidth * POINTS_PER_MM;
+  const fontSize = (pageWidth - MARGIN * 2) / (width * COURIER_ADVANCE);
+  const lineHeight = fontSize * LINE_SPACING;
+
+  const lines = layoutReceipt(receipt, width).flatMap((block) => (block.kind === 'text' ? [block] : []));
+  const height = lines.reduce((sum, line) => sum + (line.size ? lineHeight * 2 : lineHeight), 0);
+  const pageHeight = Math.ceil(height + MARGIN * 2);
+
+  const content: string[] = [];
+  if (options.duplicate) {
+    // Light grey, across the middle of the page
+    const size = Math.min(pageWidth, pageHeight) / (WATERMARK_WIDTH * 0.8);
+    const offset = (WATERMARK_WIDTH * size) / 2 / Math.SQRT2;
+    content.push(
+      'q 0.85 g BT',
+      `/F3 ${round(size)} Tf`,
+      `0.7071 0.7071 -0.7071 0.7071 ${round(pageWidth / 2 - offset + (size * 0.35) / Math.SQRT2)} ${round(pageHeight / 2 - offset - (size * 0.35) / Math.SQRT2)} Tm`,
+      `${pdfString(WATERMARK)} Tj`,
+      'ET Q'
+    );
+  }
+
+  content.push('BT');
+  let y = pageHeight - MARGIN;
+  for (const line of lines) {
+    const scaleX = line.size === 'large' ? 2 : 1;
+    const scaleY = line.size ? 2 : 1;
+    y -= lineHeight * scaleY;
+    const textWidth = line.text.length * fontSize * COURIER_ADVANCE * scaleX;
+    const usable = pageWidth - MARGIN * 2;
+    const x =
+      line.align === 'center'
+        ? MARGIN + (usable - textWidth) / 2
+        : line.align === 'right'
+          ? MARGIN + usable - textWidth
+          : MARGIN;
+    if (!line.text) continue;
+    content.push(
+      `/${line.bold ? 'F2' : 'F1'} ${round(fontSize)} Tf`,
+      `${scaleX} 0 0 ${scaleY} ${round(x)} ${round(y + fontSize * 0.25 * scaleY)} Tm`,
+      `${pdfString(line.text)} Tj`
+    );
+  }
+  content.push('ET');
+  const stream = content.join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(pageWidth)} ${pageHeight}] ` +
+      '/Resources << /Font << /F1 5 0 R /F2 6 0 R /F3 7 0 R >> >> /Contents 4 0 R >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  // Every character is Latin-1, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
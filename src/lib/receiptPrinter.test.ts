@@ -0,0 +1,107 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type { ReceiptData } from '@/contexts/ReceiptContext';
+import type { StoreSettings } from '@/hooks/useSettings';
+import { COMMANDS, qrCode } from './escpos';
+import { escPosReceiptBytes } from './receiptPrinter';
+
+/**
+ * Receipts compared byte for byte with the files in __fixtures__. After an
+ * intended change to the layout, rewrite them with
+ * UPDATE_GOLDEN=1 npm test
+ * and check the differences before committing.
+ */
+
+const STORE: StoreSettings = {
+  store_name: 'Khalil Pharmacy',
+  tagline: null,
+  address: 'GT Road, Salhad Abbottabad',
+  license_number: 'Licence no. 8b-1rd73Z76k',
+  phone: '0992-123456',
+  email: null,
+  logo_url: null,
+  receipt_header: 'NTN 1234567-8',
+  receipt_footer: 'Thank you for choosing Khalil Pharmacy.',
+  return_policy: 'No return after 2 days',
+  expiry_warning_days: 30,
+  short_expiry_days: 90,
+  return_window_hours: 48,
+  max_discount_percent: 100,
+  receipt_paper_width: 80,
+  default_payment_method: 'cash',
+};
+
+const SALE: ReceiptData = {
+  items: [
+    { productId: 'p1', productName: 'Panadol Extra 500mg', quantity: 2, unitPrice: 120, total: 240, unitName: 'Strip' },
+    { productId: 'p2', productName: 'Augmentin 625mg Tablets (Amoxicillin + Clavulanic Acid)', quantity: 1, unitPrice: 850, total: 850 },
+  ],
+  total: 1090,
+  discount: 40,
+  finalTotal: 1050,
+  paymentMethod: 'split',
+  payments: [
+    { method: 'card', amount: 550, reference: 'TXN-88412' },
+    { method: 'cash', amount: 500, tendered: 1000 },
+  ],
+  saleId: 'RCP-000123',
+};
+
+const DUPLICATE: ReceiptData = {
+  ...SALE,
+  soldAt: new Date(2026, 0, 14, 16, 45).toISOString(),
+  reprintedAt: new Date(2026, 0, 20, 9, 5).toISOString(),
+  returns: [{ receiptNumber: 'RET-000007', productName: 'Panadol Extra 500mg', quantity: '1 Strip', amount: 120 }],
+};
+
+const PRINTED_AT = new Date(2026, 0, 14, 16, 45);
+
+const CASES = [
+  { name: 'sale-58mm', paperWidth: 58, data: SALE },
+  { name: 'sale-80mm', paperWidth: 80, data: SALE },
+  { name: 'duplicate-58mm', paperWidth: 58, data: DUPLICATE },
+  { name: 'duplicate-80mm', paperWidth: 80, data: DUPLICATE },
+] as const;
+
+const render = ({ paperWidth, data }: (typeof CASES)[number]) =>
+  escPosReceiptBytes({ openDrawer: true }, { ...STORE, receipt_paper_width: paperWidth }, data, null, PRINTED_AT);
+
+// Whether needle appears anywhere in bytes
+const contains = (bytes: Uint8Array, needle: number[]) =>
+  bytes.some((_, start) => needle.every((byte, offset) => bytes[start + offset] === byte));
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+describe('ESC/POS receipts', () => {
+  it.each(CASES)('$name matches its golden file', (testCase) => {
+    const bytes = render(testCase);
+    const file = new URL(`./__fixtures__/${testCase.name}.bin`, import.meta.url);
+    if (process.env.UPDATE_GOLDEN) writeFileSync(file, bytes);
+    expect(Buffer.from(bytes).equals(readFileSync(file))).toBe(true);
+  });
+
+  it('opens the drawer for a sale paid partly in cash, before the cut', () => {
+    const bytes = Array.from(render(CASES[1]));
+    expect(bytes.slice(-9)).toEqual([...COMMANDS.drawerKick, ...COMMANDS.cut]);
+  });
+
+  it('does not open the drawer for a duplicate', () => {
+    const bytes = render(CASES[3]);
+    expect(contains(bytes, COMMANDS.drawerKick)).toBe(false);
+    expect(Array.from(bytes.slice(-4))).toEqual(COMMANDS.cut);
+  });
+
+  it('prints the receipt number as a QR code sized for the roll', () => {
+    expect(contains(render(CASES[0]), qrCode('RCP-000123', 5))).toBe(true);
+    expect(contains(render(CASES[1]), qrCode('RCP-000123', 6))).toBe(true);
+  });
+
+  it('marks duplicates and shows the original date and returns', () => {
+    const bytes = render(CASES[3]);
+    expect(contains(bytes, ascii('*** DUPLICATE ***'))).toBe(true);
+    expect(contains(bytes, ascii('Jan 14, 2026 04:45 PM'))).toBe(true);
+    expect(contains(bytes, ascii('Reprinted Jan 20, 2026 09:05 AM'))).toBe(true);
+    expect(contains(bytes, ascii('1 Strip x Panadol Extra 500mg'))).toBe(true);
+    expect(contains(render(CASES[1]), ascii('DUPLICATE'))).toBe(false);
+  });
+});
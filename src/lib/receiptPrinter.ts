@@ -0,0 +1,138 @@
+import type { ReceiptData } from '@/contexts/ReceiptContext';
+import type { Branch } from '@/hooks/useBranches';
+import type { StoreSettings } from '@/hooks/useSettings';
+import { formatPKR } from './currency';
+import { renderReceipt, type EscPosReceipt } from './escpos';
+import { calculateTender, tenderLabel, TENDER_LABELS } from './tender';
+
+/**
+ * Sending receipts to a thermal printer.
+ * The browser cannot talk to a USB or network printer itself, so each till
+ * runs a small local print bridge that accepts raw ESC/POS bytes over HTTP
+ * POST and passes them to the printer. When no bridge is set, or it cannot be
+ * reached, the POS prints the HTML receipt through the browser instead.
+ */
+
+export interface ReceiptPrinterSettings {
+  endpoint: string; // e.g. http://localhost:9100/print; empty for browser printing
+  openDrawer: boolean; // Kick the cash drawer after sales with cash
+}
+
+export const DEFAULT_RECEIPT_PRINTER: ReceiptPrinterSettings = {
+  endpoint: '',
+  openDrawer: true,
+};
+
+const PRINT_TIMEOUT_MS = 5000;
+
+/**
+ * The receipt document for a sale, with the same content as the HTML receipt.
+ * Reprints carry the original sale date and are marked as duplicates.
+ */
+export function buildEscPosReceipt(
+  data: ReceiptData,
+  branch: Pick<Branch, 'address' | 'phone' | 'license_number'> | null | undefined,
+  store: StoreSettings,
+  printedAt: Date
+): EscPosReceipt {
+  const payments = data.payments ?? [];
+  const { change } = calculateTender(payments, data.finalTotal);
+
+  const totals: EscPosReceipt['totals'] = [{ label: 'Subtotal:', amount: formatPKR(data.total) }];
+  if (data.discount > 0) totals.push({ label: 'Discount:', amount: `-${formatPKR(data.discount)}` });
+  totals.push({ label: 'TOTAL:', amount: formatPKR(data.finalTotal), emphasis: true });
+
+  const paymentLines: EscPosReceipt['payments'] = payments.map((payment) => ({
+    label: `${TENDER_LABELS[payment.method]}:`,
+    amount: formatPKR(payment.tendered ?? payment.amount),
+    reference: payment.reference,
+  }));
+  if (change > 0) paymentLines.push({ label: 'Change:', amount: formatPKR(change) });
+
+  return {
+    storeName: store.store_name,
+    headerLines: [
+      branch?.address || store.address || '',
+      branch?.phone || store.phone || '',
+      branch?.license_number || store.license_number || '',
+      ...(store.receipt_header?.split('\n') ?? []),
+    ],
+    receiptNumber: data.saleId,
+    printedAt: data.soldAt ? new Date(data.soldAt) : printedAt,
+    reprintedAt: data.reprintedAt ? new Date(data.reprintedAt) : null,
+    items: data.items.map((item) => ({
+      name: item.productName,
+      quantity: `${item.quantity}${item.unitName ? ` ${item.unitName}` : ''}`,
+      unitPrice: formatPKR(item.unitPrice),
+      total: formatPKR(item.total),
+    })),
+    totals,
+    payments: paymentLines,
+    returns: (data.returns ?? []).map((line) => ({
+      label: `${line.quantity} x ${line.productName}`,
+      amount: `-${formatPKR(line.amount)}`,
+    })),
+    paymentMethod: tenderLabel(data.paymentMethod),
+    footerLines: [store.return_policy || '', store.receipt_footer || ''],
+  };
+}
+
+/**
+ * Whether the sale took cash, so the drawer should open
+ */
+export function takesCash(data: Pick<ReceiptData, 'paymentMethod' | 'payments'>): boolean {
+  if (data.payments && data.payments.length > 0) return data.payments.some((payment) => payment.method === 'cash');
+  return data.paymentMethod === 'cash';
+}
+
+/**
+ * POST raw ESC/POS bytes to the print bridge. Resolves false when the bridge
+ * is unreachable, rejects the job or does not answer in time.
+ */
+export async function sendToPrinter(endpoint: string, bytes: Uint8Array): Promise<boolean> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PRINT_TIMEOUT_MS);
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: bytes,
+      signal: controller.signal,
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error sending receipt to printer:', error);
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * The bytes printed for a sale's receipt
+ */
+export function escPosReceiptBytes(
+  settings: Pick<ReceiptPrinterSettings, 'openDrawer'>,
+  store: StoreSettings,
+  data: ReceiptData,
+  branch: Pick<Branch, 'address' | 'phone' | 'license_number'> | null | undefined,
+  printedAt: Date
+): Uint8Array {
+  return renderReceipt(buildEscPosReceipt(data, branch, store, printedAt), {
+    paperWidth: store.receipt_paper_width,
+    // The drawer only opens for the sale itself, not for reprints
+    openDrawer: settings.openDrawer && takesCash(data) && !data.reprintedAt,
+  });
+}
+
+/**
+ * Render and send a sale's receipt
+ */
+export async function printEscPosReceipt(
+  settings: ReceiptPrinterSettings,
+  store: StoreSettings,
+  data: ReceiptData,
+  branch: Pick<Branch, 'address' | 'phone' | 'license_number'> | null | undefined
+): Promise<boolean> {
+  return sendToPrinter(settings.endpoint, escPosReceiptBytes(settings, store, data, branch, new Date()));
+}
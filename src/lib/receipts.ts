@@ -0,0 +1,70 @@
+import type { ReceiptData, ReceiptReturnLine } from '@/contexts/ReceiptContext';
+import type { Sale } from '@/hooks/useSales';
+import { formatSoldQuantity } from './units';
+import { paymentsForSale } from './tender';
+
+/**
+ * Rebuilding the receipt of a past sale from what the database keeps.
+ * sale_items hold base-unit quantities and prices, so items sold in packs are
+ * turned back into packs when the quantity divides evenly, as at the counter.
+ */
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The receipt a sale was printed with, plus anything returned since
+ */
+export function saleToReceiptData(sale: Sale, reprintedAt: Date | null = null): ReceiptData {
+  const items = (sale.items ?? []).map((item) => {
+    const factor = item.unit_factor ?? 1;
+    const inPacks = Boolean(item.unit_name) && factor > 1 && item.quantity % factor === 0;
+    return {
+      productId: item.product_id,
+      productName: item.product_name,
+      quantity: inPacks ? item.quantity / factor : item.quantity,
+      unitPrice: inPacks ? round2(item.unit_price * factor) : item.unit_price,
+      total: item.total,
+      unitName: inPacks ? (item.unit_name ?? undefined) : undefined,
+    };
+  });
+
+  const returns: ReceiptReturnLine[] = (sale.returns ?? []).flatMap((salesReturn) =>
+    salesReturn.return_items.map((returned) => {
+      const item = sale.items?.find((saleItem) => saleItem.id === returned.sale_item_id);
+      return {
+        receiptNumber: salesReturn.receipt_number,
+        productName: item?.product_name ?? 'Unknown',
+        quantity: formatSoldQuantity({ ...item, quantity: returned.quantity }),
+        amount: round2((item?.unit_price ?? 0) * returned.quantity),
+      };
+    })
+  );
+
+  const total = sale.total || 0;
+  const discount = sale.discount || 0;
+
+  return {
+    items,
+    total,
+    discount,
+    finalTotal: round2(total - discount),
+    paymentMethod: sale.payment_method,
+    payments: paymentsForSale(sale).map((payment) => ({
+      method: payment.method,
+      amount: payment.amount,
+      tendered: payment.tendered,
+      reference: payment.reference ?? undefined,
+    })),
+    saleId: sale.receipt_number,
+    branchId: sale.branch_id,
+    soldAt: sale.created_at,
+    reprintedAt: reprintedAt?.toISOString() ?? null,
+    returns,
+  };
+}
+
+/**
+ * Total refunded on a sale's returns
+ */
+export const returnedAmount = (returns: ReceiptReturnLine[] | undefined) =>
+  round2((returns ?? []).reduce((sum, line) => sum + line.amount, 0));
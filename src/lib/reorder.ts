@@ -0,0 +1,122 @@
+/**
+ * Reorder engine.
+ *
+ * Average daily demand comes from net units sold over a history window.
+ * A product needs reordering once the stock we have plus what is already on
+ * order falls to its reorder point:
+ *
+ *   reorder point = demand during the supplier lead time + safety stock
+ *                   (never below the product's min_stock)
+ *   order up to   = reorder point + demand for the cover period
+ */
+
+export interface ReorderSettings {
+  historyDays: number;
+  safetyDays: number; // Days of demand held back as safety stock
+  coverDays: number; // Days of demand each order should cover beyond the reorder point
+  defaultLeadTimeDays: number; // Used when the supplier has no lead time or there is no supplier
+}
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  historyDays: 30,
+  safetyDays: 7,
+  coverDays: 14,
+  defaultLeadTimeDays: 3,
+};
+
+export interface ReorderProductInput {
+  productId: string;
+  name: string;
+  strength: string | null;
+  minStock: number;
+  currentStock: number; // Non-expired units on hand
+  onOrder: number; // Units outstanding on sent purchase orders
+  unitsSold: number; // Net units sold during the history window
+  supplierId: string | null;
+  supplierName: string | null;
+  leadTimeDays: number | null;
+  lastCost: number | null;
+}
+
+export interface ReorderSuggestion extends ReorderProductInput {
+  averageDailyDemand: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  daysOfStock: number | null; // null when nothing sells
+  suggestedQuantity: number;
+}
+
+export interface SupplierReorderGroup {
+  supplierId: string | null;
+  supplierName: string;
+  suggestions: ReorderSuggestion[];
+  estimatedCost: number;
+}
+
+/**
+ * Work out whether and how much to reorder for one product
+ * @returns The suggestion, or null when stock is above the reorder point
+ */
+export function suggestReorder(input: ReorderProductInput, settings: ReorderSettings): ReorderSuggestion | null {
+  const historyDays = Math.max(settings.historyDays, 1);
+  const averageDailyDemand = input.unitsSold / historyDays;
+  const leadTimeDays = input.leadTimeDays && input.leadTimeDays > 0 ? input.leadTimeDays : settings.defaultLeadTimeDays;
+
+  const safetyStock = averageDailyDemand * settings.safetyDays;
+  const reorderPoint = Math.max(averageDailyDemand * leadTimeDays + safetyStock, input.minStock);
+  const available = input.currentStock + input.onOrder;
+
+  if (available > reorderPoint) return null;
+
+  const orderUpTo = reorderPoint + averageDailyDemand * settings.coverDays;
+  const suggestedQuantity = Math.ceil(orderUpTo - available);
+  if (suggestedQuantity <= 0) return null;
+
+  return {
+    ...input,
+    averageDailyDemand,
+    leadTimeDays,
+    safetyStock: Math.ceil(safetyStock),
+    reorderPoint: Math.ceil(reorderPoint),
+    daysOfStock: averageDailyDemand > 0 ? input.currentStock / averageDailyDemand : null,
+    suggestedQuantity,
+  };
+}
+
+/**
+ * Suggestions for every product that needs ordering, grouped by supplier.
+ * Products without a supplier are grouped last.
+ */
+export function buildReorderGroups(inputs: ReorderProductInput[], settings: ReorderSettings): SupplierReorderGroup[] {
+  const groups = new Map<string, SupplierReorderGroup>();
+
+  for (const input of inputs) {
+    const suggestion = suggestReorder(input, settings);
+    if (!suggestion) continue;
+
+    const key = suggestion.supplierId ?? '';
+    const group = groups.get(key) ?? {
+      supplierId: suggestion.supplierId,
+      supplierName: suggestion.supplierName || 'No supplier',
+      suggestions: [],
+      estimatedCost: 0,
+    };
+    group.suggestions.push(suggestion);
+    group.estimatedCost += suggestion.suggestedQuantity * (suggestion.lastCost ?? 0);
+    groups.set(key, group);
+  }
+
+  for (const group of groups.values()) {
+    // Most urgent first: least cover left, then alphabetical
+    group.suggestions.sort(
+      (a, b) => (a.daysOfStock ?? Infinity) - (b.daysOfStock ?? Infinity) || a.name.localeCompare(b.name)
+    );
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    if (!a.supplierId) return 1;
+    if (!b.supplierId) return -1;
+    return a.supplierName.localeCompare(b.supplierName);
+  });
+}
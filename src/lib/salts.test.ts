@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { normaliseIngredientName, parseSaltFormula, saltKey } from './salts';
+
+const key = (salt_formula: string | null, strength: string | null = null) => saltKey({ salt_formula, strength });
+
+describe('salt keys', () => {
+  it('reduces the examples in the module comment', () => {
+    expect(key('Paracetamol 500mg')).toBe('paracetamol 500mg');
+    expect(key('paracetamol (acetaminophen) 500 mg')).toBe('paracetamol 500mg');
+    expect(key('Co-Amoxiclav: Amoxicillin 0.5g + Clavulanic acid 125mg')).toBe(
+      'amoxicillin 500mg + clavulanic acid 125mg'
+    );
+  });
+
+  it('treats g, mg and mcg strengths as the same amount', () => {
+    expect(key('Amoxicillin 1g')).toBe(key('Amoxicillin 1000 mg'));
+    expect(key('Cyanocobalamin 1000mcg')).toBe('cyanocobalamin 1mg');
+    expect(key('Cyanocobalamin 500 µg')).toBe(key('Cyanocobalamin 0.5mg'));
+    expect(key('Levothyroxine 50ug')).toBe('levothyroxine 0.05mg');
+  });
+
+  it('gives liquids per ml', () => {
+    expect(key('Paracetamol 120mg/5ml')).toBe('paracetamol 24mg/ml');
+    expect(key('Paracetamol 120 mg / 5 ml')).toBe(key('Paracetamol 24mg/ml'));
+    expect(key('Amoxicillin 0.25g/5ml')).toBe('amoxicillin 50mg/ml');
+  });
+
+  it('sorts ingredients so the order they are written in does not matter', () => {
+    expect(key('Clavulanic acid 125mg, Amoxicillin 500mg')).toBe(key('Amoxicillin 500mg + Clavulanic acid 125mg'));
+  });
+
+  it('uses the product strength when the formula has none', () => {
+    expect(key('Paracetamol', '500mg')).toBe('paracetamol 500mg');
+    expect(key('Amoxicillin + Clavulanic acid', '500mg + 125mg')).toBe('amoxicillin 500mg + clavulanic acid 125mg');
+    expect(key('Amoxicillin + Clavulanic acid', '625mg')).toBe('amoxicillin + clavulanic acid');
+  });
+
+  it('has no key without a formula', () => {
+    expect(key(null, '500mg')).toBeNull();
+    expect(key('  ')).toBeNull();
+  });
+});
+
+describe('ingredient names', () => {
+  it('drops salt forms and resolves synonyms', () => {
+    expect(normaliseIngredientName('Amlodipine Besylate')).toBe('amlodipine');
+    expect(normaliseIngredientName('Metformin HCl')).toBe('metformin');
+    expect(normaliseIngredientName('Potassium Clavulanate')).toBe('clavulanic acid');
+    expect(normaliseIngredientName('Acetaminophen')).toBe('paracetamol');
+    expect(normaliseIngredientName('Potassium')).toBe('potassium');
+  });
+
+  it('splits a formula into ingredients with their strengths', () => {
+    expect(parseSaltFormula('Amlodipine (as besylate) 5mg & Valsartan 160 mg')).toEqual([
+      { name: 'amlodipine', strength: '5mg' },
+      { name: 'valsartan', strength: '160mg' },
+    ]);
+  });
+});
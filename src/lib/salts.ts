@@ -0,0 +1,146 @@
+import type { Product } from '@/hooks/useProducts';
+
+/**
+ * Salt (generic ingredient) matching.
+ * Brands of the same generic are written many ways, so salt_formula is reduced
+ * to a key of sorted ingredient names and strengths before comparing:
+ *
+ *   "Paracetamol 500mg"                       -> "paracetamol 500mg"
+ *   "paracetamol (acetaminophen) 500 mg"      -> "paracetamol 500mg"
+ *   "Co-Amoxiclav: Amoxicillin 0.5g + Clavulanic acid 125mg"
+ *                                             -> "amoxicillin 500mg + clavulanic acid 125mg"
+ *
+ * Strengths are converted to mg (per ml for liquids). When the formula has no
+ * strengths, the product's strength field is used instead.
+ */
+
+export interface SaltIngredient {
+  name: string;
+  strength: string | null; // Normalised, e.g. "500mg" or "25mg/ml"
+}
+
+// Other names for the same ingredient, mapped to the name used on the key
+const SYNONYMS: Record<string, string> = {
+  acetaminophen: 'paracetamol',
+  apap: 'paracetamol',
+  albuterol: 'salbutamol',
+  glyburide: 'glibenclamide',
+  lidocaine: 'lignocaine',
+  frusemide: 'furosemide',
+  amoxycillin: 'amoxicillin',
+  epinephrine: 'adrenaline',
+  'clavulanate potassium': 'clavulanic acid',
+  'potassium clavulanate': 'clavulanic acid',
+  clavulanate: 'clavulanic acid',
+  'vitamin c': 'ascorbic acid',
+  'vit c': 'ascorbic acid',
+};
+
+// Salt and hydrate forms that do not change which generic it is
+const DROPPED_SUFFIXES = new Set([
+  'hydrochloride',
+  'hcl',
+  'besylate',
+  'besilate',
+  'maleate',
+  'mesylate',
+  'hyclate',
+  'citrate',
+  'tartrate',
+  'succinate',
+  'sodium',
+  'potassium',
+  'calcium',
+  'magnesium',
+  'anhydrous',
+  'monohydrate',
+  'dihydrate',
+  'trihydrate',
+]);
+
+const STRENGTH_PATTERN = /(\d+(?:\.\d+)?)\s*(mcg|µg|ug|mg|g|iu|%)(?![a-z])(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*ml(?![a-z]))?/gi;
+
+const formatAmount = (value: number) => String(Math.round(value * 10000) / 10000);
+
+/**
+ * A strength match as mg (mcg and g converted), IU or %, per ml when given
+ * per volume
+ */
+function normaliseStrength(amount: string, unit: string, perVolume?: string, hasVolume = false): string {
+  let value = parseFloat(amount);
+  let normalisedUnit = unit.toLowerCase();
+  if (normalisedUnit === 'g') {
+    value *= 1000;
+    normalisedUnit = 'mg';
+  } else if (['mcg', 'µg', 'ug'].includes(normalisedUnit)) {
+    value /= 1000;
+    normalisedUnit = 'mg';
+  }
+  if (!hasVolume) return `${formatAmount(value)}${normalisedUnit}`;
+  const volume = perVolume ? parseFloat(perVolume) : 1;
+  return `${formatAmount(value / (volume || 1))}${normalisedUnit}/ml`;
+}
+
+function parseStrengths(text: string): string[] {
+  return Array.from(text.matchAll(STRENGTH_PATTERN)).map((match) =>
+    normaliseStrength(match[1], match[2], match[3], /ml\s*$/i.test(match[0]))
+  );
+}
+
+// Mirrored by salt_ingredient_names() in the database; change both together
+export function normaliseIngredientName(raw: string): string {
+  const words = raw
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  while (words.length > 1 && DROPPED_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  const name = words.join(' ');
+  return SYNONYMS[name] ?? name;
+}
+
+/**
+ * Split a salt formula into ingredients. Bracketed text (other names, "as
+ * besylate") and a leading "Brand:" label are ignored.
+ */
+export function parseSaltFormula(formula: string | null | undefined, fallbackStrength?: string | null): SaltIngredient[] {
+  if (!formula || formula.trim() === '') return [];
+
+  const text = formula.replace(/\([^)]*\)|\[[^\]]*\]/g, ' ').replace(/^[^:]*:/, ' ');
+  const ingredients: SaltIngredient[] = [];
+
+  for (const part of text.split(/\s*(?:\+|,|;|&|\band\b|\bwith\b)\s*/i)) {
+    const strengths = parseStrengths(part);
+    const name = normaliseIngredientName(part.replace(STRENGTH_PATTERN, ' ').replace(/\b\d+(?:\.\d+)?\b/g, ' '));
+    if (!name) continue;
+    ingredients.push({ name, strength: strengths[0] ?? null });
+  }
+
+  // "Paracetamol" with a strength of 500mg on the product itself
+  if (fallbackStrength && ingredients.length > 0 && ingredients.every((i) => i.strength === null)) {
+    const strengths = parseStrengths(fallbackStrength);
+    if (strengths.length === ingredients.length) {
+      ingredients.forEach((ingredient, index) => {
+        ingredient.strength = strengths[index];
+      });
+    }
+  }
+
+  return ingredients;
+}
+
+/**
+ * Comparable key for a product's salt and strength, or null when it has no
+ * salt formula
+ */
+export function saltKey(product: Pick<Product, 'salt_formula' | 'strength'>): string | null {
+  const ingredients = parseSaltFormula(product.salt_formula, product.strength);
+  if (ingredients.length === 0) return null;
+  return ingredients
+    .map((i) => (i.strength ? `${i.name} ${i.strength}` : i.name))
+    .sort()
+    .join(' + ');
+}
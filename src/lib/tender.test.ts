@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTender, paymentsForSale, summarizeMethod, tenderLabel, totalsByMethod } from './tender';
+
+describe('split tender', () => {
+  it('gives change from the cash handed over, rounded to paisa', () => {
+    expect(calculateTender([{ method: 'cash', amount: 333.33, tendered: 500 }], 333.33)).toEqual({
+      paid: 333.33,
+      remaining: 0,
+      change: 166.67,
+    });
+    expect(calculateTender([{ method: 'cash', amount: 0.3, tendered: 1 }], 0.3).change).toBe(0.7);
+  });
+
+  it('adds lines up without floating point leftovers', () => {
+    const lines = [
+      { method: 'card' as const, amount: 0.1 },
+      { method: 'jazzcash' as const, amount: 0.2 },
+    ];
+    expect(calculateTender(lines, 0.3)).toEqual({ paid: 0.3, remaining: 0, change: 0 });
+    expect(calculateTender(lines, 1.15).remaining).toBe(0.85);
+  });
+
+  it('only gives change from cash', () => {
+    const summary = calculateTender(
+      [
+        { method: 'card', amount: 600, tendered: 700 },
+        { method: 'cash', amount: 450, tendered: 450 },
+      ],
+      1050
+    );
+    expect(summary).toEqual({ paid: 1050, remaining: 0, change: 0 });
+  });
+
+  it('shows what is still owed and what was overpaid', () => {
+    expect(calculateTender([{ method: 'cash', amount: 500 }], 1050).remaining).toBe(550);
+    expect(calculateTender([{ method: 'card', amount: 1100 }], 1050).remaining).toBe(-50);
+  });
+});
+
+describe('stored payments', () => {
+  it('records split for more than one line', () => {
+    expect(summarizeMethod([{ method: 'cash' }])).toBe('cash');
+    expect(summarizeMethod([{ method: 'cash' }, { method: 'card' }])).toBe('split');
+    expect(tenderLabel('split')).toBe('Split');
+    expect(tenderLabel('easypaisa')).toBe('Easypaisa');
+    expect(tenderLabel('cheque')).toBe('cheque');
+  });
+
+  it('totals payments by method', () => {
+    const totals = totalsByMethod([
+      { method: 'cash', amount: 0.1 },
+      { method: 'cash', amount: 0.2 },
+      { method: 'card', amount: 500 },
+    ]);
+    expect(Object.fromEntries(totals)).toEqual({ cash: 0.3, card: 500 });
+  });
+
+  it('falls back to one line for a sale without payment lines', () => {
+    expect(paymentsForSale({ payment_method: 'cash', total: 1090, discount: 40 })).toEqual([
+      { method: 'cash', amount: 1050, tendered: null, reference: null },
+    ]);
+    expect(paymentsForSale({ payment_method: 'split', total: 1090 })).toEqual([]);
+    expect(paymentsForSale({ payment_method: 'cash', total: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Split tender helpers.
+ * A sale is paid by one or more tender lines that must add up to its total;
+ * change is only ever given from cash.
+ */
+
+export type TenderMethod = 'cash' | 'card' | 'mobile' | 'jazzcash' | 'easypaisa' | 'credit';
+
+export const TENDER_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  mobile: 'Mobile',
+  jazzcash: 'JazzCash',
+  easypaisa: 'Easypaisa',
+  credit: 'Credit',
+};
+
+// Offered in the tender dialog; 'mobile' only exists on older sales
+export const TENDER_METHODS: TenderMethod[] = ['cash', 'card', 'jazzcash', 'easypaisa', 'credit'];
+
+// A line as entered at the counter
+export interface TenderLine {
+  method: TenderMethod;
+  amount: number;
+  // Cash handed over, when more than the cash amount
+  tendered?: number | null;
+  // Card or wallet transaction ID
+  reference?: string;
+}
+
+// A line as stored in sale_payments
+export interface SalePayment {
+  method: TenderMethod;
+  amount: number;
+  tendered: number | null;
+  reference: string | null;
+}
+
+export interface TenderSummary {
+  paid: number;
+  remaining: number;
+  change: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Label for a stored payment method, including 'split'
+ */
+export function tenderLabel(method: string): string {
+  if (method === 'split') return 'Split';
+  return TENDER_LABELS[method as TenderMethod] ?? method;
+}
+
+/**
+ * How much the lines cover of the amount due and the change owed
+ * @param lines - Tender lines entered so far
+ * @param due - Sale total after discount
+ */
+export function calculateTender(lines: TenderLine[], due: number): TenderSummary {
+  const paid = round2(lines.reduce((sum, line) => sum + (line.amount || 0), 0));
+  const change = round2(
+    lines.reduce(
+      (sum, line) =>
+        line.method === 'cash' && line.tendered != null && line.tendered > line.amount
+          ? sum + (line.tendered - line.amount)
+          : sum,
+      0
+    )
+  );
+  return { paid, remaining: round2(due - paid), change };
+}
+
+/**
+ * What sales.payment_method records for these lines
+ */
+export function summarizeMethod(lines: Pick<TenderLine, 'method'>[]): string {
+  if (lines.length === 1) return lines[0].method;
+  return 'split';
+}
+
+/**
+ * Total per tender method across many sales' payments
+ */
+export function totalsByMethod(payments: Pick<SalePayment, 'method' | 'amount'>[]): Map<TenderMethod, number> {
+  const totals = new Map<TenderMethod, number>();
+  for (const payment of payments) {
+    totals.set(payment.method, round2((totals.get(payment.method) ?? 0) + Number(payment.amount)));
+  }
+  return totals;
+}
+
+/**
+ * A sale's payment lines, falling back to one line for the whole amount when
+ * none are loaded (e.g. a sale still waiting in the offline queue)
+ */
+export function paymentsForSale(sale: {
+  payment_method: string;
+  total: number;
+  discount?: number;
+  payments?: SalePayment[];
+}): SalePayment[] {
+  if (sale.payments && sale.payments.length > 0) return sale.payments;
+  const amount = round2((sale.total || 0) - (sale.discount || 0));
+  if (amount <= 0 || !(sale.payment_method in TENDER_LABELS)) return [];
+  return [{ method: sale.payment_method as TenderMethod, amount, tendered: null, reference: null }];
+}
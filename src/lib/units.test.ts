@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductUnit } from '@/hooks/useProducts';
+import { formatPackBreakdown, formatSoldQuantity, packPrice, sellingUnits } from './units';
+
+const UNITS: ProductUnit[] = [
+  { name: 'Strip', factor: 10, selling_price: null },
+  { name: 'Box', factor: 100, selling_price: 950 },
+];
+
+const TABLETS = { base_unit: 'Tablet', units: UNITS };
+
+describe('pack sizes', () => {
+  it('prices a pack at its own price or the base price times its size', () => {
+    expect(packPrice(UNITS[1], 10.5)).toBe(950);
+    expect(packPrice(UNITS[0], 10.5)).toBe(105);
+    expect(packPrice({ factor: 3, selling_price: null }, 3.33)).toBe(9.99);
+    expect(packPrice({ factor: 7, selling_price: null }, 1.015)).toBe(7.11);
+  });
+
+  it('lists the base unit first and larger packs after', () => {
+    expect(sellingUnits(TABLETS, 10)).toEqual([
+      { name: 'Tablet', factor: 1, price: 10 },
+      { name: 'Strip', factor: 10, price: 100 },
+      { name: 'Box', factor: 100, price: 950 },
+    ]);
+    expect(sellingUnits({ base_unit: ' ' }, 10)).toEqual([{ name: 'Unit', factor: 1, price: 10 }]);
+  });
+
+  it('breaks stock down into packs', () => {
+    expect(formatPackBreakdown(235, TABLETS)).toBe('2 Box, 3 Strip, 5 Tablet');
+    expect(formatPackBreakdown(200, TABLETS)).toBe('2 Box');
+    expect(formatPackBreakdown(7, TABLETS)).toBe('7 Tablet');
+    expect(formatPackBreakdown(235, { base_unit: 'Tablet' })).toBe('235');
+  });
+
+  it('shows a sale line in the pack it was sold in', () => {
+    expect(formatSoldQuantity({ quantity: 20, unit_name: 'Strip', unit_factor: 10 })).toBe('2 Strip');
+    expect(formatSoldQuantity({ quantity: 25, unit_name: 'Strip', unit_factor: 10 })).toBe('25');
+    expect(formatSoldQuantity({ quantity: 20 })).toBe('20');
+  });
+});
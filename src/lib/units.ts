@@ -0,0 +1,74 @@
+import type { Product, ProductUnit } from '@/hooks/useProducts';
+
+/**
+ * Pack sizes.
+ * Stock is counted in a product's base unit (e.g. Tablet). A product can also
+ * be sold in packs that hold a whole number of base units, e.g.
+ *
+ *   Strip = 10 tablets, Box = 100 tablets
+ *
+ * so 235 tablets on hand reads as "2 Box, 3 Strip, 5 Tablet".
+ */
+
+export interface SellingUnit {
+  name: string;
+  factor: number; // Base units in one of these; 1 for the base unit itself
+  price: number;
+}
+
+export const baseUnitName = (product: Pick<Product, 'base_unit'>) => product.base_unit?.trim() || 'Unit';
+
+/**
+ * Packs largest first
+ */
+export const sortedUnits = (units: ProductUnit[] | null | undefined) =>
+  [...(units ?? [])].sort((a, b) => b.factor - a.factor);
+
+/**
+ * Price of a pack: its own price when set, otherwise factor x the base price
+ */
+export const packPrice = (unit: Pick<ProductUnit, 'factor' | 'selling_price'>, basePrice: number) =>
+  unit.selling_price != null ? Number(unit.selling_price) : Math.round(unit.factor * basePrice * 100) / 100;
+
+/**
+ * Everything the product can be sold as, base unit first
+ */
+export function sellingUnits(product: Pick<Product, 'base_unit' | 'units'>, basePrice: number): SellingUnit[] {
+  return [
+    { name: baseUnitName(product), factor: 1, price: basePrice },
+    ...sortedUnits(product.units)
+      .reverse()
+      .map((unit) => ({ name: unit.name, factor: unit.factor, price: packPrice(unit, basePrice) })),
+  ];
+}
+
+/**
+ * A base-unit quantity broken down into the product's packs, e.g.
+ * "2 Box, 3 Strip, 5 Tablet". Products without packs show the plain number.
+ */
+export function formatPackBreakdown(quantity: number, product: Pick<Product, 'base_unit' | 'units'>): string {
+  const units = sortedUnits(product.units);
+  if (units.length === 0 || quantity <= 0) return String(quantity);
+
+  const parts: string[] = [];
+  let remaining = quantity;
+  for (const unit of units) {
+    const packs = Math.floor(remaining / unit.factor);
+    if (packs > 0) {
+      parts.push(`${packs} ${unit.name}`);
+      remaining -= packs * unit.factor;
+    }
+  }
+  if (remaining > 0) parts.push(`${remaining} ${baseUnitName(product)}`);
+  return parts.join(', ');
+}
+
+/**
+ * A sale line's quantity as it was sold, e.g. "2 Strip" for 20 tablets sold
+ * as strips. Sale lines store base units.
+ */
+export function formatSoldQuantity(item: { quantity: number; unit_name?: string | null; unit_factor?: number }) {
+  const factor = item.unit_factor ?? 1;
+  if (!item.unit_name || factor <= 1 || item.quantity % factor !== 0) return String(item.quantity);
+  return `${item.quantity / factor} ${item.unit_name}`;
+}
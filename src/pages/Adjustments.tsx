@@ -0,0 +1,694 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useProducts, StockBatch } from '@/hooks/useProducts';
+import {
+  ADJUSTMENT_REASON_LABELS,
+  AdjustmentReason,
+  BatchHistoryEntry,
+  StockAdjustment,
+  StockAdjustmentItem,
+  StockLossRow,
+  useStockAdjustments,
+} from '@/hooks/useStockAdjustments';
+import { supabase } from '@/integrations/supabase/client';
+import { formatPKR } from '@/lib/currency';
+import { format, startOfMonth } from 'date-fns';
+import { Check, Eye, History, Loader2, PackageMinus, Plus, Search, Trash2, X } from 'lucide-react';
+
+// Picker rows shown while searching for batches to adjust
+const SEARCH_LIMIT = 8;
+
+const REASONS = Object.keys(ADJUSTMENT_REASON_LABELS) as AdjustmentReason[];
+
+const HISTORY_LABELS: Record<BatchHistoryEntry['entry_type'], string> = {
+  receipt: 'Received',
+  transfer_in: 'Transferred in',
+  sale: 'Sale',
+  return: 'Return',
+  transfer_out: 'Transferred out',
+  adjustment: 'Adjustment',
+  supplier_return: 'Returned to supplier',
+};
+
+interface DraftLine {
+  batch: StockBatch;
+  // Units to write off, or the counted quantity for a count correction
+  quantity: string;
+}
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '-');
+
+const adjustmentValue = (adjustment: StockAdjustment) =>
+  (adjustment.items ?? []).reduce((sum, item) => sum + item.quantity_delta * Number(item.cost_price), 0);
+
+const statusBadge = (adjustment: StockAdjustment) => {
+  if (adjustment.status === 'approved') return <Badge variant="secondary">Approved</Badge>;
+  if (adjustment.status === 'rejected') return <Badge variant="destructive">Rejected</Badge>;
+  return <Badge>Pending</Badge>;
+};
+
+export default function Adjustments() {
+  const { user, can } = useAuth();
+  const { products, batches, loading: stockLoading, getExpiredBatches } = useProducts();
+  const {
+    adjustments,
+    pendingAdjustments,
+    loading,
+    submitAdjustment,
+    reviewAdjustment,
+    getBatchHistory,
+    getLossReport,
+  } = useStockAdjustments();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [saving, setSaving] = useState(false);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+
+  // New adjustment dialog
+  const [isNewOpen, setIsNewOpen] = useState(false);
+  const [reason, setReason] = useState<AdjustmentReason>('damaged');
+  const [search, setSearch] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [notes, setNotes] = useState('');
+
+  // Details and review
+  const [viewing, setViewing] = useState<StockAdjustment | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+
+  // Batch history
+  const [historyItem, setHistoryItem] = useState<StockAdjustmentItem | null>(null);
+  const [history, setHistory] = useState<BatchHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  // Valuation loss report
+  const [lossFrom, setLossFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [lossTo, setLossTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [lossRows, setLossRows] = useState<StockLossRow[]>([]);
+  const [lossLoading, setLossLoading] = useState(false);
+
+  const canReview = can('products.manage');
+  const canViewReport = can('reports.view');
+  const isCount = reason === 'count_correction';
+
+  useEffect(() => {
+    const fetchNames = async () => {
+      const { data, error } = await supabase.from('profiles').select('id, full_name').order('full_name');
+      if (error) {
+        console.error('Error fetching staff names:', error);
+        return;
+      }
+      setStaffNames(Object.fromEntries((data || []).map((p) => [p.id, p.full_name])));
+    };
+    fetchNames();
+  }, []);
+
+  const staffName = (id: string | null) => (!id ? '-' : id === user?.id ? 'You' : staffNames[id] || 'Unknown user');
+  const productName = (id: string) => products.find((p) => p.id === id)?.name ?? 'Unknown product';
+
+  const refreshLossReport = async () => {
+    setLossLoading(true);
+    setLossRows(await getLossReport(lossFrom, lossTo));
+    setLossLoading(false);
+  };
+
+  useEffect(() => {
+    if (!canViewReport) return;
+    refreshLossReport();
+    // Reload when an approval changes the figures
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canViewReport, lossFrom, lossTo, adjustments]);
+
+  const lossByReason = useMemo(() => {
+    const totals = new Map<AdjustmentReason, number>();
+    lossRows.forEach((row) => totals.set(row.reason, (totals.get(row.reason) ?? 0) + row.value));
+    return totals;
+  }, [lossRows]);
+
+  const lossTotal = lossRows.reduce((sum, row) => sum + row.value, 0);
+
+  // Batches in this branch that match the search and are not on the adjustment yet
+  const matchingBatches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    const names = new Map(products.map((p) => [p.id, p.name.toLowerCase()]));
+    return batches
+      .filter(
+        (b) =>
+          (b.quantity > 0 || isCount) &&
+          !lines.some((line) => line.batch.id === b.id) &&
+          ((names.get(b.product_id) ?? '').includes(term) || b.batch_number.toLowerCase().includes(term))
+      )
+      .slice(0, SEARCH_LIMIT);
+  }, [search, batches, products, lines, isCount]);
+
+  const openNewAdjustment = (initialReason: AdjustmentReason = 'damaged', initialLines: DraftLine[] = []) => {
+    setReason(initialReason);
+    setSearch('');
+    setLines(initialLines);
+    setNotes('');
+    setIsNewOpen(true);
+  };
+
+  const openExpiredWriteOff = () => {
+    openNewAdjustment(
+      'expired',
+      getExpiredBatches().map((batch) => ({ batch, quantity: String(batch.quantity) }))
+    );
+  };
+
+  // The dashboard's expired stock alert links here with ?writeoff=expired
+  useEffect(() => {
+    if (searchParams.get('writeoff') !== 'expired' || stockLoading) return;
+    openExpiredWriteOff();
+    setSearchParams({}, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, stockLoading]);
+
+  const changeReason = (value: AdjustmentReason) => {
+    // The quantity means something else for a count, so start the lines afresh
+    setLines((prev) =>
+      prev.map((line) => ({
+        ...line,
+        quantity: value === 'count_correction' ? String(line.batch.quantity) : '',
+      }))
+    );
+    setReason(value);
+  };
+
+  const addLine = (batch: StockBatch) => {
+    setLines((prev) => [...prev, { batch, quantity: isCount ? String(batch.quantity) : '' }]);
+    setSearch('');
+  };
+
+  const lineDelta = (line: DraftLine) => {
+    const quantity = Number(line.quantity);
+    return isCount ? quantity - line.batch.quantity : -quantity;
+  };
+
+  const lineError = (line: DraftLine) => {
+    const quantity = Number(line.quantity);
+    if (line.quantity.trim() === '' || !Number.isInteger(quantity) || quantity < 0) return 'Enter a whole number';
+    if (isCount) {
+      return quantity === line.batch.quantity ? 'Matches the stock on hand' : null;
+    }
+    if (quantity === 0) return 'Enter the units to write off';
+    if (quantity > line.batch.quantity) return `Only ${line.batch.quantity} in stock`;
+    return null;
+  };
+
+  const canSubmit = lines.length > 0 && lines.every((line) => !lineError(line));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setSaving(true);
+    const result = await submitAdjustment(
+      reason,
+      lines.map((line) => ({ batch_id: line.batch.id, quantity_delta: lineDelta(line) })),
+      notes
+    );
+    setSaving(false);
+    if (result) {
+      setIsNewOpen(false);
+    }
+  };
+
+  const handleReview = async (adjustment: StockAdjustment, approve: boolean) => {
+    setSaving(true);
+    const ok = await reviewAdjustment(adjustment.id, approve, reviewNotes);
+    setSaving(false);
+    if (ok) {
+      setViewing(null);
+      setReviewNotes('');
+    }
+  };
+
+  const openHistory = async (item: StockAdjustmentItem) => {
+    if (!item.batch_id) return;
+    setHistoryItem(item);
+    setHistory([]);
+    setHistoryLoading(true);
+    setHistory(await getBatchHistory(item.batch_id));
+    setHistoryLoading(false);
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <PackageMinus className="w-8 h-8 text-primary" />
+              Stock Adjustments
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Write off damaged, expired or missing stock and correct counts</p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={openExpiredWriteOff} className="w-full sm:w-auto">
+              Write Off Expired
+            </Button>
+            <Button onClick={() => openNewAdjustment()} className="shadow-sm w-full sm:w-auto">
+              <Plus className="w-4 h-4 mr-2" />
+              New Adjustment
+            </Button>
+          </div>
+        </div>
+
+        {/* Waiting for an owner */}
+        {canReview && pendingAdjustments.length > 0 && (
+          <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm space-y-3">
+            <p className="font-semibold">Awaiting Approval ({pendingAdjustments.length})</p>
+            {pendingAdjustments.map((adjustment) => (
+              <div
+                key={adjustment.id}
+                className="p-3 rounded-xl border border-border bg-background flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">
+                    {adjustment.adjustment_number} • {ADJUSTMENT_REASON_LABELS[adjustment.reason]}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {(adjustment.items ?? []).length} batches • {formatPKR(adjustmentValue(adjustment))} at cost • by{' '}
+                    {staffName(adjustment.created_by)} {formatTime(adjustment.created_at)}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setViewing(adjustment)} className="flex-shrink-0">
+                  <Eye className="w-4 h-4 mr-1" />
+                  Review
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Valuation loss report */}
+        {canViewReport && (
+          <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+              <div>
+                <p className="font-semibold">Valuation Loss</p>
+                <p className="text-sm text-muted-foreground">Approved adjustments in this branch, at cost</p>
+              </div>
+              <div className="flex gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="lossFrom" className="text-xs">From</Label>
+                  <Input id="lossFrom" type="date" value={lossFrom} onChange={(e) => setLossFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="lossTo" className="text-xs">To</Label>
+                  <Input id="lossTo" type="date" value={lossTo} onChange={(e) => setLossTo(e.target.value)} />
+                </div>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Net</p>
+                <p className={`text-xl font-bold ${lossTotal < 0 ? 'text-destructive' : ''}`}>{formatPKR(lossTotal)}</p>
+              </div>
+              {REASONS.map((r) => (
+                <div key={r} className="stat-card">
+                  <p className="text-sm text-muted-foreground">{ADJUSTMENT_REASON_LABELS[r]}</p>
+                  <p className="text-xl font-bold">{formatPKR(lossByReason.get(r) ?? 0)}</p>
+                </div>
+              ))}
+            </div>
+            {lossLoading ? (
+              <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+            ) : lossRows.length > 0 && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="table-header">
+                      <TableHead>Product</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lossRows.map((row) => (
+                      <TableRow key={`${row.reason}-${row.product_id}`}>
+                        <TableCell>{row.product_name}</TableCell>
+                        <TableCell>{ADJUSTMENT_REASON_LABELS[row.reason]}</TableCell>
+                        <TableCell className="text-right">{row.quantity}</TableCell>
+                        <TableCell className="text-right">{formatPKR(row.value)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* All adjustments */}
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Adjustment</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Raised</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : adjustments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12 text-muted-foreground">
+                      No adjustments yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  adjustments.map((adjustment) => (
+                    <TableRow key={adjustment.id} className="hover:bg-muted/30">
+                      <TableCell className="font-mono text-sm">{adjustment.adjustment_number}</TableCell>
+                      <TableCell>{ADJUSTMENT_REASON_LABELS[adjustment.reason]}</TableCell>
+                      <TableCell className="text-right">{formatPKR(adjustmentValue(adjustment))}</TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">{formatTime(adjustment.created_at)}</TableCell>
+                      <TableCell>{statusBadge(adjustment)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewing(adjustment)}>
+                          <Eye className="w-4 h-4 mr-1" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* New adjustment */}
+        <Dialog open={isNewOpen} onOpenChange={setIsNewOpen}>
+          <DialogContent className="max-w-2xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Adjustment</DialogTitle>
+              <DialogDescription>Stock changes once an owner approves the adjustment.</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Reason *</Label>
+                <Select value={reason} onValueChange={(value) => changeReason(value as AdjustmentReason)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REASONS.map((r) => (
+                      <SelectItem key={r} value={r}>
+                        {ADJUSTMENT_REASON_LABELS[r]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="adjustmentSearch">Add Batches</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="adjustmentSearch"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by product or batch number"
+                    className="pl-9"
+                  />
+                </div>
+                {matchingBatches.length > 0 && (
+                  <div className="rounded-xl border border-border divide-y divide-border">
+                    {matchingBatches.map((batch) => (
+                      <button
+                        key={batch.id}
+                        type="button"
+                        onClick={() => addLine(batch)}
+                        className="w-full text-left px-3 py-2 hover:bg-muted/50 text-sm flex justify-between gap-3"
+                      >
+                        <span className="truncate">
+                          {productName(batch.product_id)} • Batch {batch.batch_number}
+                        </span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {batch.quantity} units • exp {format(new Date(batch.expiry_date), 'MMM yyyy')}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {lines.length > 0 && (
+                <div className="space-y-2">
+                  {lines.map((line) => {
+                    const error = lineError(line);
+                    return (
+                      <div key={line.batch.id} className="p-3 rounded-xl border border-border bg-background flex items-center gap-3">
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium text-sm truncate">{productName(line.batch.product_id)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Batch {line.batch.batch_number} • {line.batch.quantity} in stock
+                            {isCount && !error && ` • ${lineDelta(line) > 0 ? '+' : ''}${lineDelta(line)}`}
+                          </p>
+                          {error && <p className="text-xs text-destructive">{error}</p>}
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={isCount ? undefined : line.batch.quantity}
+                          step="1"
+                          value={line.quantity}
+                          onChange={(e) =>
+                            setLines((prev) =>
+                              prev.map((l) => (l.batch.id === line.batch.id ? { ...l, quantity: e.target.value } : l))
+                            )
+                          }
+                          className="w-24"
+                          aria-label={isCount ? 'Counted quantity' : 'Units to write off'}
+                          placeholder={isCount ? 'Counted' : 'Units'}
+                        />
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          className="h-9 w-9 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => setLines((prev) => prev.filter((l) => l.batch.id !== line.batch.id))}
+                          aria-label="Remove batch"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="adjustmentNotes">Notes</Label>
+                <Input id="adjustmentNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsNewOpen(false)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving || !canSubmit} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Submit for Approval
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Adjustment details */}
+        <Dialog
+          open={!!viewing}
+          onOpenChange={(open) => {
+            if (!open) {
+              setViewing(null);
+              setReviewNotes('');
+            }
+          }}
+        >
+          <DialogContent className="max-w-2xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            {viewing && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>Adjustment {viewing.adjustment_number}</DialogTitle>
+                  <DialogDescription>{ADJUSTMENT_REASON_LABELS[viewing.reason]}</DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Raised</p>
+                    <p>
+                      {staffName(viewing.created_by)} • {formatTime(viewing.created_at)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Reviewed</p>
+                    <p>
+                      {viewing.reviewed_at
+                        ? `${staffName(viewing.reviewed_by)} • ${formatTime(viewing.reviewed_at)}`
+                        : 'Pending'}
+                    </p>
+                  </div>
+                  {viewing.notes && (
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground">Notes</p>
+                      <p>{viewing.notes}</p>
+                    </div>
+                  )}
+                  {viewing.review_notes && (
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground">Review Notes</p>
+                      <p>{viewing.review_notes}</p>
+                    </div>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="table-header">
+                        <TableHead>Product</TableHead>
+                        <TableHead>Batch</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead className="text-right">Cost Value</TableHead>
+                        <TableHead className="text-right">History</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(viewing.items ?? []).map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.product?.name ?? productName(item.product_id)}</TableCell>
+                          <TableCell className="font-mono text-sm">{item.batch_number}</TableCell>
+                          <TableCell className="text-right">
+                            {item.quantity_delta > 0 ? '+' : ''}
+                            {item.quantity_delta}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatPKR(item.quantity_delta * Number(item.cost_price))}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openHistory(item)}
+                              disabled={!item.batch_id}
+                              aria-label="Batch history"
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {viewing.status === 'pending' && canReview && (
+                  <div className="space-y-3 pt-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="reviewNotes">Review Notes</Label>
+                      <Input id="reviewNotes" value={reviewNotes} onChange={(e) => setReviewNotes(e.target.value)} />
+                    </div>
+                    <div className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+                      <Button
+                        variant="outline"
+                        onClick={() => handleReview(viewing, false)}
+                        disabled={saving}
+                        className="w-full sm:w-auto"
+                      >
+                        <X className="w-4 h-4 mr-2" />
+                        Reject
+                      </Button>
+                      <Button onClick={() => handleReview(viewing, true)} disabled={saving} className="w-full sm:w-auto">
+                        {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                        Approve and Post
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Batch history */}
+        <Dialog open={!!historyItem} onOpenChange={(open) => !open && setHistoryItem(null)}>
+          <DialogContent className="max-w-xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            {historyItem && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>Batch {historyItem.batch_number}</DialogTitle>
+                  <DialogDescription>{historyItem.product?.name ?? productName(historyItem.product_id)}</DialogDescription>
+                </DialogHeader>
+                {historyLoading ? (
+                  <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="table-header">
+                          <TableHead>Date</TableHead>
+                          <TableHead>Movement</TableHead>
+                          <TableHead className="text-right">Qty</TableHead>
+                          <TableHead className="text-right">Balance</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {history.map((entry, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="whitespace-nowrap text-muted-foreground">{formatTime(entry.entry_date)}</TableCell>
+                            <TableCell>
+                              <p>{HISTORY_LABELS[entry.entry_type]}</p>
+                              {entry.reference && <p className="text-xs text-muted-foreground">{entry.reference}</p>}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {entry.quantity > 0 ? '+' : ''}
+                              {entry.quantity}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{entry.balance}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuditLog, AuditEntry, AUDITED_TABLES } from '@/hooks/useAuditLog';
+import { diffAuditDetails, formatAuditValue, describeAuditEntity } from '@/lib/audit';
+import { format, parseISO } from 'date-fns';
+import { History, Calendar, Loader2 } from 'lucide-react';
+
+const ALL = 'all';
+
+const TABLE_LABELS: Record<string, string> = {
+  products: 'Products',
+  product_units: 'Pack Sizes',
+  stock_batches: 'Stock Batches',
+  racks: 'Racks',
+  sales: 'Sales',
+  sales_returns: 'Returns',
+  user_roles: 'User Roles',
+  suppliers: 'Suppliers',
+  purchase_orders: 'Purchase Orders',
+  purchase_order_items: 'PO Lines',
+  goods_received_notes: 'Goods Received',
+  prescriptions: 'Prescriptions',
+  sale_interaction_acknowledgements: 'Interaction Acknowledgements',
+  store_settings: 'Store Settings',
+  receipt_reprints: 'Receipt Reprints',
+  customers: 'Customers',
+  customer_ledger: 'Customer Ledger',
+  cash_shifts: 'Cash Shifts',
+  cash_movements: 'Cash In/Out',
+  branches: 'Branches',
+  stock_transfers: 'Stock Transfers',
+  stock_adjustments: 'Stock Adjustments',
+  stock_counts: 'Stock Counts',
+  supplier_returns: 'Supplier Returns',
+  user: 'Staff',
+};
+
+const ACTION_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  insert: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+};
+
+export default function Audit() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [actorId, setActorId] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+
+  const { entries, loading, hasMore, loadMore } = useAuditLog({
+    entityType: entityType === ALL ? undefined : entityType,
+    actorId: actorId === ALL ? undefined : actorId,
+    from: dateFrom || undefined,
+    to: dateTo || undefined,
+  });
+
+  useEffect(() => {
+    const fetchNames = async () => {
+      const { data, error } = await supabase.from('profiles').select('id, full_name').order('full_name');
+      if (error) {
+        console.error('Error fetching staff names:', error);
+        return;
+      }
+      setStaffNames(Object.fromEntries((data || []).map((p) => [p.id, p.full_name])));
+    };
+    fetchNames();
+  }, []);
+
+  const diff = useMemo(() => (selected ? diffAuditDetails(selected.details) : []), [selected]);
+
+  const actorName = (id: string | null) => (id ? staffNames[id] || 'Unknown user' : 'System');
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="page-header mb-6 sm:mb-8">
+          <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+            <History className="w-8 h-8 text-primary" />
+            Audit Log
+          </h1>
+          <p className="page-subtitle text-sm sm:text-base">Every change to inventory, prices, sales and staff roles</p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm">
+          <div className="flex flex-col lg:flex-row items-stretch lg:items-center gap-3 sm:gap-4">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center flex-shrink-0">
+              <Calendar className="w-5 h-5 text-primary" />
+            </div>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger className="w-full lg:w-44 h-10 sm:h-9">
+                <SelectValue placeholder="All tables" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tables</SelectItem>
+                {[...AUDITED_TABLES, 'user'].map((table) => (
+                  <SelectItem key={table} value={table}>
+                    {TABLE_LABELS[table] || table}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger className="w-full lg:w-48 h-10 sm:h-9">
+                <SelectValue placeholder="All users" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All users</SelectItem>
+                {Object.entries(staffNames).map(([id, name]) => (
+                  <SelectItem key={id} value={id}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="auditFrom" className="text-sm text-muted-foreground whitespace-nowrap">From</Label>
+              <Input
+                id="auditFrom"
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="w-full sm:w-44 h-10 sm:h-9"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="auditTo" className="text-sm text-muted-foreground whitespace-nowrap">To</Label>
+              <Input
+                id="auditTo"
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="w-full sm:w-44 h-10 sm:h-9"
+              />
+            </div>
+            {(entityType !== ALL || actorId !== ALL || dateFrom || dateTo) && (
+              <button
+                onClick={() => { setEntityType(ALL); setActorId(ALL); setDateFrom(''); setDateTo(''); }}
+                className="text-sm text-primary hover:underline font-medium whitespace-nowrap"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Date & Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead className="text-right">Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12 text-muted-foreground">
+                      No audit entries match these filters
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => {
+                    const changedCount = diffAuditDetails(entry.details).filter((c) => c.changed).length;
+                    return (
+                      <TableRow
+                        key={entry.id}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setSelected(entry)}
+                      >
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {format(parseISO(entry.occurred_at), 'MMM d, yyyy h:mm:ss a')}
+                        </TableCell>
+                        <TableCell>{actorName(entry.actor_id)}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_VARIANTS[entry.action] || 'outline'} className="capitalize">
+                            {entry.action.replace(/^staff\./, '').replace(/_/g, ' ')}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {TABLE_LABELS[entry.entity_type] || entry.entity_type}
+                        </TableCell>
+                        <TableCell className="max-w-[220px] truncate">
+                          {describeAuditEntity(entry.details) || (
+                            <span className="font-mono text-xs text-muted-foreground">
+                              {entry.entity_id?.slice(0, 8) || '-'}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {changedCount} field{changedCount === 1 ? '' : 's'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          {hasMore && !loading && (
+            <div className="p-4 border-t border-border text-center">
+              <Button variant="outline" size="sm" onClick={loadMore}>
+                Load older entries
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Diff Dialog */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="capitalize">
+              {selected?.action.replace(/_/g, ' ')} • {selected && (TABLE_LABELS[selected.entity_type] || selected.entity_type)}
+            </DialogTitle>
+            <DialogDescription>
+              {selected && (
+                <>
+                  {actorName(selected.actor_id)} on {format(parseISO(selected.occurred_at), 'MMM d, yyyy h:mm:ss a')}
+                  {selected.entity_id && <span className="font-mono ml-2 text-xs">{selected.entity_id}</span>}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Before</TableHead>
+                <TableHead>After</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.map((change) => (
+                <TableRow key={change.field} className={change.changed ? 'bg-warning/10' : ''}>
+                  <TableCell className="font-medium whitespace-nowrap">{change.field}</TableCell>
+                  <TableCell className={`font-mono text-xs break-all ${change.changed ? 'text-destructive line-through' : 'text-muted-foreground'}`}>
+                    {formatAuditValue(change.before)}
+                  </TableCell>
+                  <TableCell className={`font-mono text-xs break-all ${change.changed ? 'text-success font-semibold' : 'text-muted-foreground'}`}>
+                    {formatAuditValue(change.after)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {diff.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-6 text-muted-foreground">
+                    No field details recorded
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
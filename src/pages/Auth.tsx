@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,7 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
 import { Pill, User, Mail, Lock, Loader2 } from 'lucide-react';
 import { z } from 'zod';
-import { BRANDING } from '@/config/branding';
+import { useSettings } from '@/hooks/useSettings';
 
 const emailSchema = z.string().email('Invalid email address');
 const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
@@ -22,14 +22,21 @@ export default function Auth() {
   const [fullName, setFullName] = useState('');
   const [errors, setErrors] = useState<{ email?: string; password?: string; name?: string }>({});
   
-  const { user, signIn, signUp, loading } = useAuth();
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  
+  const { user, signIn, signUp, updatePassword, loading } = useAuth();
+  const { settings } = useSettings();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Invitation and password reset emails land here with a session already set
+  const isSettingPassword = searchParams.get('mode') === 'set-password' && !!user;
 
   useEffect(() => {
-    if (!loading && user) {
+    if (!loading && user && !isSettingPassword) {
       navigate('/');
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, navigate, isSettingPassword]);
 
   const validateForm = (isSignUp: boolean) => {
     const newErrors: { email?: string; password?: string; name?: string } = {};
@@ -104,6 +111,32 @@ export default function Auth() {
     }
   };
 
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = passwordSchema.safeParse(newPassword);
+    if (!result.success) {
+      setErrors({ password: result.error.errors[0].message });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setErrors({ password: 'Passwords do not match' });
+      return;
+    }
+    setErrors({});
+
+    setIsLoading(true);
+    const { error } = await updatePassword(newPassword);
+    setIsLoading(false);
+
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success('Password saved');
+      navigate('/');
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -124,143 +157,198 @@ export default function Auth() {
       {/* Login Form Card - Centered */}
       <Card className="w-full max-w-[350px] shadow-2xl border-0 bg-white/95 dark:bg-zinc-900/95 backdrop-blur-xl ring-1 ring-black/5 relative z-10">
         <CardHeader className="space-y-2 text-center pb-4">
-          <div className="mx-auto w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center mb-2 border border-primary/20">
-            <Pill className="w-6 h-6 text-primary" />
-          </div>
-          <CardTitle className="text-xl font-bold tracking-tight">{BRANDING.name}</CardTitle>
-          <CardDescription className="text-xs">{BRANDING.tagline}</CardDescription>
+          {settings.logo_url ? (
+            <img src={settings.logo_url} alt="" className="mx-auto w-12 h-12 rounded-xl object-contain mb-2" />
+          ) : (
+            <div className="mx-auto w-12 h-12 bg-primary/10 rounded-xl flex items-center justify-center mb-2 border border-primary/20">
+              <Pill className="w-6 h-6 text-primary" />
+            </div>
+          )}
+          <CardTitle className="text-xl font-bold tracking-tight">{settings.store_name}</CardTitle>
+          {settings.tagline && <CardDescription className="text-xs">{settings.tagline}</CardDescription>}
         </CardHeader>
         <CardContent className="space-y-4">
-          <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-4 h-9 p-1 bg-muted/50 rounded-lg">
-              <TabsTrigger value="signin" className="rounded-md transition-all text-xs">Sign In</TabsTrigger>
-              <TabsTrigger value="signup" className="rounded-md transition-all text-xs">Sign Up</TabsTrigger>
-            </TabsList>
+          {isSettingPassword ? (
+            <form onSubmit={handleSetPassword} className="space-y-4">
+              <p className="text-sm text-muted-foreground text-center">
+                Choose a password for {user?.email}
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="new-password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
+                  />
+                </div>
+                {errors.password && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.password}</p>}
+              </div>
+              <Button 
+                type="submit" 
+                className="w-full h-9 font-medium text-sm shadow-lg shadow-primary/20 transition-all hover:shadow-primary/30" 
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Password'
+                )}
+              </Button>
+            </form>
+          ) : (
+            <Tabs defaultValue="signin" className="w-full">
+              <TabsList className="grid w-full grid-cols-2 mb-4 h-9 p-1 bg-muted/50 rounded-lg">
+                <TabsTrigger value="signin" className="rounded-md transition-all text-xs">Sign In</TabsTrigger>
+                <TabsTrigger value="signup" className="rounded-md transition-all text-xs">Sign Up</TabsTrigger>
+              </TabsList>
             
-            <TabsContent value="signin" className="space-y-4 focus-visible:outline-none focus-visible:ring-0">
-              <form onSubmit={handleSignIn} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signin-email">Email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground transition-colors group-focus-within:text-primary" />
-                    <Input
-                      id="signin-email"
-                      type="email"
-                      placeholder="admin@pharmacy.com"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
-                    />
+              <TabsContent value="signin" className="space-y-4 focus-visible:outline-none focus-visible:ring-0">
+                <form onSubmit={handleSignIn} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="signin-email">Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground transition-colors group-focus-within:text-primary" />
+                      <Input
+                        id="signin-email"
+                        type="email"
+                        placeholder="admin@pharmacy.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
+                      />
+                    </div>
+                    {errors.email && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.email}</p>}
                   </div>
-                  {errors.email && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.email}</p>}
-                </div>
                 
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <Label htmlFor="signin-password">Password</Label>
-                  </div>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground transition-colors group-focus-within:text-primary" />
-                    <Input
-                      id="signin-password"
-                      type="password"
-                      placeholder="••••••••"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
-                    />
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="signin-password">Password</Label>
+                    </div>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground transition-colors group-focus-within:text-primary" />
+                      <Input
+                        id="signin-password"
+                        type="password"
+                        placeholder="••••••••"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
+                      />
+                    </div>
+                    {errors.password && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.password}</p>}
                   </div>
-                  {errors.password && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.password}</p>}
-                </div>
                 
-                <Button 
-                  type="submit" 
-                  className="w-full h-9 font-medium text-sm shadow-lg shadow-primary/20 transition-all hover:shadow-primary/30" 
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Signing in...
-                    </>
-                  ) : (
-                    'Sign In'
-                  )}
-                </Button>
-              </form>
-            </TabsContent>
+                  <Button 
+                    type="submit" 
+                    className="w-full h-9 font-medium text-sm shadow-lg shadow-primary/20 transition-all hover:shadow-primary/30" 
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Signing in...
+                      </>
+                    ) : (
+                      'Sign In'
+                    )}
+                  </Button>
+                </form>
+              </TabsContent>
             
-            <TabsContent value="signup" className="space-y-4 focus-visible:outline-none focus-visible:ring-0">
-              <form onSubmit={handleSignUp} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signup-name">Full Name</Label>
-                  <div className="relative">
-                    <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                      id="signup-name"
-                      type="text"
-                      placeholder="John Doe"
-                      value={fullName}
-                      onChange={(e) => setFullName(e.target.value)}
-                      className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
-                    />
+              <TabsContent value="signup" className="space-y-4 focus-visible:outline-none focus-visible:ring-0">
+                <form onSubmit={handleSignUp} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-name">Full Name</Label>
+                    <div className="relative">
+                      <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="signup-name"
+                        type="text"
+                        placeholder="John Doe"
+                        value={fullName}
+                        onChange={(e) => setFullName(e.target.value)}
+                        className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
+                      />
+                    </div>
+                    {errors.name && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.name}</p>}
                   </div>
-                  {errors.name && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.name}</p>}
-                </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                      id="signup-email"
-                      type="email"
-                      placeholder="admin@pharmacy.com"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
-                    />
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-email">Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="signup-email"
+                        type="email"
+                        placeholder="admin@pharmacy.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
+                      />
+                    </div>
+                    {errors.email && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.email}</p>}
                   </div>
-                  {errors.email && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.email}</p>}
-                </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="signup-password">Password</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                      id="signup-password"
-                      type="password"
-                      placeholder="••••••••"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
-                    />
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-password">Password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="signup-password"
+                        type="password"
+                        placeholder="••••••••"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="pl-10 h-9 bg-background/50 transition-all focus:bg-background"
+                      />
+                    </div>
+                    {errors.password && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.password}</p>}
                   </div>
-                  {errors.password && <p className="text-sm text-destructive font-medium animate-in slide-in-from-left-1">{errors.password}</p>}
-                </div>
                 
-                <div className="text-sm text-muted-foreground bg-primary/5 border border-primary/10 p-3 rounded-lg">
-                  <strong className="font-semibold text-primary">Note:</strong> This is an owner-only system. All authenticated users have full access.
-                </div>
+                  <div className="text-sm text-muted-foreground bg-primary/5 border border-primary/10 p-3 rounded-lg">
+                    <strong className="font-semibold text-primary">Note:</strong> New accounts start as cashiers. The pharmacy owner assigns other roles.
+                  </div>
                 
-                <Button 
-                  type="submit" 
-                  className="w-full h-9 font-medium text-sm shadow-lg shadow-primary/20 transition-all hover:shadow-primary/30" 
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Creating account...
-                    </>
-                  ) : (
-                    'Create Account'
-                  )}
-                </Button>
-              </form>
-            </TabsContent>
-          </Tabs>
+                  <Button 
+                    type="submit" 
+                    className="w-full h-9 font-medium text-sm shadow-lg shadow-primary/20 transition-all hover:shadow-primary/30" 
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Creating account...
+                      </>
+                    ) : (
+                      'Create Account'
+                    )}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useBranches, Branch, BranchInput } from '@/hooks/useBranches';
+import { Building2, Plus, Edit2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const EMPTY_FORM = {
+  code: '',
+  name: '',
+  address: '',
+  phone: '',
+  license_number: '',
+};
+
+export default function Branches() {
+  const { branches, currentBranch, loading, addBranch, updateBranch } = useBranches();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const openAdd = () => {
+    setEditingBranch(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (branch: Branch) => {
+    setEditingBranch(branch);
+    setForm({
+      code: branch.code,
+      name: branch.name,
+      address: branch.address || '',
+      phone: branch.phone || '',
+      license_number: branch.license_number || '',
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.code.trim() || !form.name.trim()) {
+      toast.error('Branch code and name are required');
+      return;
+    }
+
+    const input: BranchInput = {
+      code: form.code,
+      name: form.name,
+      address: form.address.trim() || null,
+      phone: form.phone.trim() || null,
+      license_number: form.license_number.trim() || null,
+    };
+
+    setSaving(true);
+    const ok = editingBranch ? await updateBranch(editingBranch.id, input) : !!(await addBranch(input));
+    setSaving(false);
+
+    if (ok) {
+      setIsFormOpen(false);
+      setEditingBranch(null);
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <Building2 className="w-8 h-8 text-primary" />
+              Branches
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Outlets, their addresses and drug sale licences</p>
+          </div>
+          <Button onClick={openAdd} className="shadow-sm w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Branch
+          </Button>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Code</TableHead>
+                  <TableHead>Branch</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Licence</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : branches.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12 text-muted-foreground">
+                      No branches yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  branches.map((branch) => (
+                    <TableRow key={branch.id} className={branch.is_active ? 'hover:bg-muted/30' : 'opacity-60'}>
+                      <TableCell className="font-mono text-sm">{branch.code}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">
+                          {branch.name}
+                          {branch.id === currentBranch?.id && (
+                            <Badge variant="outline" className="ml-2">
+                              You are here
+                            </Badge>
+                          )}
+                        </p>
+                        {branch.address && (
+                          <p className="text-xs text-muted-foreground truncate max-w-[280px]">{branch.address}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{branch.phone || '-'}</TableCell>
+                      <TableCell className="text-sm">{branch.license_number || '-'}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={branch.is_active}
+                          onCheckedChange={(checked) => updateBranch(branch.id, { is_active: checked })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(branch)}>
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent className="max-w-lg w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingBranch ? 'Edit Branch' : 'Add Branch'}</DialogTitle>
+              <DialogDescription>The address and licence are printed on receipts from this branch.</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="branchCode">Code *</Label>
+                  <Input
+                    id="branchCode"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    placeholder="e.g. CANTT"
+                    maxLength={12}
+                    required
+                  />
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="branchName">Name *</Label>
+                  <Input
+                    id="branchName"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="branchAddress">Address</Label>
+                <Input
+                  id="branchAddress"
+                  value={form.address}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="branchPhone">Phone</Label>
+                  <Input
+                    id="branchPhone"
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="branchLicense">Licence No.</Label>
+                  <Input
+                    id="branchLicense"
+                    value={form.license_number}
+                    onChange={(e) => setForm({ ...form, license_number: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {editingBranch ? 'Save Changes' : 'Add Branch'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
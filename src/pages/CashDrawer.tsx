@@ -0,0 +1,630 @@
+import { useEffect, useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { CASH_MOVEMENT_LABELS, CashMovementType, CashShift, ShiftCount, ShiftReport, useShifts } from '@/hooks/useShifts';
+import { supabase } from '@/integrations/supabase/client';
+import { formatPKR } from '@/lib/currency';
+import { TENDER_LABELS, type TenderMethod } from '@/lib/tender';
+import { useSettings } from '@/hooks/useSettings';
+import { format } from 'date-fns';
+import { ArrowDownToLine, ArrowUpFromLine, FileText, Loader2, Lock, Printer, Vault } from 'lucide-react';
+import { toast } from 'sonner';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '-');
+
+// counted - expected; null when the tender was not counted
+const variance = (count: ShiftCount) =>
+  count.counted == null ? null : Math.round((Number(count.counted) - Number(count.expected)) * 100) / 100;
+
+const varianceClass = (value: number | null) =>
+  value == null || value === 0 ? 'text-muted-foreground' : value < 0 ? 'text-destructive' : 'text-success';
+
+const formatVariance = (value: number | null) =>
+  value == null ? 'Not counted' : `${value > 0 ? '+' : ''}${formatPKR(value)}`;
+
+export default function CashDrawer() {
+  const { settings } = useSettings();
+  const { currentShift, movements, shifts, loading, openShift, recordMovement, closeShift, fetchReport } = useShifts();
+  const { user, can } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+
+  // Open shift form
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [openingNotes, setOpeningNotes] = useState('');
+
+  // Cash in / payout dialog
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+
+  // Close dialog: the cashier counts without seeing what is expected
+  const [closingShift, setClosingShift] = useState<CashShift | null>(null);
+  const [closeMethods, setCloseMethods] = useState<TenderMethod[]>([]);
+  const [countInputs, setCountInputs] = useState<Partial<Record<TenderMethod, string>>>({});
+  const [closeNotes, setCloseNotes] = useState('');
+
+  // X / Z report dialog
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+
+  const canViewAll = can('reports.view');
+
+  useEffect(() => {
+    if (!canViewAll) return;
+    const fetchNames = async () => {
+      const { data, error } = await supabase.from('profiles').select('id, full_name').order('full_name');
+      if (error) {
+        console.error('Error fetching staff names:', error);
+        return;
+      }
+      setStaffNames(Object.fromEntries((data || []).map((p) => [p.id, p.full_name])));
+    };
+    fetchNames();
+  }, [canViewAll]);
+
+  const cashierName = (id: string) => (id === user?.id ? 'You' : staffNames[id] || 'Unknown user');
+
+  const handleOpenShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const ok = await openShift(parseFloat(openingFloat || '0'), openingNotes);
+    setSaving(false);
+    if (ok) {
+      setOpeningFloat('');
+      setOpeningNotes('');
+    }
+  };
+
+  const openMovement = (type: CashMovementType) => {
+    setMovementType(type);
+    setMovementAmount('');
+    setMovementReason('');
+  };
+
+  const handleRecordMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!movementType) return;
+    setSaving(true);
+    const ok = await recordMovement(movementType, parseFloat(movementAmount), movementReason);
+    setSaving(false);
+    if (ok) {
+      setMovementType(null);
+    }
+  };
+
+  const showReport = async (shiftId: string) => {
+    setReportLoading(true);
+    const data = await fetchReport(shiftId);
+    setReportLoading(false);
+    if (data) {
+      setReport(data);
+    }
+  };
+
+  // The X report only tells us which tenders were taken; expected amounts
+  // stay hidden until the count is in
+  const startClose = async (shift: CashShift) => {
+    setReportLoading(true);
+    const data = await fetchReport(shift.id);
+    setReportLoading(false);
+    if (!data) return;
+
+    const methods = data.counts.map((count) => count.method);
+    setCloseMethods(methods.includes('cash') ? methods : ['cash', ...methods]);
+    setCountInputs({});
+    setCloseNotes('');
+    setClosingShift(shift);
+  };
+
+  const handleCloseShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closingShift) return;
+
+    const counts: Partial<Record<TenderMethod, number>> = {};
+    for (const method of closeMethods) {
+      const value = countInputs[method]?.trim();
+      if (value) {
+        counts[method] = parseFloat(value);
+      }
+    }
+
+    setSaving(true);
+    const ok = await closeShift(closingShift.id, counts, closeNotes);
+    setSaving(false);
+    if (ok) {
+      const shiftId = closingShift.id;
+      setClosingShift(null);
+      await showReport(shiftId);
+    }
+  };
+
+  const handlePrintReport = () => {
+    if (!report) return;
+
+    const printWindow = window.open('', '_blank', 'width=800,height=900');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the report');
+      return;
+    }
+
+    const isClosed = !!report.shift.closed_at;
+    const tenderRows = report.tenders
+      .map(
+        (tender) =>
+          `<tr><td>${escapeHtml(TENDER_LABELS[tender.method] ?? tender.method)}</td><td class="num">${escapeHtml(formatPKR(Number(tender.amount)))}</td></tr>`
+      )
+      .join('');
+    const movementRows = report.movements
+      .map(
+        (movement) => `<tr>
+          <td>${escapeHtml(formatTime(movement.created_at))}</td>
+          <td>${escapeHtml(CASH_MOVEMENT_LABELS[movement.movement_type])}</td>
+          <td>${escapeHtml(movement.reason)}</td>
+          <td class="num">${escapeHtml(formatPKR(Number(movement.amount)))}</td>
+        </tr>`
+      )
+      .join('');
+    const countRows = report.counts
+      .map(
+        (count) => `<tr>
+          <td>${escapeHtml(TENDER_LABELS[count.method] ?? count.method)}</td>
+          <td class="num">${escapeHtml(formatPKR(Number(count.expected)))}</td>
+          <td class="num">${count.counted == null ? '-' : escapeHtml(formatPKR(Number(count.counted)))}</td>
+          <td class="num">${isClosed ? escapeHtml(formatVariance(variance(count))) : '-'}</td>
+        </tr>`
+      )
+      .join('');
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>${isClosed ? 'Z' : 'X'} Report - ${escapeHtml(report.shift.shift_number)}</title>
+          <style>
+            body { font-family: system-ui, sans-serif; padding: 24px; color: #111; }
+            h1 { font-size: 20px; margin: 0 0 4px; }
+            h2 { font-size: 14px; margin: 24px 0 8px; }
+            p { margin: 0 0 16px; color: #555; }
+            table { width: 100%; border-collapse: collapse; font-size: 13px; }
+            th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+            th { background: #f3f4f6; }
+            .num { text-align: right; }
+          </style>
+        </head>
+        <body>
+          <h1>${escapeHtml(settings.store_name)} - ${isClosed ? 'Z Report (shift closed)' : 'X Report (shift open)'}</h1>
+          <p>
+            Shift ${escapeHtml(report.shift.shift_number)} &bull; ${escapeHtml(report.shift.cashier_name || 'Unknown cashier')}<br />
+            Opened ${escapeHtml(formatTime(report.shift.opened_at))}
+            ${isClosed ? ` &bull; Closed ${escapeHtml(formatTime(report.shift.closed_at))}` : ` &bull; Printed ${escapeHtml(formatTime(new Date().toISOString()))}`}
+          </p>
+          <table>
+            <tbody>
+              <tr><td>Sales</td><td class="num">${report.sales_count}</td></tr>
+              <tr><td>Gross sales</td><td class="num">${escapeHtml(formatPKR(Number(report.gross_sales)))}</td></tr>
+              <tr><td>Discounts given</td><td class="num">${escapeHtml(formatPKR(Number(report.discounts)))}</td></tr>
+              <tr><td>Net sales</td><td class="num">${escapeHtml(formatPKR(Number(report.net_sales)))}</td></tr>
+              <tr><td>Returns (${report.returns.count})</td><td class="num">${escapeHtml(formatPKR(Number(report.returns.amount)))}</td></tr>
+              <tr><td>Credit repayments in cash (${report.credit_payments.count})</td><td class="num">${escapeHtml(formatPKR(Number(report.credit_payments.amount)))}</td></tr>
+              <tr><td>Opening float</td><td class="num">${escapeHtml(formatPKR(Number(report.shift.opening_float)))}</td></tr>
+            </tbody>
+          </table>
+          <h2>Takings by tender</h2>
+          <table><tbody>${tenderRows || '<tr><td colspan="2">No sales</td></tr>'}</tbody></table>
+          <h2>Cash in and payouts</h2>
+          <table>
+            <thead><tr><th>Time</th><th>Type</th><th>Reason</th><th class="num">Amount</th></tr></thead>
+            <tbody>${movementRows || '<tr><td colspan="4">None</td></tr>'}</tbody>
+          </table>
+          <h2>Expected and counted</h2>
+          <table>
+            <thead><tr><th>Tender</th><th class="num">Expected</th><th class="num">Counted</th><th class="num">Variance</th></tr></thead>
+            <tbody>${countRows}</tbody>
+          </table>
+          ${report.shift.notes ? `<h2>Notes</h2><p>${escapeHtml(report.shift.notes)}</p>` : ''}
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const cashIn = movements.filter((m) => m.movement_type === 'cash_in').reduce((sum, m) => sum + Number(m.amount), 0);
+  const payouts = movements.filter((m) => m.movement_type === 'payout').reduce((sum, m) => sum + Number(m.amount), 0);
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="page-header">
+          <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+            <Vault className="w-8 h-8 text-primary" />
+            Cash Drawer
+          </h1>
+          <p className="page-subtitle text-sm sm:text-base">Open and close shifts, record cash in and payouts, and print X/Z reports</p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : currentShift ? (
+          <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+              <div>
+                <p className="font-semibold flex items-center gap-2">
+                  Shift {currentShift.shift_number}
+                  <Badge>Open</Badge>
+                </p>
+                <p className="text-sm text-muted-foreground">Opened {formatTime(currentShift.opened_at)}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => openMovement('cash_in')}>
+                  <ArrowDownToLine className="w-4 h-4 mr-2" />
+                  Cash In
+                </Button>
+                <Button variant="outline" onClick={() => openMovement('payout')}>
+                  <ArrowUpFromLine className="w-4 h-4 mr-2" />
+                  Payout
+                </Button>
+                <Button variant="outline" onClick={() => showReport(currentShift.id)} disabled={reportLoading}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  X Report
+                </Button>
+                <Button onClick={() => startClose(currentShift)} disabled={reportLoading}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  Close Shift
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Opening Float</p>
+                <p className="text-2xl font-bold">{formatPKR(Number(currentShift.opening_float))}</p>
+              </div>
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Cash In</p>
+                <p className="text-2xl font-bold">{formatPKR(cashIn)}</p>
+              </div>
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Payouts</p>
+                <p className="text-2xl font-bold text-destructive">{formatPKR(payouts)}</p>
+              </div>
+            </div>
+
+            {movements.length > 0 && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="table-header">
+                      <TableHead>Time</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {movements.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell className="text-muted-foreground whitespace-nowrap">{formatTime(movement.created_at)}</TableCell>
+                        <TableCell>{CASH_MOVEMENT_LABELS[movement.movement_type]}</TableCell>
+                        <TableCell>{movement.reason}</TableCell>
+                        <TableCell className={`text-right font-medium ${movement.movement_type === 'payout' ? 'text-destructive' : ''}`}>
+                          {movement.movement_type === 'payout' ? '-' : '+'}
+                          {formatPKR(Number(movement.amount))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ) : (
+          <form
+            onSubmit={handleOpenShift}
+            className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm space-y-4"
+          >
+            <div>
+              <p className="font-semibold">Open a Shift</p>
+              <p className="text-sm text-muted-foreground">Count the cash in the drawer before your first sale.</p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="openingFloat">Opening Float (Rs)</Label>
+                <Input
+                  id="openingFloat"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="openingNotes">Notes</Label>
+                <Input id="openingNotes" value={openingNotes} onChange={(e) => setOpeningNotes(e.target.value)} />
+              </div>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Open Shift
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {/* Shift history */}
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Shift</TableHead>
+                  {canViewAll && <TableHead>Cashier</TableHead>}
+                  <TableHead>Opened</TableHead>
+                  <TableHead>Closed</TableHead>
+                  <TableHead className="text-right">Float</TableHead>
+                  <TableHead className="text-right">Cash Variance</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!loading && shifts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={canViewAll ? 7 : 6} className="text-center py-12 text-muted-foreground">
+                      No shifts yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  shifts.map((shift) => {
+                    const cashCount = shift.counts?.find((count) => count.method === 'cash');
+                    const cashVariance = cashCount ? variance(cashCount) : null;
+                    return (
+                      <TableRow key={shift.id} className="hover:bg-muted/30">
+                        <TableCell className="font-mono text-sm">{shift.shift_number}</TableCell>
+                        {canViewAll && <TableCell>{cashierName(shift.cashier_id)}</TableCell>}
+                        <TableCell className="text-muted-foreground whitespace-nowrap">{formatTime(shift.opened_at)}</TableCell>
+                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                          {shift.closed_at ? formatTime(shift.closed_at) : <Badge>Open</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatPKR(Number(shift.opening_float))}</TableCell>
+                        <TableCell className={`text-right font-medium ${varianceClass(cashVariance)}`}>
+                          {shift.closed_at && cashCount ? formatVariance(cashVariance) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => showReport(shift.id)} disabled={reportLoading}>
+                            <FileText className="w-4 h-4 mr-1" />
+                            {shift.closed_at ? 'Z Report' : 'X Report'}
+                          </Button>
+                          {!shift.closed_at && shift.cashier_id !== user?.id && canViewAll && (
+                            <Button variant="ghost" size="sm" onClick={() => startClose(shift)} disabled={reportLoading}>
+                              <Lock className="w-4 h-4 mr-1" />
+                              Close
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* Cash in / payout */}
+        <Dialog open={!!movementType} onOpenChange={(open) => !open && setMovementType(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{movementType === 'payout' ? 'Record Payout' : 'Record Cash In'}</DialogTitle>
+              <DialogDescription>
+                {movementType === 'payout'
+                  ? 'Cash taken out of the drawer, e.g. for petty expenses.'
+                  : 'Cash put into the drawer, e.g. extra change.'}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleRecordMovement} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="movementAmount">Amount (Rs)</Label>
+                <Input
+                  id="movementAmount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={movementAmount}
+                  onChange={(e) => setMovementAmount(e.target.value)}
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movementReason">Reason</Label>
+                <Input
+                  id="movementReason"
+                  value={movementReason}
+                  onChange={(e) => setMovementReason(e.target.value)}
+                  placeholder={movementType === 'payout' ? 'e.g. Tea and milk' : 'e.g. Change from the bank'}
+                  required
+                />
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setMovementType(null)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Close shift */}
+        <Dialog open={!!closingShift} onOpenChange={(open) => !open && setClosingShift(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Close Shift {closingShift?.shift_number}</DialogTitle>
+              <DialogDescription>
+                Count the drawer and enter what you have. Card and wallet totals can be taken from the terminal or app; leave them blank if not checked.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCloseShift} className="space-y-4">
+              {closeMethods.map((method) => (
+                <div key={method} className="space-y-2">
+                  <Label htmlFor={`count-${method}`}>
+                    {TENDER_LABELS[method]} {method === 'cash' ? 'Counted *' : 'Total'}
+                  </Label>
+                  <Input
+                    id={`count-${method}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={countInputs[method] ?? ''}
+                    onChange={(e) => setCountInputs((prev) => ({ ...prev, [method]: e.target.value }))}
+                    required={method === 'cash'}
+                    autoFocus={method === 'cash'}
+                  />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="closeNotes">Notes</Label>
+                <Input id="closeNotes" value={closeNotes} onChange={(e) => setCloseNotes(e.target.value)} />
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setClosingShift(null)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Close Shift
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* X / Z report */}
+        <Dialog open={!!report} onOpenChange={(open) => !open && setReport(null)}>
+          <DialogContent className="max-w-2xl w-[95vw] max-h-[90vh] overflow-y-auto">
+            {report && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>
+                    {report.shift.closed_at ? 'Z Report' : 'X Report'} - {report.shift.shift_number}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {report.shift.cashier_name || 'Unknown cashier'} &bull; Opened {formatTime(report.shift.opened_at)}
+                    {report.shift.closed_at && <> &bull; Closed {formatTime(report.shift.closed_at)}</>}
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  <div className="stat-card">
+                    <p className="text-xs text-muted-foreground">Sales</p>
+                    <p className="text-lg font-bold">{report.sales_count}</p>
+                  </div>
+                  <div className="stat-card">
+                    <p className="text-xs text-muted-foreground">Net Sales</p>
+                    <p className="text-lg font-bold">{formatPKR(Number(report.net_sales))}</p>
+                  </div>
+                  <div className="stat-card">
+                    <p className="text-xs text-muted-foreground">Discounts</p>
+                    <p className="text-lg font-bold">{formatPKR(Number(report.discounts))}</p>
+                  </div>
+                  <div className="stat-card">
+                    <p className="text-xs text-muted-foreground">Returns ({report.returns.count})</p>
+                    <p className="text-lg font-bold text-destructive">{formatPKR(Number(report.returns.amount))}</p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-sm">Takings by Tender</h4>
+                  {report.tenders.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No sales in this shift</p>
+                  ) : (
+                    report.tenders.map((tender) => (
+                      <div key={tender.method} className="flex justify-between text-sm">
+                        <span>{TENDER_LABELS[tender.method] ?? tender.method}</span>
+                        <span className="font-medium">{formatPKR(Number(tender.amount))}</span>
+                      </div>
+                    ))
+                  )}
+                  <div className="flex justify-between text-sm border-t pt-2">
+                    <span>Credit repayments in cash ({report.credit_payments.count})</span>
+                    <span className="font-medium">{formatPKR(Number(report.credit_payments.amount))}</span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-sm">Expected and Counted</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="table-header">
+                        <TableHead>Tender</TableHead>
+                        <TableHead className="text-right">Expected</TableHead>
+                        <TableHead className="text-right">Counted</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.counts.map((count) => {
+                        const value = variance(count);
+                        return (
+                          <TableRow key={count.method}>
+                            <TableCell>{TENDER_LABELS[count.method] ?? count.method}</TableCell>
+                            <TableCell className="text-right">{formatPKR(Number(count.expected))}</TableCell>
+                            <TableCell className="text-right">
+                              {count.counted == null ? '-' : formatPKR(Number(count.counted))}
+                            </TableCell>
+                            <TableCell className={`text-right font-medium ${varianceClass(value)}`}>
+                              {report.shift.closed_at ? formatVariance(value) : '-'}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground">
+                    Expected cash is the opening float of {formatPKR(Number(report.shift.opening_float))}, plus cash sales, cash credit repayments and cash in,
+                    less payouts and cash refunds.
+                  </p>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={handlePrintReport}>
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print
+                  </Button>
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
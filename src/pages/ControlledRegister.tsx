@@ -0,0 +1,319 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useProducts } from '@/hooks/useProducts';
+import { REGISTER_ENTRY_LABELS, RegisterEntry, useControlledRegister } from '@/hooks/useControlledRegister';
+import { DRUG_SCHEDULE_LABELS, isControlledSchedule } from '@/lib/drugSchedules';
+import { useSettings } from '@/hooks/useSettings';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { AlertTriangle, FileText, Loader2, Printer, RefreshCcw, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDay = (value: string) => (value ? format(parseISO(value), 'MMM d, yyyy') : '-');
+
+const prescriptionSummary = (entry: RegisterEntry) =>
+  entry.doctor_name
+    ? `Dr. ${entry.doctor_name} (PMDC ${entry.doctor_pmdc_number}) - ${entry.patient_name}, CNIC ${entry.patient_cnic}`
+    : '';
+
+export default function ControlledRegister() {
+  const { settings } = useSettings();
+  const { products, batches, loading: productsLoading } = useProducts();
+  const [productId, setProductId] = useState<string | null>(null);
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const controlledProducts = useMemo(
+    () =>
+      products
+        .filter((p) => isControlledSchedule(p.drug_schedule))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  );
+
+  useEffect(() => {
+    if (!productId && controlledProducts.length > 0) {
+      setProductId(controlledProducts[0].id);
+    }
+  }, [productId, controlledProducts]);
+
+  const product = controlledProducts.find((p) => p.id === productId) ?? null;
+  const { entries, openingBalance, closingBalance, totalIn, totalOut, loading, getPrescriptionUrl, refetch } =
+    useControlledRegister(productId, from, to);
+
+  // Everything on the shelf, expired included, since the register counts it too
+  const stockOnHand = productId
+    ? batches.filter((b) => b.product_id === productId).reduce((sum, b) => sum + b.quantity, 0)
+    : 0;
+  const isCurrent = to >= format(new Date(), 'yyyy-MM-dd');
+  const hasVariance = isCurrent && !loading && closingBalance !== stockOnHand;
+
+  const productName = product ? `${product.name}${product.strength ? ` ${product.strength}` : ''}` : '';
+
+  const handleViewPrescription = async (path: string) => {
+    const url = await getPrescriptionUrl(path);
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    }
+  };
+
+  const handlePrint = () => {
+    if (!product) return;
+
+    const printWindow = window.open('', '_blank', 'width=1000,height=900');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the register');
+      return;
+    }
+
+    const rows = entries
+      .map(
+        (entry) => `<tr>
+          <td>${format(parseISO(entry.entry_date), 'dd/MM/yyyy HH:mm')}</td>
+          <td>${escapeHtml(REGISTER_ENTRY_LABELS[entry.entry_type])}</td>
+          <td>${escapeHtml(entry.reference || '')}</td>
+          <td>${escapeHtml(prescriptionSummary(entry))}</td>
+          <td class="num">${entry.quantity_in || ''}</td>
+          <td class="num">${entry.quantity_out || ''}</td>
+          <td class="num">${entry.balance}</td>
+        </tr>`
+      )
+      .join('');
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Controlled Drug Register - ${escapeHtml(productName)}</title>
+          <style>
+            body { font-family: system-ui, sans-serif; padding: 24px; color: #111; }
+            h1 { font-size: 20px; margin: 0 0 4px; }
+            p { margin: 0 0 16px; color: #555; }
+            table { width: 100%; border-collapse: collapse; font-size: 12px; }
+            th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+            th { background: #f3f4f6; }
+            .num { text-align: right; }
+            .total td { font-weight: 600; }
+            .signature { margin-top: 48px; display: flex; justify-content: space-between; font-size: 13px; }
+          </style>
+        </head>
+        <body>
+          <h1>${escapeHtml(settings.store_name)} - Controlled Drug Register</h1>
+          <p>
+            ${escapeHtml(settings.license_number || '')}<br />
+            ${escapeHtml(productName)} &bull; ${escapeHtml(DRUG_SCHEDULE_LABELS[product.drug_schedule || 'none'])}
+            &bull; ${formatDay(from)} to ${formatDay(to)}
+          </p>
+          <table>
+            <thead>
+              <tr><th>Date</th><th>Entry</th><th>Reference</th><th>Prescription</th><th class="num">In</th><th class="num">Out</th><th class="num">Balance</th></tr>
+            </thead>
+            <tbody>
+              <tr class="total"><td colspan="6">Opening balance</td><td class="num">${openingBalance}</td></tr>
+              ${rows}
+              <tr class="total"><td colspan="4">Closing balance</td><td class="num">${totalIn}</td><td class="num">${totalOut}</td><td class="num">${closingBalance}</td></tr>
+            </tbody>
+          </table>
+          <div class="signature">
+            <span>Pharmacist: ____________________</span>
+            <span>Inspected by: ____________________</span>
+          </div>
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <ShieldAlert className="w-8 h-8 text-primary" />
+              Controlled Drug Register
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">
+              Receipts, sales and running balances of psychotropics and narcotics
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={refetch} disabled={!productId} className="w-full sm:w-auto">
+              <RefreshCcw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+            <Button onClick={handlePrint} disabled={!product || loading} className="w-full sm:w-auto">
+              <Printer className="w-4 h-4 mr-2" />
+              Print Register
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Product</Label>
+              <Select value={productId ?? ''} onValueChange={setProductId} disabled={controlledProducts.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No controlled products" />
+                </SelectTrigger>
+                <SelectContent>
+                  {controlledProducts.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                      {p.strength ? ` ${p.strength}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="register-from">From</Label>
+              <Input id="register-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="register-to">To</Label>
+              <Input id="register-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        {productsLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : controlledProducts.length === 0 ? (
+          <div className="bg-card rounded-2xl border border-border/60 p-12 text-center shadow-sm">
+            <ShieldAlert className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="font-medium">No controlled products</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Set a product's drug schedule to Psychotropic or Narcotic to start its register
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4 sm:mb-6">
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Opening Balance</p>
+                <p className="text-2xl font-bold">{openingBalance}</p>
+              </div>
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Received</p>
+                <p className="text-2xl font-bold text-success">{totalIn}</p>
+              </div>
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Sold</p>
+                <p className="text-2xl font-bold text-destructive">{totalOut}</p>
+              </div>
+              <div className="stat-card">
+                <p className="text-sm text-muted-foreground">Closing Balance</p>
+                <p className="text-2xl font-bold text-primary">{closingBalance}</p>
+              </div>
+            </div>
+
+            {hasVariance && (
+              <div className="mb-4 sm:mb-6 p-3 bg-warning/10 border border-warning/30 rounded-xl flex items-center gap-3">
+                <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0" />
+                <p className="text-sm text-warning">
+                  Register balance is {closingBalance} but {stockOnHand} units are in stock. Stock edited outside
+                  receiving, sales and returns is not in the register.
+                </p>
+              </div>
+            )}
+
+            <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+              {loading ? (
+                <div className="flex items-center justify-center py-16">
+                  <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="table-header">
+                        <TableHead>Date</TableHead>
+                        <TableHead>Entry</TableHead>
+                        <TableHead>Reference</TableHead>
+                        <TableHead>Prescription</TableHead>
+                        <TableHead className="text-right">In</TableHead>
+                        <TableHead className="text-right">Out</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell colSpan={6} className="font-medium text-muted-foreground">
+                          Opening balance on {formatDay(from)}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{openingBalance}</TableCell>
+                      </TableRow>
+                      {entries.map((entry) => (
+                        <TableRow key={entry.entry_id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(parseISO(entry.entry_date), 'MMM d, yyyy HH:mm')}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={entry.entry_type === 'sale' ? 'secondary' : 'outline'}>
+                              {REGISTER_ENTRY_LABELS[entry.entry_type]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{entry.reference || '-'}</TableCell>
+                          <TableCell className="text-sm">
+                            {entry.doctor_name ? (
+                              <div className="flex items-start gap-2">
+                                <span>{prescriptionSummary(entry)}</span>
+                                {entry.prescription_image_path && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 px-2"
+                                    onClick={() => handleViewPrescription(entry.prescription_image_path!)}
+                                  >
+                                    <FileText className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{entry.quantity_in || ''}</TableCell>
+                          <TableCell className="text-right">{entry.quantity_out || ''}</TableCell>
+                          <TableCell className="text-right font-medium">{entry.balance}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell colSpan={4} className="font-medium text-muted-foreground">
+                          Closing balance on {formatDay(to)}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{totalIn}</TableCell>
+                        <TableCell className="text-right font-semibold">{totalOut}</TableCell>
+                        <TableCell className="text-right font-semibold">{closingBalance}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,505 @@
+import { useMemo, useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CustomerForm } from '@/components/customers/CustomerForm';
+import { useCustomers, Customer, CustomerInput, normalizePhone } from '@/hooks/useCustomers';
+import { AGEING_BUCKETS, LEDGER_ENTRY_LABELS, LedgerEntry, buildStatement } from '@/lib/ledger';
+import { formatPKR } from '@/lib/currency';
+import { TENDER_LABELS, TENDER_METHODS, tenderLabel } from '@/lib/tender';
+import { useSettings } from '@/hooks/useSettings';
+import { format, parseISO, subMonths } from 'date-fns';
+import { AlertTriangle, Contact, Edit2, FileText, Loader2, Plus, Printer, Search, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Credit is repaid with any tender a sale takes, other than more credit
+const PAYMENT_METHODS = TENDER_METHODS.filter((method) => method !== 'credit');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export default function Customers() {
+  const { settings } = useSettings();
+  const { customers, loading, getBalance, addCustomer, updateCustomer, fetchLedger, recordPayment } = useCustomers();
+  const [search, setSearch] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Payment dialog
+  const [payingCustomer, setPayingCustomer] = useState<Customer | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [paymentNotes, setPaymentNotes] = useState('');
+
+  // Statement dialog
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+  const [statementFrom, setStatementFrom] = useState(format(subMonths(new Date(), 3), 'yyyy-MM-dd'));
+  const [statementTo, setStatementTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const filteredCustomers = customers.filter((c) => {
+    const term = search.toLowerCase().trim();
+    if (!term) return true;
+    const digits = normalizePhone(term);
+    return (
+      c.name.toLowerCase().includes(term) ||
+      (digits.length > 0 && normalizePhone(c.phone).includes(digits)) ||
+      c.cnic?.includes(term)
+    );
+  });
+
+  const totals = useMemo(() => {
+    let receivable = 0;
+    let overdue = 0;
+    let debtors = 0;
+    for (const customer of customers) {
+      const balance = getBalance(customer.id);
+      if (balance.balance > 0) {
+        receivable += balance.balance;
+        overdue += balance.due_over_90;
+        debtors += 1;
+      }
+    }
+    return { receivable, overdue, debtors };
+  }, [customers, getBalance]);
+
+  const openAdd = () => {
+    setEditingCustomer(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (customer: Customer) => {
+    setEditingCustomer(customer);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (input: CustomerInput) => {
+    setSaving(true);
+    const ok = editingCustomer ? await updateCustomer(editingCustomer.id, input) : !!(await addCustomer(input));
+    setSaving(false);
+
+    if (ok) {
+      setIsFormOpen(false);
+      setEditingCustomer(null);
+    }
+  };
+
+  const openPayment = (customer: Customer) => {
+    const balance = getBalance(customer.id).balance;
+    setPayingCustomer(customer);
+    setPaymentAmount(balance > 0 ? balance.toFixed(2) : '');
+    setPaymentMethod('cash');
+    setPaymentNotes('');
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingCustomer) return;
+
+    setSaving(true);
+    const ok = await recordPayment(payingCustomer.id, parseFloat(paymentAmount), paymentMethod, paymentNotes);
+    setSaving(false);
+
+    if (ok) {
+      setPayingCustomer(null);
+    }
+  };
+
+  const openStatement = async (customer: Customer) => {
+    setStatementCustomer(customer);
+    setLedgerLoading(true);
+    setLedger(await fetchLedger(customer.id));
+    setLedgerLoading(false);
+  };
+
+  // Entries before the statement period roll up into its opening balance
+  const statement = useMemo(() => {
+    const fromDate = statementFrom || '0000-01-01';
+    const toDate = statementTo || '9999-12-31';
+    const day = (entry: LedgerEntry) => format(parseISO(entry.created_at), 'yyyy-MM-dd');
+    const openingBalance = ledger
+      .filter((entry) => day(entry) < fromDate)
+      .reduce((sum, entry) => sum + Number(entry.amount), 0);
+    const lines = buildStatement(
+      ledger.filter((entry) => day(entry) >= fromDate && day(entry) <= toDate),
+      openingBalance
+    );
+    const closingBalance = lines.length > 0 ? lines[lines.length - 1].balance : openingBalance;
+    return { openingBalance, lines, closingBalance };
+  }, [ledger, statementFrom, statementTo]);
+
+  const handlePrintStatement = () => {
+    if (!statementCustomer) return;
+    if (!statementFrom || !statementTo) {
+      toast.error('Choose the statement dates first');
+      return;
+    }
+
+    const printWindow = window.open('', '_blank', 'width=800,height=900');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the statement');
+      return;
+    }
+
+    const balance = getBalance(statementCustomer.id);
+    const rows = statement.lines
+      .map(
+        (line) => `<tr>
+          <td>${format(parseISO(line.created_at), 'dd/MM/yyyy')}</td>
+          <td>${escapeHtml(LEDGER_ENTRY_LABELS[line.entry_type])}${line.payment_method ? ` (${escapeHtml(tenderLabel(line.payment_method))})` : ''}</td>
+          <td>${escapeHtml(line.reference || line.notes || '')}</td>
+          <td class="num">${line.debit ? escapeHtml(formatPKR(line.debit)) : ''}</td>
+          <td class="num">${line.credit ? escapeHtml(formatPKR(line.credit)) : ''}</td>
+          <td class="num">${escapeHtml(formatPKR(line.balance))}</td>
+        </tr>`
+      )
+      .join('');
+    const ageing = AGEING_BUCKETS.map(
+      (bucket) => `<td class="num">${escapeHtml(formatPKR(balance[bucket.key]))}</td>`
+    ).join('');
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Statement - ${escapeHtml(statementCustomer.name)}</title>
+          <style>
+            body { font-family: system-ui, sans-serif; padding: 24px; color: #111; }
+            h1 { font-size: 20px; margin: 0 0 4px; }
+            h2 { font-size: 14px; margin: 24px 0 8px; }
+            p { margin: 0 0 16px; color: #555; }
+            table { width: 100%; border-collapse: collapse; font-size: 13px; }
+            th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+            th { background: #f3f4f6; }
+            .num { text-align: right; }
+            .total td { font-weight: 600; }
+          </style>
+        </head>
+        <body>
+          <h1>${escapeHtml(settings.store_name)} - Customer Statement</h1>
+          <p>
+            ${escapeHtml(statementCustomer.name)} &bull; ${escapeHtml(statementCustomer.phone)}<br />
+            ${format(parseISO(statementFrom), 'MMM d, yyyy')} to ${format(parseISO(statementTo), 'MMM d, yyyy')}
+          </p>
+          <table>
+            <thead>
+              <tr><th>Date</th><th>Entry</th><th>Reference</th><th class="num">Charged</th><th class="num">Paid</th><th class="num">Balance</th></tr>
+            </thead>
+            <tbody>
+              <tr class="total"><td colspan="5">Opening balance</td><td class="num">${escapeHtml(formatPKR(statement.openingBalance))}</td></tr>
+              ${rows}
+              <tr class="total"><td colspan="5">Closing balance</td><td class="num">${escapeHtml(formatPKR(statement.closingBalance))}</td></tr>
+            </tbody>
+          </table>
+          <h2>Amount due by age (today)</h2>
+          <table>
+            <thead><tr>${AGEING_BUCKETS.map((bucket) => `<th class="num">${bucket.label}</th>`).join('')}</tr></thead>
+            <tbody><tr>${ageing}</tr></tbody>
+          </table>
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <Contact className="w-8 h-8 text-primary" />
+              Customers
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Patient profiles and credit (udhaar) accounts</p>
+          </div>
+          <Button onClick={openAdd} className="shadow-sm w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Customer
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4 sm:mb-6">
+          <div className="stat-card">
+            <p className="text-sm text-muted-foreground">Total Receivable</p>
+            <p className="text-2xl font-bold text-primary">{formatPKR(totals.receivable)}</p>
+          </div>
+          <div className="stat-card">
+            <p className="text-sm text-muted-foreground">Customers Owing</p>
+            <p className="text-2xl font-bold">{totals.debtors}</p>
+          </div>
+          <div className="stat-card">
+            <p className="text-sm text-muted-foreground">Over 90 Days</p>
+            <p className="text-2xl font-bold text-destructive">{formatPKR(totals.overdue)}</p>
+          </div>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, phone or CNIC..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  {AGEING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket.key} className="text-right whitespace-nowrap">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Limit</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredCustomers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-12 text-muted-foreground">
+                      {search ? 'No customers match your search' : 'No customers yet. Add one here or from the Point of Sale'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredCustomers.map((customer) => {
+                    const balance = getBalance(customer.id);
+                    return (
+                      <TableRow key={customer.id} className={customer.is_active ? 'hover:bg-muted/30' : 'opacity-60'}>
+                        <TableCell>
+                          <p className="font-medium flex items-center gap-2">
+                            {customer.name}
+                            {customer.allergies && (
+                              <span title={`Allergies: ${customer.allergies}`}>
+                                <AlertTriangle className="w-4 h-4 text-destructive" />
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {[customer.phone, customer.cnic].filter(Boolean).join(' • ')}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {balance.balance > 0 ? (
+                            <span className="text-destructive">{formatPKR(balance.balance)}</span>
+                          ) : (
+                            formatPKR(balance.balance)
+                          )}
+                        </TableCell>
+                        {AGEING_BUCKETS.map((bucket) => (
+                          <TableCell key={bucket.key} className="text-right text-muted-foreground">
+                            {balance[bucket.key] > 0 ? formatPKR(balance[bucket.key]) : '-'}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right">
+                          {customer.credit_limit != null ? formatPKR(customer.credit_limit) : <Badge variant="outline">None</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={customer.is_active}
+                            onCheckedChange={(checked) => updateCustomer(customer.id, { is_active: checked })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="icon" onClick={() => openStatement(customer)} title="Statement">
+                            <FileText className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => openPayment(customer)} title="Receive payment">
+                            <Wallet className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => openEdit(customer)} title="Edit">
+                            <Edit2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* Add / edit */}
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent className="max-w-lg w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingCustomer ? 'Edit Customer' : 'Add Customer'}</DialogTitle>
+              <DialogDescription>
+                Contact details, allergies and regular medicines are shown at the counter when the customer is selected.
+              </DialogDescription>
+            </DialogHeader>
+            <CustomerForm
+              customer={editingCustomer}
+              saving={saving}
+              onSubmit={handleSubmit}
+              onCancel={() => setIsFormOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+
+        {/* Receive payment */}
+        <Dialog open={!!payingCustomer} onOpenChange={(open) => !open && setPayingCustomer(null)}>
+          <DialogContent className="max-w-md w-[95vw] sm:w-auto">
+            <DialogHeader>
+              <DialogTitle>Receive Payment</DialogTitle>
+              <DialogDescription>
+                {payingCustomer && (
+                  <>
+                    {payingCustomer.name} owes {formatPKR(getBalance(payingCustomer.id).balance)}. Part payments are allowed.
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleRecordPayment} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="paymentAmount">Amount (Rs)</Label>
+                  <Input
+                    id="paymentAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={paymentAmount}
+                    onChange={(e) => setPaymentAmount(e.target.value)}
+                    required
+                    autoFocus
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Method</Label>
+                  <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {TENDER_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="paymentNotes">Notes</Label>
+                <Input id="paymentNotes" value={paymentNotes} onChange={(e) => setPaymentNotes(e.target.value)} />
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setPayingCustomer(null)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Record Payment
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Statement */}
+        <Dialog open={!!statementCustomer} onOpenChange={(open) => !open && setStatementCustomer(null)}>
+          <DialogContent className="max-w-3xl w-[95vw] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Statement - {statementCustomer?.name}</DialogTitle>
+              <DialogDescription>Credit sales, returns and payments with the running balance.</DialogDescription>
+            </DialogHeader>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="statementFrom">From</Label>
+                <Input id="statementFrom" type="date" value={statementFrom} max={statementTo} onChange={(e) => setStatementFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statementTo">To</Label>
+                <Input id="statementTo" type="date" value={statementTo} min={statementFrom} onChange={(e) => setStatementTo(e.target.value)} />
+              </div>
+              <Button variant="outline" onClick={handlePrintStatement} disabled={ledgerLoading} className="sm:ml-auto">
+                <Printer className="w-4 h-4 mr-2" />
+                Print Statement
+              </Button>
+            </div>
+            {ledgerLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="table-header">
+                      <TableHead>Date</TableHead>
+                      <TableHead>Entry</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Charged</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-muted-foreground">Opening balance</TableCell>
+                      <TableCell className="text-right font-medium">{formatPKR(statement.openingBalance)}</TableCell>
+                    </TableRow>
+                    {statement.lines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell className="whitespace-nowrap">{format(parseISO(line.created_at), 'MMM d, yyyy')}</TableCell>
+                        <TableCell>
+                          {LEDGER_ENTRY_LABELS[line.entry_type]}
+                          {line.payment_method && <span className="text-muted-foreground"> ({tenderLabel(line.payment_method)})</span>}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{line.reference || line.notes || '-'}</TableCell>
+                        <TableCell className="text-right">{line.debit ? formatPKR(line.debit) : ''}</TableCell>
+                        <TableCell className="text-right text-success">{line.credit ? formatPKR(line.credit) : ''}</TableCell>
+                        <TableCell className="text-right font-medium">{formatPKR(line.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={5} className="font-medium">Closing balance</TableCell>
+                      <TableCell className="text-right font-semibold">{formatPKR(statement.closingBalance)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
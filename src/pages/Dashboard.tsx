@@ -1,10 +1,15 @@
 import { useState, useMemo, useEffect } from 'react';
-import { TrendingUp, Package, AlertTriangle, Clock, Banknote, Layers, X } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { TrendingUp, Package, AlertTriangle, Clock, Banknote, Layers, Undo2, X } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { StatCard } from '@/components/dashboard/StatCard';
 import { useProducts } from '@/hooks/useProducts';
 import { useSales } from '@/hooks/useSales';
+import { useAuth } from '@/hooks/useAuth';
+import { useBranches, ALL_BRANCHES } from '@/hooks/useBranches';
+import { useSettings } from '@/hooks/useSettings';
 import { formatPKR } from '@/lib/currency';
+import { formatPackBreakdown } from '@/lib/units';
 import { format, parseISO, startOfToday } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import {
@@ -16,12 +21,22 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 export default function Dashboard() {
-  const { products, getProductStock, getExpiringBatches, getExpiredBatches } = useProducts();
-  const { sales } = useSales();
+  const { branchId, can } = useAuth();
+  const { branches } = useBranches();
+  const { settings } = useSettings();
+  // Unset means the branch the user is working in
+  const [branchFilter, setBranchFilter] = useState<string | undefined>(undefined);
+  const { products, getProductStock, getExpiringBatches, getExpiredBatches } = useProducts(branchFilter);
+  const { sales: allSales } = useSales();
+  const viewedBranchId = branchFilter ?? branchId;
   const today = startOfToday();
   const [dismissedExpiredAlert, setDismissedExpiredAlert] = useState(false);
+  const [returnBatchIds, setReturnBatchIds] = useState<Set<string>>(new Set());
   const [totalProductCount, setTotalProductCount] = useState<number | null>(null);
 
   // Fetch true product count directly from DB to avoid pagination limits
@@ -43,8 +58,27 @@ export default function Dashboard() {
     fetchCount();
   }, []);
 
-  const expiringBatches = getExpiringBatches(30);
+  const sales = useMemo(
+    () =>
+      viewedBranchId === ALL_BRANCHES || !viewedBranchId
+        ? allSales
+        : allSales.filter((sale) => sale.branch_id === viewedBranchId),
+    [allSales, viewedBranchId]
+  );
+
+  const expiringBatches = getExpiringBatches(settings.expiry_warning_days);
   const expiredBatches = getExpiredBatches();
+  // Debit notes are drafted against the user's own branch
+  const canReturnToSupplier = can('purchasing.manage') && branchFilter === undefined;
+  const navigate = useNavigate();
+
+  const toggleReturnBatch = (id: string, checked: boolean) =>
+    setReturnBatchIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
 
   const stats = useMemo(() => {
     const safeSales = Array.isArray(sales) ? sales : [];
@@ -94,11 +128,28 @@ export default function Dashboard() {
   return (
     <MainLayout>
       <div className="p-4 sm:p-6 lg:p-8">
-        <div className="page-header mb-6 sm:mb-8">
-          <h1 className="page-title text-2xl sm:text-3xl">Dashboard</h1>
-          <p className="page-subtitle text-sm sm:text-base">
-            Welcome back! Here's your pharmacy overview for {format(today, 'MMMM d, yyyy')}
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title text-2xl sm:text-3xl">Dashboard</h1>
+            <p className="page-subtitle text-sm sm:text-base">
+              Welcome back! Here's your pharmacy overview for {format(today, 'MMMM d, yyyy')}
+            </p>
+          </div>
+          {branches.length > 1 && (
+            <Select value={viewedBranchId ?? undefined} onValueChange={setBranchFilter}>
+              <SelectTrigger className="w-full sm:w-48" aria-label="Branch">
+                <SelectValue placeholder="Select branch" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+                {branches.map((branch) => (
+                  <SelectItem key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 mb-6 sm:mb-8">
@@ -120,7 +171,7 @@ export default function Dashboard() {
             variant={stats.lowStockCount > 0 ? 'warning' : 'default'}
           />
           <StatCard
-            title="Expiring Batches (30d)"
+            title={`Expiring Batches (${settings.expiry_warning_days}d)`}
             value={stats.expiringCount}
             icon={<Clock className="w-6 h-6" />}
             variant={stats.expiringCount > 0 ? 'danger' : 'default'}
@@ -139,6 +190,23 @@ export default function Dashboard() {
                 <p className="text-xs sm:text-sm text-destructive/80">
                   {stats.expiredCount} batch(es) have expired and cannot be sold. Consider disposing of expired stock.
                 </p>
+                {/* Write-offs are raised against the user's own branch */}
+                {can('stock.receive') && branchFilter === undefined && (
+                  <Link
+                    to="/adjustments?writeoff=expired"
+                    className="text-xs sm:text-sm font-medium text-destructive underline underline-offset-2 hover:text-destructive/80"
+                  >
+                    Write off expired stock
+                  </Link>
+                )}
+                {canReturnToSupplier && (
+                  <Link
+                    to={`/supplier-returns?batches=${expiredBatches.map((b) => b.id).join(',')}`}
+                    className="ml-3 text-xs sm:text-sm font-medium text-destructive underline underline-offset-2 hover:text-destructive/80"
+                  >
+                    Return to supplier
+                  </Link>
+                )}
               </div>
             </div>
             <button
@@ -173,13 +241,17 @@ export default function Dashboard() {
                 <TableBody>
                   {stats.lowStockProducts.slice(0, 5).map((product) => {
                     if (!product || !product.id) return null;
+                    const stock = getProductStock(product.id);
                     return (
                       <TableRow key={product.id}>
                         <TableCell className="font-medium">
                           {product.name || 'Unknown Product'} {product.strength && <span className="text-primary text-xs">{product.strength}</span>}
                         </TableCell>
                         <TableCell className="text-right">
-                          <Badge variant="destructive">{getProductStock(product.id)}</Badge>
+                          <Badge variant="destructive">{stock}</Badge>
+                          {stock > 0 && product.units && product.units.length > 0 && (
+                            <p className="text-xs text-muted-foreground mt-1">{formatPackBreakdown(stock, product)}</p>
+                          )}
                         </TableCell>
                         <TableCell className="text-right text-muted-foreground">
                           {product.min_stock ?? 0}
@@ -206,13 +278,24 @@ export default function Dashboard() {
               <div className="w-10 h-10 rounded-xl bg-destructive/15 flex items-center justify-center flex-shrink-0">
                 <Clock className="w-5 h-5 text-destructive" />
               </div>
-              <h2 className="text-base sm:text-lg font-semibold text-foreground">Expiring Soon (30 days)</h2>
+              <h2 className="text-base sm:text-lg font-semibold text-foreground flex-1">Expiring Soon ({settings.expiry_warning_days} days)</h2>
+              {canReturnToSupplier && returnBatchIds.size > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => navigate(`/supplier-returns?batches=${Array.from(returnBatchIds).join(',')}`)}
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Return ({returnBatchIds.size})
+                </Button>
+              )}
             </div>
             {expiringBatches.length > 0 ? (
               <div className="overflow-x-auto">
                 <Table>
                 <TableHeader>
                   <TableRow>
+                    {canReturnToSupplier && <TableHead className="w-10" />}
                     <TableHead>Product / Batch</TableHead>
                     <TableHead className="text-right">Expiry</TableHead>
                     <TableHead className="text-right">Qty</TableHead>
@@ -224,6 +307,15 @@ export default function Dashboard() {
                     const product = products.find(p => p && p.id === batch.product_id);
                     return (
                       <TableRow key={batch.id}>
+                        {canReturnToSupplier && (
+                          <TableCell>
+                            <Checkbox
+                              checked={returnBatchIds.has(batch.id)}
+                              onCheckedChange={(checked) => toggleReturnBatch(batch.id, checked === true)}
+                              aria-label="Select for return to supplier"
+                            />
+                          </TableCell>
+                        )}
                         <TableCell>
                           <div>
                             <p className="font-medium">{product?.name || 'Unknown Product'}</p>
@@ -237,6 +329,9 @@ export default function Dashboard() {
                         </TableCell>
                         <TableCell className="text-right text-muted-foreground">
                           {batch.quantity ?? 0}
+                          {product?.units && product.units.length > 0 && (
+                            <p className="text-xs">{formatPackBreakdown(batch.quantity ?? 0, product)}</p>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -0,0 +1,650 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BarcodeScanner } from '@/components/pos/BarcodeScanner';
+import { useProducts, type Product } from '@/hooks/useProducts';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { usePurchaseOrders } from '@/hooks/usePurchaseOrders';
+import { useGoodsReceived } from '@/hooks/useGoodsReceived';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  GrnLine,
+  GrnLineErrors,
+  GRN_COLUMNS,
+  calculateGrnTotals,
+  createGrnLine,
+  grnLineTotal,
+  isBlankGrnLine,
+  isShortExpiry,
+  validateGrnLine,
+} from '@/lib/grn';
+import { formatPKR } from '@/lib/currency';
+import { parseGs1 } from '@/lib/gs1';
+import { cn } from '@/lib/utils';
+import { format, parseISO, startOfToday } from 'date-fns';
+import { FileText, Plus, Trash2, Loader2, Save, ChevronsUpDown, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+
+const NO_PO = 'none';
+const INITIAL_ROWS = 5;
+
+const emptyRows = () => Array.from({ length: INITIAL_ROWS }, () => createGrnLine());
+
+interface ProductCellProps {
+  row: number;
+  products: Product[];
+  value: string;
+  invalid: boolean;
+  onSelect: (product: Product) => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => void;
+}
+
+function ProductCell({ row, products, value, invalid, onSelect, onKeyDown }: ProductCellProps) {
+  const [open, setOpen] = useState(false);
+  const selected = products.find((p) => p.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          data-row={row}
+          data-col={0}
+          onKeyDown={onKeyDown}
+          className={cn('w-full h-9 justify-between font-normal', invalid && 'border-destructive')}
+        >
+          <span className="truncate">
+            {selected ? `${selected.name}${selected.strength ? ` (${selected.strength})` : ''}` : 'Select product...'}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search products..." />
+          <CommandList>
+            <CommandEmpty>No product found.</CommandEmpty>
+            <CommandGroup>
+              {products.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  value={`${product.name} ${product.strength || ''} ${product.barcode || ''} ${product.id}`}
+                  onSelect={() => {
+                    onSelect(product);
+                    setOpen(false);
+                  }}
+                >
+                  {product.name} {product.strength && `(${product.strength})`}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default function GoodsReceived() {
+  const { products, batches, getProductByBarcode, refetch: refetchProducts } = useProducts();
+  const { activeSuppliers } = useSuppliers();
+  const { orders } = usePurchaseOrders();
+  const { notes, loading, saveGoodsReceived } = useGoodsReceived();
+  const { settings } = useSettings();
+  const today = useMemo(() => startOfToday(), []);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const [supplierId, setSupplierId] = useState('');
+  const [purchaseOrderId, setPurchaseOrderId] = useState(NO_PO);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [invoiceDate, setInvoiceDate] = useState(format(today, 'yyyy-MM-dd'));
+  const [discount, setDiscount] = useState('');
+  const [tax, setTax] = useState('');
+  const [invoiceTotal, setInvoiceTotal] = useState('');
+  const [lines, setLines] = useState<GrnLine[]>(emptyRows);
+  const [showErrors, setShowErrors] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const activeProducts = useMemo(() => products.filter((p) => p.is_active), [products]);
+  const openOrders = orders.filter(
+    (o) => o.supplier_id === supplierId && (o.status === 'sent' || o.status === 'partially_received')
+  );
+
+  const filledLines = lines.filter((line) => !isBlankGrnLine(line));
+  const lineErrors = useMemo(
+    () => new Map(lines.map((line) => [line.key, validateGrnLine(line, today)] as [string, GrnLineErrors])),
+    [lines, today]
+  );
+  const totals = calculateGrnTotals(filledLines, parseFloat(discount) || 0, parseFloat(tax) || 0);
+  const printedTotal = parseFloat(invoiceTotal);
+  const totalMismatch = !isNaN(printedTotal) && Math.abs(printedTotal - totals.total) >= 1;
+
+  const focusCell = (row: number, col: number) => {
+    // Wait for a newly added row to render before focusing it
+    setTimeout(() => {
+      gridRef.current?.querySelector<HTMLElement>(`[data-row="${row}"][data-col="${col}"]`)?.focus();
+    }, 0);
+  };
+
+  const updateLine = (index: number, updates: Partial<GrnLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines((prev) => (prev.length === 1 ? [createGrnLine()] : prev.filter((_, i) => i !== index)));
+  };
+
+  // Prices default to the product's most recent batch
+  const priceDefaults = (productId: string) => {
+    const latestBatch = batches
+      .filter((b) => b.product_id === productId)
+      .sort((a, b) => b.purchase_date.localeCompare(a.purchase_date))[0];
+    return {
+      costPrice: latestBatch?.cost_price.toString() || '',
+      sellingPrice: latestBatch?.selling_price.toString() || '',
+    };
+  };
+
+  const selectProduct = (index: number, product: Product) => {
+    const defaults = priceDefaults(product.id);
+    setLines((prev) =>
+      prev.map((line, i) =>
+        i === index
+          ? {
+              ...line,
+              productId: product.id,
+              costPrice: line.costPrice || defaults.costPrice,
+              sellingPrice: line.sellingPrice || defaults.sellingPrice,
+            }
+          : line
+      )
+    );
+    focusCell(index, 1);
+  };
+
+  const handleScan = (barcode: string) => {
+    const product = getProductByBarcode(barcode);
+    if (!product) {
+      toast.error('Product not found', { description: `No product with barcode ${barcode}` });
+      return;
+    }
+    // GS1 packs carry their batch and expiry
+    const scan = parseGs1(barcode);
+    const packDetails = { batchNumber: scan?.batchNumber ?? '', expiryDate: scan?.expiryDate ?? '' };
+
+    const emptyIndex = lines.findIndex((line) => !line.productId);
+    if (emptyIndex >= 0) {
+      if (scan) {
+        setLines((prev) => prev.map((line, i) => (i === emptyIndex ? { ...line, ...packDetails } : line)));
+      }
+      selectProduct(emptyIndex, product);
+      return;
+    }
+    setLines((prev) => [...prev, createGrnLine({ productId: product.id, ...priceDefaults(product.id), ...packDetails })]);
+    focusCell(lines.length, 1);
+  };
+
+  /**
+   * Enter moves right (and on to the next row), arrow keys move up and down
+   */
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLElement>, row: number, col: number) => {
+    const lastCol = GRN_COLUMNS.length - 1;
+
+    if (e.key === 'Enter' && col > 0) {
+      e.preventDefault();
+      if (col < lastCol) {
+        focusCell(row, col + 1);
+      } else {
+        if (row === lines.length - 1) {
+          setLines((prev) => [...prev, createGrnLine()]);
+        }
+        focusCell(row + 1, 0);
+      }
+    } else if (e.key === 'ArrowDown' && row < lines.length - 1) {
+      e.preventDefault();
+      focusCell(row + 1, col);
+    } else if (e.key === 'ArrowUp' && row > 0) {
+      e.preventDefault();
+      focusCell(row - 1, col);
+    }
+  };
+
+  const handleSupplierChange = (id: string) => {
+    setSupplierId(id);
+    setPurchaseOrderId(NO_PO);
+  };
+
+  // Pre-fill the grid with everything still outstanding on the order
+  const handlePurchaseOrderChange = (id: string) => {
+    setPurchaseOrderId(id);
+    const order = orders.find((o) => o.id === id);
+    if (!order) {
+      setLines((prev) => prev.map((line) => ({ ...line, purchaseOrderItemId: null })));
+      return;
+    }
+
+    const orderLines = order.purchase_order_items
+      .filter((item) => item.quantity_received < item.quantity_ordered)
+      .map((item) => {
+        const defaults = priceDefaults(item.product_id);
+        return createGrnLine({
+          productId: item.product_id,
+          quantity: (item.quantity_ordered - item.quantity_received).toString(),
+          costPrice: Number(item.unit_cost) > 0 ? item.unit_cost.toString() : defaults.costPrice,
+          sellingPrice: defaults.sellingPrice,
+          purchaseOrderItemId: item.id,
+        });
+      });
+
+    setLines([...lines.filter((line) => !isBlankGrnLine(line) && !line.purchaseOrderItemId), ...orderLines]);
+  };
+
+  const resetForm = () => {
+    setSupplierId('');
+    setPurchaseOrderId(NO_PO);
+    setInvoiceNumber('');
+    setInvoiceDate(format(today, 'yyyy-MM-dd'));
+    setDiscount('');
+    setTax('');
+    setInvoiceTotal('');
+    setLines(emptyRows());
+    setShowErrors(false);
+  };
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toast.error('Please select a supplier');
+      return;
+    }
+
+    if (!invoiceNumber.trim()) {
+      toast.error('Invoice number is required');
+      return;
+    }
+
+    if (filledLines.length === 0) {
+      toast.error('Enter at least one line');
+      return;
+    }
+
+    const invalidCount = filledLines.filter((line) => Object.keys(lineErrors.get(line.key) || {}).length > 0).length;
+    if (invalidCount > 0) {
+      setShowErrors(true);
+      toast.error(`${invalidCount} line${invalidCount === 1 ? ' needs' : 's need'} attention`);
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveGoodsReceived({
+      supplierId,
+      invoiceNumber,
+      invoiceDate,
+      discountAmount: parseFloat(discount) || 0,
+      taxAmount: parseFloat(tax) || 0,
+      invoiceTotal: isNaN(printedTotal) ? null : printedTotal,
+      lines: filledLines.map((line) => ({
+        product_id: line.productId,
+        batch_number: line.batchNumber.trim(),
+        quantity: parseInt(line.quantity),
+        cost_price: parseFloat(line.costPrice),
+        selling_price: parseFloat(line.sellingPrice),
+        expiry_date: line.expiryDate,
+        purchase_order_item_id: line.purchaseOrderItemId,
+      })),
+    });
+    setSaving(false);
+
+    if (result) {
+      resetForm();
+      refetchProducts();
+    }
+  };
+
+  const cellClass = (line: GrnLine, field: keyof GrnLineErrors) => {
+    const error = lineErrors.get(line.key)?.[field];
+    // Expiry is checked as soon as it is typed; everything else on save
+    const visible = field === 'expiryDate' ? !!line.expiryDate || showErrors : showErrors;
+    return cn('h-9', error && visible && !isBlankGrnLine(line) && 'border-destructive focus-visible:ring-destructive');
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <FileText className="w-8 h-8 text-primary" />
+              Goods Received
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Enter a supplier invoice line by line and receive it in one go</p>
+          </div>
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link to="/purchases">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Stock Purchases
+            </Link>
+          </Button>
+        </div>
+
+        {/* Invoice Header */}
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 shadow-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={handleSupplierChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeSuppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoiceNumber">Invoice No. *</Label>
+              <Input id="invoiceNumber" value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoiceDate">Invoice Date</Label>
+              <Input id="invoiceDate" type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Against Purchase Order</Label>
+              <Select value={purchaseOrderId} onValueChange={handlePurchaseOrderChange} disabled={!supplierId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PO}>No purchase order</SelectItem>
+                  {openOrders.map((order) => (
+                    <SelectItem key={order.id} value={order.id}>
+                      {order.po_number} • {format(parseISO(order.order_date), 'MMM d')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {/* Line Grid */}
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden mb-4">
+          <div className="p-4 border-b border-border/60">
+            <BarcodeScanner onScan={handleScan} />
+          </div>
+          <div className="overflow-x-auto" ref={gridRef}>
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead className="w-10">#</TableHead>
+                  <TableHead className="min-w-[220px]">Product</TableHead>
+                  <TableHead className="min-w-[130px]">Batch No.</TableHead>
+                  <TableHead className="min-w-[150px]">Expiry</TableHead>
+                  <TableHead className="w-24">Qty</TableHead>
+                  <TableHead className="w-28">Cost</TableHead>
+                  <TableHead className="w-28">Sell</TableHead>
+                  <TableHead className="text-right w-32">Line Total</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => {
+                  const expiryError = lineErrors.get(line.key)?.expiryDate;
+                  return (
+                    <TableRow key={line.key}>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {index + 1}
+                        {line.purchaseOrderItemId && (
+                          <Badge variant="outline" className="ml-1 px-1 text-[10px]">PO</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <ProductCell
+                          row={index}
+                          products={activeProducts}
+                          value={line.productId}
+                          invalid={showErrors && !isBlankGrnLine(line) && !line.productId}
+                          onSelect={(product) => selectProduct(index, product)}
+                          onKeyDown={(e) => handleCellKeyDown(e, index, 0)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          data-row={index}
+                          data-col={1}
+                          value={line.batchNumber}
+                          onChange={(e) => updateLine(index, { batchNumber: e.target.value })}
+                          onKeyDown={(e) => handleCellKeyDown(e, index, 1)}
+                          className={cellClass(line, 'batchNumber')}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          data-row={index}
+                          data-col={2}
+                          type="date"
+                          value={line.expiryDate}
+                          onChange={(e) => updateLine(index, { expiryDate: e.target.value })}
+                          onKeyDown={(e) => handleCellKeyDown(e, index, 2)}
+                          className={cellClass(line, 'expiryDate')}
+                        />
+                        {line.expiryDate && expiryError && (
+                          <p className="text-xs text-destructive mt-1">{expiryError}</p>
+                        )}
+                        {!expiryError && isShortExpiry(line, today, settings.short_expiry_days) && (
+                          <p className="text-xs text-warning mt-1 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            Short expiry
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          data-row={index}
+                          data-col={3}
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                          onKeyDown={(e) => handleCellKeyDown(e, index, 3)}
+                          className={cellClass(line, 'quantity')}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          data-row={index}
+                          data-col={4}
+                          type="number"
+                          step="0.01"
+                          value={line.costPrice}
+                          onChange={(e) => updateLine(index, { costPrice: e.target.value })}
+                          onKeyDown={(e) => handleCellKeyDown(e, index, 4)}
+                          className={cellClass(line, 'costPrice')}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          data-row={index}
+                          data-col={5}
+                          type="number"
+                          step="0.01"
+                          value={line.sellingPrice}
+                          onChange={(e) => updateLine(index, { sellingPrice: e.target.value })}
+                          onKeyDown={(e) => handleCellKeyDown(e, index, 5)}
+                          className={cellClass(line, 'sellingPrice')}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {grnLineTotal(line) > 0 ? formatPKR(grnLineTotal(line)) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          tabIndex={-1}
+                          onClick={() => removeLine(index)}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="p-4 border-t border-border/60 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <Button type="button" variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, createGrnLine()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Enter moves to the next cell • ↑ ↓ move between rows
+            </p>
+          </div>
+        </div>
+
+        {/* Totals */}
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-6 sm:mb-8 shadow-sm">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="grnDiscount">Discount (Rs.)</Label>
+                <Input id="grnDiscount" type="number" step="0.01" min="0" value={discount} onChange={(e) => setDiscount(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="grnTax">Sales Tax (Rs.)</Label>
+                <Input id="grnTax" type="number" step="0.01" min="0" value={tax} onChange={(e) => setTax(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="grnInvoiceTotal">Invoice Total (Rs.)</Label>
+                <Input
+                  id="grnInvoiceTotal"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={invoiceTotal}
+                  onChange={(e) => setInvoiceTotal(e.target.value)}
+                  placeholder="As printed"
+                />
+              </div>
+            </div>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Lines</span>
+                <span>{filledLines.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatPKR(totals.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Discount</span>
+                <span>-{formatPKR(totals.discount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Sales Tax</span>
+                <span>{formatPKR(totals.tax)}</span>
+              </div>
+              <div className="flex justify-between text-lg font-bold border-t border-border pt-2">
+                <span>Total</span>
+                <span className="text-primary">{formatPKR(totals.total)}</span>
+              </div>
+              {totalMismatch && (
+                <p className="text-warning flex items-center gap-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  Invoice says {formatPKR(printedTotal)}, lines add up to {formatPKR(totals.total)}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={resetForm} className="w-full sm:w-auto">
+              Clear
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving} className="w-full sm:w-auto">
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save GRN
+            </Button>
+          </div>
+        </div>
+
+        {/* History */}
+        <h2 className="text-lg font-semibold mb-3">Recent Goods Received Notes</h2>
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>GRN No.</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Invoice No.</TableHead>
+                  <TableHead>Invoice Date</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : notes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12 text-muted-foreground">
+                      No invoices received yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  notes.map((note) => (
+                    <TableRow key={note.id}>
+                      <TableCell className="font-mono font-medium">{note.grn_number}</TableCell>
+                      <TableCell>{note.suppliers?.name || 'Unknown Supplier'}</TableCell>
+                      <TableCell>{note.invoice_number}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(parseISO(note.invoice_date), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell className="text-right">{note.stock_batches?.[0]?.count ?? 0}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatPKR(Number(note.invoice_total))}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -1,16 +1,38 @@
 import { useState, useEffect, useMemo } from 'react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { CartItem } from '@/components/pos/CartItem';
+import { CameraScanner } from '@/components/pos/CameraScanner';
+import { PrescriptionDialog } from '@/components/pos/PrescriptionDialog';
+import { CustomerPicker } from '@/components/pos/CustomerPicker';
+import { TenderDialog } from '@/components/pos/TenderDialog';
+import { ParkedCartsDialog } from '@/components/pos/ParkedCartsDialog';
+import { AlternativesDialog, type Alternative } from '@/components/pos/AlternativesDialog';
+import { InteractionWarnings } from '@/components/pos/InteractionWarnings';
+import { PrinterSettingsDialog } from '@/components/pos/PrinterSettingsDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { useProducts, type Product as ProductType } from '@/hooks/useProducts';
+import { useProducts, unexpiredStock, type Product as ProductType, type StockBatch } from '@/hooks/useProducts';
 import { useSales } from '@/hooks/useSales';
+import { useShifts } from '@/hooks/useShifts';
+import { useParkedCarts } from '@/hooks/useParkedCarts';
+import { useAlternatives } from '@/hooks/useAlternatives';
+import { useAuth } from '@/hooks/useAuth';
+import { useReceiptPrinter } from '@/hooks/useReceiptPrinter';
+import { useSettings } from '@/hooks/useSettings';
+import type { Customer } from '@/hooks/useCustomers';
 import { useReceipt } from '@/contexts/ReceiptContext';
 import { useDebounce } from '@/hooks/useDebounce';
 import { formatPKR } from '@/lib/currency';
+import { DRUG_SCHEDULE_BADGES, PrescriptionDetails, requiresPrescription, type DrugSchedule } from '@/lib/drugSchedules';
+import { calculateTender, tenderLabel, TENDER_LABELS, type TenderLine, type TenderMethod } from '@/lib/tender';
+import { baseUnitName, sellingUnits, type SellingUnit } from '@/lib/units';
+import { saltKey } from '@/lib/salts';
+import { findInteractions, type InteractionAcknowledgement } from '@/lib/interactions';
+import { parseGs1 } from '@/lib/gs1';
+import { isNumeric } from '@/lib/search';
 import { toast } from 'sonner';
-import { CreditCard, Banknote, Smartphone, ShoppingBag, Trash2, Printer, Package, AlertTriangle, Percent, Search, X } from 'lucide-react';
+import { CreditCard, Banknote, Smartphone, NotebookPen, ShoppingBag, Trash2, Printer, PauseCircle, Inbox, Package, AlertTriangle, Percent, Search, X, Camera, Settings2, Loader2 } from 'lucide-react';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import {
   Dialog,
@@ -19,44 +41,79 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from '@/components/ui/alert-dialog';
 import { format, parseISO, isBefore, addDays, startOfToday } from 'date-fns';
 
+// quantity and unitPrice are per unitName, which holds unitFactor base units.
+// unitName is only set for products sold in packs. batchNumber is the batch
+// printed on a scanned GS1 pack, sold ahead of FEFO.
 interface CartItem {
   productId: string;
   productName: string;
   quantity: number;
   unitPrice: number;
   total: number;
+  drugSchedule: DrugSchedule;
+  unitName?: string;
+  unitFactor: number;
+  batchNumber?: string;
 }
 
+// Discount in rupees, rounded to paisa the way process_sale rounds its limit
+// (round(total * percent / 100, 2)), so a discount at the limit is accepted
+const discountFor = (subtotal: number, type: 'percent' | 'rupees', value: string) => {
+  if (!value) return 0;
+  const amount = parseFloat(value);
+  return type === 'percent' ? Math.round(subtotal * amount) / 100 : Math.round(amount * 100) / 100;
+};
+
+// The same product can be in the cart once per pack size and scanned batch
+const lineKey = (item: Pick<CartItem, 'productId' | 'unitFactor' | 'batchNumber'>) =>
+  `${item.productId}:${item.unitFactor}:${item.batchNumber ?? ''}`;
+
 export default function PointOfSale() {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [discountType, setDiscountType] = useState<'percent' | 'rupees'>('percent');
   const [discountValue, setDiscountValue] = useState<string>('');
   const [showReceiptDialog, setShowReceiptDialog] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
-  const [pendingPaymentMethod, setPendingPaymentMethod] = useState<'cash' | 'card' | 'mobile' | null>(null);
+  const [pendingPaymentMethod, setPendingPaymentMethod] = useState<TenderMethod | null>(null);
+  const [processingSale, setProcessingSale] = useState(false);
+  const [showPrescriptionDialog, setShowPrescriptionDialog] = useState(false);
+  const [prescription, setPrescription] = useState<PrescriptionDetails | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
   const [search, setSearch] = useState('');
   const [dismissedExpiringAlert, setDismissedExpiringAlert] = useState(false);
-  const { products, getProductByBarcode, getProductStock, getAvailableBatches, getExpiringBatches, refetch, fetchProducts } = useProducts();
+  const [showParkDialog, setShowParkDialog] = useState(false);
+  const [parkName, setParkName] = useState('');
+  const [showParkedCarts, setShowParkedCarts] = useState(false);
+  const [parking, setParking] = useState(false);
+  const [unitPickerProduct, setUnitPickerProduct] = useState<ProductType | null>(null);
+  // Batch of the GS1 pack that opened the unit picker
+  const [unitPickerBatch, setUnitPickerBatch] = useState<StockBatch | null>(null);
+  // Product to find generics for, and the cart line they would replace
+  const [alternativesTarget, setAlternativesTarget] = useState<{ product: ProductType; lineKey?: string } | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [interactionAck, setInteractionAck] = useState<InteractionAcknowledgement | null>(null);
+  const [showPrinterSettings, setShowPrinterSettings] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const { products, getProductByBarcode, lookupBarcode, getProductStock, getAvailableBatches, getExpiringBatches, refetch, fetchProducts } = useProducts();
   const { processSale } = useSales();
+  const { currentShift, loading: shiftLoading, error: shiftError } = useShifts();
+  const { parkedCarts, parkCart, recallCart, discardCart } = useParkedCarts();
+  const { alternativesFor, getCatalogueProduct } = useAlternatives();
+  const { can } = useAuth();
   const { receiptData, setReceiptData } = useReceipt();
+  const receiptPrinter = useReceiptPrinter();
+  const { settings } = useSettings();
   
   // Debounce search input to reduce filtering operations
   const debouncedSearch = useDebounce(search, 300);
   
   const today = startOfToday();
-  const expiringBatches = useMemo(() => getExpiringBatches(30), [getExpiringBatches]);
+  const expiringBatches = useMemo(
+    () => getExpiringBatches(settings.expiry_warning_days),
+    [getExpiringBatches, settings.expiry_warning_days]
+  );
 
   // Server-side search to handle large datasets
   useEffect(() => {
@@ -87,8 +144,56 @@ export default function PointOfSale() {
     });
   }, [products, debouncedSearch]);
 
-  const handleScan = (barcode: string) => {
-    const product = getProductByBarcode(barcode);
+  // Checked on every cart change; salts come from the catalogue because the
+  // product list only holds the current search
+  const interactions = useMemo(
+    () =>
+      findInteractions(
+        cart.map((item) => {
+          const product = getCatalogueProduct(item.productId) ?? products.find((p) => p.id === item.productId);
+          return {
+            productId: item.productId,
+            productName: item.productName,
+            saltFormula: product?.salt_formula,
+            strength: product?.strength,
+          };
+        })
+      ),
+    [cart, getCatalogueProduct, products]
+  );
+  const majorInteractions = useMemo(() => interactions.filter((i) => i.severity === 'major'), [interactions]);
+  const acknowledgedKeys = useMemo(
+    () => new Set((interactionAck?.interactions ?? []).map((i) => i.key)),
+    [interactionAck]
+  );
+  const unacknowledgedInteractions = majorInteractions.filter((i) => !acknowledgedKeys.has(i.key));
+
+  // One acknowledgement covers every major interaction currently in the cart
+  const handleAcknowledgeInteractions = (note: string) => {
+    setInteractionAck((prev) => ({
+      note: prev ? `${prev.note}\n${note}` : note,
+      interactions: majorInteractions,
+    }));
+    toast.success('Interactions acknowledged');
+  };
+
+  // Base units of a product already in the cart, optionally leaving one line out
+  const baseUnitsInCart = (productId: string, exceptKey?: string) =>
+    cart
+      .filter((item) => item.productId === productId && lineKey(item) !== exceptKey)
+      .reduce((sum, item) => sum + item.quantity * item.unitFactor, 0);
+
+  const basePriceOf = (productId: string) => {
+    const availableBatches = getAvailableBatches(productId);
+    return availableBatches.length > 0 ? availableBatches[0].selling_price : 0;
+  };
+
+  /**
+   * Sell a scanned or clicked product. GS1 scans are looked up by GTIN, and
+   * the batch printed on the pack is sold ahead of FEFO when it is in stock.
+   */
+  const handleScan = async (barcode: string) => {
+    const product = getProductByBarcode(barcode) ?? (await lookupBarcode(barcode));
     
     if (!product) {
       toast.error('Product not found', {
@@ -97,46 +202,89 @@ export default function PointOfSale() {
       return;
     }
 
+    const scan = parseGs1(barcode);
+    if (scan?.expiryDate && isBefore(parseISO(scan.expiryDate), today)) {
+      toast.error('Expired pack', {
+        description: `${product.name} batch ${scan.batchNumber ?? ''} expired on ${format(parseISO(scan.expiryDate), 'MMM d, yyyy')}. Do not sell it.`,
+      });
+      return;
+    }
+
+    let scannedBatch: StockBatch | undefined;
+    if (scan?.batchNumber) {
+      const batchNumber = scan.batchNumber.trim().toUpperCase();
+      scannedBatch = getAvailableBatches(product.id).find((b) => b.batch_number.trim().toUpperCase() === batchNumber);
+      if (!scannedBatch) {
+        toast.warning('Scanned batch not in stock', {
+          description: `Batch ${scan.batchNumber} of ${product.name} is not in this branch's stock. Selling by FEFO instead.`,
+        });
+      }
+    }
+
     const availableStock = getProductStock(product.id);
     
     if (availableStock <= 0) {
       toast.error('Out of stock', {
         description: `${product.name} is out of stock or expired`,
+        action: saltKey(product)
+          ? { label: 'Alternatives', onClick: () => setAlternativesTarget({ product }) }
+          : undefined,
       });
       return;
     }
 
-    const existingItem = cart.find((item) => item.productId === product.id);
-    const currentQtyInCart = existingItem?.quantity || 0;
-    
-    if (currentQtyInCart >= availableStock) {
+    // Products sold in packs ask which unit the customer wants
+    if (product.units && product.units.length > 0) {
+      setUnitPickerProduct(product);
+      setUnitPickerBatch(scannedBatch ?? null);
+      return;
+    }
+
+    addToCart(product, sellingUnits(product, scannedBatch?.selling_price ?? basePriceOf(product.id))[0], scannedBatch);
+  };
+
+  // Enter in the search box sells a scanned barcode; names just filter
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const term = search.trim();
+    if (e.key !== 'Enter' || !term) return;
+    if (!parseGs1(term) && !isNumeric(term)) return;
+    e.preventDefault();
+    setSearch('');
+    handleScan(term);
+  };
+
+  const addToCart = (product: ProductType, unit: SellingUnit, batch?: StockBatch) => {
+    const availableStock = getProductStock(product.id);
+    const key = lineKey({ productId: product.id, unitFactor: unit.factor, batchNumber: batch?.batch_number });
+    const existingItem = cart.find((item) => lineKey(item) === key);
+
+    if (baseUnitsInCart(product.id) + unit.factor > availableStock) {
       toast.error('Insufficient stock', {
-        description: `Only ${availableStock} units available (non-expired)`,
+        description: `Only ${availableStock} ${baseUnitName(product)} available (non-expired)`,
       });
       return;
     }
     
     // Get rack location if available
-    const rackLocation = (product as ProductType).rack?.name || 'N/A';
+    const rackLocation = product.rack?.name || 'N/A';
     
     // Get available batches once to avoid duplicate calls
     const availableBatchesForPrice = getAvailableBatches(product.id);
-    const unitPrice = availableBatchesForPrice.length > 0 
-      ? availableBatchesForPrice[0].selling_price 
-      : 0; // Fallback to 0 if no batches (shouldn't happen if stock > 0)
+    const unitPrice = unit.price;
+    const hasPacks = !!product.units && product.units.length > 0;
 
     if (existingItem) {
       setCart((prevCart) => prevCart.map((item) =>
-        item.productId === product.id
+        lineKey(item) === key
           ? { ...item, quantity: item.quantity + 1, total: (item.quantity + 1) * item.unitPrice }
           : item
       ));
     } else {
-      // Check if earliest batch is expiring soon (within 30 days)
+      // Check if the batch being sold is expiring soon
       if (availableBatchesForPrice.length > 0) {
-        const earliestBatch = availableBatchesForPrice[0];
+        const earliestBatch = batch ?? availableBatchesForPrice[0];
         const expiryDate = parseISO(earliestBatch.expiry_date);
-        if (isBefore(expiryDate, addDays(today, 30))) {
+        if (isBefore(expiryDate, addDays(today, settings.expiry_warning_days))) {
           toast.warning(`Expiring soon!`, {
             description: `${product.name} batch expires on ${format(expiryDate, 'MMM d, yyyy')}`,
           });
@@ -149,17 +297,22 @@ export default function PointOfSale() {
         quantity: 1,
         unitPrice,
         total: unitPrice,
+        drugSchedule: product.drug_schedule || 'none',
+        unitName: hasPacks ? unit.name : undefined,
+        unitFactor: unit.factor,
+        batchNumber: batch?.batch_number,
       }]);
     }
 
     // Show product details including rack location
     const productDetails = [
       `Product: ${product.name}${product.strength ? ` ${product.strength}` : ''}`,
-      `Barcode: ${barcode}`,
-      `Price: ${formatPKR(unitPrice)}`,
-      `Quantity: ${availableStock}`,
+      `Barcode: ${product.barcode}`,
+      `Price: ${formatPKR(unitPrice)}${hasPacks ? ` per ${unit.name}` : ''}`,
+      `Quantity: ${availableStock}${hasPacks ? ` ${baseUnitName(product)}` : ''}`,
       `Rack: ${rackLocation}`,
-    ].join(' • ');
+      batch ? `Batch: ${batch.batch_number}` : '',
+    ].filter(Boolean).join(' • ');
 
     toast.success('Added to cart', {
       description: productDetails,
@@ -167,9 +320,11 @@ export default function PointOfSale() {
     });
   };
 
-  const handleUpdateQuantity = (productId: string, quantity: number) => {
-    const availableStock = getProductStock(productId);
-    if (quantity > availableStock) {
+  const handleUpdateQuantity = (key: string, quantity: number) => {
+    const line = cart.find((item) => lineKey(item) === key);
+    if (!line) return;
+    const availableStock = getProductStock(line.productId);
+    if (baseUnitsInCart(line.productId, key) + quantity * line.unitFactor > availableStock) {
       toast.error('Insufficient stock', {
         description: `Only ${availableStock} units available (non-expired)`,
       });
@@ -177,23 +332,223 @@ export default function PointOfSale() {
     }
 
     setCart((prevCart) => prevCart.map((item) =>
-      item.productId === productId
+      lineKey(item) === key
         ? { ...item, quantity, total: quantity * item.unitPrice }
         : item
     ));
   };
 
-  const handleRemoveItem = (productId: string) => {
-    setCart((prevCart) => prevCart.filter((item) => item.productId !== productId));
+  // In-stock generics of the target, cheapest first
+  const alternatives = useMemo<Alternative[]>(() => {
+    if (!alternativesTarget) return [];
+    return alternativesFor(alternativesTarget.product)
+      .map((product) => {
+        const availableBatches = getAvailableBatches(product.id);
+        return {
+          product,
+          stock: getProductStock(product.id),
+          price: availableBatches.length > 0 ? availableBatches[0].selling_price : 0,
+          nearestExpiry: availableBatches.length > 0 ? availableBatches[0].expiry_date : null,
+        };
+      })
+      .filter((alternative) => alternative.stock > 0)
+      .sort((a, b) => a.price - b.price || a.product.name.localeCompare(b.product.name));
+  }, [alternativesTarget, alternativesFor, getAvailableBatches, getProductStock]);
+
+  const openLineAlternatives = (item: CartItem) => {
+    const product = getCatalogueProduct(item.productId) ?? products.find((p) => p.id === item.productId);
+    if (!product) {
+      toast.info('No salt formula is recorded for this product');
+      return;
+    }
+    setAlternativesTarget({ product, lineKey: lineKey(item) });
+  };
+
+  /**
+   * Put an alternative in the cart. A cart line is replaced keeping its
+   * quantity (in the same pack size when the alternative has it), as far as
+   * the alternative's stock allows.
+   */
+  const handleSwap = (alternative: ProductType) => {
+    const line = alternativesTarget?.lineKey
+      ? cart.find((item) => lineKey(item) === alternativesTarget.lineKey)
+      : undefined;
+    setAlternativesTarget(null);
+
+    if (!line) {
+      if (alternative.units && alternative.units.length > 0) {
+        setUnitPickerProduct(alternative);
+      } else {
+        addToCart(alternative, sellingUnits(alternative, basePriceOf(alternative.id))[0]);
+      }
+      return;
+    }
+
+    const units = sellingUnits(alternative, basePriceOf(alternative.id));
+    const unit = units.find((u) => u.factor === line.unitFactor) ?? units[0];
+    const wanted = unit.factor === line.unitFactor ? line.quantity : line.quantity * line.unitFactor;
+    const left = getProductStock(alternative.id) - baseUnitsInCart(alternative.id);
+    const quantity = Math.min(wanted, Math.floor(left / unit.factor));
+    if (quantity <= 0) {
+      toast.error('Insufficient stock', {
+        description: `Not enough ${alternative.name} left to swap in`,
+      });
+      return;
+    }
+
+    const key = lineKey({ productId: alternative.id, unitFactor: unit.factor });
+    const hasPacks = !!alternative.units && alternative.units.length > 0;
+    const replacement: CartItem = {
+      productId: alternative.id,
+      productName: `${alternative.name}${alternative.strength ? ` ${alternative.strength}` : ''}`,
+      quantity,
+      unitPrice: unit.price,
+      total: quantity * unit.price,
+      drugSchedule: alternative.drug_schedule || 'none',
+      unitName: hasPacks ? unit.name : undefined,
+      unitFactor: unit.factor,
+    };
+
+    setCart((prevCart) => {
+      const existing = prevCart.find((item) => lineKey(item) === key);
+      if (existing) {
+        return prevCart
+          .filter((item) => lineKey(item) !== lineKey(line))
+          .map((item) =>
+            lineKey(item) === key
+              ? { ...item, quantity: item.quantity + quantity, total: (item.quantity + quantity) * item.unitPrice }
+              : item
+          );
+      }
+      return prevCart.map((item) => (lineKey(item) === lineKey(line) ? replacement : item));
+    });
+
+    toast.success('Swapped', {
+      description: `${line.productName} replaced with ${replacement.productName} × ${quantity}${replacement.unitName ? ` ${replacement.unitName}` : ''}${
+        quantity < wanted ? ` (only ${quantity} available)` : ''
+      }`,
+    });
+  };
+
+  const handleRemoveItem = (key: string) => {
+    setCart((prevCart) => prevCart.filter((item) => lineKey(item) !== key));
   };
 
   const handleClearCart = () => {
     setCart([]);
     setDiscountValue('');
+    setPrescription(null);
+    setCustomer(null);
+    setInteractionAck(null);
     toast.info('Cart cleared');
   };
 
-  const handleFinalizeOrder = async (paymentMethod: 'cash' | 'card' | 'mobile') => {
+  const openParkDialog = () => {
+    setParkName(customer?.name || `Cart ${format(new Date(), 'h:mm a')}`);
+    setShowParkDialog(true);
+  };
+
+  const handleParkCart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setParking(true);
+    const ok = await parkCart({
+      name: parkName,
+      items: cart.map((item) => ({
+        product_id: item.productId,
+        product_name: item.productName,
+        quantity: item.quantity,
+        unit_price: item.unitPrice,
+        drug_schedule: item.drugSchedule,
+        unit_name: item.unitName,
+        unit_factor: item.unitFactor,
+        batch_number: item.batchNumber,
+      })),
+      discount_type: discountType,
+      discount_value: discountValue ? parseFloat(discountValue) : null,
+      customer_id: customer?.id ?? null,
+    });
+    setParking(false);
+
+    if (ok) {
+      setShowParkDialog(false);
+      setCart([]);
+      setDiscountValue('');
+      setPrescription(null);
+      setCustomer(null);
+      setInteractionAck(null);
+    }
+  };
+
+  // Stock may have been sold on another till while the cart was parked
+  const handleRecallCart = async (id: string) => {
+    if (cart.length > 0) {
+      toast.error('Park or clear the current cart before recalling another');
+      return;
+    }
+
+    setParking(true);
+    const parked = await recallCart(id);
+    // Stock may have moved since the cart was parked; fall back to what is
+    // loaded if the refresh fails (e.g. offline)
+    const freshBatches = parked ? await refetch() : null;
+    setParking(false);
+    if (!parked) return;
+    const stockOf = (productId: string) =>
+      freshBatches ? unexpiredStock(freshBatches, productId) : getProductStock(productId);
+
+    const removed: string[] = [];
+    const reduced: string[] = [];
+    const items: CartItem[] = [];
+    // Base units already taken by earlier lines of the same product
+    const taken = new Map<string, number>();
+    for (const item of parked.items) {
+      const factor = item.unit_factor ?? 1;
+      const left = stockOf(item.product_id) - (taken.get(item.product_id) ?? 0);
+      const quantity = Math.min(item.quantity, Math.floor(left / factor));
+      if (quantity <= 0) {
+        removed.push(item.product_name);
+        continue;
+      }
+      if (quantity < item.quantity) {
+        reduced.push(`${item.product_name} (${quantity} of ${item.quantity})`);
+      }
+      taken.set(item.product_id, (taken.get(item.product_id) ?? 0) + quantity * factor);
+      items.push({
+        productId: item.product_id,
+        productName: item.product_name,
+        quantity,
+        unitPrice: item.unit_price,
+        total: quantity * item.unit_price,
+        drugSchedule: item.drug_schedule || 'none',
+        unitName: item.unit_name,
+        unitFactor: factor,
+        batchNumber: item.batch_number,
+      });
+    }
+
+    setCart(items);
+    setDiscountType(parked.discount_type);
+    setDiscountValue(parked.discount_value != null ? parked.discount_value.toString() : '');
+    setCustomer(parked.customer ?? null);
+    setPrescription(null);
+    setInteractionAck(null);
+    setShowParkedCarts(false);
+
+    if (removed.length > 0 || reduced.length > 0) {
+      toast.warning('Stock changed since the cart was parked', {
+        description: [
+          removed.length > 0 ? `Out of stock: ${removed.join(', ')}` : '',
+          reduced.length > 0 ? `Reduced: ${reduced.join(', ')}` : '',
+        ]
+          .filter(Boolean)
+          .join('. '),
+      });
+    } else {
+      toast.success(`Recalled "${parked.name}"`);
+    }
+  };
+
+  const handleFinalizeOrder = async (payments: TenderLine[]) => {
     if (cart.length === 0) {
       toast.error('Cart is empty');
       return;
@@ -201,11 +556,7 @@ export default function PointOfSale() {
 
     // Calculate totals with discount
     const subtotal = Array.isArray(cart) ? cart.reduce((sum, item) => sum + (item?.total || 0), 0) : 0;
-    const discountAmount = discountValue 
-      ? (discountType === 'percent' 
-          ? (subtotal * parseFloat(discountValue) / 100)
-          : parseFloat(discountValue))
-      : 0;
+    const discountAmount = discountFor(subtotal, discountType, discountValue);
     const finalTotal = Math.max(0, subtotal - discountAmount);
 
     // Convert cart items to the format expected by processSale
@@ -219,28 +570,28 @@ export default function PointOfSale() {
         unit_price: item.unitPrice,
         total: item.total,
         available_stock: getProductStock(item.productId),
+        unit_name: item.unitName,
+        unit_factor: item.unitFactor,
+        batch_number: item.batchNumber,
       };
     });
 
-    // Helper function to get available batches in the format expected by processSale
-    const getAvailableBatchesForSale = (productId: string) => {
-      const availableBatches = getAvailableBatches(productId);
-      return availableBatches.map(batch => ({
-        id: batch.id,
-        batch_number: batch.batch_number,
-        quantity: batch.quantity,
-        expiry_date: batch.expiry_date,
-      }));
-    };
-
-    const result = await processSale(cartItems, paymentMethod, getAvailableBatchesForSale);
+    setProcessingSale(true);
+    const result = await processSale(cartItems, payments, discountAmount, {
+      prescription: scheduledItems.length > 0 && prescription ? prescription : undefined,
+      customerId: customer?.id ?? null,
+      interactions:
+        interactionAck && majorInteractions.length > 0
+          ? { note: interactionAck.note, interactions: majorInteractions }
+          : undefined,
+    });
+    setProcessingSale(false);
     
     if (!result.success) {
       toast.error('Sale failed', {
         description: result.error,
       });
-      setShowConfirmation(false);
-      setPendingPaymentMethod(null);
+      // Left open so the payments can be changed, e.g. less on credit
       return;
     }
 
@@ -254,7 +605,8 @@ export default function PointOfSale() {
       total: subtotal,
       discount: discountAmount,
       finalTotal,
-      paymentMethod,
+      paymentMethod: result.sale?.payment_method || (payments.length === 1 ? payments[0].method : 'split'),
+      payments,
       saleId: receiptNumber,
     });
     // Don't set showReceipt - receipt container stays hidden off-screen
@@ -264,22 +616,106 @@ export default function PointOfSale() {
     setPendingPaymentMethod(null);
     setCart([]);
     setDiscountValue('');
+    setPrescription(null);
+    setCustomer(null);
+    setInteractionAck(null);
+
+    const { change } = calculateTender(payments, finalTotal);
+    const creditAmount = payments.filter((p) => p.method === 'credit').reduce((sum, p) => sum + p.amount, 0);
+    const paymentNote = [
+      `Paid by ${payments.map((p) => TENDER_LABELS[p.method]).join(' + ')}.`,
+      change > 0 ? `Change due ${formatPKR(change)}.` : '',
+      creditAmount > 0 && customer ? `${formatPKR(creditAmount)} added to ${customer.name}'s account.` : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
     
-    toast.success('Sale completed!', {
-      description: `Payment received via ${paymentMethod}. Stock deducted using FEFO.`,
-    });
+    if (result.queued) {
+      toast.warning('Sale saved offline', {
+        description: `${paymentNote} The sale will sync and deduct stock when the connection returns.`,
+      });
+    } else {
+      toast.success('Sale completed!', {
+        description: `${paymentNote} Stock deducted using FEFO.`,
+      });
+    }
   };
 
-  const handleCheckout = (paymentMethod: 'cash' | 'card' | 'mobile') => {
+  const handleCheckout = (paymentMethod: TenderMethod) => {
     if (cart.length === 0) {
       toast.error('Cart is empty');
       return;
     }
+    // Offline sales are filed under the shift open when they were made, so
+    // only block when we know for sure there is none
+    if (navigator.onLine && !shiftLoading && !shiftError && !currentShift) {
+      toast.error('No open shift', {
+        description: 'Open a shift on the Cash Drawer page before selling.',
+      });
+      return;
+    }
+    if (paymentMethod === 'credit' && !customer) {
+      toast.error('Select a customer to sell on credit');
+      return;
+    }
+    if (discountAmount > maxDiscountAmount + 0.005) {
+      toast.error(`Discount is more than the ${maxDiscountPercent}% allowed`, {
+        description: 'Ask the owner to apply a larger discount.',
+      });
+      return;
+    }
+    if (unacknowledgedInteractions.length > 0) {
+      toast.error('Major drug interaction in the cart', {
+        description: can('interactions.acknowledge')
+          ? 'Acknowledge it in the cart before checkout.'
+          : 'A pharmacist must acknowledge it before checkout. Park the cart for a pharmacist to recall.',
+      });
+      return;
+    }
+    if (interactionAck && majorInteractions.length > 0 && !navigator.onLine) {
+      toast.error('Sales with acknowledged interactions can only be made while online');
+      return;
+    }
     setPendingPaymentMethod(paymentMethod);
+
+    if (scheduledItems.length > 0) {
+      if (!navigator.onLine) {
+        toast.error('Scheduled drugs can only be sold while online', {
+          description: scheduledItems.join(', '),
+        });
+        setPendingPaymentMethod(null);
+        return;
+      }
+      setShowPrescriptionDialog(true);
+      return;
+    }
+
+    setShowConfirmation(true);
+  };
+
+  const handlePrescriptionSubmit = (details: PrescriptionDetails) => {
+    setPrescription(details);
+    setShowPrescriptionDialog(false);
     setShowConfirmation(true);
   };
 
-  const handlePrint = () => {
+  const handlePrint = async () => {
+    // Thermal printer first; the browser's print dialog is the fallback
+    if (receiptData && receiptPrinter.enabled) {
+      setPrinting(true);
+      const printed = await receiptPrinter.print(receiptData);
+      setPrinting(false);
+      if (printed) {
+        toast.success('Receipt printed');
+        setShowReceiptDialog(false);
+        setReceiptData(null);
+        return;
+      }
+      toast.warning('Receipt printer not reachable', {
+        description: 'Printing through the browser instead.',
+      });
+    }
+
     // Close the modal first to prevent it from printing
     setShowReceiptDialog(false);
     // Small delay to ensure DOM is updated and modal is closed
@@ -291,13 +727,20 @@ export default function PointOfSale() {
   };
 
   const subtotal = Array.isArray(cart) ? cart.reduce((sum, item) => sum + (item?.total || 0), 0) : 0;
-  const discountAmount = discountValue 
-    ? (discountType === 'percent' 
-        ? (subtotal * parseFloat(discountValue) / 100)
-        : parseFloat(discountValue))
-    : 0;
+  const discountAmount = discountFor(subtotal, discountType, discountValue);
   const finalTotal = Math.max(0, subtotal - discountAmount);
+  // Owners may give any discount; the server enforces the same limit
+  const maxDiscountPercent = can('settings.manage') ? 100 : settings.max_discount_percent;
+  const maxDiscountAmount = Math.round(subtotal * maxDiscountPercent) / 100;
+  // A wallet default takes the Mobile button; the default is offered first
+  const walletMethod: TenderMethod = settings.default_payment_method === 'easypaisa' ? 'easypaisa' : 'jazzcash';
+  const checkoutButtons = [
+    { method: 'cash' as TenderMethod, label: 'Cash', icon: Banknote },
+    { method: 'card' as TenderMethod, label: 'Card', icon: CreditCard },
+    { method: walletMethod, label: 'Mobile', icon: Smartphone },
+  ].sort((a, b) => Number(b.method === settings.default_payment_method) - Number(a.method === settings.default_payment_method));
   const itemCount = Array.isArray(cart) ? cart.reduce((sum, item) => sum + (item?.quantity || 0), 0) : 0;
+  const scheduledItems = cart.filter((item) => requiresPrescription(item.drugSchedule)).map((item) => item.productName);
 
   return (
     <MainLayout>
@@ -315,7 +758,7 @@ export default function PointOfSale() {
               <div className="mb-4 p-3 bg-warning/10 border border-warning/30 rounded-xl flex items-start sm:items-center gap-3 relative flex-shrink-0">
                 <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5 sm:mt-0" />
                 <p className="text-xs sm:text-sm text-warning flex-1">
-                  <strong>{expiringBatches.length} batch(es)</strong> expiring within 30 days. These will be sold first (FEFO).
+                  <strong>{expiringBatches.length} batch(es)</strong> expiring within {settings.expiry_warning_days} days. These will be sold first (FEFO).
                 </p>
                 <button
                   onClick={() => setDismissedExpiringAlert(true)}
@@ -328,15 +771,28 @@ export default function PointOfSale() {
             )}
 
             <div className="mb-4 sm:mb-6 space-y-3 sm:space-y-4 flex-shrink-0">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                <Input
-                  placeholder="Search products by name..."
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  className="pl-10 h-12 text-lg"
-                  autoFocus
-                />
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                  <Input
+                    placeholder="Search products by name or scan a barcode..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    onKeyDown={handleSearchKeyDown}
+                    className="pl-10 h-12 text-lg"
+                    autoFocus
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-12 w-12 flex-shrink-0"
+                  onClick={() => setShowCamera(true)}
+                  title="Scan with camera"
+                  aria-label="Scan with camera"
+                >
+                  <Camera className="w-5 h-5" />
+                </Button>
               </div>
             </div>
 
@@ -348,7 +804,8 @@ export default function PointOfSale() {
                   const stock = getProductStock(product.id);
                   const availableBatches = getAvailableBatches(product.id);
                   const isLowStock = stock <= (product.min_stock || 0);
-                  const hasExpiringSoon = Array.isArray(availableBatches) && availableBatches.some(b => b && b.expiry_date && isBefore(parseISO(b.expiry_date), addDays(today, 30)));
+                  const hasSalt = saltKey(product) !== null;
+                  const hasExpiringSoon = Array.isArray(availableBatches) && availableBatches.some(b => b && b.expiry_date && isBefore(parseISO(b.expiry_date), addDays(today, settings.expiry_warning_days)));
                   const price = availableBatches.length > 0 
                     ? availableBatches[0].selling_price 
                     : 0;
@@ -356,8 +813,14 @@ export default function PointOfSale() {
                   return (
                     <button
                       key={product.id}
-                      onClick={() => product.barcode && handleScan(product.barcode)}
-                      disabled={stock <= 0}
+                      onClick={() => {
+                        if (stock <= 0) {
+                          setAlternativesTarget({ product });
+                        } else if (product.barcode) {
+                          handleScan(product.barcode);
+                        }
+                      }}
+                      disabled={stock <= 0 && !hasSalt}
                       className="product-card text-left disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:transform-none relative"
                     >
                       {hasExpiringSoon && stock > 0 && (
@@ -383,6 +846,11 @@ export default function PointOfSale() {
                         </span>
                       </div>
                       <p className="font-semibold text-foreground truncate mb-0.5">{product.name}</p>
+                      {requiresPrescription(product.drug_schedule) && product.drug_schedule && (
+                        <span className="inline-block text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded bg-destructive/10 text-destructive mb-1">
+                          {DRUG_SCHEDULE_BADGES[product.drug_schedule]}
+                        </span>
+                      )}
                       {product.strength && (
                         <p className="text-xs text-primary font-medium mb-1">{product.strength}</p>
                       )}
@@ -392,7 +860,15 @@ export default function PointOfSale() {
                           Rack: {product.rack.name}
                         </p>
                       )}
-                      <p className="price-tag">{formatPKR(price)}</p>
+                      {stock <= 0 && hasSalt && (
+                        <p className="text-xs font-medium text-primary mb-1">See alternatives</p>
+                      )}
+                      <p className="price-tag">
+                        {formatPKR(price)}
+                        {product.units && product.units.length > 0 && (
+                          <span className="text-xs font-normal text-muted-foreground"> / {baseUnitName(product)}</span>
+                        )}
+                      </p>
                     </button>
                   );
                 })}
@@ -413,17 +889,44 @@ export default function PointOfSale() {
                     <p className="text-sm text-muted-foreground">{itemCount} items</p>
                   </div>
                 </div>
-                {cart.length > 0 && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleClearCart}
-                    className="text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
-                  >
-                    <Trash2 className="w-4 h-4 sm:mr-1" />
-                    <span className="hidden sm:inline">Clear</span>
-                  </Button>
-                )}
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {parkedCarts.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowParkedCarts(true)}
+                      className="flex-shrink-0"
+                      title="Parked carts"
+                    >
+                      <Inbox className="w-4 h-4 sm:mr-1" />
+                      <span className="hidden sm:inline">Parked</span>
+                      <span className="ml-1 text-xs font-semibold">({parkedCarts.length})</span>
+                    </Button>
+                  )}
+                  {cart.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={openParkDialog}
+                      className="flex-shrink-0"
+                      title="Park this cart"
+                    >
+                      <PauseCircle className="w-4 h-4 sm:mr-1" />
+                      <span className="hidden sm:inline">Park</span>
+                    </Button>
+                  )}
+                  {cart.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleClearCart}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
+                    >
+                      <Trash2 className="w-4 h-4 sm:mr-1" />
+                      <span className="hidden sm:inline">Clear</span>
+                    </Button>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -441,17 +944,27 @@ export default function PointOfSale() {
                   if (!item || !item.productId) return null;
                   return (
                     <CartItem
-                      key={item.productId}
+                      key={lineKey(item)}
                       item={item}
-                      onUpdateQuantity={(qty) => handleUpdateQuantity(item.productId, qty)}
-                      onRemove={() => handleRemoveItem(item.productId)}
+                      onUpdateQuantity={(qty) => handleUpdateQuantity(lineKey(item), qty)}
+                      onRemove={() => handleRemoveItem(lineKey(item))}
+                      onShowAlternatives={() => openLineAlternatives(item)}
                     />
                   );
                 })
               )}
+              {cart.length > 0 && (
+                <InteractionWarnings
+                  interactions={interactions}
+                  acknowledgedKeys={acknowledgedKeys}
+                  canAcknowledge={can('interactions.acknowledge')}
+                  onAcknowledge={handleAcknowledgeInteractions}
+                />
+              )}
             </div>
 
             <div className="p-4 sm:p-5 border-t border-border space-y-4 bg-muted/30 flex-shrink-0">
+              <CustomerPicker customer={customer} onSelect={setCustomer} />
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Subtotal</span>
@@ -493,7 +1006,7 @@ export default function PointOfSale() {
                         id="discount"
                         type="number"
                         min="0"
-                        max={discountType === 'percent' ? '100' : subtotal.toString()}
+                        max={discountType === 'percent' ? maxDiscountPercent.toString() : maxDiscountAmount.toString()}
                         step={discountType === 'percent' ? '0.1' : '1'}
                         value={discountValue}
                         onChange={(e) => {
@@ -506,10 +1019,12 @@ export default function PointOfSale() {
                           if (isNaN(numVal) || numVal < 0) {
                             return;
                           }
-                          if (discountType === 'percent' && numVal > 100) {
+                          if (discountType === 'percent' && numVal > maxDiscountPercent) {
+                            toast.error(`Discounts are limited to ${maxDiscountPercent}%`);
                             return;
                           }
-                          if (discountType === 'rupees' && numVal > subtotal) {
+                          if (discountType === 'rupees' && numVal > maxDiscountAmount) {
+                            toast.error(`Discounts are limited to ${formatPKR(maxDiscountAmount)} on this sale`);
                             return;
                           }
                           setDiscountValue(val);
@@ -532,30 +1047,27 @@ export default function PointOfSale() {
                 </div>
               </div>
 
-              <div className="grid grid-cols-3 gap-2 sm:gap-3">
-                <Button
-                  onClick={() => handleCheckout('cash')}
-                  disabled={cart.length === 0}
-                  className="btn-checkout bg-primary hover:bg-primary/90 h-12 sm:h-auto py-3 sm:py-4"
-                >
-                  <Banknote className="w-4 h-4 sm:w-5 sm:h-5" />
-                  <span className="text-xs">Cash</span>
-                </Button>
-                <Button
-                  onClick={() => handleCheckout('card')}
-                  disabled={cart.length === 0}
-                  className="btn-checkout bg-primary hover:bg-primary/90 h-12 sm:h-auto py-3 sm:py-4"
-                >
-                  <CreditCard className="w-4 h-4 sm:w-5 sm:h-5" />
-                  <span className="text-xs">Card</span>
-                </Button>
+              <div className="grid grid-cols-4 gap-2">
+                {checkoutButtons.map(({ method, label, icon: Icon }) => (
+                  <Button
+                    key={method}
+                    onClick={() => handleCheckout(method)}
+                    disabled={cart.length === 0}
+                    title={method === walletMethod ? TENDER_LABELS[method] : undefined}
+                    className="btn-checkout bg-primary hover:bg-primary/90 h-12 sm:h-auto py-3 sm:py-4"
+                  >
+                    <Icon className="w-4 h-4 sm:w-5 sm:h-5" />
+                    <span className="text-xs">{label}</span>
+                  </Button>
+                ))}
                 <Button
-                  onClick={() => handleCheckout('mobile')}
-                  disabled={cart.length === 0}
+                  onClick={() => handleCheckout('credit')}
+                  disabled={cart.length === 0 || !customer}
+                  title={customer ? undefined : 'Select a customer to sell on credit'}
                   className="btn-checkout bg-primary hover:bg-primary/90 h-12 sm:h-auto py-3 sm:py-4"
                 >
-                  <Smartphone className="w-4 h-4 sm:w-5 sm:h-5" />
-                  <span className="text-xs">Mobile</span>
+                  <NotebookPen className="w-4 h-4 sm:w-5 sm:h-5" />
+                  <span className="text-xs">Credit</span>
                 </Button>
               </div>
             </div>
@@ -563,24 +1075,170 @@ export default function PointOfSale() {
         </div>
       </div>
 
-      {/* Order Confirmation Dialog */}
-      <AlertDialog open={showConfirmation} onOpenChange={setShowConfirmation}>
-        <AlertDialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-          <AlertDialogHeader>
-            <AlertDialogTitle>Confirm Order</AlertDialogTitle>
-            <AlertDialogDescription>
-              Review your order before finalizing. This action will complete the sale and deduct stock.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <div className="max-h-96 overflow-auto space-y-4 py-4">
+      {/* Prescription capture for scheduled drugs */}
+      <PrescriptionDialog
+        open={showPrescriptionDialog}
+        onOpenChange={(open) => {
+          setShowPrescriptionDialog(open);
+          if (!open && !showConfirmation) {
+            setPendingPaymentMethod(null);
+          }
+        }}
+        scheduledItems={scheduledItems}
+        initialValue={prescription}
+        onSubmit={handlePrescriptionSubmit}
+      />
+
+      {/* Pick the unit for products sold in packs */}
+      <Dialog
+        open={!!unitPickerProduct}
+        onOpenChange={(open) => {
+          if (!open) {
+            setUnitPickerProduct(null);
+            setUnitPickerBatch(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          {unitPickerProduct && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {unitPickerProduct.name}
+                  {unitPickerProduct.strength ? ` ${unitPickerProduct.strength}` : ''}
+                </DialogTitle>
+                <DialogDescription>
+                  {getProductStock(unitPickerProduct.id) - baseUnitsInCart(unitPickerProduct.id)}{' '}
+                  {baseUnitName(unitPickerProduct)} available. Choose what the customer is buying.
+                  {unitPickerBatch && ` Batch ${unitPickerBatch.batch_number} is sold first.`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-2">
+                {sellingUnits(unitPickerProduct, unitPickerBatch?.selling_price ?? basePriceOf(unitPickerProduct.id)).map((unit, index) => {
+                  const left = getProductStock(unitPickerProduct.id) - baseUnitsInCart(unitPickerProduct.id);
+                  return (
+                    <Button
+                      key={unit.factor}
+                      variant={index === 0 ? 'default' : 'outline'}
+                      disabled={unit.factor > left}
+                      autoFocus={index === 0}
+                      onClick={() => {
+                        addToCart(unitPickerProduct, unit, unitPickerBatch ?? undefined);
+                        setUnitPickerProduct(null);
+                        setUnitPickerBatch(null);
+                      }}
+                      className="h-auto py-3 justify-between"
+                    >
+                      <span className="text-left">
+                        <span className="font-semibold">{unit.name}</span>
+                        {unit.factor > 1 && (
+                          <span className="block text-xs opacity-80">
+                            {unit.factor} {baseUnitName(unitPickerProduct)} • {Math.floor(left / unit.factor)} available
+                          </span>
+                        )}
+                      </span>
+                      <span className="font-semibold">{formatPKR(unit.price)}</span>
+                    </Button>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Same-salt generics for an out-of-stock or expensive product */}
+      <AlternativesDialog
+        open={!!alternativesTarget}
+        onOpenChange={(open) => !open && setAlternativesTarget(null)}
+        product={alternativesTarget?.product ?? null}
+        currentPrice={alternativesTarget ? basePriceOf(alternativesTarget.product.id) || null : null}
+        alternatives={alternatives}
+        swapLabel={alternativesTarget?.lineKey ? 'Swap' : 'Add'}
+        onSwap={handleSwap}
+      />
+
+      {/* Park the current cart */}
+      <Dialog open={showParkDialog} onOpenChange={setShowParkDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <PauseCircle className="w-5 h-5" />
+              Park Cart
+            </DialogTitle>
+            <DialogDescription>
+              Name the cart so it can be found again from any till. Prescription details are not kept.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleParkCart} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="parkName">Name</Label>
+              <Input
+                id="parkName"
+                value={parkName}
+                onChange={(e) => setParkName(e.target.value)}
+                placeholder="e.g. Man in blue shirt"
+                required
+                autoFocus
+              />
+            </div>
+            <div className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setShowParkDialog(false)} className="w-full sm:w-auto">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={parking} className="w-full sm:w-auto">
+                Park Cart
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <CameraScanner open={showCamera} onOpenChange={setShowCamera} onScan={handleScan} />
+
+      <ParkedCartsDialog
+        open={showParkedCarts}
+        onOpenChange={setShowParkedCarts}
+        parkedCarts={parkedCarts}
+        busy={parking}
+        onRecall={handleRecallCart}
+        onDiscard={discardCart}
+      />
+
+      {/* Order review and payment */}
+      <TenderDialog
+        open={showConfirmation}
+        onOpenChange={(open) => {
+          if (processingSale) return;
+          setShowConfirmation(open);
+          if (!open) {
+            setPendingPaymentMethod(null);
+          }
+        }}
+        due={finalTotal}
+        initialMethod={pendingPaymentMethod ?? settings.default_payment_method}
+        allowCredit={!!customer}
+        processing={processingSale}
+        onConfirm={handleFinalizeOrder}
+        summary={
+          <div className="max-h-72 overflow-auto space-y-4">
             <div className="space-y-2">
               <h4 className="font-semibold text-sm">Items:</h4>
               <div className="space-y-2">
                 {cart.map((item) => (
-                  <div key={item.productId} className="flex justify-between items-start text-sm p-2 bg-muted/50 rounded">
+                  <div key={lineKey(item)} className="flex justify-between items-start text-sm p-2 bg-muted/50 rounded">
                     <div className="flex-1 min-w-0">
-                      <p className="font-medium break-words">{item.productName}</p>
-                      <p className="text-muted-foreground">Qty: {item.quantity} × {formatPKR(item.unitPrice)}</p>
+                      <p className="font-medium break-words">
+                        {item.productName}
+                        {requiresPrescription(item.drugSchedule) && (
+                          <span className="ml-2 text-[10px] font-semibold uppercase text-destructive">
+                            {DRUG_SCHEDULE_BADGES[item.drugSchedule]}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-muted-foreground">
+                        Qty: {item.quantity}{item.unitName ? ` ${item.unitName}` : ''} × {formatPKR(item.unitPrice)}
+                      </p>
                     </div>
                     <p className="font-semibold ml-4">{formatPKR(item.total)}</p>
                   </div>
@@ -604,26 +1262,21 @@ export default function PointOfSale() {
                 <span className="font-semibold">Final Total:</span>
                 <span className="text-lg font-bold text-primary">{formatPKR(finalTotal)}</span>
               </div>
-              <div className="pt-2">
-                <p className="text-sm text-muted-foreground">
-                  Payment Method: <span className="capitalize font-medium">{pendingPaymentMethod}</span>
+              {customer && (
+                <p className="pt-2 text-sm text-muted-foreground">
+                  Customer: <span className="font-medium text-foreground">{customer.name}</span> ({customer.phone})
                 </p>
-              </div>
+              )}
+              {scheduledItems.length > 0 && prescription && (
+                <div className="pt-2 text-sm text-muted-foreground">
+                  Prescription: <span className="font-medium text-foreground">{prescription.doctorName}</span> (PMDC{' '}
+                  {prescription.doctorPmdcNumber}) for {prescription.patientName}, CNIC {prescription.patientCnic}
+                </div>
+              )}
             </div>
           </div>
-          <AlertDialogFooter>
-            <AlertDialogCancel onClick={() => {
-              setShowConfirmation(false);
-              setPendingPaymentMethod(null);
-            }}>
-              Add More
-            </AlertDialogCancel>
-            <AlertDialogAction onClick={() => pendingPaymentMethod && handleFinalizeOrder(pendingPaymentMethod)}>
-              Confirm Order
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+        }
+      />
 
       {/* Receipt Preview Dialog */}
       <Dialog open={showReceiptDialog} onOpenChange={(open) => {
@@ -662,18 +1315,50 @@ export default function PointOfSale() {
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Payment:</span>
-                  <span className="text-sm font-semibold capitalize">{receiptData.paymentMethod}</span>
+                  <span className="text-sm font-semibold">{tenderLabel(receiptData.paymentMethod)}</span>
                 </div>
+                {receiptData.payments && receiptData.payments.length > 1 && receiptData.payments.map((payment, index) => (
+                  <div key={index} className="flex justify-between items-center text-sm text-muted-foreground">
+                    <span>{TENDER_LABELS[payment.method]}</span>
+                    <span>{formatPKR(payment.amount)}</span>
+                  </div>
+                ))}
+                {receiptData.payments && calculateTender(receiptData.payments, receiptData.finalTotal).change > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Change:</span>
+                    <span className="text-lg font-bold text-primary">
+                      {formatPKR(calculateTender(receiptData.payments, receiptData.finalTotal).change)}
+                    </span>
+                  </div>
+                )}
               </div>
             )}
             
-            <Button onClick={handlePrint} className="w-full no-print">
-              <Printer className="w-4 h-4 mr-2" />
-              Print Receipt
-            </Button>
+            <div className="flex w-full gap-2">
+              <Button onClick={handlePrint} disabled={printing} className="flex-1 no-print">
+                {printing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Printer className="w-4 h-4 mr-2" />}
+                Print Receipt
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setShowPrinterSettings(true)}
+                className="no-print"
+                title="Printer settings"
+              >
+                <Settings2 className="w-4 h-4" />
+              </Button>
+            </div>
           </div>
         </DialogContent>
       </Dialog>
+
+      <PrinterSettingsDialog
+        open={showPrinterSettings}
+        onOpenChange={setShowPrinterSettings}
+        branch={receiptPrinter.branch}
+        store={receiptPrinter.store}
+      />
     </MainLayout>
   );
 }
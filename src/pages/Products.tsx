@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useDebounce } from '@/hooks/useDebounce';
 import { formatPKR } from '@/lib/currency';
+import { formatPackBreakdown } from '@/lib/units';
 import {
   Table,
   TableBody,
@@ -33,7 +34,9 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { useProducts, Product } from '@/hooks/useProducts';
+import { useAuth } from '@/hooks/useAuth';
 import { useRacks } from '@/hooks/useRacks';
+import { useSettings } from '@/hooks/useSettings';
 import { Plus, Search, Pencil, Trash2, Package, Layers, X } from 'lucide-react';
 import { format, parseISO, isBefore, addDays, startOfToday } from 'date-fns';
 import { toast } from 'sonner';
@@ -41,6 +44,8 @@ import { toast } from 'sonner';
 export default function Products() {
   const { products, batches, loading, addProduct, updateProduct, disableProduct, enableProduct, getProductStock, getProductBatches, fetchProducts } = useProducts();
   const { racks } = useRacks();
+  const { canAddProducts } = useAuth();
+  const { settings } = useSettings();
   const [search, setSearch] = useState('');
   const [selectedRackId, setSelectedRackId] = useState<string>('');
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -136,15 +141,29 @@ export default function Products() {
     }
   };
 
-  const getStockBadge = (productId: string, minStock: number) => {
-    const stock = getProductStock(productId);
+  // Stock is in base units; products sold in packs also show the breakdown
+  const getStockBadge = (product: Product) => {
+    const stock = getProductStock(product.id);
     if (stock <= 0) {
       return <Badge variant="destructive">Out of Stock</Badge>;
     }
-    if (stock <= (minStock || 0)) {
-      return <Badge className="bg-warning text-warning-foreground">Low: {stock}</Badge>;
+    const breakdown = product.units && product.units.length > 0 && (
+      <p className="text-xs text-muted-foreground mt-1">{formatPackBreakdown(stock, product)}</p>
+    );
+    if (stock <= (product.min_stock || 0)) {
+      return (
+        <>
+          <Badge className="bg-warning text-warning-foreground">Low: {stock}</Badge>
+          {breakdown}
+        </>
+      );
     }
-    return <Badge variant="secondary">{stock}</Badge>;
+    return (
+      <>
+        <Badge variant="secondary">{stock}</Badge>
+        {breakdown}
+      </>
+    );
   };
 
   const viewingProduct = products.find(p => p.id === viewBatchesId);
@@ -158,10 +177,12 @@ export default function Products() {
             <h1 className="page-title text-2xl sm:text-3xl">Products</h1>
             <p className="page-subtitle text-sm sm:text-base">Manage your medicine catalog • Stock tracked via batches</p>
           </div>
-          <Button onClick={() => setIsFormOpen(true)} className="shadow-sm w-full sm:w-auto">
-            <Plus className="w-4 h-4 mr-2" />
-            Add Product
-          </Button>
+          {canAddProducts && (
+            <Button onClick={() => setIsFormOpen(true)} className="shadow-sm w-full sm:w-auto">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Product
+            </Button>
+          )}
         </div>
 
         <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
@@ -248,35 +269,37 @@ export default function Products() {
                         </div>
                       </div>
                     </div>
-                    <div className="flex gap-1 flex-shrink-0">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() => handleEdit(product)}
-                      >
-                        <Pencil className="w-4 h-4" />
-                      </Button>
-                      {product.is_active === false ? (
+                    {canAddProducts && (
+                      <div className="flex gap-1 flex-shrink-0">
                         <Button
                           variant="ghost"
                           size="icon"
-                          className="h-8 w-8 text-green-600 hover:text-green-600 hover:bg-green-600/10"
-                          onClick={() => setEnableId(product.id)}
+                          className="h-8 w-8"
+                          onClick={() => handleEdit(product)}
                         >
-                          <Package className="w-4 h-4" />
+                          <Pencil className="w-4 h-4" />
                         </Button>
-                      ) : (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
-                          onClick={() => setDeleteId(product.id)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      )}
-                    </div>
+                        {product.is_active === false ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-green-600 hover:text-green-600 hover:bg-green-600/10"
+                            onClick={() => setEnableId(product.id)}
+                          >
+                            <Package className="w-4 h-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => setDeleteId(product.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="grid grid-cols-2 gap-2 text-sm">
                     <div>
@@ -310,7 +333,7 @@ export default function Products() {
                     </div>
                     <div>
                       <span className="text-muted-foreground">Stock:</span>
-                      <div className="mt-0.5">{getStockBadge(product.id, product.min_stock || 0)}</div>
+                      <div className="mt-0.5">{getStockBadge(product)}</div>
                     </div>
                   </div>
                   <div className="flex items-center justify-between pt-2 border-t border-border">
@@ -398,7 +421,7 @@ export default function Products() {
                           <span className="text-muted-foreground text-sm">-</span>
                         )}
                       </TableCell>
-                      <TableCell className="text-center">{getStockBadge(product.id, product.min_stock || 0)}</TableCell>
+                      <TableCell className="text-center">{getStockBadge(product)}</TableCell>
                       <TableCell className="text-center">
                         <Button
                           variant="ghost"
@@ -411,35 +434,37 @@ export default function Products() {
                         </Button>
                       </TableCell>
                       <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEdit(product)}
-                            className="hover:bg-primary/10 hover:text-primary"
-                          >
-                            <Pencil className="w-4 h-4" />
-                          </Button>
-                          {product.is_active === false ? (
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="text-green-600 hover:text-green-600 hover:bg-green-600/10"
-                              onClick={() => setEnableId(product.id)}
-                            >
-                              <Package className="w-4 h-4" />
-                            </Button>
-                          ) : (
+                        {canAddProducts && (
+                          <div className="flex justify-end gap-2">
                             <Button
                               variant="ghost"
                               size="icon"
-                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                              onClick={() => setDeleteId(product.id)}
+                              onClick={() => handleEdit(product)}
+                              className="hover:bg-primary/10 hover:text-primary"
                             >
-                              <Trash2 className="w-4 h-4" />
+                              <Pencil className="w-4 h-4" />
                             </Button>
-                          )}
-                        </div>
+                            {product.is_active === false ? (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-green-600 hover:text-green-600 hover:bg-green-600/10"
+                                onClick={() => setEnableId(product.id)}
+                              >
+                                <Package className="w-4 h-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                onClick={() => setDeleteId(product.id)}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   );
@@ -512,12 +537,19 @@ export default function Products() {
                     if (!batch || !batch.expiry_date) return null;
                     const expiryDate = parseISO(batch.expiry_date);
                     const isExpired = isBefore(expiryDate, today);
-                    const isExpiringSoon = !isExpired && isBefore(expiryDate, addDays(today, 30));
+                    const isExpiringSoon = !isExpired && isBefore(expiryDate, addDays(today, settings.expiry_warning_days));
 
                     return (
                       <TableRow key={batch.id} className={isExpired ? 'opacity-50' : ''}>
                         <TableCell className="font-mono text-sm">{batch.batch_number || 'N/A'}</TableCell>
-                        <TableCell className="text-right font-medium">{batch.quantity || 0}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {batch.quantity || 0}
+                          {viewingProduct?.units && viewingProduct.units.length > 0 && batch.quantity > 0 && (
+                            <p className="text-xs font-normal text-muted-foreground">
+                              {formatPackBreakdown(batch.quantity, viewingProduct)}
+                            </p>
+                          )}
+                        </TableCell>
                         <TableCell>{format(expiryDate, 'MMM d, yyyy')}</TableCell>
                         <TableCell>
                           {isExpired ? (
@@ -0,0 +1,759 @@
+import { useMemo, useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useProducts } from '@/hooks/useProducts';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import {
+  usePurchaseOrders,
+  getSupplierFillRates,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  PO_STATUS_LABELS,
+} from '@/hooks/usePurchaseOrders';
+import { formatPKR } from '@/lib/currency';
+import { addDays, format, isBefore, parseISO, startOfToday } from 'date-fns';
+import { ClipboardList, Plus, Trash2, Loader2, PackageCheck, Send, XCircle, ChevronsUpDown } from 'lucide-react';
+import { toast } from 'sonner';
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  draft: 'outline',
+  sent: 'secondary',
+  partially_received: 'secondary',
+  received: 'default',
+  cancelled: 'destructive',
+};
+
+interface DraftLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const orderTotals = (order: PurchaseOrder) =>
+  order.purchase_order_items.reduce(
+    (acc, item) => ({
+      ordered: acc.ordered + item.quantity_ordered,
+      received: acc.received + item.quantity_received,
+      value: acc.value + item.quantity_ordered * Number(item.unit_cost),
+    }),
+    { ordered: 0, received: 0, value: 0 }
+  );
+
+export default function PurchaseOrders() {
+  const { can } = useAuth();
+  const canManage = can('purchasing.manage');
+  const canReceive = can('stock.receive');
+  const { orders, loading, createPurchaseOrder, updateStatus, refetch } = usePurchaseOrders();
+  const { activeSuppliers } = useSuppliers();
+  const { products, batches, addBatch } = useProducts();
+  const today = startOfToday();
+
+  const [statusFilter, setStatusFilter] = useState<'all' | PurchaseOrderStatus>('all');
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [cancellingOrder, setCancellingOrder] = useState<PurchaseOrder | null>(null);
+
+  // New order form
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [productPickerOpen, setProductPickerOpen] = useState(false);
+
+  // Receive form
+  const [receivingItem, setReceivingItem] = useState<PurchaseOrderItem | null>(null);
+  const [receiving, setReceiving] = useState(false);
+  const [receiveForm, setReceiveForm] = useState({
+    batchNumber: '',
+    expiryDate: '',
+    quantity: '',
+    costPrice: '',
+    sellingPrice: '',
+  });
+
+  const selectedOrder = orders.find((o) => o.id === selectedOrderId) || null;
+  const filteredOrders = statusFilter === 'all' ? orders : orders.filter((o) => o.status === statusFilter);
+  const fillRates = useMemo(() => getSupplierFillRates(orders), [orders]);
+  const productName = (id: string) => {
+    const product = products.find((p) => p.id === id);
+    return product ? `${product.name}${product.strength ? ` (${product.strength})` : ''}` : 'Unknown Product';
+  };
+
+  const resetCreateForm = () => {
+    setSupplierId('');
+    setExpectedDate('');
+    setNotes('');
+    setLines([]);
+  };
+
+  const handleSupplierChange = (id: string) => {
+    setSupplierId(id);
+    const supplier = activeSuppliers.find((s) => s.id === id);
+    if (supplier && !expectedDate) {
+      setExpectedDate(format(addDays(today, supplier.lead_time_days), 'yyyy-MM-dd'));
+    }
+  };
+
+  const addLine = (productId: string) => {
+    setProductPickerOpen(false);
+    if (lines.some((line) => line.productId === productId)) {
+      toast.error('This product is already on the order');
+      return;
+    }
+    const latestBatch = batches
+      .filter((b) => b.product_id === productId)
+      .sort((a, b) => b.purchase_date.localeCompare(a.purchase_date))[0];
+    setLines([...lines, { productId, quantity: '', unitCost: latestBatch?.cost_price.toString() || '' }]);
+  };
+
+  const updateLine = (index: number, updates: Partial<DraftLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  const draftTotal = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unitCost) || 0),
+    0
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!supplierId) {
+      toast.error('Please select a supplier');
+      return;
+    }
+
+    const items = lines.map((line) => ({
+      product_id: line.productId,
+      quantity: parseInt(line.quantity),
+      unit_cost: parseFloat(line.unitCost) || 0,
+    }));
+
+    if (items.some((item) => isNaN(item.quantity) || item.quantity <= 0)) {
+      toast.error('Every line needs a quantity');
+      return;
+    }
+
+    setCreating(true);
+    const result = await createPurchaseOrder(supplierId, items, expectedDate || undefined, notes);
+    setCreating(false);
+
+    if (result) {
+      setIsCreateOpen(false);
+      resetCreateForm();
+      setSelectedOrderId(result.id);
+    }
+  };
+
+  const openReceive = (item: PurchaseOrderItem) => {
+    const latestBatch = batches
+      .filter((b) => b.product_id === item.product_id)
+      .sort((a, b) => b.purchase_date.localeCompare(a.purchase_date))[0];
+    setReceivingItem(item);
+    setReceiveForm({
+      batchNumber: '',
+      expiryDate: '',
+      quantity: Math.max(item.quantity_ordered - item.quantity_received, 0).toString(),
+      costPrice: Number(item.unit_cost) > 0 ? item.unit_cost.toString() : '',
+      sellingPrice: latestBatch?.selling_price.toString() || '',
+    });
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receivingItem || !selectedOrder) return;
+
+    if (!receiveForm.batchNumber.trim()) {
+      toast.error('Batch number is required');
+      return;
+    }
+
+    if (!receiveForm.expiryDate) {
+      toast.error('Expiry date is required');
+      return;
+    }
+
+    if (isBefore(parseISO(receiveForm.expiryDate), today)) {
+      toast.error('Cannot add expired stock');
+      return;
+    }
+
+    const quantity = parseInt(receiveForm.quantity);
+    const costPrice = parseFloat(receiveForm.costPrice);
+    const sellingPrice = parseFloat(receiveForm.sellingPrice);
+
+    if (isNaN(quantity) || quantity <= 0) {
+      toast.error('Quantity must be a positive number');
+      return;
+    }
+
+    if (isNaN(costPrice) || costPrice <= 0 || isNaN(sellingPrice) || sellingPrice <= 0) {
+      toast.error('Cost and selling price must be positive numbers');
+      return;
+    }
+
+    setReceiving(true);
+    // The stock_batches triggers add this to the line's received quantity and
+    // move the order to partially received / received
+    const result = await addBatch({
+      product_id: receivingItem.product_id,
+      batch_number: receiveForm.batchNumber.trim(),
+      quantity,
+      cost_price: costPrice,
+      selling_price: sellingPrice,
+      expiry_date: receiveForm.expiryDate,
+      purchase_date: format(new Date(), 'yyyy-MM-dd'),
+      supplier: selectedOrder.suppliers?.name || null,
+      supplier_id: selectedOrder.supplier_id,
+      purchase_order_item_id: receivingItem.id,
+    });
+    setReceiving(false);
+
+    if (result) {
+      setReceivingItem(null);
+      await refetch();
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    if (!cancellingOrder) return;
+    await updateStatus(cancellingOrder.id, 'cancelled');
+    setCancellingOrder(null);
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <ClipboardList className="w-8 h-8 text-primary" />
+              Purchase Orders
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Order from suppliers and receive deliveries against each line</p>
+          </div>
+          {canManage && (
+            <Button onClick={() => setIsCreateOpen(true)} className="shadow-sm w-full sm:w-auto">
+              <Plus className="w-4 h-4 mr-2" />
+              New Order
+            </Button>
+          )}
+        </div>
+
+        <Tabs defaultValue="orders">
+          <TabsList className="mb-4">
+            <TabsTrigger value="orders">Orders</TabsTrigger>
+            <TabsTrigger value="suppliers">Ordered vs Received</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="orders">
+            <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 shadow-sm">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                <SelectTrigger className="w-full sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {(Object.keys(PO_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {PO_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="table-header">
+                      <TableHead>PO No.</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Ordered</TableHead>
+                      <TableHead>Expected</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-40">Received</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-12">
+                          <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredOrders.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                          No purchase orders
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredOrders.map((order) => {
+                        const totals = orderTotals(order);
+                        const isLate =
+                          !!order.expected_date &&
+                          (order.status === 'sent' || order.status === 'partially_received') &&
+                          isBefore(parseISO(order.expected_date), today);
+                        return (
+                          <TableRow
+                            key={order.id}
+                            className="cursor-pointer hover:bg-muted/50"
+                            onClick={() => setSelectedOrderId(order.id)}
+                          >
+                            <TableCell className="font-mono font-medium">{order.po_number}</TableCell>
+                            <TableCell>{order.suppliers?.name || 'Unknown Supplier'}</TableCell>
+                            <TableCell className="text-muted-foreground whitespace-nowrap">
+                              {format(parseISO(order.order_date), 'MMM d, yyyy')}
+                            </TableCell>
+                            <TableCell className={`whitespace-nowrap ${isLate ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                              {order.expected_date ? format(parseISO(order.expected_date), 'MMM d, yyyy') : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={STATUS_VARIANTS[order.status]}>{PO_STATUS_LABELS[order.status]}</Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                <Progress value={totals.ordered ? (totals.received / totals.ordered) * 100 : 0} className="h-2" />
+                                <p className="text-xs text-muted-foreground">
+                                  {totals.received} / {totals.ordered}
+                                </p>
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right font-semibold">{formatPKR(totals.value)}</TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="suppliers">
+            <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="table-header">
+                      <TableHead>Supplier</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">Qty Ordered</TableHead>
+                      <TableHead className="text-right">Qty Received</TableHead>
+                      <TableHead className="text-right">Value Ordered</TableHead>
+                      <TableHead className="text-right">Value Received</TableHead>
+                      <TableHead className="w-40">Fill Rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {fillRates.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                          Nothing has been ordered from a supplier yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      fillRates.map((row) => (
+                        <TableRow key={row.supplierId}>
+                          <TableCell className="font-medium">{row.supplierName}</TableCell>
+                          <TableCell className="text-right">{row.orders}</TableCell>
+                          <TableCell className="text-right">{row.quantityOrdered}</TableCell>
+                          <TableCell className="text-right">{row.quantityReceived}</TableCell>
+                          <TableCell className="text-right">{formatPKR(row.valueOrdered)}</TableCell>
+                          <TableCell className="text-right">{formatPKR(row.valueReceived)}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Progress value={Math.min(row.fillRate, 1) * 100} className="h-2 flex-1" />
+                              <span className="text-sm font-medium w-12 text-right">{Math.round(row.fillRate * 100)}%</span>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {/* Order Detail */}
+        <Dialog open={!!selectedOrder} onOpenChange={(open) => !open && setSelectedOrderId(null)}>
+          <DialogContent className="max-w-3xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            {selectedOrder && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-3">
+                    <span className="font-mono">{selectedOrder.po_number}</span>
+                    <Badge variant={STATUS_VARIANTS[selectedOrder.status]}>{PO_STATUS_LABELS[selectedOrder.status]}</Badge>
+                  </DialogTitle>
+                  <DialogDescription>
+                    {selectedOrder.suppliers?.name || 'Unknown Supplier'} • Ordered{' '}
+                    {format(parseISO(selectedOrder.order_date), 'MMM d, yyyy')}
+                    {selectedOrder.expected_date &&
+                      ` • Expected ${format(parseISO(selectedOrder.expected_date), 'MMM d, yyyy')}`}
+                  </DialogDescription>
+                </DialogHeader>
+
+                {selectedOrder.notes && (
+                  <p className="text-sm text-muted-foreground bg-muted/50 rounded-lg p-3">{selectedOrder.notes}</p>
+                )}
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Ordered</TableHead>
+                        <TableHead className="text-right">Received</TableHead>
+                        <TableHead className="text-right">Unit Cost</TableHead>
+                        <TableHead className="text-right"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedOrder.purchase_order_items.map((item) => {
+                        const outstanding = item.quantity_ordered - item.quantity_received;
+                        const canReceiveLine =
+                          canReceive &&
+                          (selectedOrder.status === 'sent' || selectedOrder.status === 'partially_received');
+                        return (
+                          <TableRow key={item.id}>
+                            <TableCell className="font-medium">
+                              {item.products
+                                ? `${item.products.name}${item.products.strength ? ` (${item.products.strength})` : ''}`
+                                : productName(item.product_id)}
+                            </TableCell>
+                            <TableCell className="text-right">{item.quantity_ordered}</TableCell>
+                            <TableCell className={`text-right ${outstanding > 0 ? 'text-warning' : 'text-success'} font-medium`}>
+                              {item.quantity_received}
+                            </TableCell>
+                            <TableCell className="text-right">{formatPKR(Number(item.unit_cost))}</TableCell>
+                            <TableCell className="text-right">
+                              {canReceiveLine && (
+                                <Button size="sm" variant={outstanding > 0 ? 'default' : 'outline'} onClick={() => openReceive(item)}>
+                                  <PackageCheck className="w-4 h-4 mr-1" />
+                                  Receive
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {canManage && (selectedOrder.status === 'draft' || selectedOrder.status === 'sent' || selectedOrder.status === 'partially_received') && (
+                  <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                    <Button variant="outline" onClick={() => setCancellingOrder(selectedOrder)}>
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Cancel Order
+                    </Button>
+                    {selectedOrder.status === 'draft' && (
+                      <Button onClick={() => updateStatus(selectedOrder.id, 'sent')}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Mark as Sent
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Receive Against Line */}
+        <Dialog open={!!receivingItem} onOpenChange={(open) => !open && setReceivingItem(null)}>
+          <DialogContent className="max-w-lg w-[95vw] sm:w-auto">
+            <DialogHeader>
+              <DialogTitle>Receive Stock</DialogTitle>
+              <DialogDescription>
+                {receivingItem && (
+                  <>
+                    {productName(receivingItem.product_id)} • {receivingItem.quantity_received} of{' '}
+                    {receivingItem.quantity_ordered} received so far
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleReceive} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="receiveBatch">Batch Number *</Label>
+                  <Input
+                    id="receiveBatch"
+                    value={receiveForm.batchNumber}
+                    onChange={(e) => setReceiveForm({ ...receiveForm, batchNumber: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiveExpiry">Expiry Date *</Label>
+                  <Input
+                    id="receiveExpiry"
+                    type="date"
+                    value={receiveForm.expiryDate}
+                    onChange={(e) => setReceiveForm({ ...receiveForm, expiryDate: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="receiveQty">Quantity</Label>
+                  <Input
+                    id="receiveQty"
+                    type="number"
+                    min="1"
+                    value={receiveForm.quantity}
+                    onChange={(e) => setReceiveForm({ ...receiveForm, quantity: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiveCost">Cost (Rs.)</Label>
+                  <Input
+                    id="receiveCost"
+                    type="number"
+                    step="0.01"
+                    value={receiveForm.costPrice}
+                    onChange={(e) => setReceiveForm({ ...receiveForm, costPrice: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiveSell">Sell (Rs.)</Label>
+                  <Input
+                    id="receiveSell"
+                    type="number"
+                    step="0.01"
+                    value={receiveForm.sellingPrice}
+                    onChange={(e) => setReceiveForm({ ...receiveForm, sellingPrice: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setReceivingItem(null)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={receiving} className="w-full sm:w-auto">
+                  {receiving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Receive
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* New Order */}
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogContent className="max-w-3xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Purchase Order</DialogTitle>
+              <DialogDescription>
+                Orders start as drafts. Mark them as sent once the supplier has them.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Supplier *</Label>
+                  <Select value={supplierId} onValueChange={handleSupplierChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeSuppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expectedDate">Expected Delivery</Label>
+                  <Input
+                    id="expectedDate"
+                    type="date"
+                    value={expectedDate}
+                    onChange={(e) => setExpectedDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Products</Label>
+                <Popover open={productPickerOpen} onOpenChange={setProductPickerOpen}>
+                  <PopoverTrigger asChild>
+                    <Button type="button" variant="outline" role="combobox" className="w-full justify-between">
+                      Add a product...
+                      <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+                    <Command>
+                      <CommandInput placeholder="Search products..." />
+                      <CommandList>
+                        <CommandEmpty>No product found.</CommandEmpty>
+                        <CommandGroup>
+                          {products
+                            .filter((p) => p.is_active !== false)
+                            .map((product) => (
+                              <CommandItem
+                                key={product.id}
+                                value={`${product.name} ${product.strength || ''} ${product.id}`}
+                                onSelect={() => addLine(product.id)}
+                              >
+                                {product.name} {product.strength && `(${product.strength})`}
+                              </CommandItem>
+                            ))}
+                        </CommandGroup>
+                      </CommandList>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
+
+                {lines.length > 0 && (
+                  <div className="border border-border rounded-xl overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead className="w-28">Qty</TableHead>
+                          <TableHead className="w-32">Unit Cost</TableHead>
+                          <TableHead className="w-12"></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lines.map((line, index) => (
+                          <TableRow key={line.productId}>
+                            <TableCell className="font-medium">{productName(line.productId)}</TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={line.quantity}
+                                onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                                className="h-8"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={line.unitCost}
+                                onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                                className="h-8"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                              >
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="poNotes">Notes</Label>
+                <Textarea id="poNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+              </div>
+
+              {lines.length > 0 && (
+                <div className="p-4 bg-primary/5 rounded-xl border border-primary/20 flex justify-between items-center">
+                  <span className="text-muted-foreground font-medium">Order Value</span>
+                  <span className="text-xl font-bold text-primary">{formatPKR(draftTotal)}</span>
+                </div>
+              )}
+
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={creating || lines.length === 0} className="w-full sm:w-auto">
+                  {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Create Draft
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!cancellingOrder} onOpenChange={(open) => !open && setCancellingOrder(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel {cancellingOrder?.po_number}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Nothing more can be received against a cancelled order. Stock already received stays in inventory.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Order</AlertDialogCancel>
+              <AlertDialogAction onClick={handleCancelOrder}>Cancel Order</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </MainLayout>
+  );
+}
@@ -24,7 +24,7 @@ import { Badge } from '@/components/ui/badge';
 import { useRacks, Rack } from '@/hooks/useRacks';
 import { useProducts } from '@/hooks/useProducts';
 import { useAuth } from '@/hooks/useAuth';
-import { Plus, Edit2, Trash2, LayoutGrid, Loader2, Package } from 'lucide-react';
+import { Plus, Edit2, Trash2, LayoutGrid, Loader2, Package, ClipboardCheck } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 
@@ -36,7 +36,8 @@ const COLORS = [
 export default function Racks() {
   const { racks, loading, addRack, updateRack, deleteRack } = useRacks();
   const { products } = useProducts();
-  const { isOwner } = useAuth();
+  const { can } = useAuth();
+  const canManageRacks = can('racks.manage');
   const navigate = useNavigate();
   const [isAddOpen, setIsAddOpen] = useState(false);
   const [editingRack, setEditingRack] = useState<Rack | null>(null);
@@ -123,7 +124,7 @@ export default function Racks() {
             </h1>
             <p className="page-subtitle text-sm sm:text-base">Organize products by physical location</p>
           </div>
-          {isOwner && (
+          {canManageRacks && (
             <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
               <DialogTrigger asChild>
                 <Button onClick={resetForm} className="w-full sm:w-auto">
@@ -207,7 +208,7 @@ export default function Racks() {
                   >
                     {rack.name}
                   </div>
-                  {isOwner && (
+                  {canManageRacks && (
                     <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
                       <Button
                         size="icon"
@@ -256,7 +257,7 @@ export default function Racks() {
                   <TableHead className="table-header">Name</TableHead>
                   <TableHead className="table-header">Description</TableHead>
                   <TableHead className="table-header">Created</TableHead>
-                  {isOwner && <TableHead className="table-header">Actions</TableHead>}
+                  {canManageRacks && <TableHead className="table-header">Actions</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -275,7 +276,7 @@ export default function Racks() {
                     <TableCell className="text-muted-foreground">
                       {new Date(rack.created_at).toLocaleDateString()}
                     </TableCell>
-                    {isOwner && (
+                    {canManageRacks && (
                       <TableCell>
                         <div className="flex gap-1">
                           <Button
@@ -321,6 +322,22 @@ export default function Racks() {
               View all products assigned to this rack.
             </DialogDescription>
           </DialogHeader>
+          {can('stock.receive') && rackProducts.length > 0 && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const rackId = selectedRackId;
+                  setSelectedRackId(null);
+                  navigate(`/stock-counts?rack=${rackId}`);
+                }}
+              >
+                <ClipboardCheck className="w-4 h-4 mr-1" />
+                Count This Rack
+              </Button>
+            </div>
+          )}
           <div className="overflow-auto max-h-[60vh]">
             {rackProducts.length === 0 ? (
               <div className="text-center py-12">
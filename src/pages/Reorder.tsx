@@ -0,0 +1,363 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useReorder } from '@/hooks/useReorder';
+import { DEFAULT_REORDER_SETTINGS, ReorderSettings, ReorderSuggestion, SupplierReorderGroup } from '@/lib/reorder';
+import { formatPKR } from '@/lib/currency';
+import { useSettings } from '@/hooks/useSettings';
+import { addDays, format } from 'date-fns';
+import { RefreshCcw, Loader2, FileDown, Printer, ClipboardList, PackageCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+const HISTORY_OPTIONS = [14, 30, 60, 90];
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const productLabel = (s: ReorderSuggestion) => `${s.name}${s.strength ? ` (${s.strength})` : ''}`;
+
+export default function Reorder() {
+  const { settings: storeSettings } = useSettings();
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const canCreateOrders = can('purchasing.manage');
+
+  const [historyDays, setHistoryDays] = useState(DEFAULT_REORDER_SETTINGS.historyDays);
+  const [safetyDays, setSafetyDays] = useState(DEFAULT_REORDER_SETTINGS.safetyDays.toString());
+  const [coverDays, setCoverDays] = useState(DEFAULT_REORDER_SETTINGS.coverDays.toString());
+  const settings = useMemo<ReorderSettings>(
+    () => ({
+      ...DEFAULT_REORDER_SETTINGS,
+      historyDays,
+      safetyDays: Math.max(parseInt(safetyDays) || 0, 0),
+      coverDays: Math.max(parseInt(coverDays) || 0, 0),
+    }),
+    [historyDays, safetyDays, coverDays]
+  );
+
+  const { groups, loading, createPurchaseOrder, refetch } = useReorder(settings);
+
+  // Per-product overrides of the suggested quantity, and lines the user left out
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+
+  const quantityFor = (s: ReorderSuggestion) => {
+    const override = quantities[s.productId];
+    return override !== undefined ? parseInt(override) || 0 : s.suggestedQuantity;
+  };
+
+  const selectedLines = (group: SupplierReorderGroup) =>
+    group.suggestions.filter((s) => !excluded.has(s.productId) && quantityFor(s) > 0);
+
+  const toggleExcluded = (productId: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const totalLines = groups.reduce((sum, g) => sum + g.suggestions.length, 0);
+
+  const handleCreateOrder = async (group: SupplierReorderGroup) => {
+    if (!group.supplierId) {
+      toast.error('Set a preferred supplier on these products first');
+      return;
+    }
+    const lines = selectedLines(group);
+    if (lines.length === 0) {
+      toast.error('No lines selected');
+      return;
+    }
+
+    setCreatingFor(group.supplierId);
+    const result = await createPurchaseOrder(
+      group.supplierId,
+      lines.map((s) => ({ product_id: s.productId, quantity: quantityFor(s), unit_cost: s.lastCost ?? 0 })),
+      format(addDays(new Date(), lines[0].leadTimeDays), 'yyyy-MM-dd'),
+      'Created from reorder suggestions'
+    );
+    setCreatingFor(null);
+
+    if (result) {
+      navigate('/purchase-orders');
+    }
+  };
+
+  const handleDownloadCSV = (group: SupplierReorderGroup) => {
+    const lines = selectedLines(group);
+    if (lines.length === 0) {
+      toast.error('No lines selected');
+      return;
+    }
+
+    const headers = ['Product', 'Current Stock', 'On Order', 'Avg Daily Sales', 'Reorder Point', 'Order Qty', 'Last Cost', 'Estimated Cost'];
+    const rows = lines.map((s) => [
+      productLabel(s),
+      s.currentStock.toString(),
+      s.onOrder.toString(),
+      s.averageDailyDemand.toFixed(2),
+      s.reorderPoint.toString(),
+      quantityFor(s).toString(),
+      s.lastCost?.toFixed(2) ?? '',
+      ((s.lastCost ?? 0) * quantityFor(s)).toFixed(2),
+    ]);
+
+    const csvContent = [
+      headers.join(','),
+      ...rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')),
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    const slug = group.supplierName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `order-sheet-${slug}-${format(new Date(), 'yyyyMMdd')}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = (group: SupplierReorderGroup) => {
+    const lines = selectedLines(group);
+    if (lines.length === 0) {
+      toast.error('No lines selected');
+      return;
+    }
+
+    const printWindow = window.open('', '_blank', 'width=800,height=900');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the order sheet');
+      return;
+    }
+
+    const rows = lines
+      .map(
+        (s, i) => `<tr>
+          <td>${i + 1}</td>
+          <td>${escapeHtml(productLabel(s))}</td>
+          <td class="num">${quantityFor(s)}</td>
+          <td class="num">${s.lastCost != null ? escapeHtml(formatPKR(s.lastCost)) : ''}</td>
+        </tr>`
+      )
+      .join('');
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Order Sheet - ${escapeHtml(group.supplierName)}</title>
+          <style>
+            body { font-family: system-ui, sans-serif; padding: 24px; color: #111; }
+            h1 { font-size: 20px; margin: 0 0 4px; }
+            p { margin: 0 0 16px; color: #555; }
+            table { width: 100%; border-collapse: collapse; font-size: 13px; }
+            th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+            th { background: #f3f4f6; }
+            .num { text-align: right; }
+          </style>
+        </head>
+        <body>
+          <h1>${escapeHtml(storeSettings.store_name)} - Order Sheet</h1>
+          <p>Supplier: ${escapeHtml(group.supplierName)} &bull; ${format(new Date(), 'MMM d, yyyy')}</p>
+          <table>
+            <thead><tr><th>#</th><th>Product</th><th class="num">Qty</th><th class="num">Last Cost</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <PackageCheck className="w-8 h-8 text-primary" />
+              Reorder
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">
+              Suggested order quantities from sales velocity, lead time and stock on hand
+            </p>
+          </div>
+          <Button variant="outline" onClick={refetch} className="w-full sm:w-auto">
+            <RefreshCcw className="w-4 h-4 mr-2" />
+            Recalculate
+          </Button>
+        </div>
+
+        {/* Settings */}
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Sales History</Label>
+              <Select value={historyDays.toString()} onValueChange={(value) => setHistoryDays(parseInt(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HISTORY_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={days.toString()}>
+                      Last {days} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="safetyDays">Safety Stock (days of sales)</Label>
+              <Input id="safetyDays" type="number" min="0" value={safetyDays} onChange={(e) => setSafetyDays(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coverDays">Order Covers (days of sales)</Label>
+              <Input id="coverDays" type="number" min="0" value={coverDays} onChange={(e) => setCoverDays(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : totalLines === 0 ? (
+          <div className="bg-card rounded-2xl border border-border/60 p-12 text-center shadow-sm">
+            <PackageCheck className="w-10 h-10 text-success mx-auto mb-3" />
+            <p className="font-medium">Nothing needs reordering</p>
+            <p className="text-sm text-muted-foreground mt-1">Every product is above its reorder point</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map((group) => {
+              const lines = selectedLines(group);
+              const estimatedCost = lines.reduce((sum, s) => sum + (s.lastCost ?? 0) * quantityFor(s), 0);
+              return (
+                <div key={group.supplierId ?? 'none'} className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+                  <div className="p-4 sm:p-5 border-b border-border/60 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+                    <div>
+                      <h2 className="text-lg font-semibold flex items-center gap-2">
+                        {group.supplierName}
+                        <Badge variant="secondary">{group.suggestions.length}</Badge>
+                      </h2>
+                      <p className="text-sm text-muted-foreground">
+                        {lines.length} selected • Estimated {formatPKR(estimatedCost)}
+                      </p>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleDownloadCSV(group)}>
+                        <FileDown className="w-4 h-4 mr-2" />
+                        CSV
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handlePrint(group)}>
+                        <Printer className="w-4 h-4 mr-2" />
+                        Print
+                      </Button>
+                      {canCreateOrders && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleCreateOrder(group)}
+                          disabled={!group.supplierId || creatingFor === group.supplierId}
+                        >
+                          {creatingFor === group.supplierId ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <ClipboardList className="w-4 h-4 mr-2" />
+                          )}
+                          Create Draft PO
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="table-header">
+                          <TableHead className="w-10"></TableHead>
+                          <TableHead>Product</TableHead>
+                          <TableHead className="text-right">Stock</TableHead>
+                          <TableHead className="text-right">On Order</TableHead>
+                          <TableHead className="text-right">Avg / Day</TableHead>
+                          <TableHead className="text-right">Days Left</TableHead>
+                          <TableHead className="text-right">Reorder Point</TableHead>
+                          <TableHead className="w-28">Order Qty</TableHead>
+                          <TableHead className="text-right">Est. Cost</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.suggestions.map((s) => {
+                          const isExcluded = excluded.has(s.productId);
+                          return (
+                            <TableRow key={s.productId} className={isExcluded ? 'opacity-50' : ''}>
+                              <TableCell>
+                                <Checkbox checked={!isExcluded} onCheckedChange={() => toggleExcluded(s.productId)} />
+                              </TableCell>
+                              <TableCell className="font-medium">{productLabel(s)}</TableCell>
+                              <TableCell className="text-right">
+                                {s.currentStock <= 0 ? <Badge variant="destructive">0</Badge> : s.currentStock}
+                              </TableCell>
+                              <TableCell className="text-right text-muted-foreground">{s.onOrder || '-'}</TableCell>
+                              <TableCell className="text-right">{s.averageDailyDemand.toFixed(1)}</TableCell>
+                              <TableCell className="text-right">
+                                {s.daysOfStock === null ? (
+                                  <span className="text-muted-foreground">-</span>
+                                ) : (
+                                  <span className={s.daysOfStock < s.leadTimeDays ? 'text-destructive font-medium' : ''}>
+                                    {Math.floor(s.daysOfStock)}
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right text-muted-foreground">{s.reorderPoint}</TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={quantities[s.productId] ?? s.suggestedQuantity.toString()}
+                                  onChange={(e) => setQuantities({ ...quantities, [s.productId]: e.target.value })}
+                                  className="h-8"
+                                />
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {s.lastCost != null ? formatPKR(s.lastCost * quantityFor(s)) : '-'}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {!group.supplierId && (
+                    <p className="p-4 text-sm text-muted-foreground border-t border-border/60">
+                      These products have no preferred supplier and have never been received from one. Set a supplier on the product to order them.
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -2,7 +2,11 @@ import { useMemo, useState, useCallback } from 'react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { useSales, Sale, SaleItem, BatchDeduction, SalesReturn, ReturnItem } from '@/hooks/useSales';
 import { useProducts } from '@/hooks/useProducts';
+import { useBranches, ALL_BRANCHES } from '@/hooks/useBranches';
+import { useSettings } from '@/hooks/useSettings';
 import { formatPKR } from '@/lib/currency';
+import { formatSoldQuantity } from '@/lib/units';
+import { paymentsForSale, tenderLabel, totalsByMethod, TENDER_LABELS } from '@/lib/tender';
 import {
   Table,
   TableBody,
@@ -15,19 +19,25 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { format, parseISO, isWithinInterval, startOfDay, endOfDay, differenceInDays, differenceInHours } from 'date-fns';
-import { Banknote, Receipt, TrendingUp, Calendar, Package, Download, Search, RotateCcw } from 'lucide-react';
+import { Banknote, Receipt, TrendingUp, Calendar, Package, Download, Search, RotateCcw, Eye } from 'lucide-react';
 import { StatCard } from '@/components/dashboard/StatCard';
+import { ReceiptViewerDialog } from '@/components/pos/ReceiptViewerDialog';
 import { toast } from 'sonner';
 
 export default function SalesReport() {
-  const { sales, loading, getSaleByReceipt, processReturn } = useSales();
-  const { batches } = useProducts();
+  const { sales, loading, getSaleByReceipt, findSales, processReturn } = useSales();
+  // Cost prices come from whichever branch the sale was made in
+  const { batches } = useProducts(ALL_BRANCHES);
+  const { branches } = useBranches();
+  const { settings } = useSettings();
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
+  const [branchFilter, setBranchFilter] = useState(ALL_BRANCHES);
   
   // Return functionality state
   const [returnReceipt, setReturnReceipt] = useState('');
@@ -37,11 +47,18 @@ export default function SalesReport() {
   const [isProcessingReturn, setIsProcessingReturn] = useState(false);
   const [returnExpired, setReturnExpired] = useState(false);
 
+  // Receipt history
+  const [receiptQuery, setReceiptQuery] = useState({ receiptNumber: '', date: '', amount: '' });
+  const [receiptResults, setReceiptResults] = useState<Sale[] | null>(null);
+  const [isSearchingReceipts, setIsSearchingReceipts] = useState(false);
+  const [viewingSale, setViewingSale] = useState<Sale | null>(null);
+
   const filteredSales = useMemo(() => {
     if (!sales || !Array.isArray(sales)) return [];
 
     return sales.filter((sale) => {
       if (!sale?.created_at) return false;
+      if (branchFilter !== ALL_BRANCHES && sale.branch_id !== branchFilter) return false;
       const saleDate = new Date(sale.created_at);
 
       if (dateFrom && dateTo) {
@@ -58,7 +75,7 @@ export default function SalesReport() {
       }
       return true;
     }).sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-  }, [sales, dateFrom, dateTo]);
+  }, [sales, dateFrom, dateTo, branchFilter]);
 
   // Helper function to get cost price from batch
   const getCostPrice = useCallback((productId: string, batchDeductions: BatchDeduction[] | null) => {
@@ -94,6 +111,14 @@ export default function SalesReport() {
       sum + (sale?.items?.reduce((itemSum: number, item: SaleItem) => itemSum + (item?.quantity || 0), 0) || 0), 0
     );
     let totalProfit = filteredSales.reduce((sum, sale) => sum + calculateSaleProfit(sale), 0);
+
+    // Revenue per branch for the consolidated view
+    const branchTotals = new Map<string, number>();
+    const addBranchTotal = (sale: Sale, amount: number) => {
+      if (!sale.branch_id) return;
+      branchTotals.set(sale.branch_id, (branchTotals.get(sale.branch_id) ?? 0) + amount);
+    };
+    filteredSales.forEach((sale) => addBranchTotal(sale, sale?.total || 0));
     
     // Deduct returns
     filteredSales.forEach(sale => {
@@ -108,6 +133,7 @@ export default function SalesReport() {
                 const profitDeduction = (originalItem.unit_price - costPrice) * retItem.quantity;
                 
                 totalRevenue -= refundAmount;
+                addBranchTotal(sale, -refundAmount);
                 totalProfit -= profitDeduction;
                 totalItems -= retItem.quantity;
               }
@@ -119,7 +145,10 @@ export default function SalesReport() {
 
     const avgTransaction = totalTransactions > 0 ? totalRevenue / totalTransactions : 0;
 
-    return { totalRevenue, totalTransactions, avgTransaction, totalItems, totalProfit };
+    // What was taken at the counter per tender, before returns
+    const tenderTotals = totalsByMethod(filteredSales.flatMap((sale) => paymentsForSale(sale)));
+
+    return { totalRevenue, totalTransactions, avgTransaction, totalItems, totalProfit, tenderTotals, branchTotals };
   }, [filteredSales, calculateSaleProfit, getCostPrice]);
 
   const totalRefundAmount = useMemo(() => {
@@ -131,6 +160,11 @@ export default function SalesReport() {
     }, 0);
   }, [foundSale, selectedReturnItems]);
 
+  const returnWindowLabel =
+    settings.return_window_hours % 24 === 0
+      ? `${settings.return_window_hours / 24} day${settings.return_window_hours === 24 ? '' : 's'}`
+      : `${settings.return_window_hours} hours`;
+
   const handleSearchReceipt = async () => {
     if (!returnReceipt.trim()) {
       toast.error('Please enter a receipt number');
@@ -145,15 +179,14 @@ export default function SalesReport() {
     if (sale) {
       setFoundSale(sale);
       
-      // Check for expiry (2 days / 48 hours)
+      // Check the receipt is still inside the store's return window
       const saleDate = new Date(sale.created_at);
       const today = new Date();
       const diffHours = differenceInHours(today, saleDate);
       
-      // If receipt age > 48 hours -> Return not allowed
-      if (diffHours > 48) {
+      if (diffHours > settings.return_window_hours) {
         setReturnExpired(true);
-        toast.error('Return period expired (limit: 48 hours)');
+        toast.error(`Return period expired (limit: ${returnWindowLabel})`);
       } else {
         setReturnExpired(false);
         toast.success('Sale record found');
@@ -163,6 +196,23 @@ export default function SalesReport() {
     }
   };
 
+  const handleSearchReceipts = async () => {
+    const amount = receiptQuery.amount.trim() ? parseFloat(receiptQuery.amount) : null;
+    if (!receiptQuery.receiptNumber.trim() && !receiptQuery.date && amount == null) {
+      toast.error('Enter a receipt number, date or amount');
+      return;
+    }
+    if (amount != null && (isNaN(amount) || amount < 0)) {
+      toast.error('Enter a valid amount');
+      return;
+    }
+
+    setIsSearchingReceipts(true);
+    const found = await findSales({ receiptNumber: receiptQuery.receiptNumber, date: receiptQuery.date, amount });
+    setReceiptResults(found);
+    setIsSearchingReceipts(false);
+  };
+
   const handleReturnItemChange = (saleItemId: string, checked: boolean) => {
     if (checked) {
       // Default to 1 or max quantity if 1
@@ -265,6 +315,8 @@ export default function SalesReport() {
     }
   };
 
+  const branchName = (id: string | undefined) => branches.find((b) => b.id === id)?.name ?? '';
+
   const handleDownloadCSV = () => {
     if (filteredSales.length === 0) {
       toast.error('No sales data to download');
@@ -272,7 +324,7 @@ export default function SalesReport() {
     }
 
     // Prepare CSV data
-    const headers = ['Sale ID', 'Date & Time', 'Product Name', 'Quantity', 'Unit Price', 'Subtotal', 'Discount', 'Total', 'Payment Method'];
+    const headers = ['Sale ID', 'Date & Time', 'Branch', 'Product Name', 'Quantity', 'Unit Price', 'Subtotal', 'Discount', 'Total', 'Payment Method', 'Payments'];
     const rows: string[][] = [];
 
     filteredSales.forEach((sale) => {
@@ -289,6 +341,7 @@ export default function SalesReport() {
         rows.push([
           sale.id,
           saleDate,
+          branchName(sale.branch_id),
           item.product_name || '',
           item.quantity?.toString() || '0',
           formatPKR(item.unit_price || 0).replace('PKR ', ''),
@@ -296,6 +349,9 @@ export default function SalesReport() {
           idx === 0 ? formatPKR(discount).replace('PKR ', '') : '0',
           formatPKR(itemTotal).replace('PKR ', ''),
           sale.payment_method || '',
+          idx === 0
+            ? paymentsForSale(sale).map((p) => `${TENDER_LABELS[p.method]} ${p.amount}`).join('; ')
+            : '',
         ]);
       });
     });
@@ -336,8 +392,9 @@ export default function SalesReport() {
         </div>
 
         <Tabs defaultValue="report" className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-2 mb-8">
+          <TabsList className="grid w-full max-w-md grid-cols-3 mb-8">
             <TabsTrigger value="report">Sales Report</TabsTrigger>
+            <TabsTrigger value="receipts">Receipts</TabsTrigger>
             <TabsTrigger value="return">Sales Return</TabsTrigger>
           </TabsList>
 
@@ -372,6 +429,21 @@ export default function SalesReport() {
                     />
                   </div>
                 </div>
+                {branches.length > 1 && (
+                  <Select value={branchFilter} onValueChange={setBranchFilter}>
+                    <SelectTrigger className="w-full sm:w-48 h-10 sm:h-9" aria-label="Branch">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+                      {branches.map((branch) => (
+                        <SelectItem key={branch.id} value={branch.id}>
+                          {branch.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 {(dateFrom || dateTo) && (
                   <button
                     onClick={() => { setDateFrom(''); setDateTo(''); }}
@@ -420,6 +492,39 @@ export default function SalesReport() {
           />
         </div>
 
+        {/* Net sales per branch */}
+        {branchFilter === ALL_BRANCHES && branches.length > 1 && stats.branchTotals.size > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 mb-6 sm:mb-8">
+            {branches
+              .filter((branch) => stats.branchTotals.has(branch.id))
+              .map((branch) => (
+                <button
+                  key={branch.id}
+                  type="button"
+                  onClick={() => setBranchFilter(branch.id)}
+                  className="stat-card text-left hover:border-primary/40 transition-colors"
+                >
+                  <p className="text-sm text-muted-foreground">{branch.name}</p>
+                  <p className="text-xl font-bold">{formatPKR(stats.branchTotals.get(branch.id) ?? 0)}</p>
+                </button>
+              ))}
+          </div>
+        )}
+
+        {/* Takings per tender */}
+        {stats.tenderTotals.size > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 mb-6 sm:mb-8">
+            {Array.from(stats.tenderTotals.entries())
+              .sort((a, b) => b[1] - a[1])
+              .map(([method, amount]) => (
+                <div key={method} className="stat-card">
+                  <p className="text-sm text-muted-foreground">{TENDER_LABELS[method]}</p>
+                  <p className="text-xl font-bold">{formatPKR(amount)}</p>
+                </div>
+              ))}
+          </div>
+        )}
+
         {/* Sales Table */}
         <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
           <div className="overflow-x-auto">
@@ -432,12 +537,13 @@ export default function SalesReport() {
                   <TableHead>Date & Time</TableHead>
                   <TableHead className="text-right">Total</TableHead>
                   <TableHead className="text-right">Profit</TableHead>
+                  <TableHead className="w-[50px]"><span className="sr-only">Receipt</span></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {loading ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-12">
+                    <TableCell colSpan={7} className="text-center py-12">
                       <div className="w-16 h-16 rounded-2xl bg-muted/50 flex items-center justify-center mx-auto mb-4">
                         <Receipt className="w-8 h-8 text-muted-foreground/50 animate-pulse" />
                       </div>
@@ -452,7 +558,7 @@ export default function SalesReport() {
                         {sale.items?.map((item, idx) => (
                           <div key={idx} className="text-sm">
                             <span className="font-medium">{item.product_name || 'Unknown'}</span>
-                            <span className="text-muted-foreground"> × {item.quantity || 0}</span>
+                            <span className="text-muted-foreground"> × {formatSoldQuantity(item)}</span>
                             <span className="text-xs text-muted-foreground ml-2">
                               (Profit: {formatPKR(calculateItemProfit(item))})
                             </span>
@@ -461,9 +567,18 @@ export default function SalesReport() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge variant="outline" className="capitalize">
-                        {sale.payment_method || 'N/A'}
+                      <Badge variant="outline">
+                        {sale.payment_method ? tenderLabel(sale.payment_method) : 'N/A'}
                       </Badge>
+                      {sale.payment_method === 'split' && (
+                        <div className="mt-1 space-y-0.5">
+                          {paymentsForSale(sale).map((payment, idx) => (
+                            <div key={idx} className="text-xs text-muted-foreground">
+                              {TENDER_LABELS[payment.method]}: {formatPKR(payment.amount)}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="text-muted-foreground">
                       {format(new Date(sale.created_at), 'MMM d, yyyy h:mm a')}
@@ -474,11 +589,16 @@ export default function SalesReport() {
                     <TableCell className="text-right font-semibold text-primary">
                       {formatPKR(calculateSaleProfit(sale))}
                     </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => setViewingSale(sale)} aria-label="View receipt">
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))}
                 {!loading && filteredSales.length === 0 && (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-12">
+                    <TableCell colSpan={7} className="text-center py-12">
                       <div className="w-16 h-16 rounded-2xl bg-muted/50 flex items-center justify-center mx-auto mb-4">
                         <Receipt className="w-8 h-8 text-muted-foreground/50" />
                       </div>
@@ -500,6 +620,7 @@ export default function SalesReport() {
                     <TableCell className="text-right font-semibold text-lg text-primary">
                       {formatPKR(stats.totalProfit)}
                     </TableCell>
+                    <TableCell />
                   </TableRow>
                 )}
               </TableBody>
@@ -508,6 +629,104 @@ export default function SalesReport() {
         </div>
       </TabsContent>
 
+      <TabsContent value="receipts" className="space-y-6">
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 shadow-sm">
+          <form
+            onSubmit={(e) => { e.preventDefault(); handleSearchReceipts(); }}
+            className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto] sm:items-end"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="receiptNumber">Receipt Number</Label>
+              <Input
+                id="receiptNumber"
+                placeholder="e.g. RCP-2024..."
+                value={receiptQuery.receiptNumber}
+                onChange={(e) => setReceiptQuery({ ...receiptQuery, receiptNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receiptDate">Date</Label>
+              <Input
+                id="receiptDate"
+                type="date"
+                value={receiptQuery.date}
+                onChange={(e) => setReceiptQuery({ ...receiptQuery, date: e.target.value })}
+                className="sm:w-44"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receiptAmount">Amount</Label>
+              <Input
+                id="receiptAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={receiptQuery.amount}
+                onChange={(e) => setReceiptQuery({ ...receiptQuery, amount: e.target.value })}
+                className="sm:w-36"
+              />
+            </div>
+            <Button type="submit" disabled={isSearchingReceipts}>
+              <Search className="w-4 h-4 mr-2" />
+              Search
+            </Button>
+          </form>
+        </div>
+
+        {receiptResults && (
+          <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="table-header">
+                    <TableHead>Receipt</TableHead>
+                    <TableHead>Date & Time</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Payment</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="w-[50px]"><span className="sr-only">Receipt</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receiptResults.map((sale) => (
+                    <TableRow key={sale.id} className="hover:bg-muted/30">
+                      <TableCell className="font-mono text-sm">
+                        {sale.receipt_number}
+                        {(sale.returns?.length ?? 0) > 0 && (
+                          <Badge variant="secondary" className="ml-2">Returned</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(sale.created_at), 'MMM d, yyyy h:mm a')}
+                      </TableCell>
+                      <TableCell>{sale.items?.length ?? 0}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{tenderLabel(sale.payment_method)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatPKR((sale.total || 0) - (sale.discount || 0))}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => setViewingSale(sale)} aria-label="View receipt">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {receiptResults.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-12">
+                        <p className="text-muted-foreground font-medium">No receipts found</p>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </TabsContent>
+
       <TabsContent value="return" className="space-y-6">
         <div className="bg-card rounded-2xl border border-border/60 p-6 shadow-sm">
           <div className="max-w-xl mx-auto space-y-6">
@@ -534,7 +753,9 @@ export default function SalesReport() {
                      <span className="text-muted-foreground text-sm">{format(new Date(foundSale.created_at), 'PPP p')}</span>
                    </div>
                    <div className="flex justify-between items-center text-sm">
-                     <span>Payment: {foundSale.payment_method}</span>
+                     <span>
+                       Payment: {paymentsForSale(foundSale).map((p) => `${TENDER_LABELS[p.method]} ${formatPKR(p.amount)}`).join(' + ') || tenderLabel(foundSale.payment_method)}
+                     </span>
                      <span>Total: {formatPKR(foundSale.total)}</span>
                    </div>
                 </div>
@@ -547,7 +768,7 @@ export default function SalesReport() {
                     </div>
                     <div>
                       <p className="font-bold">Expired – Return Not Allowed</p>
-                      <p className="text-sm">This receipt is older than 2 days.</p>
+                      <p className="text-sm">This receipt is older than {returnWindowLabel}.</p>
                     </div>
                   </div>
                 ) : (
@@ -651,6 +872,9 @@ export default function SalesReport() {
                               </TableCell>
                               <TableCell className="text-right">
                                 {item.quantity}
+                                {(item.unit_factor ?? 1) > 1 && (
+                                  <span className="text-xs text-muted-foreground block">sold as {formatSoldQuantity(item)}</span>
+                                )}
                                 {alreadyReturned > 0 && <span className="text-xs text-red-500 block">(-{alreadyReturned} returned)</span>}
                               </TableCell>
                               <TableCell className="text-right">
@@ -712,6 +936,8 @@ export default function SalesReport() {
       </TabsContent>
       </Tabs>
       </div>
+
+      <ReceiptViewerDialog sale={viewingSale} onOpenChange={(open) => !open && setViewingSale(null)} />
     </MainLayout>
   );
 }
@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSettings, DEFAULT_PAYMENT_METHODS, type StoreSettings } from '@/hooks/useSettings';
+import type { PaperWidth } from '@/lib/escpos';
+import { TENDER_LABELS, type TenderMethod } from '@/lib/tender';
+import { format, parseISO } from 'date-fns';
+import { Settings as SettingsIcon, Loader2, Upload, X, Pill } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Inputs are kept as typed; numbers are parsed on save
+interface SettingsForm {
+  store_name: string;
+  tagline: string;
+  address: string;
+  license_number: string;
+  phone: string;
+  email: string;
+  logo_url: string;
+  receipt_header: string;
+  receipt_footer: string;
+  return_policy: string;
+  expiry_warning_days: string;
+  short_expiry_days: string;
+  return_window_hours: string;
+  max_discount_percent: string;
+  receipt_paper_width: PaperWidth;
+  default_payment_method: TenderMethod;
+}
+
+const toForm = (settings: StoreSettings): SettingsForm => ({
+  store_name: settings.store_name,
+  tagline: settings.tagline || '',
+  address: settings.address || '',
+  license_number: settings.license_number || '',
+  phone: settings.phone || '',
+  email: settings.email || '',
+  logo_url: settings.logo_url || '',
+  receipt_header: settings.receipt_header || '',
+  receipt_footer: settings.receipt_footer || '',
+  return_policy: settings.return_policy || '',
+  expiry_warning_days: String(settings.expiry_warning_days),
+  short_expiry_days: String(settings.short_expiry_days),
+  return_window_hours: String(settings.return_window_hours),
+  max_discount_percent: String(settings.max_discount_percent),
+  receipt_paper_width: settings.receipt_paper_width,
+  default_payment_method: settings.default_payment_method,
+});
+
+const toWholeNumber = (value: string) => (/^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN);
+
+export default function Settings() {
+  const { settings, loading, updateSettings, uploadLogo } = useSettings();
+  const [form, setForm] = useState<SettingsForm>(() => toForm(settings));
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  // Pick up the fresh row once it arrives, and after each save
+  useEffect(() => {
+    setForm(toForm(settings));
+  }, [settings]);
+
+  const update = (changes: Partial<SettingsForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploading(true);
+    const url = await uploadLogo(file);
+    setUploading(false);
+    if (url) update({ logo_url: url });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.store_name.trim()) {
+      toast.error('Store name is required');
+      return;
+    }
+
+    const expiryWarningDays = toWholeNumber(form.expiry_warning_days);
+    const shortExpiryDays = toWholeNumber(form.short_expiry_days);
+    const returnWindowHours = toWholeNumber(form.return_window_hours);
+    const maxDiscount = parseFloat(form.max_discount_percent);
+
+    if (isNaN(expiryWarningDays) || expiryWarningDays < 1 || expiryWarningDays > 365) {
+      toast.error('Expiry warning must be 1-365 days');
+      return;
+    }
+    if (isNaN(shortExpiryDays) || shortExpiryDays < 1 || shortExpiryDays > 730) {
+      toast.error('Short expiry on receipt must be 1-730 days');
+      return;
+    }
+    if (isNaN(returnWindowHours) || returnWindowHours > 8760) {
+      toast.error('Return window must be 0-8760 hours');
+      return;
+    }
+    if (isNaN(maxDiscount) || maxDiscount < 0 || maxDiscount > 100) {
+      toast.error('Discount limit must be 0-100%');
+      return;
+    }
+
+    setSaving(true);
+    await updateSettings({
+      ...form,
+      expiry_warning_days: expiryWarningDays,
+      short_expiry_days: shortExpiryDays,
+      return_window_hours: returnWindowHours,
+      max_discount_percent: Math.round(maxDiscount * 100) / 100,
+    });
+    setSaving(false);
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="page-header mb-6 sm:mb-8">
+          <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+            <SettingsIcon className="w-8 h-8 text-primary" />
+            Settings
+          </h1>
+          <p className="page-subtitle text-sm sm:text-base">
+            Store details, receipts and the limits every till works to
+            {settings.updated_at && ` • Last changed ${format(parseISO(settings.updated_at), 'MMM d, yyyy h:mm a')}`}
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6 max-w-3xl">
+            {/* Store */}
+            <section className="bg-card rounded-2xl border border-border/60 shadow-sm p-5 space-y-4">
+              <div>
+                <h2 className="text-base sm:text-lg font-semibold text-foreground">Store</h2>
+                <p className="text-sm text-muted-foreground">
+                  Shown in the sidebar, on the login page and at the top of receipts and reports. A branch's own address,
+                  phone and licence take the place of these on its receipts.
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="w-16 h-16 rounded-2xl border border-border bg-muted/50 flex items-center justify-center overflow-hidden flex-shrink-0">
+                  {form.logo_url ? (
+                    <img src={form.logo_url} alt="Store logo" className="w-full h-full object-contain" />
+                  ) : (
+                    <Pill className="w-6 h-6 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" variant="outline" size="sm" disabled={uploading} asChild>
+                    <label className="cursor-pointer">
+                      {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                      Upload Logo
+                      <input type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+                    </label>
+                  </Button>
+                  {form.logo_url && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => update({ logo_url: '' })}>
+                      <X className="w-4 h-4 mr-2" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="storeName">Store Name *</Label>
+                  <Input id="storeName" value={form.store_name} onChange={(e) => update({ store_name: e.target.value })} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tagline">Tagline</Label>
+                  <Input id="tagline" value={form.tagline} onChange={(e) => update({ tagline: e.target.value })} />
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="address">Address</Label>
+                  <Input id="address" value={form.address} onChange={(e) => update({ address: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="licenseNumber">Drug Sale Licence</Label>
+                  <Input
+                    id="licenseNumber"
+                    value={form.license_number}
+                    onChange={(e) => update({ license_number: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input id="phone" value={form.phone} onChange={(e) => update({ phone: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" value={form.email} onChange={(e) => update({ email: e.target.value })} />
+                </div>
+              </div>
+            </section>
+
+            {/* Receipts */}
+            <section className="bg-card rounded-2xl border border-border/60 shadow-sm p-5 space-y-4">
+              <div>
+                <h2 className="text-base sm:text-lg font-semibold text-foreground">Receipts</h2>
+                <p className="text-sm text-muted-foreground">Printed on every receipt, from the browser or the thermal printer</p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="receiptHeader">Header</Label>
+                  <Textarea
+                    id="receiptHeader"
+                    value={form.receipt_header}
+                    onChange={(e) => update({ receipt_header: e.target.value })}
+                    placeholder="e.g. NTN 1234567-8"
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="returnPolicy">Return Policy</Label>
+                  <Input id="returnPolicy" value={form.return_policy} onChange={(e) => update({ return_policy: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptFooter">Footer</Label>
+                  <Input id="receiptFooter" value={form.receipt_footer} onChange={(e) => update({ receipt_footer: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Thermal Paper Width</Label>
+                  <Select
+                    value={String(form.receipt_paper_width)}
+                    onValueChange={(value) => update({ receipt_paper_width: Number(value) as PaperWidth })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="58">58mm</SelectItem>
+                      <SelectItem value="80">80mm</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </section>
+
+            {/* Stock and sales */}
+            <section className="bg-card rounded-2xl border border-border/60 shadow-sm p-5 space-y-4">
+              <div>
+                <h2 className="text-base sm:text-lg font-semibold text-foreground">Stock and Sales</h2>
+                <p className="text-sm text-muted-foreground">Warnings and limits applied at every till</p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="expiryWarningDays">Expiry Warning (days)</Label>
+                  <Input
+                    id="expiryWarningDays"
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={form.expiry_warning_days}
+                    onChange={(e) => update({ expiry_warning_days: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">Stock expiring within this is flagged at the POS and in stock lists</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="shortExpiryDays">Short Expiry on Receipt (days)</Label>
+                  <Input
+                    id="shortExpiryDays"
+                    type="number"
+                    min={1}
+                    max={730}
+                    value={form.short_expiry_days}
+                    onChange={(e) => update({ short_expiry_days: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">Goods received expiring within this are flagged on the GRN</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="returnWindowHours">Return Window (hours)</Label>
+                  <Input
+                    id="returnWindowHours"
+                    type="number"
+                    min={0}
+                    max={8760}
+                    value={form.return_window_hours}
+                    onChange={(e) => update({ return_window_hours: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">Receipts older than this cannot be returned against</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxDiscountPercent">Discount Limit (%)</Label>
+                  <Input
+                    id="maxDiscountPercent"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.01"
+                    value={form.max_discount_percent}
+                    onChange={(e) => update({ max_discount_percent: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">Largest discount staff may give; owners are not limited</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Default Payment Method</Label>
+                  <Select
+                    value={form.default_payment_method}
+                    onValueChange={(value) => update({ default_payment_method: value as TenderMethod })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEFAULT_PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {TENDER_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Listed first at checkout; a wallet also becomes the Mobile button</p>
+                </div>
+              </div>
+            </section>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving || uploading} className="w-full sm:w-auto">
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Settings
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,544 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useRacks } from '@/hooks/useRacks';
+import { useProducts } from '@/hooks/useProducts';
+import { StockCount, StockCountLine, useStockCounts } from '@/hooks/useStockCounts';
+import { formatPKR } from '@/lib/currency';
+import { format } from 'date-fns';
+import { ArrowLeft, CheckCircle2, ClipboardCheck, EyeOff, Loader2, Plus, ScanBarcode, Send, XCircle } from 'lucide-react';
+
+const ALL_RACKS = 'all';
+
+// Batches not on the sheet offered while searching
+const SEARCH_LIMIT = 5;
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '-');
+
+const STATUS_LABELS: Record<StockCount['status'], string> = {
+  open: 'Counting',
+  submitted: 'Awaiting posting',
+  posted: 'Posted',
+  cancelled: 'Cancelled',
+};
+
+const statusBadge = (count: StockCount) => {
+  if (count.status === 'posted') return <Badge variant="secondary">{STATUS_LABELS.posted}</Badge>;
+  if (count.status === 'cancelled') return <Badge variant="outline">{STATUS_LABELS.cancelled}</Badge>;
+  return <Badge>{STATUS_LABELS[count.status]}</Badge>;
+};
+
+export default function StockCounts() {
+  const { can } = useAuth();
+  const { racks } = useRacks();
+  const { products, batches } = useProducts();
+  const { counts, loading, startCount, getCountSheet, recordCount, submitCount, postCount, cancelCount } =
+    useStockCounts();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [saving, setSaving] = useState(false);
+
+  // Start dialog
+  const [isStartOpen, setIsStartOpen] = useState(false);
+  const [selectedRacks, setSelectedRacks] = useState<string[]>([]);
+  const [blind, setBlind] = useState(true);
+  const [notes, setNotes] = useState('');
+
+  // Count sheet
+  const [activeCount, setActiveCount] = useState<StockCount | null>(null);
+  const [lines, setLines] = useState<StockCountLine[]>([]);
+  const [sheetLoading, setSheetLoading] = useState(false);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState('');
+  const [rackFilter, setRackFilter] = useState(ALL_RACKS);
+
+  const canPost = can('products.manage');
+  const rackName = (id: string | null) => racks.find((r) => r.id === id)?.name ?? 'No rack';
+  const isCounting = activeCount?.status === 'open';
+
+  // Racks.tsx links here with ?rack=<id> to count one shelf
+  useEffect(() => {
+    const rackId = searchParams.get('rack');
+    if (!rackId) return;
+    setSelectedRacks([rackId]);
+    setBlind(true);
+    setNotes('');
+    setIsStartOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const openSheet = async (count: StockCount) => {
+    setActiveCount(count);
+    setSearch('');
+    setRackFilter(ALL_RACKS);
+    setSheetLoading(true);
+    const sheet = await getCountSheet(count.id);
+    setLines(sheet);
+    setInputs(
+      Object.fromEntries(
+        sheet.map((line) => [line.batch_id, line.counted_quantity === null ? '' : String(line.counted_quantity)])
+      )
+    );
+    setSheetLoading(false);
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const count = await startCount(selectedRacks, blind, notes);
+    setSaving(false);
+    if (count) {
+      setIsStartOpen(false);
+      openSheet(count);
+    }
+  };
+
+  const saveLine = async (line: StockCountLine) => {
+    const raw = (inputs[line.batch_id] ?? '').trim();
+    const counted = raw === '' ? null : Number(raw);
+    if (counted !== null && (!Number.isInteger(counted) || counted < 0)) {
+      setInputs((prev) => ({ ...prev, [line.batch_id]: line.counted_quantity === null ? '' : String(line.counted_quantity) }));
+      return;
+    }
+    if (counted === line.counted_quantity || !activeCount) return;
+
+    const ok = await recordCount(activeCount.id, line.batch_id, counted);
+    if (ok) {
+      setLines((prev) =>
+        prev.map((l) =>
+          l.batch_id === line.batch_id
+            ? {
+                ...l,
+                counted_quantity: counted,
+                variance: counted === null || l.expected_quantity === null ? null : counted - l.expected_quantity,
+              }
+            : l
+        )
+      );
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+
+  // An exact barcode scan narrows the sheet to that product
+  const scannedProductId = useMemo(
+    () => (term ? products.find((p) => p.barcode?.toLowerCase() === term)?.id ?? null : null),
+    [term, products]
+  );
+
+  const visibleLines = useMemo(
+    () =>
+      lines.filter((line) => {
+        if (rackFilter !== ALL_RACKS && line.rack_id !== rackFilter) return false;
+        if (!term) return true;
+        if (scannedProductId) return line.product_id === scannedProductId;
+        return line.product_name.toLowerCase().includes(term) || line.batch_number.toLowerCase().includes(term);
+      }),
+    [lines, rackFilter, term, scannedProductId]
+  );
+
+  // Stock found on these shelves that was not frozen with the count
+  const extraBatches = useMemo(() => {
+    if (!term || !isCounting) return [];
+    const names = new Map(products.map((p) => [p.id, p.name]));
+    return batches
+      .filter(
+        (b) =>
+          !lines.some((line) => line.batch_id === b.id) &&
+          (scannedProductId
+            ? b.product_id === scannedProductId
+            : (names.get(b.product_id) ?? '').toLowerCase().includes(term) || b.batch_number.toLowerCase().includes(term))
+      )
+      .slice(0, SEARCH_LIMIT);
+  }, [term, isCounting, batches, products, lines, scannedProductId]);
+
+  const addExtraLine = (batchId: string) => {
+    const batch = batches.find((b) => b.id === batchId);
+    const product = products.find((p) => p.id === batch?.product_id);
+    if (!batch || !product) return;
+    setLines((prev) => [
+      ...prev,
+      {
+        item_id: -prev.length - 1,
+        batch_id: batch.id,
+        product_id: batch.product_id,
+        product_name: product.name,
+        barcode: product.barcode,
+        rack_id: product.rack_id ?? null,
+        batch_number: batch.batch_number,
+        expiry_date: batch.expiry_date,
+        expected_quantity: activeCount?.blind ? null : batch.quantity,
+        counted_quantity: null,
+        variance: null,
+        cost_price: activeCount?.blind ? null : batch.cost_price,
+        counted_by: null,
+        counted_at: null,
+      },
+    ]);
+    setInputs((prev) => ({ ...prev, [batch.id]: '' }));
+  };
+
+  const countedLines = lines.filter((line) => line.counted_quantity !== null);
+  const varianceLines = countedLines.filter((line) => (line.variance ?? 0) !== 0);
+  const varianceValue = varianceLines.reduce(
+    (sum, line) => sum + (line.variance ?? 0) * Number(line.cost_price ?? 0),
+    0
+  );
+
+  const runSheetAction = async (action: (id: string) => Promise<boolean>) => {
+    if (!activeCount) return;
+    setSaving(true);
+    const ok = await action(activeCount.id);
+    setSaving(false);
+    if (ok) {
+      setActiveCount(null);
+    }
+  };
+
+  const toggleRack = (rackId: string, checked: boolean) => {
+    setSelectedRacks((prev) => (checked ? [...prev, rackId] : prev.filter((id) => id !== rackId)));
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {activeCount ? (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+              <div className="page-header mb-0">
+                <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+                  <Button variant="ghost" size="icon" onClick={() => setActiveCount(null)} aria-label="Back to counts">
+                    <ArrowLeft className="w-5 h-5" />
+                  </Button>
+                  Count {activeCount.count_number}
+                  {activeCount.blind && isCounting && (
+                    <Badge variant="outline" className="gap-1">
+                      <EyeOff className="w-3 h-3" />
+                      Blind
+                    </Badge>
+                  )}
+                </h1>
+                <p className="page-subtitle text-sm sm:text-base">
+                  {activeCount.rack_ids.map(rackName).join(', ')} • {countedLines.length} of {lines.length} batches counted
+                </p>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                {isCounting && (
+                  <Button onClick={() => runSheetAction(submitCount)} disabled={saving} className="w-full sm:w-auto">
+                    {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                    Finish Counting
+                  </Button>
+                )}
+                {canPost && activeCount.status === 'submitted' && (
+                  <Button onClick={() => runSheetAction(postCount)} disabled={saving} className="w-full sm:w-auto">
+                    {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle2 className="w-4 h-4 mr-2" />}
+                    Post Differences
+                  </Button>
+                )}
+                {canPost && (isCounting || activeCount.status === 'submitted') && (
+                  <Button
+                    variant="outline"
+                    onClick={() => runSheetAction(cancelCount)}
+                    disabled={saving}
+                    className="w-full sm:w-auto"
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel Count
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {!isCounting && activeCount.status !== 'cancelled' && (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4 sm:mb-6">
+                <div className="stat-card">
+                  <p className="text-sm text-muted-foreground">Counted</p>
+                  <p className="text-xl font-bold">
+                    {countedLines.length} / {lines.length}
+                  </p>
+                </div>
+                <div className="stat-card">
+                  <p className="text-sm text-muted-foreground">Batches with differences</p>
+                  <p className="text-xl font-bold">{varianceLines.length}</p>
+                </div>
+                <div className="stat-card">
+                  <p className="text-sm text-muted-foreground">Difference at cost</p>
+                  <p className={`text-xl font-bold ${varianceValue < 0 ? 'text-destructive' : ''}`}>
+                    {formatPKR(varianceValue)}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-3 mb-4">
+              <div className="relative flex-1">
+                <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Scan a barcode or search by product or batch"
+                  className="pl-9"
+                  autoFocus
+                />
+              </div>
+              {activeCount.rack_ids.length > 1 && (
+                <Select value={rackFilter} onValueChange={setRackFilter}>
+                  <SelectTrigger className="w-full sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_RACKS}>All racks</SelectItem>
+                    {activeCount.rack_ids.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {rackName(id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {extraBatches.length > 0 && (
+              <div className="rounded-xl border border-border divide-y divide-border mb-4">
+                <p className="px-3 py-2 text-xs text-muted-foreground">Not on this sheet</p>
+                {extraBatches.map((batch) => (
+                  <button
+                    key={batch.id}
+                    type="button"
+                    onClick={() => addExtraLine(batch.id)}
+                    className="w-full text-left px-3 py-2 hover:bg-muted/50 text-sm flex justify-between gap-3"
+                  >
+                    <span className="truncate">
+                      {products.find((p) => p.id === batch.product_id)?.name ?? 'Unknown product'} • Batch{' '}
+                      {batch.batch_number}
+                    </span>
+                    <span className="text-primary whitespace-nowrap">Add to count</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="table-header">
+                      <TableHead>Product</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Rack</TableHead>
+                      {!activeCount.blind || !isCounting ? <TableHead className="text-right">System</TableHead> : null}
+                      <TableHead className="text-right">Counted</TableHead>
+                      {!isCounting && <TableHead className="text-right">Difference</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sheetLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-12">
+                          <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : visibleLines.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-12 text-muted-foreground">
+                          {lines.length === 0 ? 'No stock on these racks' : 'No batches match'}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      visibleLines.map((line) => (
+                        <TableRow key={line.batch_id} className="hover:bg-muted/30">
+                          <TableCell className="font-medium">{line.product_name}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            <span className="font-mono text-sm">{line.batch_number}</span>
+                            <span className="text-xs text-muted-foreground ml-2">
+                              exp {format(new Date(line.expiry_date), 'MMM yyyy')}
+                            </span>
+                          </TableCell>
+                          <TableCell>{rackName(line.rack_id)}</TableCell>
+                          {!activeCount.blind || !isCounting ? (
+                            <TableCell className="text-right">{line.expected_quantity ?? '-'}</TableCell>
+                          ) : null}
+                          <TableCell className="text-right">
+                            {isCounting ? (
+                              <Input
+                                type="number"
+                                inputMode="numeric"
+                                min="0"
+                                step="1"
+                                value={inputs[line.batch_id] ?? ''}
+                                onChange={(e) => setInputs((prev) => ({ ...prev, [line.batch_id]: e.target.value }))}
+                                onBlur={() => saveLine(line)}
+                                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                className="w-24 ml-auto text-right"
+                                aria-label={`Counted quantity for batch ${line.batch_number}`}
+                              />
+                            ) : (
+                              line.counted_quantity ?? <span className="text-muted-foreground">Not counted</span>
+                            )}
+                          </TableCell>
+                          {!isCounting && (
+                            <TableCell
+                              className={`text-right font-medium ${
+                                (line.variance ?? 0) < 0 ? 'text-destructive' : (line.variance ?? 0) > 0 ? 'text-success' : ''
+                              }`}
+                            >
+                              {line.variance === null ? '-' : `${line.variance > 0 ? '+' : ''}${line.variance}`}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+              <div className="page-header mb-0">
+                <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+                  <ClipboardCheck className="w-8 h-8 text-primary" />
+                  Stock Counts
+                </h1>
+                <p className="page-subtitle text-sm sm:text-base">Count racks shelf by shelf and post the differences</p>
+              </div>
+              <Button
+                onClick={() => {
+                  setSelectedRacks([]);
+                  setBlind(true);
+                  setNotes('');
+                  setIsStartOpen(true);
+                }}
+                disabled={racks.length === 0}
+                className="shadow-sm w-full sm:w-auto"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Start Count
+              </Button>
+            </div>
+
+            <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="table-header">
+                      <TableHead>Count</TableHead>
+                      <TableHead>Racks</TableHead>
+                      <TableHead>Mode</TableHead>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-12">
+                          <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : counts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-12 text-muted-foreground">
+                          No stock counts yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      counts.map((count) => (
+                        <TableRow key={count.id} className="hover:bg-muted/30">
+                          <TableCell className="font-mono text-sm">{count.count_number}</TableCell>
+                          <TableCell>{count.rack_ids.map(rackName).join(', ')}</TableCell>
+                          <TableCell>{count.blind ? 'Blind' : 'Open'}</TableCell>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">{formatTime(count.started_at)}</TableCell>
+                          <TableCell>{statusBadge(count)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => openSheet(count)}>
+                              {count.status === 'open' ? 'Count' : 'View'}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Start count */}
+        <Dialog open={isStartOpen} onOpenChange={setIsStartOpen}>
+          <DialogContent className="max-w-lg w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Start Count</DialogTitle>
+              <DialogDescription>The system quantities on these racks are frozen when the count starts.</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleStart} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Racks *</Label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {racks.map((rack) => (
+                    <label
+                      key={rack.id}
+                      className="flex items-center gap-2 p-2 rounded-lg border border-border cursor-pointer hover:bg-muted/50"
+                    >
+                      <Checkbox
+                        checked={selectedRacks.includes(rack.id)}
+                        onCheckedChange={(checked) => toggleRack(rack.id, checked === true)}
+                      />
+                      <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: rack.color }} />
+                      <span className="text-sm truncate">{rack.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-4 p-3 rounded-xl border border-border">
+                <div>
+                  <Label htmlFor="blindCount">Blind count</Label>
+                  <p className="text-xs text-muted-foreground">Hide system quantities until counting is finished</p>
+                </div>
+                <Switch id="blindCount" checked={blind} onCheckedChange={setBlind} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="countNotes">Notes</Label>
+                <Input id="countNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsStartOpen(false)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving || selectedRacks.length === 0} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Start Count
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
@@ -3,8 +3,11 @@ import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { formatPKR } from '@/lib/currency';
+import { parseGs1 } from '@/lib/gs1';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Search, Check, ChevronsUpDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
@@ -35,15 +38,28 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
+import { BarcodeScanner } from '@/components/pos/BarcodeScanner';
 import { useProducts, type Product } from '@/hooks/useProducts';
 import { useSales } from '@/hooks/useSales';
-import { Plus, PackagePlus, Package, Layers } from 'lucide-react';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { useSettings } from '@/hooks/useSettings';
+import { useAuth } from '@/hooks/useAuth';
+import { Plus, PackagePlus, Package, Layers, FileText, Undo2 } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
 import { format, parseISO, isBefore, addDays, startOfToday } from 'date-fns';
 import { toast } from 'sonner';
 
+const NO_SUPPLIER = 'none';
+
 export default function StockPurchases() {
-  const { products, batches, getProductStock, addBatch, fetchProducts } = useProducts();
+  const { products, batches, getProductStock, getProductByBarcode, lookupBarcode, addBatch, fetchProducts } = useProducts();
   const { sales } = useSales();
+  const { activeSuppliers } = useSuppliers();
+  const { can } = useAuth();
+  const { settings } = useSettings();
+  const navigate = useNavigate();
+  const canReturnToSupplier = can('purchasing.manage');
+  const [returnBatchIds, setReturnBatchIds] = useState<Set<string>>(new Set());
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [open, setOpen] = useState(false);
   const [search, setSearch] = useState('');
@@ -56,7 +72,7 @@ export default function StockPurchases() {
     costPrice: '',
     sellingPrice: '',
     expiryDate: '',
-    supplier: '',
+    supplierId: '',
   });
 
   // Server-side search to handle large datasets
@@ -87,7 +103,7 @@ export default function StockPurchases() {
     return true;
   });
 
-  const handleProductSelect = (product: Product) => {
+  const handleProductSelect = (product: Product, packDetails?: { batchNumber: string; expiryDate: string }) => {
     const latestBatch = batches
       .filter(b => b.product_id === product.id)
       .sort((a, b) => new Date(b.purchase_date).getTime() - new Date(a.purchase_date).getTime())[0];
@@ -97,12 +113,43 @@ export default function StockPurchases() {
       productId: product.id,
       costPrice: latestBatch?.cost_price.toString() || '',
       sellingPrice: latestBatch?.selling_price.toString() || '',
-      supplier: latestBatch?.supplier || '',
+      supplierId: latestBatch?.supplier_id || '',
+      ...packDetails,
     });
     setSavedSelectedProduct(product);
     setOpen(false);
   };
 
+  // A GS1 pack fills in the product, batch number and expiry
+  const handlePackScan = async (barcode: string) => {
+    const product = getProductByBarcode(barcode) ?? (await lookupBarcode(barcode));
+    if (!product) {
+      toast.error('Product not found', { description: `No product with barcode ${barcode}` });
+      return;
+    }
+
+    const scan = parseGs1(barcode);
+    handleProductSelect(
+      product,
+      scan
+        ? {
+            batchNumber: scan.batchNumber ?? formData.batchNumber,
+            expiryDate: scan.expiryDate ?? formData.expiryDate,
+          }
+        : undefined
+    );
+    if (scan?.batchNumber || scan?.expiryDate) {
+      toast.success('Read from the pack', {
+        description: [
+          scan.batchNumber ? `Batch ${scan.batchNumber}` : '',
+          scan.expiryDate ? `Expiry ${format(parseISO(scan.expiryDate), 'MMM d, yyyy')}` : '',
+        ]
+          .filter(Boolean)
+          .join(' • '),
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -154,7 +201,9 @@ export default function StockPurchases() {
       selling_price: sellingPrice,
       expiry_date: formData.expiryDate,
       purchase_date: new Date().toISOString().split('T')[0],
-      supplier: formData.supplier || null,
+      supplier: activeSuppliers.find((s) => s.id === formData.supplierId)?.name || null,
+      supplier_id: formData.supplierId || null,
+      purchase_order_item_id: null,
     });
 
     if (result) {
@@ -162,7 +211,7 @@ export default function StockPurchases() {
         description: `Added ${quantity} units of ${selectedProduct.name} (Batch: ${formData.batchNumber})`,
       });
 
-      setFormData({ productId: '', batchNumber: '', quantity: '', costPrice: '', sellingPrice: '', expiryDate: '', supplier: '' });
+      setFormData({ productId: '', batchNumber: '', quantity: '', costPrice: '', sellingPrice: '', expiryDate: '', supplierId: '' });
       setSavedSelectedProduct(null);
       setIsFormOpen(false);
     }
@@ -176,7 +225,7 @@ export default function StockPurchases() {
   const getExpiryBadge = (expiryDate: string) => {
     const expiry = parseISO(expiryDate);
     const isExpired = isBefore(expiry, today);
-    const isExpiringSoon = isBefore(expiry, addDays(today, 30));
+    const isExpiringSoon = isBefore(expiry, addDays(today, settings.expiry_warning_days));
 
     if (isExpired) {
       return <Badge variant="destructive">Expired</Badge>;
@@ -195,10 +244,28 @@ export default function StockPurchases() {
             <h1 className="page-title text-2xl sm:text-3xl">Stock Purchases</h1>
             <p className="page-subtitle text-sm sm:text-base">Record batch-wise inventory purchases with expiry tracking</p>
           </div>
-          <Button onClick={() => setIsFormOpen(true)} className="shadow-sm w-full sm:w-auto">
-            <Plus className="w-4 h-4 mr-2" />
-            Add Purchase
-          </Button>
+          <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+            {canReturnToSupplier && returnBatchIds.size > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/supplier-returns?batches=${Array.from(returnBatchIds).join(',')}`)}
+                className="w-full sm:w-auto"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Return to Supplier ({returnBatchIds.size})
+              </Button>
+            )}
+            <Button variant="outline" asChild className="w-full sm:w-auto">
+              <Link to="/grn">
+                <FileText className="w-4 h-4 mr-2" />
+                Receive Invoice
+              </Link>
+            </Button>
+            <Button onClick={() => setIsFormOpen(true)} className="shadow-sm w-full sm:w-auto">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Purchase
+            </Button>
+          </div>
         </div>
 
         {/* Batch Summary */}
@@ -223,10 +290,10 @@ export default function StockPurchases() {
                 <p className="text-2xl font-bold text-foreground">
                   {batches.filter(b => {
                     const expiry = parseISO(b.expiry_date);
-                    return b.quantity > 0 && !isBefore(expiry, today) && isBefore(expiry, addDays(today, 30));
+                    return b.quantity > 0 && !isBefore(expiry, today) && isBefore(expiry, addDays(today, settings.expiry_warning_days));
                   }).length}
                 </p>
-                <p className="text-sm text-muted-foreground">Expiring in 30 days</p>
+                <p className="text-sm text-muted-foreground">Expiring in {settings.expiry_warning_days} days</p>
               </div>
             </div>
           </div>
@@ -250,6 +317,7 @@ export default function StockPurchases() {
             <Table>
             <TableHeader>
               <TableRow className="table-header">
+                {canReturnToSupplier && <TableHead className="w-10" />}
                 <TableHead>Product</TableHead>
                 <TableHead>Batch No.</TableHead>
                 <TableHead>Supplier</TableHead>
@@ -265,6 +333,24 @@ export default function StockPurchases() {
                 const product = products.find(p => p.id === batch.product_id);
                 return (
                   <TableRow key={batch.id} className="hover:bg-muted/30">
+                    {canReturnToSupplier && (
+                      <TableCell>
+                        {batch.quantity > 0 && (
+                          <Checkbox
+                            checked={returnBatchIds.has(batch.id)}
+                            onCheckedChange={(checked) =>
+                              setReturnBatchIds((prev) => {
+                                const next = new Set(prev);
+                                if (checked === true) next.add(batch.id);
+                                else next.delete(batch.id);
+                                return next;
+                              })
+                            }
+                            aria-label="Select for return to supplier"
+                          />
+                        )}
+                      </TableCell>
+                    )}
                     <TableCell>
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
@@ -289,7 +375,7 @@ export default function StockPurchases() {
               })}
               {sortedBatches.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={8} className="text-center py-12">
+                  <TableCell colSpan={canReturnToSupplier ? 9 : 8} className="text-center py-12">
                     <div className="w-16 h-16 rounded-2xl bg-muted/50 flex items-center justify-center mx-auto mb-4">
                       <PackagePlus className="w-8 h-8 text-muted-foreground/50" />
                     </div>
@@ -312,6 +398,11 @@ export default function StockPurchases() {
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Scan Pack</Label>
+                <BarcodeScanner onScan={handlePackScan} />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="product">Product</Label>
                 <Popover open={open} onOpenChange={setOpen}>
@@ -421,12 +512,25 @@ export default function StockPurchases() {
 
               <div className="space-y-2">
                 <Label htmlFor="supplier">Supplier</Label>
-                <Input
-                  id="supplier"
-                  value={formData.supplier}
-                  onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
-                  placeholder="Leave empty to use default supplier"
-                />
+                <Select
+                  value={formData.supplierId || NO_SUPPLIER}
+                  onValueChange={(value) => setFormData({ ...formData, supplierId: value === NO_SUPPLIER ? '' : value })}
+                >
+                  <SelectTrigger id="supplier">
+                    <SelectValue placeholder="Select a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                    {activeSuppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Deliveries against a purchase order are received from the Purchase Orders page
+                </p>
               </div>
 
               {formData.quantity && formData.costPrice && (
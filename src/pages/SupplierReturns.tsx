@@ -0,0 +1,618 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useProducts, StockBatch } from '@/hooks/useProducts';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { useBranches } from '@/hooks/useBranches';
+import { SupplierReturn, supplierReturnValue, useSupplierReturns } from '@/hooks/useSupplierReturns';
+import { useSettings } from '@/hooks/useSettings';
+import { formatPKR } from '@/lib/currency';
+import { format, parseISO, startOfToday, isBefore } from 'date-fns';
+import { Eye, Loader2, Plus, Printer, Search, Send, Trash2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Picker rows shown while searching for batches to return
+const SEARCH_LIMIT = 8;
+
+interface DraftLine {
+  batch: StockBatch;
+  supplierId: string;
+  quantity: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '-');
+
+const STATUS_LABELS: Record<SupplierReturn['status'], string> = {
+  draft: 'Draft',
+  dispatched: 'Awaiting credit',
+  credited: 'Credited',
+  cancelled: 'Cancelled',
+};
+
+const statusBadge = (supplierReturn: SupplierReturn) => {
+  if (supplierReturn.status === 'credited') return <Badge variant="secondary">{STATUS_LABELS.credited}</Badge>;
+  if (supplierReturn.status === 'cancelled') return <Badge variant="outline">{STATUS_LABELS.cancelled}</Badge>;
+  if (supplierReturn.status === 'draft') return <Badge variant="outline">{STATUS_LABELS.draft}</Badge>;
+  return <Badge>{STATUS_LABELS.dispatched}</Badge>;
+};
+
+export default function SupplierReturns() {
+  const { settings } = useSettings();
+  const { products, batches, loading: stockLoading } = useProducts();
+  const { suppliers, activeSuppliers } = useSuppliers();
+  const { currentBranch } = useBranches();
+  const { returns, loading, createReturn, dispatchReturn, recordCredit, cancelReturn, refetch } = useSupplierReturns();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [saving, setSaving] = useState(false);
+
+  // New debit notes dialog
+  const [isNewOpen, setIsNewOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [notes, setNotes] = useState('');
+
+  // Details dialog
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [creditAmount, setCreditAmount] = useState('');
+  const [creditReference, setCreditReference] = useState('');
+  const [closeNote, setCloseNote] = useState(false);
+
+  const viewing = returns.find((r) => r.id === viewingId) ?? null;
+  const today = startOfToday();
+
+  const productName = (id: string) => products.find((p) => p.id === id)?.name ?? 'Unknown product';
+  const supplierName = (id: string) => suppliers.find((s) => s.id === id)?.name ?? 'Unknown supplier';
+
+  const awaitingCredit = returns
+    .filter((r) => r.status === 'dispatched')
+    .reduce((sum, r) => sum + Math.max(supplierReturnValue(r) - Number(r.credit_received), 0), 0);
+  const draftCount = returns.filter((r) => r.status === 'draft').length;
+
+  const toLine = (batch: StockBatch): DraftLine => ({
+    batch,
+    supplierId: batch.supplier_id ?? '',
+    quantity: String(batch.quantity),
+  });
+
+  // The Dashboard and Stock Purchases link here with ?batches=<id>,<id>
+  useEffect(() => {
+    const ids = searchParams.get('batches');
+    if (!ids || stockLoading) return;
+    const selected = ids
+      .split(',')
+      .map((id) => batches.find((b) => b.id === id))
+      .filter((b): b is StockBatch => !!b && b.quantity > 0);
+    setLines(selected.map(toLine));
+    setSearch('');
+    setNotes('');
+    setIsNewOpen(true);
+    setSearchParams({}, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, stockLoading]);
+
+  const matchingBatches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    const names = new Map(products.map((p) => [p.id, p.name.toLowerCase()]));
+    return batches
+      .filter(
+        (b) =>
+          b.quantity > 0 &&
+          !lines.some((line) => line.batch.id === b.id) &&
+          ((names.get(b.product_id) ?? '').includes(term) || b.batch_number.toLowerCase().includes(term))
+      )
+      .slice(0, SEARCH_LIMIT);
+  }, [search, batches, products, lines]);
+
+  // One debit note per supplier
+  const groups = useMemo(() => {
+    const bySupplier = new Map<string, DraftLine[]>();
+    lines.forEach((line) => bySupplier.set(line.supplierId, [...(bySupplier.get(line.supplierId) ?? []), line]));
+    return Array.from(bySupplier.entries());
+  }, [lines]);
+
+  const lineError = (line: DraftLine) => {
+    const quantity = Number(line.quantity);
+    if (!line.supplierId) return 'Choose the supplier';
+    if (!Number.isInteger(quantity) || quantity <= 0) return 'Enter a whole number';
+    if (quantity > line.batch.quantity) return `Only ${line.batch.quantity} in stock`;
+    return null;
+  };
+
+  const canCreate = lines.length > 0 && lines.every((line) => !lineError(line));
+
+  const updateLine = (batchId: string, changes: Partial<DraftLine>) =>
+    setLines((prev) => prev.map((l) => (l.batch.id === batchId ? { ...l, ...changes } : l)));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canCreate) return;
+    setSaving(true);
+    const created: string[] = [];
+    for (const [supplierId, groupLines] of groups) {
+      const result = await createReturn(
+        supplierId,
+        groupLines.map((line) => ({ batch_id: line.batch.id, quantity: Number(line.quantity) })),
+        notes
+      );
+      if (!result) break;
+      created.push(result.return_number);
+      // Drop drafted lines so a retry does not draft them twice
+      setLines((prev) => prev.filter((l) => l.supplierId !== supplierId));
+    }
+    await refetch();
+    setSaving(false);
+    if (created.length > 0) {
+      toast.success(`Drafted ${created.join(', ')}`);
+    }
+    if (created.length === groups.length) {
+      setIsNewOpen(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<boolean>) => {
+    setSaving(true);
+    const ok = await action();
+    setSaving(false);
+    return ok;
+  };
+
+  const handleRecordCredit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!viewing) return;
+    const ok = await runAction(() =>
+      recordCredit(viewing.id, parseFloat(creditAmount || '0'), creditReference, closeNote)
+    );
+    if (ok) {
+      setCreditAmount('');
+      setCreditReference('');
+      setCloseNote(false);
+    }
+  };
+
+  const handlePrint = (supplierReturn: SupplierReturn) => {
+    const printWindow = window.open('', '_blank', 'width=800,height=900');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the debit note');
+      return;
+    }
+
+    const rows = (supplierReturn.items ?? [])
+      .map(
+        (item, i) => `<tr>
+          <td>${i + 1}</td>
+          <td>${escapeHtml(item.product?.name ?? productName(item.product_id))}</td>
+          <td>${escapeHtml(item.batch_number)}</td>
+          <td>${format(parseISO(item.expiry_date), 'MMM yyyy')}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${escapeHtml(formatPKR(Number(item.cost_price)))}</td>
+          <td class="num">${escapeHtml(formatPKR(item.quantity * Number(item.cost_price)))}</td>
+        </tr>`
+      )
+      .join('');
+
+    const address = currentBranch?.address || settings.address || '';
+    const supplier = supplierReturn.supplier?.name ?? supplierName(supplierReturn.supplier_id);
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Debit Note ${escapeHtml(supplierReturn.return_number)}</title>
+          <style>
+            body { font-family: system-ui, sans-serif; padding: 24px; color: #111; }
+            h1 { font-size: 20px; margin: 0 0 4px; }
+            p { margin: 0 0 16px; color: #555; }
+            table { width: 100%; border-collapse: collapse; font-size: 13px; }
+            th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+            th { background: #f3f4f6; }
+            .num { text-align: right; }
+            .total td { font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <h1>${escapeHtml(settings.store_name)} - Debit Note ${escapeHtml(supplierReturn.return_number)}</h1>
+          <p>${escapeHtml(address)}<br />
+            To: ${escapeHtml(supplier)} &bull; ${format(new Date(supplierReturn.dispatched_at ?? supplierReturn.created_at), 'MMM d, yyyy')}</p>
+          <table>
+            <thead><tr><th>#</th><th>Product</th><th>Batch</th><th>Expiry</th><th class="num">Qty</th><th class="num">Cost</th><th class="num">Value</th></tr></thead>
+            <tbody>${rows}</tbody>
+            <tfoot><tr class="total"><td colspan="6">Total credit due</td><td class="num">${escapeHtml(formatPKR(supplierReturnValue(supplierReturn)))}</td></tr></tfoot>
+          </table>
+          ${supplierReturn.notes ? `<p style="margin-top:16px">${escapeHtml(supplierReturn.notes)}</p>` : ''}
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const expiryLabel = (expiryDate: string) => {
+    const expiry = parseISO(expiryDate);
+    return isBefore(expiry, today) ? 'expired' : `exp ${format(expiry, 'MMM yyyy')}`;
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <Undo2 className="w-8 h-8 text-primary" />
+              Supplier Returns
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Send expired and short-dated stock back for credit</p>
+          </div>
+          <Button
+            onClick={() => {
+              setLines([]);
+              setSearch('');
+              setNotes('');
+              setIsNewOpen(true);
+            }}
+            className="shadow-sm w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Debit Note
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-4 sm:mb-6">
+          <div className="stat-card">
+            <p className="text-sm text-muted-foreground">Credit awaited</p>
+            <p className="text-xl font-bold">{formatPKR(awaitingCredit)}</p>
+          </div>
+          <div className="stat-card">
+            <p className="text-sm text-muted-foreground">Drafts not dispatched</p>
+            <p className="text-xl font-bold">{draftCount}</p>
+          </div>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Debit Note</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Credited</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : returns.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                      No debit notes yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  returns.map((supplierReturn) => (
+                    <TableRow key={supplierReturn.id} className="hover:bg-muted/30">
+                      <TableCell className="font-mono text-sm">{supplierReturn.return_number}</TableCell>
+                      <TableCell>{supplierReturn.supplier?.name ?? supplierName(supplierReturn.supplier_id)}</TableCell>
+                      <TableCell className="text-right">{formatPKR(supplierReturnValue(supplierReturn))}</TableCell>
+                      <TableCell className="text-right">{formatPKR(Number(supplierReturn.credit_received))}</TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">{formatTime(supplierReturn.created_at)}</TableCell>
+                      <TableCell>{statusBadge(supplierReturn)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewingId(supplierReturn.id)}>
+                          <Eye className="w-4 h-4 mr-1" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* New debit notes */}
+        <Dialog open={isNewOpen} onOpenChange={setIsNewOpen}>
+          <DialogContent className="max-w-2xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Debit Note</DialogTitle>
+              <DialogDescription>
+                Batches are grouped into one debit note per supplier. Stock is deducted when a note is dispatched.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="returnSearch">Add Batches</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="returnSearch"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by product or batch number"
+                    className="pl-9"
+                  />
+                </div>
+                {matchingBatches.length > 0 && (
+                  <div className="rounded-xl border border-border divide-y divide-border">
+                    {matchingBatches.map((batch) => (
+                      <button
+                        key={batch.id}
+                        type="button"
+                        onClick={() => {
+                          setLines((prev) => [...prev, toLine(batch)]);
+                          setSearch('');
+                        }}
+                        className="w-full text-left px-3 py-2 hover:bg-muted/50 text-sm flex justify-between gap-3"
+                      >
+                        <span className="truncate">
+                          {productName(batch.product_id)} • Batch {batch.batch_number}
+                        </span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {batch.quantity} units • {expiryLabel(batch.expiry_date)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {groups.map(([supplierId, groupLines]) => (
+                <div key={supplierId || 'none'} className="space-y-2">
+                  <p className="text-sm font-semibold">
+                    {supplierId ? supplierName(supplierId) : 'Supplier not recorded'}
+                    <span className="text-muted-foreground font-normal">
+                      {' '}
+                      •{' '}
+                      {formatPKR(
+                        groupLines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * line.batch.cost_price, 0)
+                      )}
+                    </span>
+                  </p>
+                  {groupLines.map((line) => {
+                    const error = lineError(line);
+                    return (
+                      <div
+                        key={line.batch.id}
+                        className="p-3 rounded-xl border border-border bg-background flex flex-col sm:flex-row sm:items-center gap-3"
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium text-sm truncate">{productName(line.batch.product_id)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Batch {line.batch.batch_number} • {expiryLabel(line.batch.expiry_date)} • {line.batch.quantity} in
+                            stock
+                          </p>
+                          {error && <p className="text-xs text-destructive">{error}</p>}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {!line.batch.supplier_id && (
+                            <Select value={line.supplierId} onValueChange={(value) => updateLine(line.batch.id, { supplierId: value })}>
+                              <SelectTrigger className="w-40">
+                                <SelectValue placeholder="Supplier" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {activeSuppliers.map((supplier) => (
+                                  <SelectItem key={supplier.id} value={supplier.id}>
+                                    {supplier.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Input
+                            type="number"
+                            min="1"
+                            max={line.batch.quantity}
+                            step="1"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.batch.id, { quantity: e.target.value })}
+                            className="w-24"
+                            aria-label="Quantity to return"
+                          />
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            className="h-9 w-9 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => setLines((prev) => prev.filter((l) => l.batch.id !== line.batch.id))}
+                            aria-label="Remove batch"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="returnNotes">Notes</Label>
+                <Input id="returnNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsNewOpen(false)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving || !canCreate} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {groups.length > 1 ? `Draft ${groups.length} Debit Notes` : 'Draft Debit Note'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Debit note details */}
+        <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewingId(null)}>
+          <DialogContent className="max-w-2xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            {viewing && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>Debit Note {viewing.return_number}</DialogTitle>
+                  <DialogDescription>{viewing.supplier?.name ?? supplierName(viewing.supplier_id)}</DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Status</p>
+                    <p>{STATUS_LABELS[viewing.status]}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Dispatched</p>
+                    <p>{formatTime(viewing.dispatched_at)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Credited</p>
+                    <p>
+                      {formatPKR(Number(viewing.credit_received))} of {formatPKR(supplierReturnValue(viewing))}
+                    </p>
+                  </div>
+                  {viewing.notes && (
+                    <div className="col-span-2 sm:col-span-3">
+                      <p className="text-muted-foreground">Notes</p>
+                      <p>{viewing.notes}</p>
+                    </div>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="table-header">
+                        <TableHead>Product</TableHead>
+                        <TableHead>Batch</TableHead>
+                        <TableHead>Expiry</TableHead>
+                        <TableHead className="text-right">Qty</TableHead>
+                        <TableHead className="text-right">Cost Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(viewing.items ?? []).map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.product?.name ?? productName(item.product_id)}</TableCell>
+                          <TableCell className="font-mono text-sm">{item.batch_number}</TableCell>
+                          <TableCell>{format(parseISO(item.expiry_date), 'MMM yyyy')}</TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell className="text-right">{formatPKR(item.quantity * Number(item.cost_price))}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {(viewing.credits ?? []).length > 0 && (
+                  <div className="space-y-1 text-sm">
+                    <p className="font-medium">Credit Notes</p>
+                    {(viewing.credits ?? []).map((credit) => (
+                      <p key={credit.id} className="flex justify-between gap-3 text-muted-foreground">
+                        <span>
+                          {format(new Date(credit.received_at), 'MMM d, yyyy')}
+                          {credit.reference ? ` • ${credit.reference}` : ''}
+                        </span>
+                        <span>{formatPKR(Number(credit.amount))}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {viewing.status === 'dispatched' && (
+                  <form onSubmit={handleRecordCredit} className="space-y-3 p-3 rounded-xl border border-border">
+                    <p className="font-medium text-sm">Record Credit Note</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="creditAmount">Amount</Label>
+                        <Input
+                          id="creditAmount"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={creditAmount}
+                          onChange={(e) => setCreditAmount(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="creditReference">Supplier's Reference</Label>
+                        <Input
+                          id="creditReference"
+                          value={creditReference}
+                          onChange={(e) => setCreditReference(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox checked={closeNote} onCheckedChange={(checked) => setCloseNote(checked === true)} />
+                      Settle this debit note even if the credit is short
+                    </label>
+                    <div className="flex justify-end">
+                      <Button type="submit" disabled={saving} className="w-full sm:w-auto">
+                        {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Record Credit
+                      </Button>
+                    </div>
+                  </form>
+                )}
+
+                <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                  <Button variant="outline" onClick={() => handlePrint(viewing)} className="w-full sm:w-auto">
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print
+                  </Button>
+                  {viewing.status === 'draft' && (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => runAction(() => cancelReturn(viewing.id))}
+                        disabled={saving}
+                        className="w-full sm:w-auto"
+                      >
+                        Cancel Draft
+                      </Button>
+                      <Button
+                        onClick={() => runAction(() => dispatchReturn(viewing.id))}
+                        disabled={saving}
+                        className="w-full sm:w-auto"
+                      >
+                        {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                        Dispatch to Supplier
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useSuppliers, Supplier, SupplierInput } from '@/hooks/useSuppliers';
+import { Truck, Plus, Edit2, Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+
+const EMPTY_FORM = {
+  name: '',
+  contact_person: '',
+  phone: '',
+  email: '',
+  address: '',
+  ntn: '',
+  payment_terms_days: '0',
+  lead_time_days: '0',
+  notes: '',
+};
+
+export default function Suppliers() {
+  const { suppliers, loading, addSupplier, updateSupplier } = useSuppliers();
+  const [search, setSearch] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const filteredSuppliers = suppliers.filter((s) => {
+    const term = search.toLowerCase().trim();
+    if (!term) return true;
+    return (
+      s.name.toLowerCase().includes(term) ||
+      s.contact_person?.toLowerCase().includes(term) ||
+      s.phone?.includes(term) ||
+      s.ntn?.toLowerCase().includes(term)
+    );
+  });
+
+  const openAdd = () => {
+    setEditingSupplier(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setForm({
+      name: supplier.name,
+      contact_person: supplier.contact_person || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      ntn: supplier.ntn || '',
+      payment_terms_days: supplier.payment_terms_days.toString(),
+      lead_time_days: supplier.lead_time_days.toString(),
+      notes: supplier.notes || '',
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name.trim()) {
+      toast.error('Supplier name is required');
+      return;
+    }
+
+    const paymentTerms = parseInt(form.payment_terms_days);
+    const leadTime = parseInt(form.lead_time_days);
+    if (isNaN(paymentTerms) || paymentTerms < 0 || isNaN(leadTime) || leadTime < 0) {
+      toast.error('Payment terms and lead time must be zero or more days');
+      return;
+    }
+
+    const input: SupplierInput = {
+      name: form.name.trim(),
+      contact_person: form.contact_person.trim() || null,
+      phone: form.phone.trim() || null,
+      email: form.email.trim() || null,
+      address: form.address.trim() || null,
+      ntn: form.ntn.trim() || null,
+      payment_terms_days: paymentTerms,
+      lead_time_days: leadTime,
+      notes: form.notes.trim() || null,
+    };
+
+    setSaving(true);
+    const ok = editingSupplier
+      ? await updateSupplier(editingSupplier.id, input)
+      : !!(await addSupplier(input));
+    setSaving(false);
+
+    if (ok) {
+      setIsFormOpen(false);
+      setEditingSupplier(null);
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <Truck className="w-8 h-8 text-primary" />
+              Suppliers
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Distributors, payment terms and delivery lead times</p>
+          </div>
+          <Button onClick={openAdd} className="shadow-sm w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Supplier
+          </Button>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, contact, phone or NTN..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>NTN</TableHead>
+                  <TableHead className="text-right">Payment Terms</TableHead>
+                  <TableHead className="text-right">Lead Time</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredSuppliers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                      {search ? 'No suppliers match your search' : 'No suppliers yet. Click "Add Supplier" to create one'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredSuppliers.map((supplier) => (
+                    <TableRow key={supplier.id} className={supplier.is_active ? 'hover:bg-muted/30' : 'opacity-60'}>
+                      <TableCell>
+                        <p className="font-medium">{supplier.name}</p>
+                        {supplier.address && (
+                          <p className="text-xs text-muted-foreground truncate max-w-[240px]">{supplier.address}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p>{supplier.contact_person || '-'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[supplier.phone, supplier.email].filter(Boolean).join(' • ')}
+                        </p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{supplier.ntn || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {supplier.payment_terms_days === 0 ? (
+                          <Badge variant="outline">Cash</Badge>
+                        ) : (
+                          `${supplier.payment_terms_days} days`
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{supplier.lead_time_days} days</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={supplier.is_active}
+                          onCheckedChange={(checked) => updateSupplier(supplier.id, { is_active: checked })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(supplier)}>
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent className="max-w-lg w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+              <DialogDescription>
+                Contact details and the terms this supplier usually works on.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplierName">Name *</Label>
+                <Input
+                  id="supplierName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="contactPerson">Contact Person</Label>
+                  <Input
+                    id="contactPerson"
+                    value={form.contact_person}
+                    onChange={(e) => setForm({ ...form, contact_person: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierPhone">Phone</Label>
+                  <Input
+                    id="supplierPhone"
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierEmail">Email</Label>
+                  <Input
+                    id="supplierEmail"
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplierNtn">NTN</Label>
+                  <Input
+                    id="supplierNtn"
+                    value={form.ntn}
+                    onChange={(e) => setForm({ ...form, ntn: e.target.value })}
+                    placeholder="National Tax Number"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="paymentTerms">Payment Terms (days)</Label>
+                  <Input
+                    id="paymentTerms"
+                    type="number"
+                    min="0"
+                    value={form.payment_terms_days}
+                    onChange={(e) => setForm({ ...form, payment_terms_days: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leadTime">Lead Time (days)</Label>
+                  <Input
+                    id="leadTime"
+                    type="number"
+                    min="0"
+                    value={form.lead_time_days}
+                    onChange={(e) => setForm({ ...form, lead_time_days: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierAddress">Address</Label>
+                <Input
+                  id="supplierAddress"
+                  value={form.address}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierNotes">Notes</Label>
+                <Textarea
+                  id="supplierNotes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {editingSupplier ? 'Save Changes' : 'Add Supplier'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
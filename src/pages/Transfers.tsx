@@ -0,0 +1,426 @@
+import { useMemo, useState } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useBranches } from '@/hooks/useBranches';
+import { useProducts, StockBatch } from '@/hooks/useProducts';
+import { StockTransfer, useTransfers } from '@/hooks/useTransfers';
+import { formatPKR } from '@/lib/currency';
+import { format } from 'date-fns';
+import { ArrowLeftRight, Eye, Loader2, PackageCheck, Plus, Search, Trash2, Truck } from 'lucide-react';
+
+// Picker rows shown while searching for batches to send
+const SEARCH_LIMIT = 8;
+
+interface DraftLine {
+  batch: StockBatch;
+  quantity: string;
+}
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '-');
+
+const transferUnits = (transfer: StockTransfer) =>
+  (transfer.items ?? []).reduce((sum, item) => sum + item.quantity, 0);
+
+export default function Transfers() {
+  const { branchId } = useAuth();
+  const { branches, activeBranches } = useBranches();
+  const { products, batches } = useProducts();
+  const { transfers, loading, dispatchTransfer, receiveTransfer } = useTransfers();
+  const [saving, setSaving] = useState(false);
+
+  // New transfer dialog
+  const [isNewOpen, setIsNewOpen] = useState(false);
+  const [toBranchId, setToBranchId] = useState('');
+  const [search, setSearch] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [notes, setNotes] = useState('');
+
+  const [viewing, setViewing] = useState<StockTransfer | null>(null);
+
+  const branchName = (id: string) => branches.find((b) => b.id === id)?.name ?? 'Unknown branch';
+  const productName = (id: string) => products.find((p) => p.id === id)?.name ?? 'Unknown product';
+  const destinations = activeBranches.filter((b) => b.id !== branchId);
+
+  const incoming = transfers.filter((t) => t.status === 'dispatched' && t.to_branch_id === branchId);
+
+  // Unexpired batches in this branch that match the search and are not on the transfer yet
+  const matchingBatches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    const today = new Date().toISOString().split('T')[0];
+    const names = new Map(products.map((p) => [p.id, p.name.toLowerCase()]));
+    return batches
+      .filter(
+        (b) =>
+          b.quantity > 0 &&
+          b.expiry_date >= today &&
+          !lines.some((line) => line.batch.id === b.id) &&
+          ((names.get(b.product_id) ?? '').includes(term) || b.batch_number.toLowerCase().includes(term))
+      )
+      .slice(0, SEARCH_LIMIT);
+  }, [search, batches, products, lines]);
+
+  const openNewTransfer = () => {
+    setToBranchId(destinations[0]?.id ?? '');
+    setSearch('');
+    setLines([]);
+    setNotes('');
+    setIsNewOpen(true);
+  };
+
+  const addLine = (batch: StockBatch) => {
+    setLines((prev) => [...prev, { batch, quantity: String(batch.quantity) }]);
+    setSearch('');
+  };
+
+  const lineError = (line: DraftLine) => {
+    const quantity = Number(line.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) return 'Enter a whole number';
+    if (quantity > line.batch.quantity) return `Only ${line.batch.quantity} in stock`;
+    return null;
+  };
+
+  const canDispatch = !!toBranchId && lines.length > 0 && lines.every((line) => !lineError(line));
+
+  const handleDispatch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canDispatch) return;
+    setSaving(true);
+    const result = await dispatchTransfer(
+      toBranchId,
+      lines.map((line) => ({ batch_id: line.batch.id, quantity: Number(line.quantity) })),
+      notes
+    );
+    setSaving(false);
+    if (result) {
+      setIsNewOpen(false);
+    }
+  };
+
+  const handleReceive = async (transfer: StockTransfer) => {
+    setSaving(true);
+    const ok = await receiveTransfer(transfer.id);
+    setSaving(false);
+    if (ok) {
+      setViewing(null);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <ArrowLeftRight className="w-8 h-8 text-primary" />
+              Stock Transfers
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Send batches to another branch and receive stock sent here</p>
+          </div>
+          <Button onClick={openNewTransfer} disabled={destinations.length === 0} className="shadow-sm w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" />
+            New Transfer
+          </Button>
+        </div>
+
+        {/* Waiting to be received here */}
+        {incoming.length > 0 && (
+          <div className="bg-card rounded-2xl border border-border/60 p-4 sm:p-5 mb-4 sm:mb-6 shadow-sm space-y-3">
+            <p className="font-semibold flex items-center gap-2">
+              <Truck className="w-5 h-5 text-primary" />
+              Incoming ({incoming.length})
+            </p>
+            {incoming.map((transfer) => (
+              <div
+                key={transfer.id}
+                className="p-3 rounded-xl border border-border bg-background flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">
+                    {transfer.transfer_number} from {branchName(transfer.from_branch_id)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {(transfer.items ?? []).length} batches • {transferUnits(transfer)} units • dispatched{' '}
+                    {formatTime(transfer.dispatched_at)}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => setViewing(transfer)}>
+                    <Eye className="w-4 h-4 mr-1" />
+                    View
+                  </Button>
+                  <Button size="sm" onClick={() => handleReceive(transfer)} disabled={saving}>
+                    <PackageCheck className="w-4 h-4 mr-1" />
+                    Receive
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* All transfers */}
+        <div className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="table-header">
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead>Dispatched</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : transfers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                      No transfers yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  transfers.map((transfer) => (
+                    <TableRow key={transfer.id} className="hover:bg-muted/30">
+                      <TableCell className="font-mono text-sm">{transfer.transfer_number}</TableCell>
+                      <TableCell>{branchName(transfer.from_branch_id)}</TableCell>
+                      <TableCell>{branchName(transfer.to_branch_id)}</TableCell>
+                      <TableCell className="text-right">{transferUnits(transfer)}</TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">{formatTime(transfer.dispatched_at)}</TableCell>
+                      <TableCell>
+                        {transfer.status === 'received' ? (
+                          <Badge variant="secondary">Received</Badge>
+                        ) : (
+                          <Badge>In transit</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewing(transfer)}>
+                          <Eye className="w-4 h-4 mr-1" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* New transfer */}
+        <Dialog open={isNewOpen} onOpenChange={setIsNewOpen}>
+          <DialogContent className="max-w-2xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Transfer</DialogTitle>
+              <DialogDescription>
+                Units leave this branch when the transfer is dispatched and arrive when the other branch receives it.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleDispatch} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Send To *</Label>
+                <Select value={toBranchId} onValueChange={setToBranchId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {destinations.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>
+                        {branch.name} ({branch.code})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="transferSearch">Add Batches</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="transferSearch"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by product or batch number"
+                    className="pl-9"
+                  />
+                </div>
+                {matchingBatches.length > 0 && (
+                  <div className="rounded-xl border border-border divide-y divide-border">
+                    {matchingBatches.map((batch) => (
+                      <button
+                        key={batch.id}
+                        type="button"
+                        onClick={() => addLine(batch)}
+                        className="w-full text-left px-3 py-2 hover:bg-muted/50 text-sm flex justify-between gap-3"
+                      >
+                        <span className="truncate">
+                          {productName(batch.product_id)} • Batch {batch.batch_number}
+                        </span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {batch.quantity} units • exp {format(new Date(batch.expiry_date), 'MMM yyyy')}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {lines.length > 0 && (
+                <div className="space-y-2">
+                  {lines.map((line) => {
+                    const error = lineError(line);
+                    return (
+                      <div key={line.batch.id} className="p-3 rounded-xl border border-border bg-background flex items-center gap-3">
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium text-sm truncate">{productName(line.batch.product_id)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Batch {line.batch.batch_number} • {line.batch.quantity} in stock
+                          </p>
+                          {error && <p className="text-xs text-destructive">{error}</p>}
+                        </div>
+                        <Input
+                          type="number"
+                          min="1"
+                          max={line.batch.quantity}
+                          step="1"
+                          value={line.quantity}
+                          onChange={(e) =>
+                            setLines((prev) =>
+                              prev.map((l) => (l.batch.id === line.batch.id ? { ...l, quantity: e.target.value } : l))
+                            )
+                          }
+                          className="w-24"
+                          aria-label="Quantity to send"
+                        />
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          className="h-9 w-9 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => setLines((prev) => prev.filter((l) => l.batch.id !== line.batch.id))}
+                          aria-label="Remove batch"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="transferNotes">Notes</Label>
+                <Input id="transferNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsNewOpen(false)} className="w-full sm:w-auto">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving || !canDispatch} className="w-full sm:w-auto">
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Dispatch
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Transfer details */}
+        <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+          <DialogContent className="max-w-2xl w-[95vw] sm:w-auto max-h-[90vh] overflow-y-auto">
+            {viewing && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>Transfer {viewing.transfer_number}</DialogTitle>
+                  <DialogDescription>
+                    {branchName(viewing.from_branch_id)} to {branchName(viewing.to_branch_id)}
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Dispatched</p>
+                    <p>{formatTime(viewing.dispatched_at)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Received</p>
+                    <p>{formatTime(viewing.received_at)}</p>
+                  </div>
+                  {viewing.notes && (
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground">Notes</p>
+                      <p>{viewing.notes}</p>
+                    </div>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="table-header">
+                        <TableHead>Product</TableHead>
+                        <TableHead>Batch</TableHead>
+                        <TableHead>Expiry</TableHead>
+                        <TableHead className="text-right">Qty</TableHead>
+                        <TableHead className="text-right">Cost Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(viewing.items ?? []).map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.product?.name ?? productName(item.product_id)}</TableCell>
+                          <TableCell className="font-mono text-sm">{item.batch_number}</TableCell>
+                          <TableCell>{format(new Date(item.expiry_date), 'MMM yyyy')}</TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell className="text-right">{formatPKR(item.quantity * Number(item.cost_price))}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {viewing.status === 'dispatched' && viewing.to_branch_id === branchId && (
+                  <div className="flex justify-end pt-2">
+                    <Button onClick={() => handleReceive(viewing)} disabled={saving} className="w-full sm:w-auto">
+                      {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      <PackageCheck className="w-4 h-4 mr-2" />
+                      Receive Into This Branch
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
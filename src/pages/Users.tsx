@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -13,6 +14,16 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import {
   Table,
   TableBody,
@@ -21,153 +32,98 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Users as UsersIcon, Shield, User, Edit2, Loader2 } from 'lucide-react';
-import { toast } from 'sonner';
-import { Navigate } from 'react-router-dom';
+import { useStaff, StaffMember } from '@/hooks/useStaff';
+import { useBranches } from '@/hooks/useBranches';
+import { AppRole, ROLE_LABELS } from '@/lib/permissions';
+import { Users as UsersIcon, Shield, User, Edit2, Loader2, UserPlus, KeyRound, Pill } from 'lucide-react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
 
-interface UserWithRole {
-  id: string;
-  full_name: string;
-  phone: string | null;
-  id_card_number: string | null;
-  address: string | null;
-  email?: string;
-  role: 'admin' | 'cashier';
-  can_add_products: boolean;
-  created_at: string;
-}
+const ROLE_OPTIONS: AppRole[] = ['owner', 'pharmacist', 'cashier'];
+
+const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  owner: 'Full access, including products, racks and staff',
+  pharmacist: 'Sell, process returns, receive stock and view reports',
+  cashier: 'Sell only',
+};
 
 export default function Users() {
-  const { isAdmin, user } = useAuth();
-  const [users, setUsers] = useState<UserWithRole[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [editingUser, setEditingUser] = useState<UserWithRole | null>(null);
+  const { user } = useAuth();
+  const { staff, loading, inviteStaff, updateProfile, setRole, setActive, setBranch, resetPassword } = useStaff();
+  const { branches, activeBranches } = useBranches();
+  const [editingUser, setEditingUser] = useState<StaffMember | null>(null);
   const [editForm, setEditForm] = useState({
     full_name: '',
     phone: '',
     id_card_number: '',
     address: '',
-    can_add_products: false,
   });
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState<{ full_name: string; email: string; role: AppRole }>({
+    full_name: '',
+    email: '',
+    role: 'cashier',
+  });
+  const [inviting, setInviting] = useState(false);
+  const [deactivateUser, setDeactivateUser] = useState<StaffMember | null>(null);
+  const [resetUser, setResetUser] = useState<StaffMember | null>(null);
 
-  useEffect(() => {
-    fetchUsers();
-  }, []);
-
-  const fetchUsers = async () => {
-    try {
-      // Get profiles
-      const { data: profiles, error: profilesError } = await supabase
-        .from('profiles')
-        .select('*')
-        .order('created_at');
-
-      if (profilesError) throw profilesError;
-
-      // Get roles
-      const { data: roles, error: rolesError } = await supabase
-        .from('user_roles')
-        .select('*');
-
-      if (rolesError) throw rolesError;
-
-      // Combine data
-      const combined = profiles?.map((profile) => {
-        const userRole = roles?.find((r) => r.user_id === profile.id);
-        return {
-          ...profile,
-          role: userRole?.role || 'cashier',
-          can_add_products: userRole?.can_add_products || false,
-        };
-      }) || [];
-
-      setUsers(combined as UserWithRole[]);
-    } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load users';
-      console.error('Error fetching users:', err);
-      toast.error(errorMessage);
-      setUsers([]); // Set empty array on error
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const openEdit = (user: UserWithRole) => {
-    setEditingUser(user);
+  const openEdit = (member: StaffMember) => {
+    setEditingUser(member);
     setEditForm({
-      full_name: user.full_name,
-      phone: user.phone || '',
-      id_card_number: user.id_card_number || '',
-      address: user.address || '',
-      can_add_products: user.can_add_products,
+      full_name: member.full_name,
+      phone: member.phone || '',
+      id_card_number: member.id_card_number || '',
+      address: member.address || '',
     });
   };
 
   const handleUpdate = async () => {
     if (!editingUser) return;
 
-    try {
-      // Update profile
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .update({
-          full_name: editForm.full_name,
-          phone: editForm.phone || null,
-          id_card_number: editForm.id_card_number || null,
-          address: editForm.address || null,
-        })
-        .eq('id', editingUser.id);
-
-      if (profileError) throw profileError;
-
-      // Update role permissions (only can_add_products for cashiers)
-      if (editingUser.role === 'cashier') {
-        const { error: roleError } = await supabase
-          .from('user_roles')
-          .update({ can_add_products: editForm.can_add_products })
-          .eq('user_id', editingUser.id);
+    const success = await updateProfile(editingUser.id, editForm);
+    if (success) {
+      setEditingUser(null);
+    }
+  };
 
-        if (roleError) throw roleError;
-      }
+  const handleInvite = async () => {
+    setInviting(true);
+    const success = await inviteStaff(inviteForm.email, inviteForm.full_name, inviteForm.role);
+    setInviting(false);
+    if (success) {
+      setIsInviteOpen(false);
+      setInviteForm({ full_name: '', email: '', role: 'cashier' });
+    }
+  };
 
-      toast.success('User updated successfully');
-      setEditingUser(null);
-      fetchUsers();
-    } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update user';
-      console.error('Error updating user:', err);
-      toast.error(errorMessage);
+  const handleToggleActive = (member: StaffMember, isActive: boolean) => {
+    if (isActive) {
+      setActive(member.id, true);
+    } else {
+      setDeactivateUser(member);
     }
   };
 
-  const toggleProductPermission = async (userId: string, currentValue: boolean) => {
-    try {
-      const { error } = await supabase
-        .from('user_roles')
-        .update({ can_add_products: !currentValue })
-        .eq('user_id', userId);
+  const confirmDeactivate = async () => {
+    if (!deactivateUser) return;
+    await setActive(deactivateUser.id, false);
+    setDeactivateUser(null);
+  };
 
-      if (error) throw error;
+  const confirmReset = async () => {
+    if (!resetUser) return;
+    await resetPassword(resetUser.id);
+    setResetUser(null);
+  };
 
-      setUsers((prev) =>
-        prev.map((u) =>
-          u.id === userId ? { ...u, can_add_products: !currentValue } : u
-        )
-      );
-      toast.success('Permission updated');
-    } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update permission';
-      console.error('Error updating permission:', err);
-      toast.error(errorMessage);
+  const formatLastLogin = (member: StaffMember) => {
+    if (member.last_sign_in_at) {
+      return formatDistanceToNow(parseISO(member.last_sign_in_at), { addSuffix: true });
     }
+    return member.invited_at ? 'Invitation pending' : 'Never';
   };
 
-  if (!isAdmin) {
-    return <Navigate to="/" replace />;
-  }
-
   if (loading) {
     return (
       <MainLayout>
@@ -180,133 +136,269 @@ export default function Users() {
 
   return (
     <MainLayout>
-      <div className="page-header">
-        <h1 className="page-title flex items-center gap-3">
-          <UsersIcon className="w-8 h-8 text-primary" />
-          User Management
-        </h1>
-        <p className="page-subtitle">Manage staff accounts and permissions</p>
-      </div>
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title flex items-center gap-3 text-2xl sm:text-3xl">
+              <UsersIcon className="w-8 h-8 text-primary" />
+              User Management
+            </h1>
+            <p className="page-subtitle text-sm sm:text-base">Invite staff, assign roles and manage access</p>
+          </div>
+          <Button onClick={() => setIsInviteOpen(true)} className="shadow-sm w-full sm:w-auto">
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite Staff
+          </Button>
+        </div>
 
-      {/* Stats */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-4">
-              <div className="p-3 bg-primary/10 rounded-xl">
-                <UsersIcon className="w-6 h-6 text-primary" />
+        {/* Stats */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-xl">
+                  <UsersIcon className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{staff.filter((u) => u.is_active).length}</p>
+                  <p className="text-sm text-muted-foreground">Active Users</p>
+                </div>
               </div>
-              <div>
-                <p className="text-2xl font-bold">{users.length}</p>
-                <p className="text-sm text-muted-foreground">Total Users</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-warning/10 rounded-xl">
+                  <Shield className="w-6 h-6 text-warning" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">
+                    {staff.filter((u) => u.is_active && u.role === 'owner').length}
+                  </p>
+                  <p className="text-sm text-muted-foreground">Owners</p>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-4">
-              <div className="p-3 bg-warning/10 rounded-xl">
-                <Shield className="w-6 h-6 text-warning" />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-xl">
+                  <Pill className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">
+                    {staff.filter((u) => u.is_active && u.role === 'pharmacist').length}
+                  </p>
+                  <p className="text-sm text-muted-foreground">Pharmacists</p>
+                </div>
               </div>
-              <div>
-                <p className="text-2xl font-bold">
-                  {users.filter((u) => u.role === 'admin').length}
-                </p>
-                <p className="text-sm text-muted-foreground">Admins</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-success/10 rounded-xl">
+                  <User className="w-6 h-6 text-success" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">
+                    {staff.filter((u) => u.is_active && u.role === 'cashier').length}
+                  </p>
+                  <p className="text-sm text-muted-foreground">Cashiers</p>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Users Table */}
         <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-4">
-              <div className="p-3 bg-success/10 rounded-xl">
-                <User className="w-6 h-6 text-success" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">
-                  {users.filter((u) => u.role === 'cashier').length}
-                </p>
-                <p className="text-sm text-muted-foreground">Cashiers</p>
-              </div>
+          <CardHeader>
+            <CardTitle>All Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="table-header">Name</TableHead>
+                    <TableHead className="table-header">Role</TableHead>
+                    <TableHead className="table-header">Branch</TableHead>
+                    <TableHead className="table-header">Phone</TableHead>
+                    <TableHead className="table-header">Last Login</TableHead>
+                    <TableHead className="table-header">Active</TableHead>
+                    <TableHead className="table-header">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {staff.map((u) => {
+                    const isSelf = u.id === user?.id;
+                    return (
+                      <TableRow key={u.id} className={u.is_active ? '' : 'opacity-60'}>
+                        <TableCell>
+                          <div>
+                            <p className="font-medium">
+                              {u.full_name || 'Unnamed'}
+                              {isSelf && (
+                                <span className="text-xs text-muted-foreground ml-1">(You)</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{u.email}</p>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {isSelf ? (
+                            <Badge variant="default" className="capitalize">
+                              <Shield className="w-3 h-3 mr-1" />
+                              {u.role ? ROLE_LABELS[u.role] : 'No role'}
+                            </Badge>
+                          ) : (
+                            <Select
+                              value={u.role ?? undefined}
+                              onValueChange={(value) => setRole(u.id, value as AppRole)}
+                            >
+                              <SelectTrigger className="w-36 h-9">
+                                <SelectValue placeholder="Assign role" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ROLE_OPTIONS.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {isSelf ? (
+                            <span className="text-sm">
+                              {branches.find((b) => b.id === u.branch_id)?.name ?? '-'}
+                            </span>
+                          ) : (
+                            <Select
+                              value={u.branch_id ?? undefined}
+                              onValueChange={(value) => setBranch(u.id, value)}
+                              disabled={!u.role}
+                            >
+                              <SelectTrigger className="w-40 h-9">
+                                <SelectValue placeholder="Assign branch" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {activeBranches.map((branch) => (
+                                  <SelectItem key={branch.id} value={branch.id}>
+                                    {branch.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {u.phone || '-'}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-sm">
+                          {formatLastLogin(u)}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={u.is_active}
+                            disabled={isSelf || !u.role}
+                            onCheckedChange={(checked) => handleToggleActive(u, checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Edit details"
+                              onClick={() => openEdit(u)}
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Send password reset"
+                              disabled={!u.email}
+                              onClick={() => setResetUser(u)}
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {staff.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                        No users found
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Users Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>All Users</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="overflow-x-auto">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead className="table-header">Name</TableHead>
-                  <TableHead className="table-header">Role</TableHead>
-                  <TableHead className="table-header">Phone</TableHead>
-                  <TableHead className="table-header">ID Card</TableHead>
-                  <TableHead className="table-header">Can Add Products</TableHead>
-                  <TableHead className="table-header">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {users.map((u) => (
-                  <TableRow key={u.id}>
-                    <TableCell>
-                      <div>
-                        <p className="font-medium">{u.full_name}</p>
-                        {u.id === user?.id && (
-                          <span className="text-xs text-muted-foreground">(You)</span>
-                        )}
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge
-                        variant={u.role === 'admin' ? 'default' : 'secondary'}
-                        className="capitalize"
-                      >
-                        {u.role === 'admin' && <Shield className="w-3 h-3 mr-1" />}
-                        {u.role}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-muted-foreground">
-                      {u.phone || '-'}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground">
-                      {u.id_card_number || '-'}
-                    </TableCell>
-                    <TableCell>
-                      {u.role === 'cashier' ? (
-                        <Switch
-                          checked={u.can_add_products}
-                          onCheckedChange={() =>
-                            toggleProductPermission(u.id, u.can_add_products)
-                          }
-                        />
-                      ) : (
-                        <Badge variant="outline">Always</Badge>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => openEdit(u)}
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+      {/* Invite Dialog */}
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Staff</DialogTitle>
+            <DialogDescription>
+              They will receive an email with a link to choose a password.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Full Name</Label>
+              <Input
+                value={inviteForm.full_name}
+                onChange={(e) => setInviteForm({ ...inviteForm, full_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                placeholder="staff@pharmacy.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={inviteForm.role}
+                onValueChange={(value) => setInviteForm({ ...inviteForm, role: value as AppRole })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLE_OPTIONS.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteForm.role]}</p>
+            </div>
+            <Button onClick={handleInvite} className="w-full" disabled={inviting}>
+              {inviting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send Invitation
+            </Button>
           </div>
-        </CardContent>
-      </Card>
+        </DialogContent>
+      </Dialog>
 
       {/* Edit Dialog */}
       <Dialog open={!!editingUser} onOpenChange={() => setEditingUser(null)}>
@@ -314,7 +406,7 @@ export default function Users() {
           <DialogHeader>
             <DialogTitle>Edit User</DialogTitle>
             <DialogDescription>
-              Update user information and permissions.
+              Update staff contact details.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -357,28 +449,44 @@ export default function Users() {
                 placeholder="Full address"
               />
             </div>
-            {editingUser?.role === 'cashier' && (
-              <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
-                <div>
-                  <p className="font-medium">Can Add Products</p>
-                  <p className="text-sm text-muted-foreground">
-                    Allow this cashier to create new products
-                  </p>
-                </div>
-                <Switch
-                  checked={editForm.can_add_products}
-                  onCheckedChange={(checked) =>
-                    setEditForm({ ...editForm, can_add_products: checked })
-                  }
-                />
-              </div>
-            )}
             <Button onClick={handleUpdate} className="w-full">
               Save Changes
             </Button>
           </div>
         </DialogContent>
       </Dialog>
+
+      <AlertDialog open={!!deactivateUser} onOpenChange={() => setDeactivateUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate {deactivateUser?.full_name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They will lose access immediately. Their sales and other history are kept, and you can reactivate the account later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDeactivate} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!resetUser} onOpenChange={() => setResetUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset password?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A password reset link will be emailed to {resetUser?.email}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReset}>Send Email</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </MainLayout>
   );
 }
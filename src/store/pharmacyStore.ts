@@ -1,6 +1,11 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Product, Sale, StockPurchase, SaleItem, StockBatch, BatchDeduction } from '@/types/pharmacy';
+import { Product, Sale, StockPurchase, SaleItem, StockBatch, BatchDeduction, PendingSale, SaleConflict } from '@/types/pharmacy';
+import type { Product as CatalogueProduct, StockBatch as CatalogueBatch } from '@/hooks/useProducts';
+import type { StoreSettings } from '@/hooks/useSettings';
+import type { UserRole } from '@/hooks/useAuth';
+import { deductFromSnapshot } from '@/lib/offline';
+import { DEFAULT_RECEIPT_PRINTER, type ReceiptPrinterSettings } from '@/lib/receiptPrinter';
 import { isBefore, parseISO, startOfToday, addDays } from 'date-fns';
 
 interface PharmacyStore {
@@ -37,6 +42,36 @@ interface PharmacyStore {
   
   // Stock purchase actions (adds batch)
   addStockPurchase: (purchase: Omit<StockPurchase, 'id'>) => void;
+
+  // Offline cache - last catalogue and batch snapshot fetched from Supabase
+  cachedProducts: CatalogueProduct[];
+  cachedBatches: CatalogueBatch[];
+  catalogueCachedAt: string | null;
+  cacheProducts: (products: CatalogueProduct[]) => void;
+  cacheBatches: (batches: CatalogueBatch[]) => void;
+
+  // Offline sales queue, replayed by useOfflineSync when connectivity returns
+  pendingSales: PendingSale[];
+  saleConflicts: SaleConflict[];
+  queueOfflineSale: (sale: PendingSale) => void;
+  updatePendingSale: (clientRef: string, updates: Partial<PendingSale>) => void;
+  removePendingSale: (clientRef: string) => void;
+  markSaleConflict: (clientRef: string, error: string) => void;
+  retryConflict: (clientRef: string) => void;
+  discardConflict: (clientRef: string) => void;
+
+  // Last store settings fetched, so pages have them offline and on first paint
+  storeSettings: StoreSettings | null;
+  cacheStoreSettings: (settings: StoreSettings) => void;
+
+  // Thermal printer for this till
+  receiptPrinter: ReceiptPrinterSettings;
+  setReceiptPrinter: (settings: Partial<ReceiptPrinterSettings>) => void;
+
+  // Last role the server confirmed, so a reload without a connection can
+  // still sell. Permissions follow from the role; cleared on sign-out.
+  cachedRole: (UserRole & { userId: string }) | null;
+  cacheRole: (role: (UserRole & { userId: string }) | null) => void;
 }
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
@@ -268,6 +303,93 @@ export const usePharmacyStore = create<PharmacyStore>()(
             stockBatches: [...state.stockBatches, newBatch],
           };
         }),
+
+      cachedProducts: [],
+      cachedBatches: [],
+      catalogueCachedAt: null,
+
+      cacheProducts: (products) =>
+        set({
+          cachedProducts: Array.isArray(products) ? products : [],
+          catalogueCachedAt: new Date().toISOString(),
+        }),
+
+      // Re-apply still-queued sales so the snapshot does not show stock
+      // that has already been sold at this counter
+      cacheBatches: (batches) =>
+        set((state) => ({
+          cachedBatches: deductFromSnapshot(
+            Array.isArray(batches) ? batches : [],
+            state.pendingSales.flatMap((sale) => sale.items)
+          ),
+          catalogueCachedAt: new Date().toISOString(),
+        })),
+
+      pendingSales: [],
+      saleConflicts: [],
+
+      // Queue the sale and deduct it from the cached batches (FEFO)
+      queueOfflineSale: (sale) =>
+        set((state) => ({
+          pendingSales: [...state.pendingSales, sale],
+          cachedBatches: deductFromSnapshot(state.cachedBatches, sale.items),
+        })),
+
+      updatePendingSale: (clientRef, updates) =>
+        set((state) => ({
+          pendingSales: state.pendingSales.map((s) =>
+            s.clientRef === clientRef ? { ...s, ...updates } : s
+          ),
+        })),
+
+      removePendingSale: (clientRef) =>
+        set((state) => ({
+          pendingSales: state.pendingSales.filter((s) => s.clientRef !== clientRef),
+        })),
+
+      markSaleConflict: (clientRef, error) =>
+        set((state) => {
+          const sale = state.pendingSales.find((s) => s.clientRef === clientRef);
+          if (!sale) return {};
+          return {
+            pendingSales: state.pendingSales.filter((s) => s.clientRef !== clientRef),
+            saleConflicts: [
+              ...state.saleConflicts,
+              { ...sale, error, conflictedAt: new Date().toISOString() },
+            ],
+          };
+        }),
+
+      retryConflict: (clientRef) =>
+        set((state) => {
+          const conflict = state.saleConflicts.find((c) => c.clientRef === clientRef);
+          if (!conflict) return {};
+          const { error: _error, conflictedAt: _conflictedAt, ...sale } = conflict;
+          return {
+            saleConflicts: state.saleConflicts.filter((c) => c.clientRef !== clientRef),
+            pendingSales: [...state.pendingSales, { ...sale, lastError: undefined }],
+          };
+        }),
+
+      discardConflict: (clientRef) =>
+        set((state) => ({
+          saleConflicts: state.saleConflicts.filter((c) => c.clientRef !== clientRef),
+        })),
+
+      storeSettings: null,
+
+      cacheStoreSettings: (settings) => set({ storeSettings: settings }),
+
+      receiptPrinter: DEFAULT_RECEIPT_PRINTER,
+
+      setReceiptPrinter: (settings) =>
+        set((state) => ({
+          receiptPrinter: { ...state.receiptPrinter, ...settings },
+        })),
+
+      cachedRole: null,
+
+      cacheRole: (role) => set({ cachedRole: role }),
     }),
     {
       name: 'pharmacy-storage',
@@ -1,3 +1,5 @@
+import type { TenderLine } from '@/lib/tender';
+
 export interface StockBatch {
   id: string;
   productId: string;
@@ -39,6 +41,8 @@ export interface SaleItem {
   unitPrice: number;
   total: number;
   batchDeductions?: BatchDeduction[]; // Track which batches were used
+  unitName?: string; // Pack or base unit the quantity is counted in, for products sold in packs
+  batchNumber?: string; // Batch printed on a scanned GS1 pack
 }
 
 export interface BatchDeduction {
@@ -69,3 +73,31 @@ export interface DashboardStats {
   expiringCount: number;
   expiredCount: number;
 }
+
+// A checkout made while offline, waiting to be replayed through process_sale
+export interface PendingSale {
+  clientRef: string;
+  provisionalReceipt: string;
+  items: Array<{
+    product_id: string;
+    product_name: string;
+    quantity: number;
+    unit_price: number;
+    unit_factor?: number; // Absent on sales queued before pack sizes
+    batch_number?: string | null; // Scanned batch to sell ahead of FEFO
+  }>;
+  paymentMethod: string;
+  // Absent on sales queued before split tender
+  payments?: TenderLine[];
+  discount: number;
+  soldAt: string;
+  cashierId: string | null;
+  customerId?: string | null;
+  lastError?: string;
+}
+
+// A queued sale the server rejected (e.g. stock sold elsewhere meanwhile)
+export interface SaleConflict extends PendingSale {
+  error: string;
+  conflictedAt: string;
+}
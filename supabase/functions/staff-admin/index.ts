@@ -0,0 +1,139 @@
+// Staff administration that needs the service role key: inviting new staff
+// and sending password reset emails. Everything else on the Users page goes
+// through the audited SQL functions in 20260111000000_staff_management.sql.
+//
+// Deploy with: supabase functions deploy staff-admin
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const ROLES = ['owner', 'pharmacist', 'cashier'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type StaffAdminRequest =
+  | { action: 'invite'; email: string; full_name: string; role: string; redirect_to?: string }
+  | { action: 'reset_password'; user_id: string; redirect_to?: string };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'You must be logged in' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Caller's client: used for the permission check
+    const caller = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const admin = createClient(supabaseUrl, serviceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: allowed, error: permissionError } = await caller.rpc('has_permission', {
+      p_permission: 'users.manage',
+    });
+    if (permissionError || allowed !== true) {
+      return json({ error: 'You do not have permission to manage staff' }, 403);
+    }
+
+    const {
+      data: { user: actor },
+    } = await caller.auth.getUser();
+    if (!actor) {
+      return json({ error: 'You must be logged in' }, 401);
+    }
+
+    // Staff cannot write audit entries themselves, so they are added with the
+    // service role and attributed to the owner who made the change
+    const audit = (action: string, entityId: string, details: Record<string, unknown>) =>
+      admin.from('audit_log').insert({
+        actor_id: actor.id,
+        action,
+        entity_type: 'user',
+        entity_id: entityId,
+        details,
+      });
+
+    const body = (await req.json()) as StaffAdminRequest;
+
+    if (body.action === 'invite') {
+      const email = body.email?.trim().toLowerCase();
+      const fullName = body.full_name?.trim();
+
+      if (!email || !EMAIL_PATTERN.test(email)) {
+        return json({ error: 'A valid email address is required' }, 400);
+      }
+      if (!fullName) {
+        return json({ error: 'Full name is required' }, 400);
+      }
+      if (!ROLES.includes(body.role)) {
+        return json({ error: 'Unknown role' }, 400);
+      }
+
+      const { data: invited, error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+        data: { full_name: fullName },
+        redirectTo: body.redirect_to,
+      });
+      if (inviteError || !invited?.user) {
+        return json({ error: inviteError?.message || 'Failed to send invitation' }, 400);
+      }
+
+      const { error: roleError } = await admin
+        .from('user_roles')
+        .upsert(
+          { user_id: invited.user.id, role: body.role, can_add_products: body.role === 'owner', is_active: true },
+          { onConflict: 'user_id' }
+        );
+      if (roleError) {
+        return json({ error: roleError.message }, 400);
+      }
+
+      await audit('staff.invited', invited.user.id, { new: { email, full_name: fullName, role: body.role } });
+
+      return json({ user_id: invited.user.id });
+    }
+
+    if (body.action === 'reset_password') {
+      const { data: target, error: lookupError } = await admin.auth.admin.getUserById(body.user_id);
+      if (lookupError || !target?.user?.email) {
+        return json({ error: 'User not found' }, 404);
+      }
+
+      const { error: resetError } = await admin.auth.resetPasswordForEmail(target.user.email, {
+        redirectTo: body.redirect_to,
+      });
+      if (resetError) {
+        return json({ error: resetError.message }, 400);
+      }
+
+      await audit('staff.password_reset', body.user_id, { email: target.user.email });
+
+      return json({ sent: true });
+    }
+
+    return json({ error: 'Unknown action' }, 400);
+  } catch (err) {
+    console.error('staff-admin error:', err);
+    return json({ error: err instanceof Error ? err.message : 'Unexpected error' }, 500);
+  }
+});
@@ -0,0 +1,155 @@
+-- File: supabase/migrations/20260107000000_process_sale_rpc.sql
+-- Atomic checkout: locks the batches it deducts from, applies FEFO and writes
+-- the sale, its items and the batch updates in a single transaction.
+
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS discount NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_batch RECORD;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_remaining INTEGER;
+  v_deduct INTEGER;
+  v_available INTEGER;
+  v_deductions JSONB;
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_receipt_number TEXT;
+  v_last_number INTEGER;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    -- Lock every sellable batch of this product so a concurrent checkout
+    -- waits here instead of deducting the same units.
+    SELECT coalesce(sum(quantity), 0) INTO v_available
+    FROM (
+      SELECT quantity
+      FROM public.stock_batches
+      WHERE product_id = v_product_id
+        AND quantity > 0
+        AND expiry_date >= current_date
+      FOR UPDATE
+    ) locked;
+
+    IF v_available < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %. Available: %', v_product_name, v_available
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    -- FEFO: earliest expiry first
+    v_remaining := v_quantity;
+    v_deductions := '[]'::JSONB;
+
+    FOR v_batch IN
+      SELECT id, batch_number, quantity, expiry_date
+      FROM public.stock_batches
+      WHERE product_id = v_product_id
+        AND quantity > 0
+        AND expiry_date >= current_date
+      ORDER BY expiry_date, created_at
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+
+      v_deduct := least(v_batch.quantity, v_remaining);
+
+      UPDATE public.stock_batches
+      SET quantity = quantity - v_deduct
+      WHERE id = v_batch.id;
+
+      v_deductions := v_deductions || jsonb_build_object(
+        'batch_id', v_batch.id,
+        'batch_number', v_batch.batch_number,
+        'quantity', v_deduct,
+        'expiry_date', v_batch.expiry_date
+      );
+      v_remaining := v_remaining - v_deduct;
+    END LOOP;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'total', round(v_quantity * v_unit_price, 2),
+      'batch_deductions', v_deductions
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise receipt numbering for the remainder of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('sales.receipt_number'));
+
+  SELECT coalesce(max(substring(receipt_number FROM '^KP-(\d+)$')::INTEGER), 0)
+  INTO v_last_number
+  FROM public.sales
+  WHERE receipt_number ~ '^KP-\d+$';
+
+  v_receipt_number := 'KP-' || lpad((v_last_number + 1)::TEXT, 5, '0');
+
+  INSERT INTO public.sales (receipt_number, total, payment_method, cashier_id, discount)
+  VALUES (v_receipt_number, v_total, p_payment_method, auth.uid(), coalesce(p_discount, 0))
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions'
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC) TO authenticated;
+
+COMMENT ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC) IS
+  'Creates a sale with FEFO batch deductions in one transaction and returns it with its items';
@@ -0,0 +1,335 @@
+-- File: supabase/migrations/20260108000000_document_numbering.sql
+-- Gap-free, concurrency-safe document numbering.
+--
+-- A native SEQUENCE is not transactional: a rolled-back checkout would burn a
+-- number and leave a gap. Instead each document type keeps its counter in a
+-- row of document_sequences. next_document_number() increments that row with
+-- UPDATE ... RETURNING, which holds the row lock until the caller's
+-- transaction ends, so concurrent checkouts queue behind each other and a
+-- rollback also rolls the counter back.
+
+-- =================================================================
+-- SECTION 1: SEQUENCE CONFIGURATION
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.document_sequences (
+  doc_type TEXT PRIMARY KEY,
+  prefix TEXT NOT NULL,
+  pad_width INTEGER NOT NULL DEFAULT 5 CHECK (pad_width BETWEEN 1 AND 12),
+  yearly_reset BOOLEAN NOT NULL DEFAULT false,
+  current_year INTEGER,
+  last_value BIGINT NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.document_sequences IS 'Per document type counters used by next_document_number()';
+COMMENT ON COLUMN public.document_sequences.yearly_reset IS 'Restart at 1 every January and include the year in the number';
+
+INSERT INTO public.document_sequences (doc_type, prefix, pad_width, yearly_reset)
+VALUES
+  ('sale', 'KP-', 5, false),
+  ('return', 'RET-', 5, false),
+  ('purchase', 'PO-', 5, false),
+  ('adjustment', 'ADJ-', 5, false)
+ON CONFLICT (doc_type) DO NOTHING;
+
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view document sequences" ON public.document_sequences;
+CREATE POLICY "Authenticated users can view document sequences" ON public.document_sequences
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Authenticated users can configure document sequences" ON public.document_sequences;
+CREATE POLICY "Authenticated users can configure document sequences" ON public.document_sequences
+  FOR UPDATE
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+-- =================================================================
+-- SECTION 2: NUMBER GENERATION
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION public.format_document_number(
+  p_prefix TEXT,
+  p_pad_width INTEGER,
+  p_year INTEGER,
+  p_value BIGINT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- lpad() truncates values longer than the width, so only pad shorter ones
+  SELECT p_prefix
+    || CASE WHEN p_year IS NOT NULL THEN p_year::TEXT || '-' ELSE '' END
+    || CASE
+         WHEN length(p_value::TEXT) >= p_pad_width THEN p_value::TEXT
+         ELSE lpad(p_value::TEXT, p_pad_width, '0')
+       END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_document_number(p_doc_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year INTEGER := extract(YEAR FROM now())::INTEGER;
+  v_seq public.document_sequences%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to generate document numbers' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.document_sequences
+  SET
+    last_value = CASE
+      WHEN yearly_reset AND current_year IS DISTINCT FROM v_year THEN 1
+      ELSE last_value + 1
+    END,
+    current_year = CASE WHEN yearly_reset THEN v_year ELSE current_year END,
+    updated_at = now()
+  WHERE doc_type = p_doc_type
+  RETURNING * INTO v_seq;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown document type: %', p_doc_type USING ERRCODE = '22023';
+  END IF;
+
+  RETURN public.format_document_number(
+    v_seq.prefix,
+    v_seq.pad_width,
+    CASE WHEN v_seq.yearly_reset THEN v_seq.current_year ELSE NULL END,
+    v_seq.last_value
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.next_document_number(TEXT) TO authenticated;
+
+-- =================================================================
+-- SECTION 3: BACKFILL EXISTING RECEIPTS
+-- =================================================================
+
+-- Continue the sale counter from the highest KP- number already issued
+UPDATE public.document_sequences
+SET last_value = greatest(last_value, coalesce((
+  SELECT max(substring(receipt_number FROM '^KP-(\d+)$')::BIGINT)
+  FROM public.sales
+  WHERE receipt_number ~ '^KP-\d+$'
+), 0))
+WHERE doc_type = 'sale';
+
+-- Missing or duplicated sale receipts: keep the earliest holder of each
+-- number and issue fresh numbers to the rest, oldest first
+DO $$
+DECLARE
+  v_row RECORD;
+  v_seq public.document_sequences%ROWTYPE;
+BEGIN
+  FOR v_row IN
+    SELECT id
+    FROM (
+      SELECT id, created_at, receipt_number,
+        row_number() OVER (PARTITION BY receipt_number ORDER BY created_at, id) AS rn
+      FROM public.sales
+    ) ranked
+    WHERE receipt_number IS NULL OR rn > 1
+    ORDER BY created_at, id
+  LOOP
+    UPDATE public.document_sequences
+    SET last_value = last_value + 1, updated_at = now()
+    WHERE doc_type = 'sale'
+    RETURNING * INTO v_seq;
+
+    UPDATE public.sales
+    SET receipt_number = public.format_document_number(v_seq.prefix, v_seq.pad_width, NULL, v_seq.last_value)
+    WHERE id = v_row.id;
+  END LOOP;
+END;
+$$;
+
+-- Old returns used a time-based RET-yyyymmdd-xxxxxx scheme; those numbers are
+-- kept for reference and only missing or colliding ones are reissued
+DO $$
+DECLARE
+  v_row RECORD;
+  v_seq public.document_sequences%ROWTYPE;
+BEGIN
+  FOR v_row IN
+    SELECT id
+    FROM (
+      SELECT id, created_at, receipt_number,
+        row_number() OVER (PARTITION BY receipt_number ORDER BY created_at, id) AS rn
+      FROM public.sales_returns
+    ) ranked
+    WHERE receipt_number IS NULL OR rn > 1
+    ORDER BY created_at, id
+  LOOP
+    UPDATE public.document_sequences
+    SET last_value = last_value + 1, updated_at = now()
+    WHERE doc_type = 'return'
+    RETURNING * INTO v_seq;
+
+    UPDATE public.sales_returns
+    SET receipt_number = public.format_document_number(v_seq.prefix, v_seq.pad_width, NULL, v_seq.last_value)
+    WHERE id = v_row.id;
+  END LOOP;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 4: UNIQUENESS CONSTRAINTS
+-- =================================================================
+
+ALTER TABLE public.sales ALTER COLUMN receipt_number SET NOT NULL;
+ALTER TABLE public.sales_returns ALTER COLUMN receipt_number SET NOT NULL;
+
+ALTER TABLE public.sales DROP CONSTRAINT IF EXISTS sales_receipt_number_key;
+ALTER TABLE public.sales ADD CONSTRAINT sales_receipt_number_key UNIQUE (receipt_number);
+
+ALTER TABLE public.sales_returns DROP CONSTRAINT IF EXISTS sales_returns_receipt_number_key;
+ALTER TABLE public.sales_returns ADD CONSTRAINT sales_returns_receipt_number_key UNIQUE (receipt_number);
+
+-- Numbers are drawn inside the inserting transaction, so clients simply omit
+-- receipt_number and a failed insert never consumes a number
+ALTER TABLE public.sales ALTER COLUMN receipt_number SET DEFAULT public.next_document_number('sale');
+ALTER TABLE public.sales_returns ALTER COLUMN receipt_number SET DEFAULT public.next_document_number('return');
+
+-- =================================================================
+-- SECTION 5: USE THE SEQUENCE FOR CHECKOUT
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_batch RECORD;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_remaining INTEGER;
+  v_deduct INTEGER;
+  v_available INTEGER;
+  v_deductions JSONB;
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    -- Lock every sellable batch of this product so a concurrent checkout
+    -- waits here instead of deducting the same units.
+    SELECT coalesce(sum(quantity), 0) INTO v_available
+    FROM (
+      SELECT quantity
+      FROM public.stock_batches
+      WHERE product_id = v_product_id
+        AND quantity > 0
+        AND expiry_date >= current_date
+      FOR UPDATE
+    ) locked;
+
+    IF v_available < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %. Available: %', v_product_name, v_available
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    -- FEFO: earliest expiry first
+    v_remaining := v_quantity;
+    v_deductions := '[]'::JSONB;
+
+    FOR v_batch IN
+      SELECT id, batch_number, quantity, expiry_date
+      FROM public.stock_batches
+      WHERE product_id = v_product_id
+        AND quantity > 0
+        AND expiry_date >= current_date
+      ORDER BY expiry_date, created_at
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+
+      v_deduct := least(v_batch.quantity, v_remaining);
+
+      UPDATE public.stock_batches
+      SET quantity = quantity - v_deduct
+      WHERE id = v_batch.id;
+
+      v_deductions := v_deductions || jsonb_build_object(
+        'batch_id', v_batch.id,
+        'batch_number', v_batch.batch_number,
+        'quantity', v_deduct,
+        'expiry_date', v_batch.expiry_date
+      );
+      v_remaining := v_remaining - v_deduct;
+    END LOOP;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'total', round(v_quantity * v_unit_price, 2),
+      'batch_deductions', v_deductions
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount)
+  VALUES (v_total, p_payment_method, auth.uid(), coalesce(p_discount, 0))
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions'
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+END;
+$$;
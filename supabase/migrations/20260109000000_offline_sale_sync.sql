@@ -0,0 +1,195 @@
+-- File: supabase/migrations/20260109000000_offline_sale_sync.sql
+-- Lets the POS replay sales that were queued while the counter was offline.
+--
+-- Every checkout now carries a client-generated reference. Replaying the same
+-- reference returns the sale that was already recorded instead of selling the
+-- stock twice, so a sync that dies half way through can simply be retried.
+
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS client_ref UUID;
+
+ALTER TABLE public.sales DROP CONSTRAINT IF EXISTS sales_client_ref_key;
+ALTER TABLE public.sales ADD CONSTRAINT sales_client_ref_key UNIQUE (client_ref);
+
+COMMENT ON COLUMN public.sales.client_ref IS 'Idempotency key generated by the till; set for every POS checkout';
+
+-- =================================================================
+-- SECTION 1: FEFO DEDUCTION HELPER
+-- =================================================================
+
+-- Locks the product's sellable batches, deducts p_quantity earliest expiry
+-- first and returns the deductions it made. Raises P0001 when stock is short.
+CREATE OR REPLACE FUNCTION public.deduct_stock_fefo(
+  p_product_id UUID,
+  p_product_name TEXT,
+  p_quantity INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_available INTEGER;
+  v_remaining INTEGER := p_quantity;
+  v_deduct INTEGER;
+  v_deductions JSONB := '[]'::JSONB;
+BEGIN
+  -- Lock every sellable batch of this product so a concurrent checkout
+  -- waits here instead of deducting the same units.
+  SELECT coalesce(sum(quantity), 0) INTO v_available
+  FROM (
+    SELECT quantity
+    FROM public.stock_batches
+    WHERE product_id = p_product_id
+      AND quantity > 0
+      AND expiry_date >= current_date
+    FOR UPDATE
+  ) locked;
+
+  IF v_available < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock for %. Available: %', p_product_name, v_available
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_batch IN
+    SELECT id, batch_number, quantity, expiry_date
+    FROM public.stock_batches
+    WHERE product_id = p_product_id
+      AND quantity > 0
+      AND expiry_date >= current_date
+    ORDER BY expiry_date, created_at
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_deduct := least(v_batch.quantity, v_remaining);
+
+    UPDATE public.stock_batches
+    SET quantity = quantity - v_deduct
+    WHERE id = v_batch.id;
+
+    v_deductions := v_deductions || jsonb_build_object(
+      'batch_id', v_batch.id,
+      'batch_number', v_batch.batch_number,
+      'quantity', v_deduct,
+      'expiry_date', v_batch.expiry_date
+    );
+    v_remaining := v_remaining - v_deduct;
+  END LOOP;
+
+  RETURN v_deductions;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 2: IDEMPOTENT CHECKOUT
+-- =================================================================
+
+-- The signature changes, so the old overload has to go first
+DROP FUNCTION IF EXISTS public.process_sale(JSONB, TEXT, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0,
+  p_client_ref UUID DEFAULT NULL,
+  p_sold_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replayed checkout: hand back what was already recorded
+  IF p_client_ref IS NOT NULL THEN
+    SELECT * INTO v_sale FROM public.sales WHERE client_ref = p_client_ref;
+    IF FOUND THEN
+      SELECT coalesce(jsonb_agg(to_jsonb(si)), '[]'::JSONB) INTO v_items
+      FROM (
+        SELECT id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+        FROM public.sale_items
+        WHERE sale_id = v_sale.id
+      ) si;
+      RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sold_at IS NOT NULL AND p_sold_at > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Sale time cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'total', round(v_quantity * v_unit_price, 2),
+      'batch_deductions', public.deduct_stock_fefo(v_product_id, v_product_name, v_quantity)
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount, client_ref, created_at)
+  VALUES (v_total, p_payment_method, auth.uid(), coalesce(p_discount, 0), p_client_ref, coalesce(p_sold_at, now()))
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions'
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ) IS
+  'Creates a sale with FEFO batch deductions in one transaction; replaying a client_ref returns the existing sale';
@@ -0,0 +1,354 @@
+-- File: supabase/migrations/20260110000000_role_based_access.sql
+-- Real role-based access control.
+--
+-- Until now every signed-in user was rewritten to 'owner' by the app and the
+-- RLS policies only checked auth.uid() IS NOT NULL. This migration introduces
+-- three roles (owner, pharmacist, cashier), a permission matrix in
+-- has_permission() and RLS policies that use it.
+--
+-- The matrix must stay in sync with src/lib/permissions.ts.
+
+-- =================================================================
+-- SECTION 1: ROLES
+-- =================================================================
+
+-- role may have been created as an enum; plain text with a CHECK is easier to extend
+ALTER TABLE public.user_roles ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.user_roles ALTER COLUMN role TYPE TEXT USING role::TEXT;
+
+UPDATE public.user_roles SET role = 'owner' WHERE role = 'admin';
+UPDATE public.user_roles SET role = 'cashier' WHERE role NOT IN ('owner', 'pharmacist', 'cashier');
+
+-- One role per user: keep the most privileged row
+DELETE FROM public.user_roles ur
+USING public.user_roles other
+WHERE ur.user_id = other.user_id
+  AND ur.id <> other.id
+  AND (
+    CASE ur.role WHEN 'owner' THEN 3 WHEN 'pharmacist' THEN 2 ELSE 1 END,
+    ur.id::TEXT
+  ) < (
+    CASE other.role WHEN 'owner' THEN 3 WHEN 'pharmacist' THEN 2 ELSE 1 END,
+    other.id::TEXT
+  );
+
+-- The app used to promote everyone to owner, so existing roles carry no
+-- information. Keep the earliest account as owner and demote the rest; the
+-- owner re-assigns pharmacists afterwards.
+UPDATE public.user_roles ur
+SET role = 'cashier'
+WHERE ur.role = 'owner'
+  AND ur.user_id <> (
+    SELECT u.id
+    FROM auth.users u
+    JOIN public.user_roles r ON r.user_id = u.id
+    ORDER BY u.created_at
+    LIMIT 1
+  );
+
+UPDATE public.user_roles SET can_add_products = (role = 'owner');
+
+ALTER TABLE public.user_roles ALTER COLUMN role SET DEFAULT 'cashier';
+
+ALTER TABLE public.user_roles DROP CONSTRAINT IF EXISTS user_roles_role_check;
+ALTER TABLE public.user_roles ADD CONSTRAINT user_roles_role_check
+  CHECK (role IN ('owner', 'pharmacist', 'cashier'));
+
+ALTER TABLE public.user_roles DROP CONSTRAINT IF EXISTS user_roles_user_id_key;
+ALTER TABLE public.user_roles ADD CONSTRAINT user_roles_user_id_key UNIQUE (user_id);
+
+COMMENT ON COLUMN public.user_roles.role IS 'owner, pharmacist or cashier - see has_permission()';
+
+-- =================================================================
+-- SECTION 2: PERMISSION HELPERS
+-- =================================================================
+
+-- SECURITY DEFINER so policies on user_roles can call it without recursing
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.user_roles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE public.current_app_role()
+    WHEN 'owner' THEN true
+    WHEN 'pharmacist' THEN p_permission IN (
+      'sales.create', 'sales.return', 'stock.receive', 'reports.view'
+    )
+    WHEN 'cashier' THEN p_permission IN ('sales.create')
+    ELSE false
+  END;
+$$;
+
+-- Called by the app after sign in. The first account becomes owner,
+-- every later sign up starts as cashier until the owner promotes them.
+CREATE OR REPLACE FUNCTION public.ensure_user_role()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT role INTO v_role FROM public.user_roles WHERE user_id = auth.uid();
+  IF FOUND THEN
+    RETURN v_role;
+  END IF;
+
+  -- Two first sign ups at the same moment must not both become owner
+  PERFORM pg_advisory_xact_lock(hashtext('ensure_user_role'));
+
+  v_role := CASE
+    WHEN EXISTS (SELECT 1 FROM public.user_roles WHERE role = 'owner') THEN 'cashier'
+    ELSE 'owner'
+  END;
+
+  INSERT INTO public.user_roles (user_id, role, can_add_products)
+  VALUES (auth.uid(), v_role, v_role = 'owner')
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT role INTO v_role FROM public.user_roles WHERE user_id = auth.uid();
+  RETURN v_role;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_app_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.ensure_user_role() TO authenticated;
+
+-- =================================================================
+-- SECTION 3: RLS POLICIES
+-- =================================================================
+
+-- Remove every existing policy on these tables. Policies are permissive and
+-- OR-ed together, so any leftover "auth.uid() IS NOT NULL" policy would
+-- silently re-open the table.
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'products', 'racks', 'stock_batches', 'sales', 'sale_items',
+        'sales_returns', 'return_items', 'user_roles', 'profiles'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.racks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.return_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Products: everyone can look up, only owners change the catalogue
+CREATE POLICY "Staff can view products" ON public.products
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Owners can manage products" ON public.products
+  FOR ALL
+  USING (public.has_permission('products.manage'))
+  WITH CHECK (public.has_permission('products.manage'));
+
+-- Racks
+CREATE POLICY "Staff can view racks" ON public.racks
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Owners can manage racks" ON public.racks
+  FOR ALL
+  USING (public.has_permission('racks.manage'))
+  WITH CHECK (public.has_permission('racks.manage'));
+
+-- Stock batches: sales deduct through process_sale (SECURITY DEFINER),
+-- returns put stock back from the client
+CREATE POLICY "Staff can view stock batches" ON public.stock_batches
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Stock receivers can add batches" ON public.stock_batches
+  FOR INSERT WITH CHECK (public.has_permission('stock.receive'));
+CREATE POLICY "Stock receivers can update batches" ON public.stock_batches
+  FOR UPDATE
+  USING (public.has_permission('stock.receive') OR public.has_permission('sales.return'))
+  WITH CHECK (public.has_permission('stock.receive') OR public.has_permission('sales.return'));
+CREATE POLICY "Owners can delete batches" ON public.stock_batches
+  FOR DELETE USING (public.has_permission('products.manage'));
+
+-- Sales are only written by process_sale
+CREATE POLICY "Staff can view sales" ON public.sales
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Staff can view sale items" ON public.sale_items
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Returns
+CREATE POLICY "Staff can view returns" ON public.sales_returns
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Return handlers can create returns" ON public.sales_returns
+  FOR INSERT WITH CHECK (public.has_permission('sales.return'));
+CREATE POLICY "Staff can view return items" ON public.return_items
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Return handlers can create return items" ON public.return_items
+  FOR INSERT WITH CHECK (public.has_permission('sales.return'));
+
+-- Roles: users see their own, owners manage everyone's
+CREATE POLICY "Users can view own role" ON public.user_roles
+  FOR SELECT USING (user_id = auth.uid() OR public.has_permission('users.manage'));
+CREATE POLICY "Owners can manage roles" ON public.user_roles
+  FOR ALL
+  USING (public.has_permission('users.manage'))
+  WITH CHECK (public.has_permission('users.manage'));
+
+-- Profiles: names are shown on receipts and reports, so everyone can read them
+CREATE POLICY "Staff can view profiles" ON public.profiles
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can create own profile" ON public.profiles
+  FOR INSERT WITH CHECK (id = auth.uid());
+CREATE POLICY "Users can update own profile" ON public.profiles
+  FOR UPDATE
+  USING (id = auth.uid() OR public.has_permission('users.manage'))
+  WITH CHECK (id = auth.uid() OR public.has_permission('users.manage'));
+
+-- Document numbering format is owner configuration
+DROP POLICY IF EXISTS "Authenticated users can configure document sequences" ON public.document_sequences;
+DROP POLICY IF EXISTS "Owners can configure document sequences" ON public.document_sequences;
+CREATE POLICY "Owners can configure document sequences" ON public.document_sequences
+  FOR UPDATE
+  USING (public.has_permission('settings.manage'))
+  WITH CHECK (public.has_permission('settings.manage'));
+
+-- =================================================================
+-- SECTION 4: CHECKOUT
+-- =================================================================
+
+-- Cashiers may sell but not edit stock directly, so process_sale now runs
+-- with the owner's rights and checks the permission itself.
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0,
+  p_client_ref UUID DEFAULT NULL,
+  p_sold_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.has_permission('sales.create') THEN
+    RAISE EXCEPTION 'You do not have permission to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replayed checkout: hand back what was already recorded
+  IF p_client_ref IS NOT NULL THEN
+    SELECT * INTO v_sale FROM public.sales WHERE client_ref = p_client_ref;
+    IF FOUND THEN
+      SELECT coalesce(jsonb_agg(to_jsonb(si)), '[]'::JSONB) INTO v_items
+      FROM (
+        SELECT id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+        FROM public.sale_items
+        WHERE sale_id = v_sale.id
+      ) si;
+      RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sold_at IS NOT NULL AND p_sold_at > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Sale time cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'total', round(v_quantity * v_unit_price, 2),
+      'batch_deductions', public.deduct_stock_fefo(v_product_id, v_product_name, v_quantity)
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount, client_ref, created_at)
+  VALUES (v_total, p_payment_method, auth.uid(), coalesce(p_discount, 0), p_client_ref, coalesce(p_sold_at, now()))
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions'
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+END;
+$$;
+
+-- The FEFO helper writes stock directly; only process_sale may call it
+REVOKE ALL ON FUNCTION public.deduct_stock_fefo(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,338 @@
+-- File: supabase/migrations/20260111000000_staff_management.sql
+-- Staff management console and audit trail.
+--
+-- Owners invite staff, change roles, deactivate accounts and reset passwords
+-- from the Users page. Every change goes through a SECURITY DEFINER function
+-- (or the staff-admin edge function) that writes a row to audit_log.
+
+-- =================================================================
+-- SECTION 1: ACCOUNT STATUS
+-- =================================================================
+
+ALTER TABLE public.user_roles
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.user_roles.is_active IS 'Deactivated staff keep their history but lose every permission';
+
+-- A deactivated account has no role, so has_permission() denies everything
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.user_roles WHERE user_id = auth.uid() AND is_active;
+$$;
+
+-- Role and profile changes for other users now go through the audited
+-- functions below instead of direct table writes
+DROP POLICY IF EXISTS "Owners can manage roles" ON public.user_roles;
+
+DROP POLICY IF EXISTS "Users can update own profile" ON public.profiles;
+CREATE POLICY "Users can update own profile" ON public.profiles
+  FOR UPDATE
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+-- Read access that only asked for a signed-in user now asks for an active
+-- role, so a deactivated account cannot keep reading stock, sales or staff.
+-- Policies that check a permission already deny it through has_permission().
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT schemaname, tablename, policyname, qual, with_check
+    FROM pg_policies
+    WHERE schemaname IN ('public', 'storage')
+      AND (qual = '(auth.uid() IS NOT NULL)' OR with_check = '(auth.uid() IS NOT NULL)')
+  LOOP
+    IF v_policy.qual = '(auth.uid() IS NOT NULL)' THEN
+      EXECUTE format(
+        'ALTER POLICY %I ON %I.%I USING (public.current_app_role() IS NOT NULL)',
+        v_policy.policyname, v_policy.schemaname, v_policy.tablename
+      );
+    END IF;
+    IF v_policy.with_check = '(auth.uid() IS NOT NULL)' THEN
+      EXECUTE format(
+        'ALTER POLICY %I ON %I.%I WITH CHECK (public.current_app_role() IS NOT NULL)',
+        v_policy.policyname, v_policy.schemaname, v_policy.tablename
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- A deactivated user may still read their own profile, so the app can show
+-- who is signed in on the "Account deactivated" screen
+DROP POLICY IF EXISTS "Users can view own profile" ON public.profiles;
+CREATE POLICY "Users can view own profile" ON public.profiles
+  FOR SELECT USING (id = auth.uid());
+
+-- =================================================================
+-- SECTION 2: AUDIT LOG
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::JSONB
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_occurred_at_idx ON public.audit_log (occurred_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON public.audit_log (entity_type, entity_id);
+
+COMMENT ON TABLE public.audit_log IS 'Append-only record of sensitive changes; written only by log_audit_event()';
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view audit log" ON public.audit_log;
+CREATE POLICY "Owners can view audit log" ON public.audit_log
+  FOR SELECT USING (public.has_permission('users.manage'));
+
+-- No INSERT/UPDATE/DELETE policies and no table privileges: rows can only be
+-- added through log_audit_event() and never changed afterwards
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(
+  p_action TEXT,
+  p_entity_type TEXT,
+  p_entity_id TEXT DEFAULT NULL,
+  p_details JSONB DEFAULT '{}'::JSONB
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(trim(p_action), '') = '' OR coalesce(trim(p_entity_type), '') = '' THEN
+    RAISE EXCEPTION 'Audit action and entity type are required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.audit_log (actor_id, action, entity_type, entity_id, details)
+  VALUES (auth.uid(), p_action, p_entity_type, p_entity_id, coalesce(p_details, '{}'::JSONB))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_audit_event(TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+-- =================================================================
+-- SECTION 3: STAFF CONSOLE
+-- =================================================================
+
+-- profiles has no email or login time; both live in auth.users
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  phone TEXT,
+  id_card_number TEXT,
+  address TEXT,
+  email TEXT,
+  role TEXT,
+  is_active BOOLEAN,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  invited_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage staff' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    coalesce(p.full_name, u.raw_user_meta_data->>'full_name', '')::TEXT,
+    p.phone::TEXT,
+    p.id_card_number::TEXT,
+    p.address::TEXT,
+    u.email::TEXT,
+    r.role,
+    coalesce(r.is_active, false),
+    u.created_at,
+    u.last_sign_in_at,
+    u.invited_at
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  ORDER BY u.created_at;
+END;
+$$;
+
+-- Refuses any change that would leave the pharmacy without an active owner
+CREATE OR REPLACE FUNCTION public.assert_owner_remains(p_user_id UUID, p_new_role TEXT, p_new_active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (p_new_role = 'owner' AND p_new_active) THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE role = 'owner' AND is_active AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'At least one active owner is required' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.assert_owner_remains(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_staff_role(p_user_id UUID, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_role TEXT;
+  v_old_active BOOLEAN;
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage staff' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role NOT IN ('owner', 'pharmacist', 'cashier') THEN
+    RAISE EXCEPTION 'Unknown role: %', p_role USING ERRCODE = '22023';
+  END IF;
+
+  SELECT role, is_active INTO v_old_role, v_old_active FROM public.user_roles WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.user_roles (user_id, role, can_add_products)
+    VALUES (p_user_id, p_role, p_role = 'owner');
+  ELSE
+    IF v_old_role = p_role THEN
+      RETURN;
+    END IF;
+    PERFORM public.assert_owner_remains(p_user_id, p_role, v_old_active);
+    UPDATE public.user_roles
+    SET role = p_role, can_add_products = (p_role = 'owner')
+    WHERE user_id = p_user_id;
+  END IF;
+
+  PERFORM public.log_audit_event(
+    'staff.role_changed', 'user', p_user_id::TEXT,
+    jsonb_build_object('old', jsonb_build_object('role', v_old_role), 'new', jsonb_build_object('role', p_role))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_staff_active(p_user_id UUID, p_active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_role TEXT;
+  v_old_active BOOLEAN;
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage staff' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT p_active THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT role, is_active INTO v_old_role, v_old_active FROM public.user_roles WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This account has no role yet' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_old_active = p_active THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.assert_owner_remains(p_user_id, v_old_role, p_active);
+
+  UPDATE public.user_roles SET is_active = p_active WHERE user_id = p_user_id;
+
+  PERFORM public.log_audit_event(
+    CASE WHEN p_active THEN 'staff.reactivated' ELSE 'staff.deactivated' END,
+    'user', p_user_id::TEXT,
+    jsonb_build_object('old', jsonb_build_object('is_active', v_old_active), 'new', jsonb_build_object('is_active', p_active))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_staff_profile(
+  p_user_id UUID,
+  p_full_name TEXT,
+  p_phone TEXT,
+  p_id_card_number TEXT,
+  p_address TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage staff' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(trim(p_full_name), '') = '' THEN
+    RAISE EXCEPTION 'Full name is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT jsonb_build_object('full_name', full_name, 'phone', phone, 'id_card_number', id_card_number, 'address', address)
+  INTO v_old
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.profiles
+  SET full_name = trim(p_full_name),
+      phone = nullif(trim(p_phone), ''),
+      id_card_number = nullif(trim(p_id_card_number), ''),
+      address = nullif(trim(p_address), '')
+  WHERE id = p_user_id
+  RETURNING jsonb_build_object('full_name', full_name, 'phone', phone, 'id_card_number', id_card_number, 'address', address)
+  INTO v_new;
+
+  IF v_new IS DISTINCT FROM v_old THEN
+    PERFORM public.log_audit_event('staff.profile_updated', 'user', p_user_id::TEXT,
+      jsonb_build_object('old', v_old, 'new', v_new));
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_staff() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_staff_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_staff_active(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_staff_profile(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,104 @@
+-- File: supabase/migrations/20260112000000_audit_triggers.sql
+-- Row-level audit trail for inventory, prices, sales and roles.
+--
+-- Every INSERT, UPDATE and DELETE on the audited tables writes the before and
+-- after row to audit_log, together with the user who made the change. The
+-- trigger runs as SECURITY DEFINER so it can write to audit_log even though
+-- staff have no privileges on that table.
+
+-- =================================================================
+-- SECTION 1: TRIGGER FUNCTION
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_entity_id TEXT;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  -- Nothing actually changed (e.g. an UPDATE that set the same values)
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+
+  v_entity_id := coalesce(v_new->>'id', v_old->>'id');
+
+  INSERT INTO public.audit_log (actor_id, action, entity_type, entity_id, details)
+  VALUES (
+    auth.uid(),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    v_entity_id,
+    jsonb_build_object('old', v_old, 'new', v_new)
+  );
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.audit_row_change() FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- SECTION 2: AUDITED TABLES
+-- =================================================================
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['products', 'stock_batches', 'racks', 'sales', 'sales_returns', 'user_roles']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+         FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 3: ACCESS
+-- =================================================================
+
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON public.audit_log (actor_id, occurred_at DESC);
+
+-- Viewing the trail has its own permission (owner only, see has_permission)
+DROP POLICY IF EXISTS "Owners can view audit log" ON public.audit_log;
+CREATE POLICY "Owners can view audit log" ON public.audit_log
+  FOR SELECT USING (public.has_permission('audit.view'));
+
+-- Belt and braces on top of the missing privileges: even the table owner
+-- cannot rewrite history through a normal UPDATE or DELETE
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Deleting a user account nulls actor_id through the foreign key; allow that and nothing else
+  IF TG_OP = 'UPDATE' AND NEW.actor_id IS NULL
+     AND (to_jsonb(NEW) - 'actor_id') = (to_jsonb(OLD) - 'actor_id') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'audit_log is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
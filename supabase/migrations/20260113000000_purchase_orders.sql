@@ -0,0 +1,295 @@
+-- File: supabase/migrations/20260113000000_purchase_orders.sql
+-- Suppliers and purchase orders.
+--
+-- stock_batches.supplier used to be free text. Suppliers now have their own
+-- table, and stock can be received against purchase order lines so ordered
+-- and delivered quantities can be compared per supplier.
+
+-- =================================================================
+-- SECTION 1: SUPPLIERS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  contact_person TEXT,
+  phone TEXT,
+  email TEXT,
+  address TEXT,
+  ntn TEXT,
+  payment_terms_days INTEGER NOT NULL DEFAULT 0 CHECK (payment_terms_days >= 0),
+  lead_time_days INTEGER NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS suppliers_name_key ON public.suppliers (lower(name));
+
+COMMENT ON COLUMN public.suppliers.ntn IS 'National Tax Number';
+COMMENT ON COLUMN public.suppliers.payment_terms_days IS 'Days of credit the supplier allows (0 = cash on delivery)';
+COMMENT ON COLUMN public.suppliers.lead_time_days IS 'Usual days between placing an order and delivery';
+
+-- Turn the free-text supplier names already on batches into supplier rows
+INSERT INTO public.suppliers (name)
+SELECT DISTINCT ON (lower(trim(supplier))) trim(supplier)
+FROM public.stock_batches
+WHERE supplier IS NOT NULL AND trim(supplier) <> ''
+ORDER BY lower(trim(supplier)), trim(supplier)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.stock_batches
+ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+UPDATE public.stock_batches b
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE b.supplier_id IS NULL
+  AND b.supplier IS NOT NULL
+  AND lower(trim(b.supplier)) = lower(s.name);
+
+COMMENT ON COLUMN public.stock_batches.supplier IS 'Supplier name at the time of purchase; supplier_id links to suppliers';
+
+-- =================================================================
+-- SECTION 2: PURCHASE ORDERS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT NOT NULL UNIQUE DEFAULT public.next_document_number('purchase'),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  order_date DATE NOT NULL DEFAULT current_date,
+  expected_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_supplier_idx ON public.purchase_orders (supplier_id, order_date DESC);
+CREATE INDEX IF NOT EXISTS purchase_order_items_product_idx ON public.purchase_order_items (product_id);
+
+COMMENT ON COLUMN public.purchase_order_items.quantity_received IS 'Maintained by the receive_purchase_order_batch trigger on stock_batches';
+
+ALTER TABLE public.stock_batches
+ADD COLUMN IF NOT EXISTS purchase_order_item_id UUID REFERENCES public.purchase_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS stock_batches_po_item_idx ON public.stock_batches (purchase_order_item_id);
+
+-- =================================================================
+-- SECTION 3: RECEIVING
+-- =================================================================
+
+-- Recalculates a PO's status from its lines. Draft and cancelled orders are
+-- left alone; everything else follows what has arrived.
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_status(p_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_outstanding INTEGER;
+  v_received INTEGER;
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE quantity_received < quantity_ordered),
+    coalesce(sum(quantity_received), 0)
+  INTO v_outstanding, v_received
+  FROM public.purchase_order_items
+  WHERE purchase_order_id = p_purchase_order_id;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+        WHEN v_outstanding = 0 AND v_received > 0 THEN 'received'
+        WHEN v_received > 0 THEN 'partially_received'
+        ELSE 'sent'
+      END,
+      updated_at = now()
+  WHERE id = p_purchase_order_id
+    AND status NOT IN ('draft', 'cancelled');
+END;
+$$;
+
+-- A batch created against a PO line counts towards that line's received quantity
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_batch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.purchase_order_items%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  IF NEW.purchase_order_item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_item
+  FROM public.purchase_order_items
+  WHERE id = NEW.purchase_order_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT status INTO v_status
+  FROM public.purchase_orders
+  WHERE id = v_item.purchase_order_id;
+
+  IF v_status IN ('draft', 'cancelled') THEN
+    RAISE EXCEPTION 'Cannot receive stock against a % purchase order', v_status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_item.product_id <> NEW.product_id THEN
+    RAISE EXCEPTION 'Batch product does not match the purchase order line' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.purchase_order_items
+  SET quantity_received = quantity_received + NEW.quantity
+  WHERE id = v_item.id;
+
+  PERFORM public.refresh_purchase_order_status(v_item.purchase_order_id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS receive_purchase_order_batch ON public.stock_batches;
+CREATE TRIGGER receive_purchase_order_batch
+  AFTER INSERT ON public.stock_batches
+  FOR EACH ROW EXECUTE FUNCTION public.receive_purchase_order_batch();
+
+-- Batches received against a PO always carry the PO's supplier
+CREATE OR REPLACE FUNCTION public.set_batch_supplier_from_po()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.purchase_order_item_id IS NOT NULL THEN
+    SELECT s.id, s.name INTO NEW.supplier_id, NEW.supplier
+    FROM public.purchase_order_items i
+    JOIN public.purchase_orders o ON o.id = i.purchase_order_id
+    JOIN public.suppliers s ON s.id = o.supplier_id
+    WHERE i.id = NEW.purchase_order_item_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_batch_supplier_from_po ON public.stock_batches;
+CREATE TRIGGER set_batch_supplier_from_po
+  BEFORE INSERT ON public.stock_batches
+  FOR EACH ROW EXECUTE FUNCTION public.set_batch_supplier_from_po();
+
+REVOKE ALL ON FUNCTION public.refresh_purchase_order_status(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- SECTION 4: CREATING ORDERS
+-- =================================================================
+
+-- Creates the order and its lines in one transaction so a failed line never
+-- leaves an empty order behind (or burns a PO number). Runs as the caller,
+-- so the RLS policies below decide who may use it.
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_expected_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.purchase_orders (supplier_id, expected_date, notes, created_by)
+  VALUES (p_supplier_id, p_expected_date, nullif(trim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+  SELECT
+    v_order.id,
+    (item->>'product_id')::UUID,
+    (item->>'quantity')::INTEGER,
+    coalesce((item->>'unit_cost')::NUMERIC, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN v_order;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 5: RLS AND AUDIT
+-- =================================================================
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view suppliers" ON public.suppliers;
+CREATE POLICY "Staff can view suppliers" ON public.suppliers
+  FOR SELECT USING (public.current_app_role() IS NOT NULL);
+DROP POLICY IF EXISTS "Purchasers can manage suppliers" ON public.suppliers;
+CREATE POLICY "Purchasers can manage suppliers" ON public.suppliers
+  FOR ALL
+  USING (public.has_permission('purchasing.manage'))
+  WITH CHECK (public.has_permission('purchasing.manage'));
+
+-- Stock receivers need to see orders to receive against them
+DROP POLICY IF EXISTS "Stock receivers can view purchase orders" ON public.purchase_orders;
+CREATE POLICY "Stock receivers can view purchase orders" ON public.purchase_orders
+  FOR SELECT USING (public.has_permission('stock.receive') OR public.has_permission('purchasing.manage'));
+DROP POLICY IF EXISTS "Purchasers can manage purchase orders" ON public.purchase_orders;
+CREATE POLICY "Purchasers can manage purchase orders" ON public.purchase_orders
+  FOR ALL
+  USING (public.has_permission('purchasing.manage'))
+  WITH CHECK (public.has_permission('purchasing.manage'));
+
+DROP POLICY IF EXISTS "Stock receivers can view purchase order items" ON public.purchase_order_items;
+CREATE POLICY "Stock receivers can view purchase order items" ON public.purchase_order_items
+  FOR SELECT USING (public.has_permission('stock.receive') OR public.has_permission('purchasing.manage'));
+DROP POLICY IF EXISTS "Purchasers can manage purchase order items" ON public.purchase_order_items;
+CREATE POLICY "Purchasers can manage purchase order items" ON public.purchase_order_items
+  FOR ALL
+  USING (public.has_permission('purchasing.manage'))
+  WITH CHECK (public.has_permission('purchasing.manage'));
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['suppliers', 'purchase_orders', 'purchase_order_items']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+         FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
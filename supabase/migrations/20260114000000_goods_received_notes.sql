@@ -0,0 +1,165 @@
+-- File: supabase/migrations/20260114000000_goods_received_notes.sql
+-- Goods received notes (GRN).
+--
+-- A distributor invoice is entered once, as a header plus a grid of lines.
+-- receive_goods() saves the header and one stock_batches row per line in a
+-- single transaction, so an invoice is either fully in stock or not at all.
+
+-- =================================================================
+-- SECTION 1: TABLES
+-- =================================================================
+
+INSERT INTO public.document_sequences (doc_type, prefix, pad_width, yearly_reset)
+VALUES ('grn', 'GRN-', 5, false)
+ON CONFLICT (doc_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.goods_received_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_number TEXT NOT NULL UNIQUE DEFAULT public.next_document_number('grn'),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  invoice_number TEXT NOT NULL CHECK (trim(invoice_number) <> ''),
+  invoice_date DATE NOT NULL,
+  subtotal NUMERIC(12,2) NOT NULL DEFAULT 0,
+  discount_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  tax_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  invoice_total NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (invoice_total >= 0),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.goods_received_notes.subtotal IS 'Sum of quantity * cost_price over the received lines';
+COMMENT ON COLUMN public.goods_received_notes.invoice_total IS 'Grand total as printed on the supplier invoice';
+
+-- The same supplier invoice must not be received twice
+CREATE UNIQUE INDEX IF NOT EXISTS goods_received_notes_invoice_key
+  ON public.goods_received_notes (supplier_id, lower(trim(invoice_number)));
+
+ALTER TABLE public.stock_batches
+ADD COLUMN IF NOT EXISTS grn_id UUID REFERENCES public.goods_received_notes(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS stock_batches_grn_idx ON public.stock_batches (grn_id);
+
+-- =================================================================
+-- SECTION 2: SAVING AN INVOICE
+-- =================================================================
+
+-- p_lines: [{ product_id, batch_number, quantity, cost_price, selling_price,
+--             expiry_date, purchase_order_item_id? }]
+-- Runs as the caller so the stock_batches and GRN policies apply.
+CREATE OR REPLACE FUNCTION public.receive_goods(
+  p_supplier_id UUID,
+  p_invoice_number TEXT,
+  p_invoice_date DATE,
+  p_lines JSONB,
+  p_discount_amount NUMERIC DEFAULT 0,
+  p_tax_amount NUMERIC DEFAULT 0,
+  p_invoice_total NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.goods_received_notes
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_grn public.goods_received_notes;
+  v_supplier_name TEXT;
+  v_line JSONB;
+  v_index INTEGER := 0;
+  v_subtotal NUMERIC := 0;
+BEGIN
+  IF NOT public.has_permission('stock.receive') THEN
+    RAISE EXCEPTION 'You do not have permission to receive stock' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'A goods received note needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT name INTO v_supplier_name FROM public.suppliers WHERE id = p_supplier_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate every line before writing anything so the error names the line
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_index := v_index + 1;
+
+    IF coalesce(trim(v_line->>'batch_number'), '') = '' THEN
+      RAISE EXCEPTION 'Line %: batch number is required', v_index USING ERRCODE = '22023';
+    END IF;
+    IF coalesce((v_line->>'quantity')::INTEGER, 0) <= 0 THEN
+      RAISE EXCEPTION 'Line %: quantity must be positive', v_index USING ERRCODE = '22023';
+    END IF;
+    IF coalesce((v_line->>'cost_price')::NUMERIC, 0) <= 0 OR coalesce((v_line->>'selling_price')::NUMERIC, 0) <= 0 THEN
+      RAISE EXCEPTION 'Line %: cost and selling price must be positive', v_index USING ERRCODE = '22023';
+    END IF;
+    IF (v_line->>'expiry_date')::DATE < current_date THEN
+      RAISE EXCEPTION 'Line %: stock is already expired', v_index USING ERRCODE = '22023';
+    END IF;
+
+    v_subtotal := v_subtotal + (v_line->>'quantity')::INTEGER * (v_line->>'cost_price')::NUMERIC;
+  END LOOP;
+
+  INSERT INTO public.goods_received_notes (
+    supplier_id, invoice_number, invoice_date, subtotal,
+    discount_amount, tax_amount, invoice_total, notes, created_by
+  )
+  VALUES (
+    p_supplier_id,
+    trim(p_invoice_number),
+    p_invoice_date,
+    round(v_subtotal, 2),
+    coalesce(p_discount_amount, 0),
+    coalesce(p_tax_amount, 0),
+    coalesce(p_invoice_total, round(v_subtotal - coalesce(p_discount_amount, 0) + coalesce(p_tax_amount, 0), 2)),
+    nullif(trim(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_grn;
+
+  -- PO lines are picked up by the receive_purchase_order_batch trigger
+  INSERT INTO public.stock_batches (
+    product_id, batch_number, quantity, cost_price, selling_price,
+    expiry_date, purchase_date, supplier, supplier_id,
+    purchase_order_item_id, grn_id, created_by
+  )
+  SELECT
+    (line->>'product_id')::UUID,
+    trim(line->>'batch_number'),
+    (line->>'quantity')::INTEGER,
+    (line->>'cost_price')::NUMERIC,
+    (line->>'selling_price')::NUMERIC,
+    (line->>'expiry_date')::DATE,
+    p_invoice_date,
+    v_supplier_name,
+    p_supplier_id,
+    nullif(line->>'purchase_order_item_id', '')::UUID,
+    v_grn.id,
+    auth.uid()
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  RETURN v_grn;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 3: RLS AND AUDIT
+-- =================================================================
+
+ALTER TABLE public.goods_received_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Stock receivers can view goods received notes" ON public.goods_received_notes;
+CREATE POLICY "Stock receivers can view goods received notes" ON public.goods_received_notes
+  FOR SELECT USING (public.has_permission('stock.receive'));
+
+-- GRNs are documents: they are created once and never edited
+DROP POLICY IF EXISTS "Stock receivers can create goods received notes" ON public.goods_received_notes;
+CREATE POLICY "Stock receivers can create goods received notes" ON public.goods_received_notes
+  FOR INSERT WITH CHECK (public.has_permission('stock.receive'));
+
+DROP TRIGGER IF EXISTS audit_goods_received_notes ON public.goods_received_notes;
+CREATE TRIGGER audit_goods_received_notes
+  AFTER INSERT OR UPDATE OR DELETE ON public.goods_received_notes
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,49 @@
+-- File: supabase/migrations/20260115000000_reorder_suggestions.sql
+-- Inputs for the reorder engine (src/lib/reorder.ts).
+--
+-- Products get a preferred supplier, and product_sales_velocity() sums net
+-- units sold per product over a window so the client does not have to pull
+-- every sale_items row to work out demand.
+
+-- =================================================================
+-- SECTION 1: PREFERRED SUPPLIER
+-- =================================================================
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS preferred_supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.products.preferred_supplier_id IS 'Supplier reorder suggestions are grouped under; falls back to the latest batch supplier';
+
+-- =================================================================
+-- SECTION 2: SALES VELOCITY
+-- =================================================================
+
+-- Net units sold per product since p_days ago (sales minus returns of those
+-- sales). Runs as the caller, so it only sees sales the caller may read.
+CREATE OR REPLACE FUNCTION public.product_sales_velocity(p_days INTEGER DEFAULT 30)
+RETURNS TABLE (product_id UUID, units_sold BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH sold AS (
+    SELECT si.product_id, sum(si.quantity) AS quantity
+    FROM public.sale_items si
+    JOIN public.sales s ON s.id = si.sale_id
+    WHERE s.created_at >= now() - make_interval(days => greatest(p_days, 1))
+    GROUP BY si.product_id
+  ),
+  returned AS (
+    SELECT ri.product_id, sum(ri.quantity) AS quantity
+    FROM public.return_items ri
+    JOIN public.sale_items si ON si.id = ri.sale_item_id
+    JOIN public.sales s ON s.id = si.sale_id
+    WHERE s.created_at >= now() - make_interval(days => greatest(p_days, 1))
+    GROUP BY ri.product_id
+  )
+  SELECT
+    sold.product_id,
+    greatest(sold.quantity - coalesce(returned.quantity, 0), 0)::BIGINT AS units_sold
+  FROM sold
+  LEFT JOIN returned ON returned.product_id = sold.product_id;
+$$;
@@ -0,0 +1,405 @@
+-- File: supabase/migrations/20260116000000_controlled_drugs.sql
+-- Drug schedules, prescription capture and the controlled drug register.
+--
+-- Every product carries a schedule. Anything other than 'none' can only be
+-- sold with a prescription, which process_sale() records against the sale.
+-- Psychotropics and narcotics additionally get a register: an append-only
+-- ledger of receipts, sales and returns written by triggers, from which
+-- controlled_drug_register() prints running balances for inspections.
+
+-- =================================================================
+-- SECTION 1: DRUG SCHEDULES
+-- =================================================================
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS drug_schedule TEXT NOT NULL DEFAULT 'none'
+  CHECK (drug_schedule IN ('none', 'prescription', 'psychotropic', 'narcotic'));
+
+COMMENT ON COLUMN public.products.drug_schedule IS 'none = OTC, prescription = Rx only, psychotropic/narcotic = Rx only and kept in the controlled drug register';
+
+-- Schedules that are kept in the controlled drug register
+CREATE OR REPLACE FUNCTION public.is_controlled_schedule(p_schedule TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(p_schedule IN ('psychotropic', 'narcotic'), false);
+$$;
+
+-- =================================================================
+-- SECTION 2: PRESCRIPTIONS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.prescriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID NOT NULL UNIQUE REFERENCES public.sales(id),
+  doctor_name TEXT NOT NULL CHECK (trim(doctor_name) <> ''),
+  doctor_pmdc_number TEXT NOT NULL CHECK (trim(doctor_pmdc_number) <> ''),
+  patient_name TEXT NOT NULL CHECK (trim(patient_name) <> ''),
+  patient_cnic TEXT NOT NULL CHECK (patient_cnic ~ '^[0-9]{5}-[0-9]{7}-[0-9]$'),
+  image_path TEXT NOT NULL CHECK (trim(image_path) <> ''),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.prescriptions.image_path IS 'Object path in the private prescriptions storage bucket';
+
+-- Scanned prescriptions. Staff who sell may upload; nobody may replace or
+-- delete one afterwards.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('prescriptions', 'prescriptions', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Sellers can upload prescriptions" ON storage.objects;
+CREATE POLICY "Sellers can upload prescriptions" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'prescriptions' AND public.has_permission('sales.create'));
+
+DROP POLICY IF EXISTS "Report viewers can view prescriptions" ON storage.objects;
+CREATE POLICY "Report viewers can view prescriptions" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'prescriptions'
+    AND (public.has_permission('reports.view') OR owner = auth.uid())
+  );
+
+-- =================================================================
+-- SECTION 3: CONTROLLED DRUG MOVEMENTS
+-- =================================================================
+
+-- quantity is signed: positive for stock coming in, negative for going out
+CREATE TABLE IF NOT EXISTS public.controlled_drug_movements (
+  id BIGSERIAL PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  entry_date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('opening', 'receipt', 'sale', 'return')),
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  reference TEXT,
+  stock_batch_id UUID REFERENCES public.stock_batches(id) ON DELETE SET NULL,
+  sale_id UUID REFERENCES public.sales(id),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS controlled_drug_movements_product_idx
+  ON public.controlled_drug_movements (product_id, entry_date, id);
+
+-- Writes register entries for stock that moves in or out of a controlled
+-- product. Runs as the owner because the ledger has no write policies.
+CREATE OR REPLACE FUNCTION public.record_controlled_drug_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule TEXT;
+  v_reference TEXT;
+  v_entry_date TIMESTAMPTZ;
+  v_stock INTEGER;
+  v_balance INTEGER;
+BEGIN
+  IF TG_TABLE_NAME = 'products' THEN
+    -- Newly classified as controlled: bring the register up to current stock
+    IF public.is_controlled_schedule(NEW.drug_schedule) AND NOT public.is_controlled_schedule(OLD.drug_schedule) THEN
+      SELECT coalesce(sum(quantity), 0) INTO v_stock FROM public.stock_batches WHERE product_id = NEW.id;
+      SELECT coalesce(sum(quantity), 0) INTO v_balance FROM public.controlled_drug_movements WHERE product_id = NEW.id;
+
+      IF v_stock <> v_balance THEN
+        INSERT INTO public.controlled_drug_movements (product_id, entry_type, quantity, reference, created_by)
+        VALUES (NEW.id, 'opening', v_stock - v_balance, 'Stock on hand when classified', auth.uid());
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT drug_schedule INTO v_schedule FROM public.products WHERE id = NEW.product_id;
+  IF NOT public.is_controlled_schedule(v_schedule) OR coalesce(NEW.quantity, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'stock_batches' THEN
+    INSERT INTO public.controlled_drug_movements (product_id, entry_date, entry_type, quantity, reference, stock_batch_id, created_by)
+    VALUES (NEW.product_id, coalesce(NEW.created_at, now()), 'receipt', NEW.quantity, 'Batch ' || NEW.batch_number, NEW.id, auth.uid());
+
+  ELSIF TG_TABLE_NAME = 'sale_items' THEN
+    SELECT receipt_number, created_at INTO v_reference, v_entry_date FROM public.sales WHERE id = NEW.sale_id;
+    INSERT INTO public.controlled_drug_movements (product_id, entry_date, entry_type, quantity, reference, sale_id, created_by)
+    VALUES (NEW.product_id, coalesce(v_entry_date, now()), 'sale', -NEW.quantity, v_reference, NEW.sale_id, auth.uid());
+
+  ELSIF TG_TABLE_NAME = 'return_items' THEN
+    SELECT receipt_number INTO v_reference FROM public.sales_returns WHERE id = NEW.return_id;
+    INSERT INTO public.controlled_drug_movements (product_id, entry_type, quantity, reference, stock_batch_id, created_by)
+    VALUES (NEW.product_id, 'return', NEW.quantity, v_reference, NEW.batch_id, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS controlled_drug_products ON public.products;
+CREATE TRIGGER controlled_drug_products
+  AFTER UPDATE OF drug_schedule ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.record_controlled_drug_movement();
+
+DROP TRIGGER IF EXISTS controlled_drug_stock_batches ON public.stock_batches;
+CREATE TRIGGER controlled_drug_stock_batches
+  AFTER INSERT ON public.stock_batches
+  FOR EACH ROW EXECUTE FUNCTION public.record_controlled_drug_movement();
+
+DROP TRIGGER IF EXISTS controlled_drug_sale_items ON public.sale_items;
+CREATE TRIGGER controlled_drug_sale_items
+  AFTER INSERT ON public.sale_items
+  FOR EACH ROW EXECUTE FUNCTION public.record_controlled_drug_movement();
+
+DROP TRIGGER IF EXISTS controlled_drug_return_items ON public.return_items;
+CREATE TRIGGER controlled_drug_return_items
+  AFTER INSERT ON public.return_items
+  FOR EACH ROW EXECUTE FUNCTION public.record_controlled_drug_movement();
+
+-- =================================================================
+-- SECTION 4: CHECKOUT
+-- =================================================================
+
+-- Same as before, plus p_prescription: { doctor_name, doctor_pmdc_number,
+-- patient_name, patient_cnic, image_path }, required when any item is
+-- scheduled.
+DROP FUNCTION IF EXISTS public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0,
+  p_client_ref UUID DEFAULT NULL,
+  p_sold_at TIMESTAMPTZ DEFAULT NULL,
+  p_prescription JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_schedule TEXT;
+  v_scheduled TEXT[] := '{}';
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.has_permission('sales.create') THEN
+    RAISE EXCEPTION 'You do not have permission to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replayed checkout: hand back what was already recorded
+  IF p_client_ref IS NOT NULL THEN
+    SELECT * INTO v_sale FROM public.sales WHERE client_ref = p_client_ref;
+    IF FOUND THEN
+      SELECT coalesce(jsonb_agg(to_jsonb(si)), '[]'::JSONB) INTO v_items
+      FROM (
+        SELECT id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+        FROM public.sale_items
+        WHERE sale_id = v_sale.id
+      ) si;
+      RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sold_at IS NOT NULL AND p_sold_at > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Sale time cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  -- Scheduled drugs cannot leave the counter without a complete prescription
+  SELECT coalesce(array_agg(DISTINCT p.name), '{}') INTO v_scheduled
+  FROM jsonb_array_elements(p_items) AS i
+  JOIN public.products p ON p.id = (i->>'product_id')::UUID
+  WHERE p.drug_schedule <> 'none';
+
+  IF cardinality(v_scheduled) > 0 AND (
+    p_prescription IS NULL
+    OR coalesce(trim(p_prescription->>'doctor_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'doctor_pmdc_number'), '') = ''
+    OR coalesce(trim(p_prescription->>'patient_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'image_path'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'A prescription is required for %', array_to_string(v_scheduled, ', ') USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_scheduled) > 0 AND coalesce(p_prescription->>'patient_cnic', '') !~ '^[0-9]{5}-[0-9]{7}-[0-9]$' THEN
+    RAISE EXCEPTION 'Patient CNIC must be in the format 12345-1234567-1' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'total', round(v_quantity * v_unit_price, 2),
+      'batch_deductions', public.deduct_stock_fefo(v_product_id, v_product_name, v_quantity)
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount, client_ref, created_at)
+  VALUES (v_total, p_payment_method, auth.uid(), coalesce(p_discount, 0), p_client_ref, coalesce(p_sold_at, now()))
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions'
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  IF cardinality(v_scheduled) > 0 THEN
+    INSERT INTO public.prescriptions (sale_id, doctor_name, doctor_pmdc_number, patient_name, patient_cnic, image_path, created_by)
+    VALUES (
+      v_sale.id,
+      trim(p_prescription->>'doctor_name'),
+      upper(trim(p_prescription->>'doctor_pmdc_number')),
+      trim(p_prescription->>'patient_name'),
+      p_prescription->>'patient_cnic',
+      p_prescription->>'image_path',
+      auth.uid()
+    );
+  END IF;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ, JSONB) TO authenticated;
+
+-- =================================================================
+-- SECTION 5: REGISTER
+-- =================================================================
+
+-- One product's register between two dates: a balance brought forward row,
+-- then every movement with the running balance after it. Sales carry the
+-- prescription they were made against.
+CREATE OR REPLACE FUNCTION public.controlled_drug_register(p_product_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  entry_id BIGINT,
+  entry_date TIMESTAMPTZ,
+  entry_type TEXT,
+  reference TEXT,
+  quantity_in INTEGER,
+  quantity_out INTEGER,
+  balance BIGINT,
+  sale_id UUID,
+  doctor_name TEXT,
+  doctor_pmdc_number TEXT,
+  patient_name TEXT,
+  patient_cnic TEXT,
+  prescription_image_path TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ledger AS (
+    SELECT m.*, sum(m.quantity) OVER (ORDER BY m.entry_date, m.id) AS running
+    FROM public.controlled_drug_movements m
+    WHERE m.product_id = p_product_id
+      AND m.entry_date < (p_to + 1)::TIMESTAMPTZ
+  ),
+  entries AS (
+    SELECT
+      NULL::BIGINT AS entry_id,
+      p_from::TIMESTAMPTZ AS entry_date,
+      'balance_forward'::TEXT AS entry_type,
+      NULL::TEXT AS reference,
+      NULL::INTEGER AS quantity_in,
+      NULL::INTEGER AS quantity_out,
+      coalesce((SELECT sum(quantity) FROM ledger WHERE ledger.entry_date < p_from::TIMESTAMPTZ), 0)::BIGINT AS balance,
+      NULL::UUID AS sale_id,
+      NULL::TEXT AS doctor_name,
+      NULL::TEXT AS doctor_pmdc_number,
+      NULL::TEXT AS patient_name,
+      NULL::TEXT AS patient_cnic,
+      NULL::TEXT AS prescription_image_path
+    UNION ALL
+    SELECT
+      l.id,
+      l.entry_date,
+      l.entry_type,
+      l.reference,
+      greatest(l.quantity, 0),
+      greatest(-l.quantity, 0),
+      l.running::BIGINT,
+      l.sale_id,
+      rx.doctor_name,
+      rx.doctor_pmdc_number,
+      rx.patient_name,
+      rx.patient_cnic,
+      rx.image_path
+    FROM ledger l
+    LEFT JOIN public.prescriptions rx ON rx.sale_id = l.sale_id
+    WHERE l.entry_date >= p_from::TIMESTAMPTZ
+  )
+  SELECT * FROM entries
+  ORDER BY entry_date, entry_id NULLS FIRST;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.controlled_drug_register(UUID, DATE, DATE) TO authenticated;
+
+-- =================================================================
+-- SECTION 6: RLS AND AUDIT
+-- =================================================================
+
+ALTER TABLE public.prescriptions ENABLE ROW LEVEL SECURITY;
+
+-- Prescriptions are only written by process_sale
+DROP POLICY IF EXISTS "Report viewers can view prescriptions" ON public.prescriptions;
+CREATE POLICY "Report viewers can view prescriptions" ON public.prescriptions
+  FOR SELECT USING (public.has_permission('reports.view') OR created_by = auth.uid());
+
+-- The register is append-only and only written by the triggers above
+ALTER TABLE public.controlled_drug_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Report viewers can view controlled drug movements" ON public.controlled_drug_movements;
+CREATE POLICY "Report viewers can view controlled drug movements" ON public.controlled_drug_movements
+  FOR SELECT USING (public.has_permission('reports.view'));
+
+DROP TRIGGER IF EXISTS audit_prescriptions ON public.prescriptions;
+CREATE TRIGGER audit_prescriptions
+  AFTER INSERT OR UPDATE OR DELETE ON public.prescriptions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
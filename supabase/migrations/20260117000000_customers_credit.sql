@@ -0,0 +1,412 @@
+-- File: supabase/migrations/20260117000000_customers_credit.sql
+-- Customers, patient profiles and the credit (udhaar) ledger.
+--
+-- A sale can now name a customer, and a fourth payment method, 'credit',
+-- posts the amount to that customer's ledger instead of taking money.
+-- Payments and returns post against the same ledger, so the balance is
+-- always sum(amount).
+
+-- =================================================================
+-- SECTION 1: CUSTOMERS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  phone TEXT NOT NULL CHECK (trim(phone) <> ''),
+  cnic TEXT CHECK (cnic IS NULL OR cnic ~ '^[0-9]{5}-[0-9]{7}-[0-9]$'),
+  allergies TEXT,
+  chronic_medications TEXT,
+  credit_limit NUMERIC(12,2) CHECK (credit_limit IS NULL OR credit_limit >= 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.customers.credit_limit IS 'Most the customer may owe on credit; NULL = no limit';
+
+-- Customers are looked up at the counter by phone number
+CREATE INDEX IF NOT EXISTS customers_phone_idx ON public.customers (phone);
+
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id);
+
+CREATE INDEX IF NOT EXISTS sales_customer_idx ON public.sales (customer_id);
+
+-- =================================================================
+-- SECTION 2: LEDGER
+-- =================================================================
+
+-- amount is signed: positive for what the customer owes (credit sales),
+-- negative for what reduces it (payments, returns of credit sales)
+CREATE TABLE IF NOT EXISTS public.customer_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES public.customers(id),
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('sale', 'payment', 'return')),
+  amount NUMERIC(12,2) NOT NULL,
+  sale_id UUID REFERENCES public.sales(id),
+  return_id UUID REFERENCES public.sales_returns(id),
+  payment_method TEXT CHECK (payment_method IS NULL OR payment_method IN ('cash', 'card', 'mobile')),
+  reference TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((entry_type = 'sale' AND amount > 0) OR (entry_type <> 'sale' AND amount < 0)),
+  CHECK (entry_type <> 'payment' OR payment_method IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS customer_ledger_customer_idx ON public.customer_ledger (customer_id, created_at, id);
+
+-- A returned credit sale gives the customer back what they were charged for
+-- those units, net of the sale's discount
+CREATE OR REPLACE FUNCTION public.credit_customer_return()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale public.sales%ROWTYPE;
+  v_unit_price NUMERIC;
+  v_amount NUMERIC;
+  v_reference TEXT;
+BEGIN
+  SELECT s.* INTO v_sale
+  FROM public.sale_items si
+  JOIN public.sales s ON s.id = si.sale_id
+  WHERE si.id = NEW.sale_item_id;
+
+  IF NOT FOUND OR v_sale.payment_method <> 'credit' OR v_sale.customer_id IS NULL OR v_sale.total <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT unit_price INTO v_unit_price FROM public.sale_items WHERE id = NEW.sale_item_id;
+  v_amount := round(NEW.quantity * v_unit_price * (v_sale.total - v_sale.discount) / v_sale.total, 2);
+
+  IF v_amount > 0 THEN
+    SELECT receipt_number INTO v_reference FROM public.sales_returns WHERE id = NEW.return_id;
+    INSERT INTO public.customer_ledger (customer_id, entry_type, amount, sale_id, return_id, reference, created_by)
+    VALUES (v_sale.customer_id, 'return', -v_amount, v_sale.id, NEW.return_id, v_reference, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_customer_return ON public.return_items;
+CREATE TRIGGER credit_customer_return
+  AFTER INSERT ON public.return_items
+  FOR EACH ROW EXECUTE FUNCTION public.credit_customer_return();
+
+-- Balance and ageing per customer. Payments and returns settle the oldest
+-- charges first, so whatever is still owed sits in the newest ones.
+CREATE OR REPLACE FUNCTION public.customer_balances()
+RETURNS TABLE (
+  customer_id UUID,
+  balance NUMERIC,
+  last_payment_at TIMESTAMPTZ,
+  due_0_30 NUMERIC,
+  due_31_60 NUMERIC,
+  due_61_90 NUMERIC,
+  due_over_90 NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH totals AS (
+    SELECT
+      l.customer_id,
+      sum(l.amount) AS balance,
+      max(l.created_at) FILTER (WHERE l.entry_type = 'payment') AS last_payment_at
+    FROM public.customer_ledger l
+    GROUP BY l.customer_id
+  ),
+  charges AS (
+    SELECT
+      l.customer_id,
+      l.created_at,
+      l.amount,
+      sum(l.amount) OVER (PARTITION BY l.customer_id ORDER BY l.created_at DESC, l.id DESC) AS newer_total
+    FROM public.customer_ledger l
+    WHERE l.amount > 0
+  ),
+  open_charges AS (
+    SELECT
+      c.customer_id,
+      current_date - c.created_at::DATE AS age_days,
+      least(c.amount, greatest(t.balance - (c.newer_total - c.amount), 0)) AS open_amount
+    FROM charges c
+    JOIN totals t ON t.customer_id = c.customer_id
+  )
+  SELECT
+    t.customer_id,
+    t.balance,
+    t.last_payment_at,
+    coalesce(sum(o.open_amount) FILTER (WHERE o.age_days <= 30), 0),
+    coalesce(sum(o.open_amount) FILTER (WHERE o.age_days BETWEEN 31 AND 60), 0),
+    coalesce(sum(o.open_amount) FILTER (WHERE o.age_days BETWEEN 61 AND 90), 0),
+    coalesce(sum(o.open_amount) FILTER (WHERE o.age_days > 90), 0)
+  FROM totals t
+  LEFT JOIN open_charges o ON o.customer_id = t.customer_id
+  GROUP BY t.customer_id, t.balance, t.last_payment_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.customer_balances() TO authenticated;
+
+-- =================================================================
+-- SECTION 3: CHECKOUT
+-- =================================================================
+
+-- Same as before, plus p_customer_id. Credit sales need a customer, respect
+-- their credit limit and post the amount due to the ledger.
+DROP FUNCTION IF EXISTS public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ, JSONB);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0,
+  p_client_ref UUID DEFAULT NULL,
+  p_sold_at TIMESTAMPTZ DEFAULT NULL,
+  p_prescription JSONB DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_schedule TEXT;
+  v_scheduled TEXT[] := '{}';
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+  v_customer public.customers%ROWTYPE;
+  v_balance NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.has_permission('sales.create') THEN
+    RAISE EXCEPTION 'You do not have permission to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replayed checkout: hand back what was already recorded
+  IF p_client_ref IS NOT NULL THEN
+    SELECT * INTO v_sale FROM public.sales WHERE client_ref = p_client_ref;
+    IF FOUND THEN
+      SELECT coalesce(jsonb_agg(to_jsonb(si)), '[]'::JSONB) INTO v_items
+      FROM (
+        SELECT id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+        FROM public.sale_items
+        WHERE sale_id = v_sale.id
+      ) si;
+      RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sold_at IS NOT NULL AND p_sold_at > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Sale time cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_customer_id IS NOT NULL THEN
+    -- Locked so two tills cannot both push the same customer past the limit
+    SELECT * INTO v_customer FROM public.customers WHERE id = p_customer_id FOR UPDATE;
+    IF NOT FOUND OR NOT v_customer.is_active THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF p_payment_method = 'credit' AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a customer to sell on credit' USING ERRCODE = '22023';
+  END IF;
+
+  -- Scheduled drugs cannot leave the counter without a complete prescription
+  SELECT coalesce(array_agg(DISTINCT p.name), '{}') INTO v_scheduled
+  FROM jsonb_array_elements(p_items) AS i
+  JOIN public.products p ON p.id = (i->>'product_id')::UUID
+  WHERE p.drug_schedule <> 'none';
+
+  IF cardinality(v_scheduled) > 0 AND (
+    p_prescription IS NULL
+    OR coalesce(trim(p_prescription->>'doctor_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'doctor_pmdc_number'), '') = ''
+    OR coalesce(trim(p_prescription->>'patient_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'image_path'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'A prescription is required for %', array_to_string(v_scheduled, ', ') USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_scheduled) > 0 AND coalesce(p_prescription->>'patient_cnic', '') !~ '^[0-9]{5}-[0-9]{7}-[0-9]$' THEN
+    RAISE EXCEPTION 'Patient CNIC must be in the format 12345-1234567-1' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'total', round(v_quantity * v_unit_price, 2),
+      'batch_deductions', public.deduct_stock_fefo(v_product_id, v_product_name, v_quantity)
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only checked at the counter: a sale replayed from the offline queue has
+  -- already been handed over
+  IF p_payment_method = 'credit' AND v_customer.credit_limit IS NOT NULL AND p_sold_at IS NULL THEN
+    SELECT coalesce(sum(amount), 0) INTO v_balance FROM public.customer_ledger WHERE customer_id = p_customer_id;
+    IF v_balance + v_total - coalesce(p_discount, 0) > v_customer.credit_limit THEN
+      RAISE EXCEPTION 'Credit limit of % exceeded: % already owes %', v_customer.credit_limit, v_customer.name, v_balance
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount, client_ref, created_at, customer_id)
+  VALUES (v_total, p_payment_method, auth.uid(), coalesce(p_discount, 0), p_client_ref, coalesce(p_sold_at, now()), p_customer_id)
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions'
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  IF cardinality(v_scheduled) > 0 THEN
+    INSERT INTO public.prescriptions (sale_id, doctor_name, doctor_pmdc_number, patient_name, patient_cnic, image_path, created_by)
+    VALUES (
+      v_sale.id,
+      trim(p_prescription->>'doctor_name'),
+      upper(trim(p_prescription->>'doctor_pmdc_number')),
+      trim(p_prescription->>'patient_name'),
+      p_prescription->>'patient_cnic',
+      p_prescription->>'image_path',
+      auth.uid()
+    );
+  END IF;
+
+  IF p_payment_method = 'credit' AND v_total - coalesce(p_discount, 0) > 0 THEN
+    INSERT INTO public.customer_ledger (customer_id, entry_type, amount, sale_id, reference, created_by, created_at)
+    VALUES (p_customer_id, 'sale', v_total - coalesce(p_discount, 0), v_sale.id, v_sale.receipt_number, auth.uid(), v_sale.created_at);
+  END IF;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ, JSONB, UUID) TO authenticated;
+
+-- =================================================================
+-- SECTION 4: RLS AND AUDIT
+-- =================================================================
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Sellers can view customers" ON public.customers;
+CREATE POLICY "Sellers can view customers" ON public.customers
+  FOR SELECT USING (public.has_permission('sales.create'));
+DROP POLICY IF EXISTS "Sellers can add customers" ON public.customers;
+CREATE POLICY "Sellers can add customers" ON public.customers
+  FOR INSERT WITH CHECK (public.has_permission('sales.create'));
+DROP POLICY IF EXISTS "Sellers can update customers" ON public.customers;
+CREATE POLICY "Sellers can update customers" ON public.customers
+  FOR UPDATE
+  USING (public.has_permission('sales.create'))
+  WITH CHECK (public.has_permission('sales.create'));
+
+-- Sellers edit contact details, but only owners set credit limits. Customers
+-- added by other staff start with no credit (a limit of 0) until an owner sets
+-- one. Calls without a user (service role, SQL editor) pass.
+CREATE OR REPLACE FUNCTION public.guard_customer_credit_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.has_permission('settings.manage') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.credit_limit IS DISTINCT FROM 0 THEN
+    RAISE EXCEPTION 'Only the owner can give a customer credit' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.credit_limit IS DISTINCT FROM OLD.credit_limit THEN
+    RAISE EXCEPTION 'Only the owner can change a customer''s credit limit' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_customer_credit_limit ON public.customers;
+CREATE TRIGGER guard_customer_credit_limit
+  BEFORE INSERT OR UPDATE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.guard_customer_credit_limit();
+
+-- Ledger entries are never edited. Staff record payments directly; sale and
+-- return entries come from process_sale and the return trigger.
+ALTER TABLE public.customer_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Sellers can view customer ledger" ON public.customer_ledger;
+CREATE POLICY "Sellers can view customer ledger" ON public.customer_ledger
+  FOR SELECT USING (public.has_permission('sales.create'));
+DROP POLICY IF EXISTS "Sellers can record customer payments" ON public.customer_ledger;
+CREATE POLICY "Sellers can record customer payments" ON public.customer_ledger
+  FOR INSERT WITH CHECK (
+    public.has_permission('sales.create')
+    AND entry_type = 'payment'
+    AND created_by = auth.uid()
+  );
+
+DROP TRIGGER IF EXISTS audit_customers ON public.customers;
+CREATE TRIGGER audit_customers
+  AFTER INSERT OR UPDATE OR DELETE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_customer_ledger ON public.customer_ledger;
+CREATE TRIGGER audit_customer_ledger
+  AFTER INSERT OR UPDATE OR DELETE ON public.customer_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
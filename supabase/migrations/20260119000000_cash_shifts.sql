@@ -0,0 +1,404 @@
+-- File: supabase/migrations/20260119000000_cash_shifts.sql
+-- Cash drawer shifts.
+--
+-- A cashier opens a shift with the float in the drawer, records cash put in
+-- or paid out during it, and closes it with what they counted. Every sale
+-- (and return) is stamped with the shift it happened in, so shift_report()
+-- can give the X report of an open shift and the Z report of a closed one.
+
+-- =================================================================
+-- SECTION 1: TABLES
+-- =================================================================
+
+INSERT INTO public.document_sequences (doc_type, prefix, pad_width, yearly_reset)
+VALUES ('shift', 'SH-', 5, false)
+ON CONFLICT (doc_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.cash_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_number TEXT NOT NULL UNIQUE DEFAULT public.next_document_number('shift'),
+  cashier_id UUID NOT NULL REFERENCES auth.users(id),
+  opening_float NUMERIC(12,2) NOT NULL CHECK (opening_float >= 0),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES auth.users(id),
+  notes TEXT,
+  CHECK (closed_at IS NULL OR closed_at >= opened_at)
+);
+
+-- One drawer per cashier at a time
+CREATE UNIQUE INDEX IF NOT EXISTS cash_shifts_one_open_idx ON public.cash_shifts (cashier_id) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS cash_shifts_opened_idx ON public.cash_shifts (opened_at DESC);
+
+-- Cash put into the drawer (e.g. more change) or taken out (petty expenses)
+CREATE TABLE IF NOT EXISTS public.cash_movements (
+  id BIGSERIAL PRIMARY KEY,
+  shift_id UUID NOT NULL REFERENCES public.cash_shifts(id),
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('cash_in', 'payout')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cash_movements_shift_idx ON public.cash_movements (shift_id, created_at);
+
+-- Expected and counted amounts per tender, written when the shift closes.
+-- counted is NULL for tenders that were not counted (e.g. no card batch slip).
+CREATE TABLE IF NOT EXISTS public.cash_shift_counts (
+  shift_id UUID NOT NULL REFERENCES public.cash_shifts(id),
+  method TEXT NOT NULL,
+  expected NUMERIC(12,2) NOT NULL,
+  counted NUMERIC(12,2),
+  PRIMARY KEY (shift_id, method)
+);
+
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.cash_shifts(id);
+ALTER TABLE public.sales_returns ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.cash_shifts(id);
+
+CREATE INDEX IF NOT EXISTS sales_shift_idx ON public.sales (shift_id);
+CREATE INDEX IF NOT EXISTS sales_returns_shift_idx ON public.sales_returns (shift_id);
+
+-- =================================================================
+-- SECTION 2: STAMPING SALES AND RETURNS
+-- =================================================================
+
+-- A sale belongs to the cashier's shift that was open when it was made. Sales
+-- replayed from the offline queue keep their original time, so they land in
+-- the shift they were rung up in, or none if the drawer was not open then.
+-- A sale rung up now (created_at = now()) needs an open shift.
+CREATE OR REPLACE FUNCTION public.assign_sale_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL AND NEW.cashier_id IS NOT NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM public.cash_shifts
+    WHERE cashier_id = NEW.cashier_id
+      AND opened_at <= NEW.created_at
+      AND (closed_at IS NULL OR closed_at >= NEW.created_at)
+    ORDER BY opened_at DESC
+    LIMIT 1;
+
+    IF NEW.shift_id IS NULL AND NEW.created_at = now() THEN
+      RAISE EXCEPTION 'Open a cash drawer shift before selling' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_sale_shift ON public.sales;
+CREATE TRIGGER assign_sale_shift
+  BEFORE INSERT ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.assign_sale_shift();
+
+-- Returns are stamped with the shift of whoever processed them, if they have
+-- one open. Pharmacists without a drawer can still process returns.
+CREATE OR REPLACE FUNCTION public.assign_return_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM public.cash_shifts
+    WHERE cashier_id = coalesce(NEW.returned_by, auth.uid()) AND closed_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_return_shift ON public.sales_returns;
+CREATE TRIGGER assign_return_shift
+  BEFORE INSERT ON public.sales_returns
+  FOR EACH ROW EXECUTE FUNCTION public.assign_return_shift();
+
+-- =================================================================
+-- SECTION 3: OPENING AND CLOSING
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION public.open_shift(p_opening_float NUMERIC, p_notes TEXT DEFAULT NULL)
+RETURNS public.cash_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('sales.create') THEN
+    RAISE EXCEPTION 'You do not have permission to open a shift' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(p_opening_float, -1) < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL) THEN
+    RAISE EXCEPTION 'You already have an open shift' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.cash_shifts (cashier_id, opening_float, notes)
+  VALUES (auth.uid(), round(p_opening_float, 2), nullif(trim(p_notes), ''))
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_shift(NUMERIC, TEXT) TO authenticated;
+
+-- What each tender should come to. Cash starts from the float, adds cash
+-- sales and cash put in, and takes off payouts and refunds; refunds are paid
+-- in cash except the part of a credit sale that went back to the ledger.
+CREATE OR REPLACE FUNCTION public.shift_expected(p_shift_id UUID)
+RETURNS TABLE (method TEXT, expected NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH tenders AS (
+    SELECT sp.method, sum(sp.amount) AS amount
+    FROM public.sale_payments sp
+    JOIN public.sales s ON s.id = sp.sale_id
+    WHERE s.shift_id = p_shift_id
+    GROUP BY sp.method
+  ),
+  refunds AS (
+    SELECT coalesce(sum(
+      ri.quantity * si.unit_price * (s.total - s.discount) / nullif(s.total, 0)
+    ), 0) AS amount
+    FROM public.sales_returns r
+    JOIN public.return_items ri ON ri.return_id = r.id
+    JOIN public.sale_items si ON si.id = ri.sale_item_id
+    JOIN public.sales s ON s.id = si.sale_id
+    WHERE r.shift_id = p_shift_id
+  ),
+  ledger_refunds AS (
+    SELECT coalesce(-sum(l.amount), 0) AS amount
+    FROM public.customer_ledger l
+    JOIN public.sales_returns r ON r.id = l.return_id
+    WHERE r.shift_id = p_shift_id AND l.entry_type = 'return'
+  ),
+  movements AS (
+    SELECT
+      coalesce(sum(amount) FILTER (WHERE movement_type = 'cash_in'), 0) AS cash_in,
+      coalesce(sum(amount) FILTER (WHERE movement_type = 'payout'), 0) AS payouts
+    FROM public.cash_movements
+    WHERE shift_id = p_shift_id
+  )
+  SELECT
+    'cash'::TEXT,
+    round(
+      sh.opening_float
+      + coalesce((SELECT amount FROM tenders WHERE tenders.method = 'cash'), 0)
+      + m.cash_in - m.payouts
+      - greatest((SELECT amount FROM refunds) - (SELECT amount FROM ledger_refunds), 0),
+      2
+    )
+  FROM public.cash_shifts sh, movements m
+  WHERE sh.id = p_shift_id
+  UNION ALL
+  SELECT t.method, round(t.amount, 2)
+  FROM tenders t
+  WHERE t.method <> 'cash';
+$$;
+
+-- Only called from close_shift() and shift_report(), which check access
+REVOKE ALL ON FUNCTION public.shift_expected(UUID) FROM PUBLIC, anon, authenticated;
+
+-- p_counts: {"cash": 15230, "card": 4200, ...}. Cash must be counted; other
+-- tenders may be left out.
+CREATE OR REPLACE FUNCTION public.close_shift(p_shift_id UUID, p_counts JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS public.cash_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_permission('reports.view') THEN
+    RAISE EXCEPTION 'You do not have permission to close this shift' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_shift.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Shift % is already closed', v_shift.shift_number USING ERRCODE = '22023';
+  END IF;
+
+  IF p_counts IS NULL OR jsonb_typeof(p_counts->'cash') <> 'number' OR (p_counts->>'cash')::NUMERIC < 0 THEN
+    RAISE EXCEPTION 'Enter the cash counted in the drawer' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.cash_shift_counts (shift_id, method, expected, counted)
+  SELECT
+    p_shift_id,
+    e.method,
+    e.expected,
+    CASE WHEN jsonb_typeof(p_counts->e.method) = 'number' THEN round((p_counts->>e.method)::NUMERIC, 2) END
+  FROM public.shift_expected(p_shift_id) e
+  WHERE e.method <> 'credit';
+
+  UPDATE public.cash_shifts
+  SET closed_at = now(),
+      closed_by = auth.uid(),
+      notes = coalesce(nullif(trim(p_notes), ''), notes)
+  WHERE id = p_shift_id
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_shift(UUID, JSONB, TEXT) TO authenticated;
+
+-- =================================================================
+-- SECTION 4: X AND Z REPORTS
+-- =================================================================
+
+-- X report while the shift is open, Z report once it is closed (counts come
+-- from cash_shift_counts instead of being worked out live)
+CREATE OR REPLACE FUNCTION public.shift_report(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_permission('reports.view') THEN
+    RAISE EXCEPTION 'You do not have permission to view this shift' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'shift', to_jsonb(v_shift) || jsonb_build_object(
+      'cashier_name', (SELECT full_name FROM public.profiles WHERE id = v_shift.cashier_id)
+    ),
+    'sales_count', count(*),
+    'gross_sales', coalesce(sum(s.total), 0),
+    'discounts', coalesce(sum(s.discount), 0),
+    'net_sales', coalesce(sum(s.total - s.discount), 0)
+  ) INTO v_result
+  FROM public.sales s
+  WHERE s.shift_id = p_shift_id;
+
+  v_result := v_result || jsonb_build_object(
+    'tenders', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('method', t.method, 'amount', t.amount) ORDER BY t.amount DESC), '[]'::JSONB)
+      FROM (
+        SELECT sp.method, sum(sp.amount) AS amount
+        FROM public.sale_payments sp
+        JOIN public.sales s ON s.id = sp.sale_id
+        WHERE s.shift_id = p_shift_id
+        GROUP BY sp.method
+      ) t
+    ),
+    'movements', (
+      SELECT coalesce(jsonb_agg(to_jsonb(m) ORDER BY m.created_at), '[]'::JSONB)
+      FROM (
+        SELECT id, movement_type, amount, reason, created_at
+        FROM public.cash_movements
+        WHERE shift_id = p_shift_id
+      ) m
+    ),
+    'returns', (
+      SELECT jsonb_build_object(
+        'count', count(DISTINCT r.id),
+        'amount', coalesce(round(sum(ri.quantity * si.unit_price * (s.total - s.discount) / nullif(s.total, 0)), 2), 0)
+      )
+      FROM public.sales_returns r
+      LEFT JOIN public.return_items ri ON ri.return_id = r.id
+      LEFT JOIN public.sale_items si ON si.id = ri.sale_item_id
+      LEFT JOIN public.sales s ON s.id = si.sale_id
+      WHERE r.shift_id = p_shift_id
+    ),
+    'counts', CASE
+      WHEN v_shift.closed_at IS NULL THEN (
+        SELECT coalesce(jsonb_agg(jsonb_build_object('method', e.method, 'expected', e.expected, 'counted', NULL)), '[]'::JSONB)
+        FROM public.shift_expected(p_shift_id) e
+        WHERE e.method <> 'credit'
+      )
+      ELSE (
+        SELECT coalesce(jsonb_agg(jsonb_build_object('method', c.method, 'expected', c.expected, 'counted', c.counted)), '[]'::JSONB)
+        FROM public.cash_shift_counts c
+        WHERE c.shift_id = p_shift_id
+      )
+    END
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shift_report(UUID) TO authenticated;
+
+-- =================================================================
+-- SECTION 5: RLS AND AUDIT
+-- =================================================================
+
+-- Shifts are opened and closed through the functions above. Cashiers see
+-- their own; managers with reports.view see all of them.
+ALTER TABLE public.cash_shifts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cashiers can view own shifts" ON public.cash_shifts;
+CREATE POLICY "Cashiers can view own shifts" ON public.cash_shifts
+  FOR SELECT USING (cashier_id = auth.uid() OR public.has_permission('reports.view'));
+
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cashiers can view shift movements" ON public.cash_movements;
+CREATE POLICY "Cashiers can view shift movements" ON public.cash_movements
+  FOR SELECT USING (
+    public.has_permission('reports.view')
+    OR EXISTS (SELECT 1 FROM public.cash_shifts sh WHERE sh.id = shift_id AND sh.cashier_id = auth.uid())
+  );
+DROP POLICY IF EXISTS "Cashiers can record movements in their open shift" ON public.cash_movements;
+CREATE POLICY "Cashiers can record movements in their open shift" ON public.cash_movements
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.cash_shifts sh
+      WHERE sh.id = shift_id AND sh.cashier_id = auth.uid() AND sh.closed_at IS NULL
+    )
+  );
+
+ALTER TABLE public.cash_shift_counts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cashiers can view shift counts" ON public.cash_shift_counts;
+CREATE POLICY "Cashiers can view shift counts" ON public.cash_shift_counts
+  FOR SELECT USING (
+    public.has_permission('reports.view')
+    OR EXISTS (SELECT 1 FROM public.cash_shifts sh WHERE sh.id = shift_id AND sh.cashier_id = auth.uid())
+  );
+
+DROP TRIGGER IF EXISTS audit_cash_shifts ON public.cash_shifts;
+CREATE TRIGGER audit_cash_shifts
+  AFTER INSERT OR UPDATE OR DELETE ON public.cash_shifts
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_cash_movements ON public.cash_movements;
+CREATE TRIGGER audit_cash_movements
+  AFTER INSERT OR UPDATE OR DELETE ON public.cash_movements
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
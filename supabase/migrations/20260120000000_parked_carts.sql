@@ -0,0 +1,58 @@
+-- File: supabase/migrations/20260120000000_parked_carts.sql
+-- Parked (suspended) POS carts.
+--
+-- A cashier can park a cart under a name while the customer fetches a
+-- prescription and keep serving others. Parked carts live in the database so
+-- they survive a reload and any till can recall them. Recalling deletes the
+-- row, so a cart can only be recalled once. Stock is not reserved while a
+-- cart is parked; the POS checks it again on recall.
+
+-- =================================================================
+-- SECTION 1: TABLE
+-- =================================================================
+
+-- items: [{product_id, product_name, quantity, unit_price, drug_schedule}]
+CREATE TABLE IF NOT EXISTS public.parked_carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  items JSONB NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'rupees')),
+  discount_value NUMERIC(12,2) CHECK (discount_value IS NULL OR discount_value >= 0),
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  parked_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS parked_carts_created_idx ON public.parked_carts (created_at);
+
+-- Other tills pick up parks and recalls as they happen
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'parked_carts'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.parked_carts;
+  END IF;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 2: RLS
+-- =================================================================
+
+-- Anyone at the counter can park, see and recall any parked cart. Carts are
+-- never edited; a recalled cart is parked again as a new row.
+ALTER TABLE public.parked_carts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Sellers can view parked carts" ON public.parked_carts;
+CREATE POLICY "Sellers can view parked carts" ON public.parked_carts
+  FOR SELECT USING (public.has_permission('sales.create'));
+DROP POLICY IF EXISTS "Sellers can park carts" ON public.parked_carts;
+CREATE POLICY "Sellers can park carts" ON public.parked_carts
+  FOR INSERT WITH CHECK (public.has_permission('sales.create') AND parked_by = auth.uid());
+DROP POLICY IF EXISTS "Sellers can recall parked carts" ON public.parked_carts;
+CREATE POLICY "Sellers can recall parked carts" ON public.parked_carts
+  FOR DELETE USING (public.has_permission('sales.create'));
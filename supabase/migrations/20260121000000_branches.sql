@@ -0,0 +1,679 @@
+-- File: supabase/migrations/20260121000000_branches.sql
+-- Branches and inter-branch stock transfers.
+--
+-- Every batch, rack, sale, shift and parked cart belongs to a branch. Each
+-- user works in one branch at a time (user_roles.branch_id): new rows default
+-- to it and checkout only deducts stock held there. Owners move between
+-- branches with set_staff_branch() on themselves and assign staff the same
+-- way.
+--
+-- A transfer moves specific batches from one branch to another in two steps:
+-- dispatch takes the units off the source batches, receive creates matching
+-- batches at the destination. Units in transit belong to neither branch.
+
+-- =================================================================
+-- SECTION 1: BRANCHES
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.branches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9-]{2,12}$'),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  address TEXT,
+  phone TEXT,
+  license_number TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The existing shop becomes the main branch; edit its details on the
+-- Branches page
+INSERT INTO public.branches (code, name)
+SELECT 'MAIN', 'Main Branch'
+WHERE NOT EXISTS (SELECT 1 FROM public.branches);
+
+-- The oldest branch, used for accounts without one and for existing rows
+CREATE OR REPLACE FUNCTION public.default_branch_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.branches ORDER BY created_at, code LIMIT 1;
+$$;
+
+ALTER TABLE public.user_roles
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id) DEFAULT public.default_branch_id();
+
+UPDATE public.user_roles SET branch_id = public.default_branch_id() WHERE branch_id IS NULL;
+
+-- The branch the signed-in user is working in
+CREATE OR REPLACE FUNCTION public.current_branch_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT branch_id FROM public.user_roles WHERE user_id = auth.uid()),
+    public.default_branch_id()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.default_branch_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_branch_id() TO authenticated;
+
+-- =================================================================
+-- SECTION 2: BRANCH COLUMNS
+-- =================================================================
+
+-- Existing rows all belong to the main branch; new rows default to the
+-- inserting user's branch.
+ALTER TABLE public.stock_batches
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id) DEFAULT public.current_branch_id();
+ALTER TABLE public.racks
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id) DEFAULT public.current_branch_id();
+ALTER TABLE public.sales
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id) DEFAULT public.current_branch_id();
+ALTER TABLE public.cash_shifts
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id) DEFAULT public.current_branch_id();
+ALTER TABLE public.parked_carts
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id) DEFAULT public.current_branch_id();
+ALTER TABLE public.controlled_drug_movements
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id) DEFAULT public.current_branch_id();
+
+UPDATE public.stock_batches SET branch_id = public.default_branch_id() WHERE branch_id IS NULL;
+UPDATE public.racks SET branch_id = public.default_branch_id() WHERE branch_id IS NULL;
+UPDATE public.sales SET branch_id = public.default_branch_id() WHERE branch_id IS NULL;
+UPDATE public.cash_shifts SET branch_id = public.default_branch_id() WHERE branch_id IS NULL;
+UPDATE public.parked_carts SET branch_id = public.default_branch_id() WHERE branch_id IS NULL;
+UPDATE public.controlled_drug_movements SET branch_id = public.default_branch_id() WHERE branch_id IS NULL;
+
+ALTER TABLE public.stock_batches ALTER COLUMN branch_id SET NOT NULL;
+ALTER TABLE public.racks ALTER COLUMN branch_id SET NOT NULL;
+ALTER TABLE public.sales ALTER COLUMN branch_id SET NOT NULL;
+ALTER TABLE public.cash_shifts ALTER COLUMN branch_id SET NOT NULL;
+ALTER TABLE public.parked_carts ALTER COLUMN branch_id SET NOT NULL;
+ALTER TABLE public.controlled_drug_movements ALTER COLUMN branch_id SET NOT NULL;
+
+-- Rack names only need to be unique within a branch
+ALTER TABLE public.racks DROP CONSTRAINT IF EXISTS racks_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS racks_branch_name_idx ON public.racks (branch_id, name);
+
+CREATE INDEX IF NOT EXISTS stock_batches_branch_product_idx ON public.stock_batches (branch_id, product_id);
+CREATE INDEX IF NOT EXISTS sales_branch_created_idx ON public.sales (branch_id, created_at);
+CREATE INDEX IF NOT EXISTS controlled_drug_movements_branch_idx
+  ON public.controlled_drug_movements (branch_id, product_id, entry_date, id);
+
+-- =================================================================
+-- SECTION 3: BRANCH-SCOPED STOCK
+-- =================================================================
+
+-- Same as before, but only batches held in the seller's branch are sold
+CREATE OR REPLACE FUNCTION public.deduct_stock_fefo(
+  p_product_id UUID,
+  p_product_name TEXT,
+  p_quantity INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_branch_id UUID := public.current_branch_id();
+  v_batch RECORD;
+  v_available INTEGER;
+  v_remaining INTEGER := p_quantity;
+  v_deduct INTEGER;
+  v_deductions JSONB := '[]'::JSONB;
+BEGIN
+  -- Lock every sellable batch of this product so a concurrent checkout
+  -- waits here instead of deducting the same units.
+  SELECT coalesce(sum(quantity), 0) INTO v_available
+  FROM (
+    SELECT quantity
+    FROM public.stock_batches
+    WHERE product_id = p_product_id
+      AND branch_id = v_branch_id
+      AND quantity > 0
+      AND expiry_date >= current_date
+    FOR UPDATE
+  ) locked;
+
+  IF v_available < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock for %. Available: %', p_product_name, v_available
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_batch IN
+    SELECT id, batch_number, quantity, expiry_date
+    FROM public.stock_batches
+    WHERE product_id = p_product_id
+      AND branch_id = v_branch_id
+      AND quantity > 0
+      AND expiry_date >= current_date
+    ORDER BY expiry_date, created_at
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_deduct := least(v_batch.quantity, v_remaining);
+
+    UPDATE public.stock_batches
+    SET quantity = quantity - v_deduct
+    WHERE id = v_batch.id;
+
+    v_deductions := v_deductions || jsonb_build_object(
+      'batch_id', v_batch.id,
+      'batch_number', v_batch.batch_number,
+      'quantity', v_deduct,
+      'expiry_date', v_batch.expiry_date
+    );
+    v_remaining := v_remaining - v_deduct;
+  END LOOP;
+
+  RETURN v_deductions;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deduct_stock_fefo(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, for the user's branch so reorder suggestions compare its
+-- sales with its own stock
+CREATE OR REPLACE FUNCTION public.product_sales_velocity(p_days INTEGER DEFAULT 30)
+RETURNS TABLE (product_id UUID, units_sold BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH sold AS (
+    SELECT si.product_id, sum(si.quantity) AS quantity
+    FROM public.sale_items si
+    JOIN public.sales s ON s.id = si.sale_id
+    WHERE s.created_at >= now() - make_interval(days => greatest(p_days, 1))
+      AND s.branch_id = public.current_branch_id()
+    GROUP BY si.product_id
+  ),
+  returned AS (
+    SELECT ri.product_id, sum(ri.quantity) AS quantity
+    FROM public.return_items ri
+    JOIN public.sale_items si ON si.id = ri.sale_item_id
+    JOIN public.sales s ON s.id = si.sale_id
+    WHERE s.created_at >= now() - make_interval(days => greatest(p_days, 1))
+      AND s.branch_id = public.current_branch_id()
+    GROUP BY ri.product_id
+  )
+  SELECT
+    sold.product_id,
+    greatest(sold.quantity - coalesce(returned.quantity, 0), 0)::BIGINT AS units_sold
+  FROM sold
+  LEFT JOIN returned ON returned.product_id = sold.product_id;
+$$;
+
+-- =================================================================
+-- SECTION 4: CONTROLLED DRUG REGISTER PER BRANCH
+-- =================================================================
+
+-- Each branch keeps its own register. Batches created by receive_transfer()
+-- are logged as transfer_in rather than receipt; dispatch_transfer() logs the
+-- matching transfer_out itself.
+ALTER TABLE public.controlled_drug_movements
+  DROP CONSTRAINT IF EXISTS controlled_drug_movements_entry_type_check;
+ALTER TABLE public.controlled_drug_movements
+  ADD CONSTRAINT controlled_drug_movements_entry_type_check
+  CHECK (entry_type IN ('opening', 'receipt', 'sale', 'return', 'transfer_in', 'transfer_out'));
+
+CREATE OR REPLACE FUNCTION public.record_controlled_drug_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule TEXT;
+  v_reference TEXT;
+  v_entry_date TIMESTAMPTZ;
+  v_branch_id UUID;
+  v_transfer TEXT;
+  v_stock RECORD;
+BEGIN
+  IF TG_TABLE_NAME = 'products' THEN
+    -- Newly classified as controlled: bring each branch's register up to its stock
+    IF public.is_controlled_schedule(NEW.drug_schedule) AND NOT public.is_controlled_schedule(OLD.drug_schedule) THEN
+      FOR v_stock IN
+        SELECT b.id AS branch_id,
+          coalesce((SELECT sum(quantity) FROM public.stock_batches WHERE product_id = NEW.id AND branch_id = b.id), 0) AS on_hand,
+          coalesce((SELECT sum(quantity) FROM public.controlled_drug_movements WHERE product_id = NEW.id AND branch_id = b.id), 0) AS balance
+        FROM public.branches b
+      LOOP
+        IF v_stock.on_hand <> v_stock.balance THEN
+          INSERT INTO public.controlled_drug_movements (product_id, branch_id, entry_type, quantity, reference, created_by)
+          VALUES (NEW.id, v_stock.branch_id, 'opening', v_stock.on_hand - v_stock.balance, 'Stock on hand when classified', auth.uid());
+        END IF;
+      END LOOP;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT drug_schedule INTO v_schedule FROM public.products WHERE id = NEW.product_id;
+  IF NOT public.is_controlled_schedule(v_schedule) OR coalesce(NEW.quantity, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'stock_batches' THEN
+    v_transfer := nullif(current_setting('app.stock_transfer', true), '');
+    INSERT INTO public.controlled_drug_movements (product_id, branch_id, entry_date, entry_type, quantity, reference, stock_batch_id, created_by)
+    VALUES (
+      NEW.product_id,
+      NEW.branch_id,
+      coalesce(NEW.created_at, now()),
+      CASE WHEN v_transfer IS NULL THEN 'receipt' ELSE 'transfer_in' END,
+      NEW.quantity,
+      coalesce(v_transfer, 'Batch ' || NEW.batch_number),
+      NEW.id,
+      auth.uid()
+    );
+
+  ELSIF TG_TABLE_NAME = 'sale_items' THEN
+    SELECT receipt_number, created_at, branch_id INTO v_reference, v_entry_date, v_branch_id FROM public.sales WHERE id = NEW.sale_id;
+    INSERT INTO public.controlled_drug_movements (product_id, branch_id, entry_date, entry_type, quantity, reference, sale_id, created_by)
+    VALUES (NEW.product_id, v_branch_id, coalesce(v_entry_date, now()), 'sale', -NEW.quantity, v_reference, NEW.sale_id, auth.uid());
+
+  ELSIF TG_TABLE_NAME = 'return_items' THEN
+    SELECT receipt_number INTO v_reference FROM public.sales_returns WHERE id = NEW.return_id;
+    SELECT branch_id INTO v_branch_id FROM public.stock_batches WHERE id = NEW.batch_id;
+    INSERT INTO public.controlled_drug_movements (product_id, branch_id, entry_type, quantity, reference, stock_batch_id, created_by)
+    VALUES (NEW.product_id, coalesce(v_branch_id, public.current_branch_id()), 'return', NEW.quantity, v_reference, NEW.batch_id, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, limited to the viewer's branch
+CREATE OR REPLACE FUNCTION public.controlled_drug_register(p_product_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  entry_id BIGINT,
+  entry_date TIMESTAMPTZ,
+  entry_type TEXT,
+  reference TEXT,
+  quantity_in INTEGER,
+  quantity_out INTEGER,
+  balance BIGINT,
+  sale_id UUID,
+  doctor_name TEXT,
+  doctor_pmdc_number TEXT,
+  patient_name TEXT,
+  patient_cnic TEXT,
+  prescription_image_path TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ledger AS (
+    SELECT m.*, sum(m.quantity) OVER (ORDER BY m.entry_date, m.id) AS running
+    FROM public.controlled_drug_movements m
+    WHERE m.product_id = p_product_id
+      AND m.branch_id = public.current_branch_id()
+      AND m.entry_date < (p_to + 1)::TIMESTAMPTZ
+  ),
+  entries AS (
+    SELECT
+      NULL::BIGINT AS entry_id,
+      p_from::TIMESTAMPTZ AS entry_date,
+      'balance_forward'::TEXT AS entry_type,
+      NULL::TEXT AS reference,
+      NULL::INTEGER AS quantity_in,
+      NULL::INTEGER AS quantity_out,
+      coalesce((SELECT sum(quantity) FROM ledger WHERE ledger.entry_date < p_from::TIMESTAMPTZ), 0)::BIGINT AS balance,
+      NULL::UUID AS sale_id,
+      NULL::TEXT AS doctor_name,
+      NULL::TEXT AS doctor_pmdc_number,
+      NULL::TEXT AS patient_name,
+      NULL::TEXT AS patient_cnic,
+      NULL::TEXT AS prescription_image_path
+    UNION ALL
+    SELECT
+      l.id,
+      l.entry_date,
+      l.entry_type,
+      l.reference,
+      greatest(l.quantity, 0),
+      greatest(-l.quantity, 0),
+      l.running::BIGINT,
+      l.sale_id,
+      rx.doctor_name,
+      rx.doctor_pmdc_number,
+      rx.patient_name,
+      rx.patient_cnic,
+      rx.image_path
+    FROM ledger l
+    LEFT JOIN public.prescriptions rx ON rx.sale_id = l.sale_id
+    WHERE l.entry_date >= p_from::TIMESTAMPTZ
+  )
+  SELECT * FROM entries
+  ORDER BY entry_date, entry_id NULLS FIRST;
+$$;
+
+-- =================================================================
+-- SECTION 5: STAFF BRANCHES
+-- =================================================================
+
+-- list_staff() gains branch_id, which changes its return type
+DROP FUNCTION IF EXISTS public.list_staff();
+
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  phone TEXT,
+  id_card_number TEXT,
+  address TEXT,
+  email TEXT,
+  role TEXT,
+  is_active BOOLEAN,
+  branch_id UUID,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  invited_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage staff' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    coalesce(p.full_name, u.raw_user_meta_data->>'full_name', '')::TEXT,
+    p.phone::TEXT,
+    p.id_card_number::TEXT,
+    p.address::TEXT,
+    u.email::TEXT,
+    r.role,
+    coalesce(r.is_active, false),
+    r.branch_id,
+    u.created_at,
+    u.last_sign_in_at,
+    u.invited_at
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  ORDER BY u.created_at;
+END;
+$$;
+
+-- Assign a user to a branch. Owners call this on themselves to switch the
+-- branch they are working in.
+CREATE OR REPLACE FUNCTION public.set_staff_branch(p_user_id UUID, p_branch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_branch UUID;
+BEGIN
+  IF NOT public.has_permission('users.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to manage staff' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = p_branch_id AND is_active) THEN
+    RAISE EXCEPTION 'Branch not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT branch_id INTO v_old_branch FROM public.user_roles WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This account has no role yet' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_old_branch = p_branch_id THEN
+    RETURN;
+  END IF;
+
+  -- A drawer belongs to one branch; its sales must not straddle two
+  IF EXISTS (SELECT 1 FROM public.cash_shifts WHERE cashier_id = p_user_id AND closed_at IS NULL) THEN
+    RAISE EXCEPTION 'Close the open cash drawer shift before changing branch' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.user_roles SET branch_id = p_branch_id WHERE user_id = p_user_id;
+
+  PERFORM public.log_audit_event(
+    'staff.branch_changed', 'user', p_user_id::TEXT,
+    jsonb_build_object('old', jsonb_build_object('branch_id', v_old_branch), 'new', jsonb_build_object('branch_id', p_branch_id))
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_staff() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_staff_branch(UUID, UUID) TO authenticated;
+
+-- =================================================================
+-- SECTION 6: TRANSFERS
+-- =================================================================
+
+INSERT INTO public.document_sequences (doc_type, prefix, pad_width, yearly_reset)
+VALUES ('transfer', 'TRF-', 5, false)
+ON CONFLICT (doc_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_number TEXT NOT NULL UNIQUE DEFAULT public.next_document_number('transfer'),
+  from_branch_id UUID NOT NULL REFERENCES public.branches(id),
+  to_branch_id UUID NOT NULL REFERENCES public.branches(id),
+  status TEXT NOT NULL DEFAULT 'dispatched' CHECK (status IN ('dispatched', 'received')),
+  notes TEXT,
+  dispatched_by UUID REFERENCES auth.users(id),
+  dispatched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  received_by UUID REFERENCES auth.users(id),
+  received_at TIMESTAMPTZ,
+  CHECK (from_branch_id <> to_branch_id)
+);
+
+-- One line per source batch; the batch details travel with it so the
+-- destination batch matches even if the source is later deleted
+CREATE TABLE IF NOT EXISTS public.stock_transfer_items (
+  id BIGSERIAL PRIMARY KEY,
+  transfer_id UUID NOT NULL REFERENCES public.stock_transfers(id) ON DELETE CASCADE,
+  source_batch_id UUID REFERENCES public.stock_batches(id) ON DELETE SET NULL,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  batch_number TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  cost_price NUMERIC(12,2) NOT NULL,
+  selling_price NUMERIC(12,2) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  received_batch_id UUID REFERENCES public.stock_batches(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS stock_transfers_status_idx ON public.stock_transfers (status, dispatched_at);
+CREATE INDEX IF NOT EXISTS stock_transfer_items_transfer_idx ON public.stock_transfer_items (transfer_id);
+
+-- Send batches from the user's branch to another one.
+-- p_items: [{ batch_id, quantity }]
+CREATE OR REPLACE FUNCTION public.dispatch_transfer(p_to_branch_id UUID, p_items JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS public.stock_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from UUID := public.current_branch_id();
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_batch public.stock_batches%ROWTYPE;
+  v_schedule TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('stock.receive') THEN
+    RAISE EXCEPTION 'You do not have permission to transfer stock' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_to_branch_id IS NULL OR p_to_branch_id = v_from THEN
+    RAISE EXCEPTION 'Choose another branch to send stock to' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.branches WHERE id = p_to_branch_id AND is_active) THEN
+    RAISE EXCEPTION 'Branch not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one batch to the transfer' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_transfers (from_branch_id, to_branch_id, notes, dispatched_by)
+  VALUES (v_from, p_to_branch_id, nullif(trim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_transfer;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT * INTO v_batch
+    FROM public.stock_batches
+    WHERE id = (v_item->>'batch_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_batch.branch_id <> v_from THEN
+      RAISE EXCEPTION 'Batch not found in this branch' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF coalesce(v_quantity, 0) <= 0 OR v_quantity > v_batch.quantity THEN
+      RAISE EXCEPTION 'Batch % has only % units to send', v_batch.batch_number, v_batch.quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.stock_batches SET quantity = quantity - v_quantity WHERE id = v_batch.id;
+
+    INSERT INTO public.stock_transfer_items (
+      transfer_id, source_batch_id, product_id, batch_number, expiry_date, cost_price, selling_price, quantity
+    )
+    VALUES (
+      v_transfer.id, v_batch.id, v_batch.product_id, v_batch.batch_number, v_batch.expiry_date,
+      v_batch.cost_price, v_batch.selling_price, v_quantity
+    );
+
+    SELECT drug_schedule INTO v_schedule FROM public.products WHERE id = v_batch.product_id;
+    IF public.is_controlled_schedule(v_schedule) THEN
+      INSERT INTO public.controlled_drug_movements (product_id, branch_id, entry_type, quantity, reference, stock_batch_id, created_by)
+      VALUES (v_batch.product_id, v_from, 'transfer_out', -v_quantity, v_transfer.transfer_number, v_batch.id, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN v_transfer;
+END;
+$$;
+
+-- Book a dispatched transfer into the destination branch. Receivers there,
+-- or owners, can receive it.
+CREATE OR REPLACE FUNCTION public.receive_transfer(p_transfer_id UUID)
+RETURNS public.stock_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_item public.stock_transfer_items%ROWTYPE;
+  v_source public.stock_batches%ROWTYPE;
+  v_batch_id UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('stock.receive') THEN
+    RAISE EXCEPTION 'You do not have permission to receive stock' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transfer.status <> 'dispatched' THEN
+    RAISE EXCEPTION 'Transfer % has already been received', v_transfer.transfer_number USING ERRCODE = '22023';
+  END IF;
+
+  IF v_transfer.to_branch_id <> public.current_branch_id() AND NOT public.has_permission('settings.manage') THEN
+    RAISE EXCEPTION 'Only the receiving branch can receive this transfer' USING ERRCODE = '42501';
+  END IF;
+
+  -- The controlled drug trigger logs these batches as transfer_in
+  PERFORM set_config('app.stock_transfer', v_transfer.transfer_number, true);
+
+  FOR v_item IN SELECT * FROM public.stock_transfer_items WHERE transfer_id = v_transfer.id ORDER BY id
+  LOOP
+    SELECT * INTO v_source FROM public.stock_batches WHERE id = v_item.source_batch_id;
+
+    INSERT INTO public.stock_batches (
+      product_id, branch_id, batch_number, quantity, cost_price, selling_price, expiry_date,
+      purchase_date, supplier, supplier_id, created_by
+    )
+    VALUES (
+      v_item.product_id, v_transfer.to_branch_id, v_item.batch_number, v_item.quantity, v_item.cost_price,
+      v_item.selling_price, v_item.expiry_date, v_source.purchase_date, v_source.supplier, v_source.supplier_id,
+      auth.uid()
+    )
+    RETURNING id INTO v_batch_id;
+
+    UPDATE public.stock_transfer_items SET received_batch_id = v_batch_id WHERE id = v_item.id;
+  END LOOP;
+
+  PERFORM set_config('app.stock_transfer', '', true);
+
+  UPDATE public.stock_transfers
+  SET status = 'received', received_by = auth.uid(), received_at = now()
+  WHERE id = v_transfer.id
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dispatch_transfer(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_transfer(UUID) TO authenticated;
+
+-- =================================================================
+-- SECTION 7: RLS AND AUDIT
+-- =================================================================
+
+-- Everyone needs branch names and addresses (switcher, receipts); only
+-- owners edit them.
+ALTER TABLE public.branches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view branches" ON public.branches;
+CREATE POLICY "Staff can view branches" ON public.branches
+  FOR SELECT USING (public.current_app_role() IS NOT NULL);
+DROP POLICY IF EXISTS "Owners can manage branches" ON public.branches;
+CREATE POLICY "Owners can manage branches" ON public.branches
+  FOR ALL
+  USING (public.has_permission('settings.manage'))
+  WITH CHECK (public.has_permission('settings.manage'));
+
+-- Transfers are written through the functions above
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Stock receivers can view transfers" ON public.stock_transfers;
+CREATE POLICY "Stock receivers can view transfers" ON public.stock_transfers
+  FOR SELECT USING (public.has_permission('stock.receive'));
+
+ALTER TABLE public.stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Stock receivers can view transfer items" ON public.stock_transfer_items;
+CREATE POLICY "Stock receivers can view transfer items" ON public.stock_transfer_items
+  FOR SELECT USING (public.has_permission('stock.receive'));
+
+DROP TRIGGER IF EXISTS audit_branches ON public.branches;
+CREATE TRIGGER audit_branches
+  AFTER INSERT OR UPDATE OR DELETE ON public.branches
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_stock_transfers ON public.stock_transfers;
+CREATE TRIGGER audit_stock_transfers
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_transfers
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
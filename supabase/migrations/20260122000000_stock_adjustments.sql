@@ -0,0 +1,334 @@
+-- File: supabase/migrations/20260122000000_stock_adjustments.sql
+-- Stock adjustments, damage and expiry write-offs.
+--
+-- Until now the only way to take stock out other than a sale was to overwrite
+-- stock_batches.quantity, which left no reason and no record. Adjustments are
+-- documents (ADJ-00001) with a reason code and one line per batch carrying a
+-- signed quantity delta. Staff who receive stock raise them; an owner approves
+-- or rejects them, and only approval touches the batches. Approved lines also
+-- feed the per-batch history and the valuation loss report.
+
+-- =================================================================
+-- SECTION 1: ADJUSTMENT DOCUMENTS
+-- =================================================================
+
+-- The 'adjustment' sequence (ADJ-) was seeded with document numbering
+INSERT INTO public.document_sequences (doc_type, prefix, pad_width, yearly_reset)
+VALUES ('adjustment', 'ADJ-', 5, false)
+ON CONFLICT (doc_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.stock_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  adjustment_number TEXT NOT NULL UNIQUE DEFAULT public.next_document_number('adjustment'),
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  reason TEXT NOT NULL CHECK (reason IN ('damaged', 'expired', 'theft', 'sample', 'count_correction')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT
+);
+
+-- cost_price is captured when the line is raised so the loss is valued at
+-- what the stock cost, even if the batch is later deleted
+CREATE TABLE IF NOT EXISTS public.stock_adjustment_items (
+  id BIGSERIAL PRIMARY KEY,
+  adjustment_id UUID NOT NULL REFERENCES public.stock_adjustments(id) ON DELETE CASCADE,
+  batch_id UUID REFERENCES public.stock_batches(id) ON DELETE SET NULL,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  batch_number TEXT NOT NULL,
+  quantity_delta INTEGER NOT NULL CHECK (quantity_delta <> 0),
+  cost_price NUMERIC(12,2) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS stock_adjustments_branch_status_idx ON public.stock_adjustments (branch_id, status, created_at);
+CREATE INDEX IF NOT EXISTS stock_adjustment_items_adjustment_idx ON public.stock_adjustment_items (adjustment_id);
+CREATE INDEX IF NOT EXISTS stock_adjustment_items_batch_idx ON public.stock_adjustment_items (batch_id);
+
+-- The register gains an 'adjustment' entry for approved controlled drug lines
+ALTER TABLE public.controlled_drug_movements
+  DROP CONSTRAINT IF EXISTS controlled_drug_movements_entry_type_check;
+ALTER TABLE public.controlled_drug_movements
+  ADD CONSTRAINT controlled_drug_movements_entry_type_check
+  CHECK (entry_type IN ('opening', 'receipt', 'sale', 'return', 'transfer_in', 'transfer_out', 'adjustment'));
+
+-- =================================================================
+-- SECTION 2: RAISE, APPROVE AND REJECT
+-- =================================================================
+
+-- Raise a pending adjustment against batches in the user's branch.
+-- p_items: [{ batch_id, quantity_delta }]
+CREATE OR REPLACE FUNCTION public.submit_stock_adjustment(p_reason TEXT, p_items JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS public.stock_adjustments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_branch UUID := public.current_branch_id();
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_item JSONB;
+  v_delta INTEGER;
+  v_batch public.stock_batches%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('stock.receive') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust stock' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one batch to the adjustment' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only a recount can find stock; everything else is a loss
+  IF p_reason <> 'count_correction' AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) e WHERE (e->>'quantity_delta')::INTEGER > 0
+  ) THEN
+    RAISE EXCEPTION 'Only a count correction can add stock' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_adjustments (branch_id, reason, notes, created_by)
+  VALUES (v_branch, p_reason, nullif(trim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_adjustment;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_delta := (v_item->>'quantity_delta')::INTEGER;
+
+    SELECT * INTO v_batch FROM public.stock_batches WHERE id = (v_item->>'batch_id')::UUID;
+
+    IF NOT FOUND OR v_batch.branch_id <> v_branch THEN
+      RAISE EXCEPTION 'Batch not found in this branch' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF coalesce(v_delta, 0) = 0 THEN
+      RAISE EXCEPTION 'Enter a quantity for batch %', v_batch.batch_number USING ERRCODE = '22023';
+    END IF;
+
+    IF v_batch.quantity + v_delta < 0 THEN
+      RAISE EXCEPTION 'Batch % has only % units to write off', v_batch.batch_number, v_batch.quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.stock_adjustment_items (adjustment_id, batch_id, product_id, batch_number, quantity_delta, cost_price)
+    VALUES (v_adjustment.id, v_batch.id, v_batch.product_id, v_batch.batch_number, v_delta, v_batch.cost_price);
+  END LOOP;
+
+  RETURN v_adjustment;
+END;
+$$;
+
+-- Post a pending adjustment to its batches. Stock may have moved since it was
+-- raised, so each batch is locked and re-checked before its delta is applied.
+CREATE OR REPLACE FUNCTION public.approve_stock_adjustment(p_adjustment_id UUID, p_review_notes TEXT DEFAULT NULL)
+RETURNS public.stock_adjustments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+  v_item public.stock_adjustment_items%ROWTYPE;
+  v_batch public.stock_batches%ROWTYPE;
+  v_schedule TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('products.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to approve adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_adjustment FROM public.stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_adjustment.status <> 'pending' THEN
+    RAISE EXCEPTION 'Adjustment % has already been %', v_adjustment.adjustment_number, v_adjustment.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM public.stock_adjustment_items WHERE adjustment_id = v_adjustment.id ORDER BY id
+  LOOP
+    SELECT * INTO v_batch FROM public.stock_batches WHERE id = v_item.batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Batch % no longer exists', v_item.batch_number USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_batch.quantity + v_item.quantity_delta < 0 THEN
+      RAISE EXCEPTION 'Batch % now has only % units; reject this adjustment and raise a new one',
+        v_batch.batch_number, v_batch.quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.stock_batches SET quantity = quantity + v_item.quantity_delta WHERE id = v_batch.id;
+
+    SELECT drug_schedule INTO v_schedule FROM public.products WHERE id = v_item.product_id;
+    IF public.is_controlled_schedule(v_schedule) THEN
+      INSERT INTO public.controlled_drug_movements (product_id, branch_id, entry_type, quantity, reference, stock_batch_id, created_by)
+      VALUES (v_item.product_id, v_batch.branch_id, 'adjustment', v_item.quantity_delta, v_adjustment.adjustment_number, v_batch.id, auth.uid());
+    END IF;
+  END LOOP;
+
+  UPDATE public.stock_adjustments
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now(), review_notes = nullif(trim(p_review_notes), '')
+  WHERE id = v_adjustment.id
+  RETURNING * INTO v_adjustment;
+
+  RETURN v_adjustment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_stock_adjustment(p_adjustment_id UUID, p_review_notes TEXT DEFAULT NULL)
+RETURNS public.stock_adjustments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.stock_adjustments%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('products.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to reject adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.stock_adjustments
+  SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), review_notes = nullif(trim(p_review_notes), '')
+  WHERE id = p_adjustment_id AND status = 'pending'
+  RETURNING * INTO v_adjustment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found or already reviewed' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_adjustment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_stock_adjustment(TEXT, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_stock_adjustment(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_stock_adjustment(UUID, TEXT) TO authenticated;
+
+-- =================================================================
+-- SECTION 3: BATCH HISTORY AND LOSS REPORT
+-- =================================================================
+
+-- Every movement of one batch with a running balance. Sales, returns,
+-- transfers and approved adjustments are read from their own documents; the
+-- opening line is whatever the batch held before them, so the balance always
+-- ends at the batch's current quantity.
+CREATE OR REPLACE FUNCTION public.stock_batch_history(p_batch_id UUID)
+RETURNS TABLE (
+  entry_date TIMESTAMPTZ,
+  entry_type TEXT,
+  reference TEXT,
+  quantity INTEGER,
+  balance BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH batch AS (
+    SELECT b.* FROM public.stock_batches b WHERE b.id = p_batch_id
+  ),
+  movements AS (
+    SELECT s.created_at AS entry_date, 'sale'::TEXT AS entry_type, s.receipt_number AS reference,
+      -(d->>'quantity')::INTEGER AS quantity
+    FROM public.sale_items si
+    JOIN public.sales s ON s.id = si.sale_id
+    CROSS JOIN LATERAL jsonb_array_elements(coalesce(si.batch_deductions, '[]'::JSONB)) d
+    WHERE d->>'batch_id' = p_batch_id::TEXT
+    UNION ALL
+    SELECT r.created_at, 'return', r.receipt_number, ri.quantity
+    FROM public.return_items ri
+    JOIN public.sales_returns r ON r.id = ri.return_id
+    WHERE ri.batch_id = p_batch_id
+    UNION ALL
+    SELECT t.dispatched_at, 'transfer_out', t.transfer_number, -ti.quantity
+    FROM public.stock_transfer_items ti
+    JOIN public.stock_transfers t ON t.id = ti.transfer_id
+    WHERE ti.source_batch_id = p_batch_id
+    UNION ALL
+    SELECT a.reviewed_at, 'adjustment', a.adjustment_number || ' (' || replace(a.reason, '_', ' ') || ')', ai.quantity_delta
+    FROM public.stock_adjustment_items ai
+    JOIN public.stock_adjustments a ON a.id = ai.adjustment_id
+    WHERE ai.batch_id = p_batch_id AND a.status = 'approved'
+  ),
+  entries AS (
+    SELECT
+      b.created_at AS entry_date,
+      CASE WHEN t.transfer_number IS NULL THEN 'receipt' ELSE 'transfer_in' END AS entry_type,
+      coalesce(t.transfer_number, 'Batch ' || b.batch_number) AS reference,
+      (b.quantity - coalesce((SELECT sum(m.quantity) FROM movements m), 0))::INTEGER AS quantity,
+      0 AS sort_order
+    FROM batch b
+    LEFT JOIN LATERAL (
+      SELECT st.transfer_number
+      FROM public.stock_transfer_items sti
+      JOIN public.stock_transfers st ON st.id = sti.transfer_id
+      WHERE sti.received_batch_id = b.id
+      LIMIT 1
+    ) t ON true
+    UNION ALL
+    SELECT m.entry_date, m.entry_type, m.reference, m.quantity, 1
+    FROM movements m
+    WHERE EXISTS (SELECT 1 FROM batch)
+  )
+  SELECT e.entry_date, e.entry_type, e.reference, e.quantity,
+    sum(e.quantity) OVER (ORDER BY e.sort_order, e.entry_date ROWS UNBOUNDED PRECEDING)::BIGINT AS balance
+  FROM entries e
+  ORDER BY e.sort_order, e.entry_date;
+$$;
+
+-- Approved adjustments in the viewer's branch, valued at cost, by reason and
+-- product. Negative values are losses; count corrections can be either way.
+CREATE OR REPLACE FUNCTION public.stock_loss_report(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  reason TEXT,
+  product_id UUID,
+  product_name TEXT,
+  quantity BIGINT,
+  value NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.reason, ai.product_id, p.name, sum(ai.quantity_delta)::BIGINT, sum(ai.quantity_delta * ai.cost_price)
+  FROM public.stock_adjustment_items ai
+  JOIN public.stock_adjustments a ON a.id = ai.adjustment_id
+  JOIN public.products p ON p.id = ai.product_id
+  WHERE a.status = 'approved'
+    AND a.branch_id = public.current_branch_id()
+    AND a.reviewed_at >= p_from::TIMESTAMPTZ
+    AND a.reviewed_at < (p_to + 1)::TIMESTAMPTZ
+  GROUP BY a.reason, ai.product_id, p.name
+  ORDER BY sum(ai.quantity_delta * ai.cost_price), p.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.stock_batch_history(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.stock_loss_report(DATE, DATE) TO authenticated;
+
+-- =================================================================
+-- SECTION 4: RLS AND AUDIT
+-- =================================================================
+
+-- Adjustments are written through the functions above
+ALTER TABLE public.stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Stock receivers can view adjustments" ON public.stock_adjustments;
+CREATE POLICY "Stock receivers can view adjustments" ON public.stock_adjustments
+  FOR SELECT USING (public.has_permission('stock.receive') OR public.has_permission('reports.view'));
+
+ALTER TABLE public.stock_adjustment_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Stock receivers can view adjustment items" ON public.stock_adjustment_items;
+CREATE POLICY "Stock receivers can view adjustment items" ON public.stock_adjustment_items
+  FOR SELECT USING (public.has_permission('stock.receive') OR public.has_permission('reports.view'));
+
+DROP TRIGGER IF EXISTS audit_stock_adjustments ON public.stock_adjustments;
+CREATE TRIGGER audit_stock_adjustments
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_adjustments
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,350 @@
+-- File: supabase/migrations/20260123000000_stock_counts.sql
+-- Physical stock count (cycle count) sessions by rack.
+--
+-- A count session (CNT-00001) covers one or more racks of the user's branch.
+-- Starting it freezes the system quantity of every batch on those racks, so
+-- staff can count shelf by shelf while the shop keeps selling. Counters enter
+-- the counted quantity per batch; in blind mode the frozen quantities are not
+-- shown to anyone until the count is submitted. An owner then posts the
+-- differences, which raises and approves a count correction adjustment.
+--
+-- Differences are counted minus frozen, applied to the batch as it stands
+-- when posted, so sales made during the count are not double counted.
+
+-- =================================================================
+-- SECTION 1: COUNT SESSIONS
+-- =================================================================
+
+INSERT INTO public.document_sequences (doc_type, prefix, pad_width, yearly_reset)
+VALUES ('stock_count', 'CNT-', 5, false)
+ON CONFLICT (doc_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.stock_counts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  count_number TEXT NOT NULL UNIQUE DEFAULT public.next_document_number('stock_count'),
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  rack_ids UUID[] NOT NULL CHECK (cardinality(rack_ids) > 0),
+  blind BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'submitted', 'posted', 'cancelled')),
+  notes TEXT,
+  started_by UUID REFERENCES auth.users(id),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  submitted_by UUID REFERENCES auth.users(id),
+  submitted_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES auth.users(id),
+  closed_at TIMESTAMPTZ,
+  adjustment_id UUID REFERENCES public.stock_adjustments(id)
+);
+
+-- One line per batch on the counted racks. counted_quantity stays NULL until
+-- someone counts the batch; uncounted lines are not posted.
+CREATE TABLE IF NOT EXISTS public.stock_count_items (
+  id BIGSERIAL PRIMARY KEY,
+  count_id UUID NOT NULL REFERENCES public.stock_counts(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.stock_batches(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  rack_id UUID REFERENCES public.racks(id) ON DELETE SET NULL,
+  batch_number TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  expected_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  counted_by UUID REFERENCES auth.users(id),
+  counted_at TIMESTAMPTZ,
+  UNIQUE (count_id, batch_id)
+);
+
+CREATE INDEX IF NOT EXISTS stock_counts_branch_status_idx ON public.stock_counts (branch_id, status, started_at);
+
+-- =================================================================
+-- SECTION 2: COUNTING
+-- =================================================================
+
+-- Open a session for racks in the user's branch and freeze their batches
+CREATE OR REPLACE FUNCTION public.start_stock_count(p_rack_ids UUID[], p_blind BOOLEAN DEFAULT true, p_notes TEXT DEFAULT NULL)
+RETURNS public.stock_counts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_branch UUID := public.current_branch_id();
+  v_count public.stock_counts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('stock.receive') THEN
+    RAISE EXCEPTION 'You do not have permission to count stock' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_rack_ids IS NULL OR cardinality(p_rack_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one rack to count' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_rack_ids) r(id)
+    WHERE NOT EXISTS (SELECT 1 FROM public.racks WHERE id = r.id AND branch_id = v_branch)
+  ) THEN
+    RAISE EXCEPTION 'Rack not found in this branch' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Two open sessions on the same shelf would post the same difference twice
+  IF EXISTS (
+    SELECT 1 FROM public.stock_counts
+    WHERE branch_id = v_branch AND status IN ('open', 'submitted') AND rack_ids && p_rack_ids
+  ) THEN
+    RAISE EXCEPTION 'One of these racks is already being counted' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.stock_counts (branch_id, rack_ids, blind, notes, started_by)
+  VALUES (v_branch, p_rack_ids, coalesce(p_blind, true), nullif(trim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_count;
+
+  INSERT INTO public.stock_count_items (count_id, batch_id, product_id, rack_id, batch_number, expiry_date, expected_quantity)
+  SELECT v_count.id, b.id, b.product_id, p.rack_id, b.batch_number, b.expiry_date, b.quantity
+  FROM public.stock_batches b
+  JOIN public.products p ON p.id = b.product_id
+  WHERE b.branch_id = v_branch
+    AND b.quantity > 0
+    AND p.rack_id = ANY (p_rack_ids);
+
+  RETURN v_count;
+END;
+$$;
+
+-- The count sheet. Frozen quantities and variances stay hidden while a blind
+-- count is open.
+CREATE OR REPLACE FUNCTION public.stock_count_sheet(p_count_id UUID)
+RETURNS TABLE (
+  item_id BIGINT,
+  batch_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  barcode TEXT,
+  rack_id UUID,
+  batch_number TEXT,
+  expiry_date DATE,
+  expected_quantity INTEGER,
+  counted_quantity INTEGER,
+  variance INTEGER,
+  cost_price NUMERIC,
+  counted_by UUID,
+  counted_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.batch_id,
+    i.product_id,
+    p.name,
+    p.barcode,
+    i.rack_id,
+    i.batch_number,
+    i.expiry_date,
+    CASE WHEN hide.blind THEN NULL ELSE i.expected_quantity END,
+    i.counted_quantity,
+    CASE WHEN hide.blind OR i.counted_quantity IS NULL THEN NULL ELSE i.counted_quantity - i.expected_quantity END,
+    CASE WHEN hide.blind THEN NULL ELSE b.cost_price END,
+    i.counted_by,
+    i.counted_at
+  FROM public.stock_counts c
+  CROSS JOIN LATERAL (SELECT c.blind AND c.status = 'open' AS blind) hide
+  JOIN public.stock_count_items i ON i.count_id = c.id
+  JOIN public.products p ON p.id = i.product_id
+  LEFT JOIN public.stock_batches b ON b.id = i.batch_id
+  WHERE c.id = p_count_id
+    AND c.branch_id = public.current_branch_id()
+    AND public.has_permission('stock.receive')
+  ORDER BY p.name, i.expiry_date, i.batch_number;
+$$;
+
+-- Record what is on the shelf for one batch. A batch that was not frozen
+-- (received after the count started, or found on the wrong rack) is added
+-- with its quantity at the time it is first counted.
+CREATE OR REPLACE FUNCTION public.record_stock_count(p_count_id UUID, p_batch_id UUID, p_counted INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count public.stock_counts%ROWTYPE;
+  v_batch public.stock_batches%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('stock.receive') THEN
+    RAISE EXCEPTION 'You do not have permission to count stock' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_counted IS NOT NULL AND p_counted < 0 THEN
+    RAISE EXCEPTION 'Counted quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_count FROM public.stock_counts WHERE id = p_count_id;
+
+  IF NOT FOUND OR v_count.branch_id <> public.current_branch_id() THEN
+    RAISE EXCEPTION 'Count not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_count.status <> 'open' THEN
+    RAISE EXCEPTION 'Count % is no longer open', v_count.count_number USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.stock_count_items
+  SET counted_quantity = p_counted,
+      counted_by = CASE WHEN p_counted IS NULL THEN NULL ELSE auth.uid() END,
+      counted_at = CASE WHEN p_counted IS NULL THEN NULL ELSE now() END
+  WHERE count_id = p_count_id AND batch_id = p_batch_id;
+
+  IF FOUND OR p_counted IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_batch FROM public.stock_batches WHERE id = p_batch_id;
+
+  IF NOT FOUND OR v_batch.branch_id <> v_count.branch_id THEN
+    RAISE EXCEPTION 'Batch not found in this branch' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.stock_count_items (
+    count_id, batch_id, product_id, rack_id, batch_number, expiry_date, expected_quantity,
+    counted_quantity, counted_by, counted_at
+  )
+  SELECT p_count_id, v_batch.id, v_batch.product_id, p.rack_id, v_batch.batch_number, v_batch.expiry_date,
+    v_batch.quantity, p_counted, auth.uid(), now()
+  FROM public.products p
+  WHERE p.id = v_batch.product_id;
+END;
+$$;
+
+-- Counting is finished; the variances become visible
+CREATE OR REPLACE FUNCTION public.submit_stock_count(p_count_id UUID)
+RETURNS public.stock_counts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count public.stock_counts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('stock.receive') THEN
+    RAISE EXCEPTION 'You do not have permission to count stock' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.stock_counts
+  SET status = 'submitted', submitted_by = auth.uid(), submitted_at = now()
+  WHERE id = p_count_id AND status = 'open' AND branch_id = public.current_branch_id()
+  RETURNING * INTO v_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Count not found or no longer open' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 3: POSTING
+-- =================================================================
+
+-- Post every counted difference of a submitted count as one approved count
+-- correction adjustment
+CREATE OR REPLACE FUNCTION public.post_stock_count(p_count_id UUID)
+RETURNS public.stock_counts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count public.stock_counts%ROWTYPE;
+  v_items JSONB;
+  v_adjustment public.stock_adjustments%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('products.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to post stock counts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_count FROM public.stock_counts WHERE id = p_count_id FOR UPDATE;
+
+  IF NOT FOUND OR v_count.branch_id <> public.current_branch_id() THEN
+    RAISE EXCEPTION 'Count not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_count.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Count % must be submitted before it is posted', v_count.count_number USING ERRCODE = '22023';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('batch_id', batch_id, 'quantity_delta', counted_quantity - expected_quantity) ORDER BY id)
+  INTO v_items
+  FROM public.stock_count_items
+  WHERE count_id = v_count.id
+    AND counted_quantity IS NOT NULL
+    AND counted_quantity <> expected_quantity;
+
+  IF v_items IS NOT NULL THEN
+    v_adjustment := public.submit_stock_adjustment('count_correction', v_items, 'Stock count ' || v_count.count_number);
+    v_adjustment := public.approve_stock_adjustment(v_adjustment.id, NULL);
+  END IF;
+
+  UPDATE public.stock_counts
+  SET status = 'posted', closed_by = auth.uid(), closed_at = now(), adjustment_id = v_adjustment.id
+  WHERE id = v_count.id
+  RETURNING * INTO v_count;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_stock_count(p_count_id UUID)
+RETURNS public.stock_counts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count public.stock_counts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('products.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to cancel stock counts' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.stock_counts
+  SET status = 'cancelled', closed_by = auth.uid(), closed_at = now()
+  WHERE id = p_count_id AND status IN ('open', 'submitted') AND branch_id = public.current_branch_id()
+  RETURNING * INTO v_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Count not found or already closed' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_stock_count(UUID[], BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.stock_count_sheet(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_stock_count(UUID, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_stock_count(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.post_stock_count(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_stock_count(UUID) TO authenticated;
+
+-- =================================================================
+-- SECTION 4: RLS AND AUDIT
+-- =================================================================
+
+-- Sessions are written through the functions above
+ALTER TABLE public.stock_counts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Stock receivers can view stock counts" ON public.stock_counts;
+CREATE POLICY "Stock receivers can view stock counts" ON public.stock_counts
+  FOR SELECT USING (public.has_permission('stock.receive'));
+
+-- No policies: lines are read through stock_count_sheet() so a blind count
+-- cannot be read around
+ALTER TABLE public.stock_count_items ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS audit_stock_counts ON public.stock_counts;
+CREATE TRIGGER audit_stock_counts
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_counts
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,378 @@
+-- File: supabase/migrations/20260124000000_supplier_returns.sql
+-- Returns to supplier (debit notes) for expired and near-expiry stock.
+--
+-- Many distributors take back short-dated stock for credit. A debit note
+-- (DN-00001) lists batches going back to one supplier with their quantity and
+-- cost. It is drafted first, takes the units off the batches when it is
+-- dispatched, and then records the credit notes the supplier issues against
+-- it until the owner marks it credited.
+
+-- =================================================================
+-- SECTION 1: DEBIT NOTES
+-- =================================================================
+
+INSERT INTO public.document_sequences (doc_type, prefix, pad_width, yearly_reset)
+VALUES ('supplier_return', 'DN-', 5, false)
+ON CONFLICT (doc_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.supplier_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_number TEXT NOT NULL UNIQUE DEFAULT public.next_document_number('supplier_return'),
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'dispatched', 'credited', 'cancelled')),
+  notes TEXT,
+  credit_received NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (credit_received >= 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  dispatched_by UUID REFERENCES auth.users(id),
+  dispatched_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ
+);
+
+-- Batch details travel with the line so the note still prints after the
+-- batch is emptied or deleted
+CREATE TABLE IF NOT EXISTS public.supplier_return_items (
+  id BIGSERIAL PRIMARY KEY,
+  return_id UUID NOT NULL REFERENCES public.supplier_returns(id) ON DELETE CASCADE,
+  batch_id UUID REFERENCES public.stock_batches(id) ON DELETE SET NULL,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  batch_number TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  cost_price NUMERIC(12,2) NOT NULL DEFAULT 0
+);
+
+-- Credit notes received from the supplier against a debit note
+CREATE TABLE IF NOT EXISTS public.supplier_return_credits (
+  id BIGSERIAL PRIMARY KEY,
+  return_id UUID NOT NULL REFERENCES public.supplier_returns(id) ON DELETE CASCADE,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  reference TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS supplier_returns_branch_status_idx ON public.supplier_returns (branch_id, status, created_at);
+CREATE INDEX IF NOT EXISTS supplier_returns_supplier_idx ON public.supplier_returns (supplier_id);
+CREATE INDEX IF NOT EXISTS supplier_return_items_return_idx ON public.supplier_return_items (return_id);
+CREATE INDEX IF NOT EXISTS supplier_return_items_batch_idx ON public.supplier_return_items (batch_id);
+CREATE INDEX IF NOT EXISTS supplier_return_credits_return_idx ON public.supplier_return_credits (return_id);
+
+-- Units going back to the supplier leave the controlled drug register too
+ALTER TABLE public.controlled_drug_movements
+  DROP CONSTRAINT IF EXISTS controlled_drug_movements_entry_type_check;
+ALTER TABLE public.controlled_drug_movements
+  ADD CONSTRAINT controlled_drug_movements_entry_type_check
+  CHECK (entry_type IN (
+    'opening', 'receipt', 'sale', 'return', 'transfer_in', 'transfer_out', 'adjustment', 'supplier_return'
+  ));
+
+-- =================================================================
+-- SECTION 2: DRAFT, DISPATCH AND CREDIT
+-- =================================================================
+
+-- Draft a debit note for batches in the user's branch.
+-- p_items: [{ batch_id, quantity }]
+CREATE OR REPLACE FUNCTION public.create_supplier_return(p_supplier_id UUID, p_items JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS public.supplier_returns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_branch UUID := public.current_branch_id();
+  v_return public.supplier_returns%ROWTYPE;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_batch public.stock_batches%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('purchasing.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to return stock to suppliers' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.suppliers WHERE id = p_supplier_id) THEN
+    RAISE EXCEPTION 'Supplier not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one batch to the debit note' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.supplier_returns (branch_id, supplier_id, notes, created_by)
+  VALUES (v_branch, p_supplier_id, nullif(trim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_return;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT * INTO v_batch FROM public.stock_batches WHERE id = (v_item->>'batch_id')::UUID;
+
+    IF NOT FOUND OR v_batch.branch_id <> v_branch THEN
+      RAISE EXCEPTION 'Batch not found in this branch' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- A batch can only go back to whoever sold it
+    IF v_batch.supplier_id IS NOT NULL AND v_batch.supplier_id <> p_supplier_id THEN
+      RAISE EXCEPTION 'Batch % was bought from another supplier', v_batch.batch_number USING ERRCODE = '22023';
+    END IF;
+
+    IF coalesce(v_quantity, 0) <= 0 OR v_quantity > v_batch.quantity THEN
+      RAISE EXCEPTION 'Batch % has only % units to return', v_batch.batch_number, v_batch.quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.supplier_return_items (return_id, batch_id, product_id, batch_number, expiry_date, quantity, cost_price)
+    VALUES (v_return.id, v_batch.id, v_batch.product_id, v_batch.batch_number, v_batch.expiry_date, v_quantity, v_batch.cost_price);
+  END LOOP;
+
+  RETURN v_return;
+END;
+$$;
+
+-- Hand the stock to the supplier: the units come off the batches now
+CREATE OR REPLACE FUNCTION public.dispatch_supplier_return(p_return_id UUID)
+RETURNS public.supplier_returns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+  v_item public.supplier_return_items%ROWTYPE;
+  v_batch public.stock_batches%ROWTYPE;
+  v_schedule TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('purchasing.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to return stock to suppliers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_return FROM public.supplier_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND OR v_return.branch_id <> public.current_branch_id() THEN
+    RAISE EXCEPTION 'Debit note not found in this branch' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_return.status <> 'draft' THEN
+    RAISE EXCEPTION 'Debit note % is % and cannot be dispatched', v_return.return_number, v_return.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM public.supplier_return_items WHERE return_id = v_return.id ORDER BY id
+  LOOP
+    SELECT * INTO v_batch FROM public.stock_batches WHERE id = v_item.batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Batch % no longer exists', v_item.batch_number USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_item.quantity > v_batch.quantity THEN
+      RAISE EXCEPTION 'Batch % now has only % units; cancel this debit note and draft a new one',
+        v_batch.batch_number, v_batch.quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.stock_batches SET quantity = quantity - v_item.quantity WHERE id = v_batch.id;
+
+    SELECT drug_schedule INTO v_schedule FROM public.products WHERE id = v_item.product_id;
+    IF public.is_controlled_schedule(v_schedule) THEN
+      INSERT INTO public.controlled_drug_movements (product_id, branch_id, entry_type, quantity, reference, stock_batch_id, created_by)
+      VALUES (v_item.product_id, v_batch.branch_id, 'supplier_return', -v_item.quantity, v_return.return_number, v_batch.id, auth.uid());
+    END IF;
+  END LOOP;
+
+  UPDATE public.supplier_returns
+  SET status = 'dispatched', dispatched_by = auth.uid(), dispatched_at = now()
+  WHERE id = v_return.id
+  RETURNING * INTO v_return;
+
+  RETURN v_return;
+END;
+$$;
+
+-- Record a credit note from the supplier. p_close marks the debit note
+-- settled even if the supplier credited less than its value.
+CREATE OR REPLACE FUNCTION public.record_supplier_credit(
+  p_return_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL,
+  p_close BOOLEAN DEFAULT false
+)
+RETURNS public.supplier_returns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+  v_value NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('purchasing.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to record supplier credits' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_return FROM public.supplier_returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Debit note not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_return.status <> 'dispatched' THEN
+    RAISE EXCEPTION 'Credit can only be recorded against a dispatched debit note' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_amount, 0) < 0 OR (coalesce(p_amount, 0) = 0 AND NOT coalesce(p_close, false)) THEN
+    RAISE EXCEPTION 'Enter the credit amount' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_amount > 0 THEN
+    INSERT INTO public.supplier_return_credits (return_id, amount, reference, created_by)
+    VALUES (v_return.id, round(p_amount, 2), nullif(trim(p_reference), ''), auth.uid());
+  END IF;
+
+  SELECT coalesce(sum(quantity * cost_price), 0) INTO v_value FROM public.supplier_return_items WHERE return_id = v_return.id;
+
+  UPDATE public.supplier_returns
+  SET credit_received = credit_received + round(coalesce(p_amount, 0), 2),
+      status = CASE WHEN p_close OR credit_received + round(coalesce(p_amount, 0), 2) >= v_value THEN 'credited' ELSE status END,
+      closed_at = CASE WHEN p_close OR credit_received + round(coalesce(p_amount, 0), 2) >= v_value THEN now() ELSE closed_at END
+  WHERE id = v_return.id
+  RETURNING * INTO v_return;
+
+  RETURN v_return;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_supplier_return(p_return_id UUID)
+RETURNS public.supplier_returns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_permission('purchasing.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to cancel debit notes' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.supplier_returns
+  SET status = 'cancelled', closed_at = now()
+  WHERE id = p_return_id AND status = 'draft'
+  RETURNING * INTO v_return;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only a draft debit note can be cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_return;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_supplier_return(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.dispatch_supplier_return(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_supplier_credit(UUID, NUMERIC, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_supplier_return(UUID) TO authenticated;
+
+-- =================================================================
+-- SECTION 3: BATCH HISTORY
+-- =================================================================
+
+-- Same as before, with dispatched debit notes
+CREATE OR REPLACE FUNCTION public.stock_batch_history(p_batch_id UUID)
+RETURNS TABLE (
+  entry_date TIMESTAMPTZ,
+  entry_type TEXT,
+  reference TEXT,
+  quantity INTEGER,
+  balance BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH batch AS (
+    SELECT b.* FROM public.stock_batches b WHERE b.id = p_batch_id
+  ),
+  movements AS (
+    SELECT s.created_at AS entry_date, 'sale'::TEXT AS entry_type, s.receipt_number AS reference,
+      -(d->>'quantity')::INTEGER AS quantity
+    FROM public.sale_items si
+    JOIN public.sales s ON s.id = si.sale_id
+    CROSS JOIN LATERAL jsonb_array_elements(coalesce(si.batch_deductions, '[]'::JSONB)) d
+    WHERE d->>'batch_id' = p_batch_id::TEXT
+    UNION ALL
+    SELECT r.created_at, 'return', r.receipt_number, ri.quantity
+    FROM public.return_items ri
+    JOIN public.sales_returns r ON r.id = ri.return_id
+    WHERE ri.batch_id = p_batch_id
+    UNION ALL
+    SELECT t.dispatched_at, 'transfer_out', t.transfer_number, -ti.quantity
+    FROM public.stock_transfer_items ti
+    JOIN public.stock_transfers t ON t.id = ti.transfer_id
+    WHERE ti.source_batch_id = p_batch_id
+    UNION ALL
+    SELECT a.reviewed_at, 'adjustment', a.adjustment_number || ' (' || replace(a.reason, '_', ' ') || ')', ai.quantity_delta
+    FROM public.stock_adjustment_items ai
+    JOIN public.stock_adjustments a ON a.id = ai.adjustment_id
+    WHERE ai.batch_id = p_batch_id AND a.status = 'approved'
+    UNION ALL
+    SELECT sr.dispatched_at, 'supplier_return', sr.return_number, -sri.quantity
+    FROM public.supplier_return_items sri
+    JOIN public.supplier_returns sr ON sr.id = sri.return_id
+    WHERE sri.batch_id = p_batch_id AND sr.dispatched_at IS NOT NULL
+  ),
+  entries AS (
+    SELECT
+      b.created_at AS entry_date,
+      CASE WHEN t.transfer_number IS NULL THEN 'receipt' ELSE 'transfer_in' END AS entry_type,
+      coalesce(t.transfer_number, 'Batch ' || b.batch_number) AS reference,
+      (b.quantity - coalesce((SELECT sum(m.quantity) FROM movements m), 0))::INTEGER AS quantity,
+      0 AS sort_order
+    FROM batch b
+    LEFT JOIN LATERAL (
+      SELECT st.transfer_number
+      FROM public.stock_transfer_items sti
+      JOIN public.stock_transfers st ON st.id = sti.transfer_id
+      WHERE sti.received_batch_id = b.id
+      LIMIT 1
+    ) t ON true
+    UNION ALL
+    SELECT m.entry_date, m.entry_type, m.reference, m.quantity, 1
+    FROM movements m
+    WHERE EXISTS (SELECT 1 FROM batch)
+  )
+  SELECT e.entry_date, e.entry_type, e.reference, e.quantity,
+    sum(e.quantity) OVER (ORDER BY e.sort_order, e.entry_date ROWS UNBOUNDED PRECEDING)::BIGINT AS balance
+  FROM entries e
+  ORDER BY e.sort_order, e.entry_date;
+$$;
+
+-- =================================================================
+-- SECTION 4: RLS AND AUDIT
+-- =================================================================
+
+-- Debit notes are written through the functions above
+ALTER TABLE public.supplier_returns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Purchasing can view supplier returns" ON public.supplier_returns;
+CREATE POLICY "Purchasing can view supplier returns" ON public.supplier_returns
+  FOR SELECT USING (public.has_permission('purchasing.manage'));
+
+ALTER TABLE public.supplier_return_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Purchasing can view supplier return items" ON public.supplier_return_items;
+CREATE POLICY "Purchasing can view supplier return items" ON public.supplier_return_items
+  FOR SELECT USING (public.has_permission('purchasing.manage'));
+
+ALTER TABLE public.supplier_return_credits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Purchasing can view supplier credits" ON public.supplier_return_credits;
+CREATE POLICY "Purchasing can view supplier credits" ON public.supplier_return_credits
+  FOR SELECT USING (public.has_permission('purchasing.manage'));
+
+DROP TRIGGER IF EXISTS audit_supplier_returns ON public.supplier_returns;
+CREATE TRIGGER audit_supplier_returns
+  AFTER INSERT OR UPDATE OR DELETE ON public.supplier_returns
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
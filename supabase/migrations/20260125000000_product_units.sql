@@ -0,0 +1,335 @@
+-- File: supabase/migrations/20260125000000_product_units.sql
+-- Pack sizes and loose-unit selling.
+--
+-- Stock has always been counted in one unit per product. That unit is now
+-- named (products.base_unit, e.g. Tablet) and a product can list the packs it
+-- is also sold in (product_units), e.g. Strip = 10 tablets, Box = 100 tablets.
+-- Batches, sale lines, returns and the drug register keep working in base
+-- units; a pack only changes how a sale line is priced and shown.
+
+-- =================================================================
+-- SECTION 1: BASE UNIT AND PACK SIZES
+-- =================================================================
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS base_unit TEXT NOT NULL DEFAULT 'Unit' CHECK (length(trim(base_unit)) > 0);
+
+-- selling_price is the price of the whole pack. Without one the pack sells
+-- at factor x the base unit price of the batch being sold.
+CREATE TABLE IF NOT EXISTS public.product_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  factor INTEGER NOT NULL CHECK (factor > 1),
+  selling_price NUMERIC(12,2) CHECK (selling_price IS NULL OR selling_price >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, factor),
+  UNIQUE (product_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS product_units_product_idx ON public.product_units (product_id);
+
+-- =================================================================
+-- SECTION 2: SALE LINES
+-- =================================================================
+
+-- quantity stays in base units and unit_price per base unit, so returns,
+-- profit and the drug register need no change. A line sold as a pack keeps
+-- its name and size: quantity / unit_factor packs at total / packs each.
+ALTER TABLE public.sale_items
+  ADD COLUMN IF NOT EXISTS unit_name TEXT,
+  ADD COLUMN IF NOT EXISTS unit_factor INTEGER NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+-- =================================================================
+-- SECTION 3: CHECKOUT
+-- =================================================================
+
+-- Same as before; cart lines may carry unit_factor (default 1) with quantity
+-- and unit_price given per pack. Parked carts store the same two fields
+-- (unit_name, unit_factor) on their items.
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0,
+  p_client_ref UUID DEFAULT NULL,
+  p_sold_at TIMESTAMPTZ DEFAULT NULL,
+  p_prescription JSONB DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_factor INTEGER;
+  v_unit_name TEXT;
+  v_schedule TEXT;
+  v_scheduled TEXT[] := '{}';
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+  v_customer public.customers%ROWTYPE;
+  v_balance NUMERIC;
+  v_net NUMERIC;
+  v_payments JSONB;
+  v_payment JSONB;
+  v_method TEXT;
+  v_amount NUMERIC;
+  v_tendered NUMERIC;
+  v_paid NUMERIC := 0;
+  v_credit NUMERIC := 0;
+  v_payment_rows JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.has_permission('sales.create') THEN
+    RAISE EXCEPTION 'You do not have permission to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replayed checkout: hand back what was already recorded
+  IF p_client_ref IS NOT NULL THEN
+    SELECT * INTO v_sale FROM public.sales WHERE client_ref = p_client_ref;
+    IF FOUND THEN
+      SELECT coalesce(jsonb_agg(to_jsonb(si)), '[]'::JSONB) INTO v_items
+      FROM (
+        SELECT id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor
+        FROM public.sale_items
+        WHERE sale_id = v_sale.id
+      ) si;
+      SELECT coalesce(jsonb_agg(to_jsonb(sp) ORDER BY sp.id), '[]'::JSONB) INTO v_payment_rows
+      FROM (
+        SELECT id, sale_id, method, amount, tendered, reference
+        FROM public.sale_payments
+        WHERE sale_id = v_sale.id
+      ) sp;
+      RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB, 'payments', v_payment_rows);
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sold_at IS NOT NULL AND p_sold_at > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Sale time cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_customer_id IS NOT NULL THEN
+    -- Locked so two tills cannot both push the same customer past the limit
+    SELECT * INTO v_customer FROM public.customers WHERE id = p_customer_id FOR UPDATE;
+    IF NOT FOUND OR NOT v_customer.is_active THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  -- Scheduled drugs cannot leave the counter without a complete prescription
+  SELECT coalesce(array_agg(DISTINCT p.name), '{}') INTO v_scheduled
+  FROM jsonb_array_elements(p_items) AS i
+  JOIN public.products p ON p.id = (i->>'product_id')::UUID
+  WHERE p.drug_schedule <> 'none';
+
+  IF cardinality(v_scheduled) > 0 AND (
+    p_prescription IS NULL
+    OR coalesce(trim(p_prescription->>'doctor_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'doctor_pmdc_number'), '') = ''
+    OR coalesce(trim(p_prescription->>'patient_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'image_path'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'A prescription is required for %', array_to_string(v_scheduled, ', ') USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_scheduled) > 0 AND coalesce(p_prescription->>'patient_cnic', '') !~ '^[0-9]{5}-[0-9]{7}-[0-9]$' THEN
+    RAISE EXCEPTION 'Patient CNIC must be in the format 12345-1234567-1' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+    v_factor := coalesce((v_item->>'unit_factor')::INTEGER, 1);
+    v_unit_name := NULL;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 OR v_factor <= 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    -- quantity and unit_price are per pack; stock moves in base units
+    IF v_factor > 1 THEN
+      SELECT name INTO v_unit_name FROM public.product_units WHERE product_id = v_product_id AND factor = v_factor;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% is no longer sold in packs of %', v_product_name, v_factor USING ERRCODE = '22023';
+      END IF;
+    END IF;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity * v_factor,
+      'unit_price', v_unit_price / v_factor,
+      'total', round(v_quantity * v_unit_price, 2),
+      'unit_name', v_unit_name,
+      'unit_factor', v_factor,
+      'batch_deductions', public.deduct_stock_fefo(v_product_id, v_product_name, v_quantity * v_factor)
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  v_net := round(v_total - coalesce(p_discount, 0), 2);
+
+  -- Single-tender callers (and sales queued offline before split tender)
+  -- pay the whole amount with p_payment_method
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    v_payments := CASE
+      WHEN v_net > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_net))
+      ELSE '[]'::JSONB
+    END;
+  ELSE
+    v_payments := p_payments;
+  END IF;
+
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    v_method := v_payment->>'method';
+    v_amount := round((v_payment->>'amount')::NUMERIC, 2);
+    v_tendered := (v_payment->>'tendered')::NUMERIC;
+
+    IF v_method IS NULL OR v_method NOT IN ('cash', 'card', 'mobile', 'jazzcash', 'easypaisa', 'credit') THEN
+      RAISE EXCEPTION 'Invalid payment method: %', coalesce(v_method, 'none') USING ERRCODE = '22023';
+    END IF;
+
+    IF coalesce(v_amount, 0) <= 0 THEN
+      RAISE EXCEPTION 'Payment amounts must be greater than zero' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_tendered IS NOT NULL AND (v_method <> 'cash' OR v_tendered < v_amount) THEN
+      RAISE EXCEPTION 'Cash tendered cannot be less than the cash amount' USING ERRCODE = '22023';
+    END IF;
+
+    v_paid := v_paid + v_amount;
+    IF v_method = 'credit' THEN
+      v_credit := v_credit + v_amount;
+    END IF;
+  END LOOP;
+
+  IF v_paid <> v_net THEN
+    RAISE EXCEPTION 'Payments total % but the sale comes to %', v_paid, v_net USING ERRCODE = '22023';
+  END IF;
+
+  IF v_credit > 0 AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a customer to sell on credit' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only checked at the counter: a sale replayed from the offline queue has
+  -- already been handed over
+  IF v_credit > 0 AND v_customer.credit_limit IS NOT NULL AND p_sold_at IS NULL THEN
+    SELECT coalesce(sum(amount), 0) INTO v_balance FROM public.customer_ledger WHERE customer_id = p_customer_id;
+    IF v_balance + v_credit > v_customer.credit_limit THEN
+      RAISE EXCEPTION 'Credit limit of % exceeded: % already owes %', v_customer.credit_limit, v_customer.name, v_balance
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  v_method := CASE
+    WHEN jsonb_array_length(v_payments) = 1 THEN v_payments->0->>'method'
+    WHEN jsonb_array_length(v_payments) = 0 THEN p_payment_method
+    ELSE 'split'
+  END;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount, client_ref, created_at, customer_id)
+  VALUES (v_total, v_method, auth.uid(), coalesce(p_discount, 0), p_client_ref, coalesce(p_sold_at, now()), p_customer_id)
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions',
+      i->>'unit_name',
+      (i->>'unit_factor')::INTEGER
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  IF cardinality(v_scheduled) > 0 THEN
+    INSERT INTO public.prescriptions (sale_id, doctor_name, doctor_pmdc_number, patient_name, patient_cnic, image_path, created_by)
+    VALUES (
+      v_sale.id,
+      trim(p_prescription->>'doctor_name'),
+      upper(trim(p_prescription->>'doctor_pmdc_number')),
+      trim(p_prescription->>'patient_name'),
+      p_prescription->>'patient_cnic',
+      p_prescription->>'image_path',
+      auth.uid()
+    );
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_payments (sale_id, method, amount, tendered, reference)
+    SELECT
+      v_sale.id,
+      p->>'method',
+      round((p->>'amount')::NUMERIC, 2),
+      (p->>'tendered')::NUMERIC,
+      nullif(trim(p->>'reference'), '')
+    FROM jsonb_array_elements(v_payments) AS p
+    RETURNING id, sale_id, method, amount, tendered, reference
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted) ORDER BY inserted.id), '[]'::JSONB) INTO v_payment_rows FROM inserted;
+
+  IF v_credit > 0 THEN
+    INSERT INTO public.customer_ledger (customer_id, entry_type, amount, sale_id, reference, created_by, created_at)
+    VALUES (p_customer_id, 'sale', v_credit, v_sale.id, v_sale.receipt_number, auth.uid(), v_sale.created_at);
+  END IF;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB, 'payments', v_payment_rows);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ, JSONB, UUID, JSONB) TO authenticated;
+
+-- =================================================================
+-- SECTION 4: RLS AND AUDIT
+-- =================================================================
+
+-- Same rules as the catalogue: everyone can look up, only owners change it
+ALTER TABLE public.product_units ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view product units" ON public.product_units;
+CREATE POLICY "Staff can view product units" ON public.product_units
+  FOR SELECT USING (public.current_app_role() IS NOT NULL);
+DROP POLICY IF EXISTS "Owners can manage product units" ON public.product_units;
+CREATE POLICY "Owners can manage product units" ON public.product_units
+  FOR ALL
+  USING (public.has_permission('products.manage'))
+  WITH CHECK (public.has_permission('products.manage'));
+
+DROP TRIGGER IF EXISTS audit_product_units ON public.product_units;
+CREATE TRIGGER audit_product_units
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_units
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,526 @@
+-- File: supabase/migrations/20260126000000_interaction_warnings.sql
+-- Drug interaction acknowledgements at checkout.
+--
+-- The POS checks the cart against an interaction knowledge base kept in the
+-- app (src/lib/interactions.ts). Major interactions block checkout until a
+-- pharmacist acknowledges them; the acknowledgement is stored against the
+-- sale with the interactions as they were shown. The major rules are copied
+-- here too, so process_sale refuses a major interaction nobody acknowledged
+-- even if the till skipped the check.
+
+-- =================================================================
+-- SECTION 1: PERMISSION
+-- =================================================================
+
+-- Same matrix as before plus interactions.acknowledge for pharmacists.
+-- Keep in sync with src/lib/permissions.ts.
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE public.current_app_role()
+    WHEN 'owner' THEN true
+    WHEN 'pharmacist' THEN p_permission IN (
+      'sales.create', 'sales.return', 'stock.receive', 'reports.view', 'interactions.acknowledge'
+    )
+    WHEN 'cashier' THEN p_permission IN ('sales.create')
+    ELSE false
+  END;
+$$;
+
+-- =================================================================
+-- SECTION 2: ACKNOWLEDGEMENTS
+-- =================================================================
+
+-- interactions: [{severity, kind, products, ingredients, description}]
+CREATE TABLE IF NOT EXISTS public.sale_interaction_acknowledgements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID NOT NULL UNIQUE REFERENCES public.sales(id),
+  interactions JSONB NOT NULL CHECK (jsonb_typeof(interactions) = 'array' AND jsonb_array_length(interactions) > 0),
+  note TEXT,
+  acknowledged_by UUID REFERENCES auth.users(id),
+  acknowledged_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- =================================================================
+-- SECTION 3: INGREDIENTS
+-- =================================================================
+
+-- Ingredient names in a salt formula, normalised as parseSaltFormula() and
+-- normaliseIngredientName() do in src/lib/salts.ts. Keep the two in sync.
+CREATE OR REPLACE FUNCTION public.salt_ingredient_names(p_formula TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_text TEXT;
+  v_part TEXT;
+  v_words TEXT[];
+  v_name TEXT;
+  v_names TEXT[] := '{}';
+BEGIN
+  IF coalesce(trim(p_formula), '') = '' THEN
+    RETURN v_names;
+  END IF;
+
+  -- Bracketed text and a leading "Brand:" label are ignored
+  v_text := regexp_replace(p_formula, '\([^)]*\)|\[[^]]*\]', ' ', 'g');
+  v_text := regexp_replace(v_text, '^[^:]*:', ' ');
+
+  FOREACH v_part IN ARRAY regexp_split_to_array(v_text, '\s*(?:\+|,|;|&|\mand\M|\mwith\M)\s*', 'i')
+  LOOP
+    -- Strengths and other numbers
+    v_part := regexp_replace(
+      v_part,
+      '(\d+(?:\.\d+)?)\s*(mcg|µg|ug|mg|g|iu|%)(?![a-z])(?:\s*/\s*(\d+(?:\.\d+)?)?\s*ml(?![a-z]))?',
+      ' ',
+      'gi'
+    );
+    v_part := regexp_replace(v_part, '\y\d+(?:\.\d+)?\y', ' ', 'g');
+
+    v_part := regexp_replace(lower(v_part), '[^a-z0-9[:space:]-]', ' ', 'g');
+    v_words := regexp_split_to_array(trim(replace(v_part, '-', ' ')), '\s+');
+
+    -- Salt and hydrate forms that do not change which generic it is
+    WHILE cardinality(v_words) > 1 AND v_words[cardinality(v_words)] IN (
+      'hydrochloride', 'hcl', 'besylate', 'besilate', 'maleate', 'mesylate', 'hyclate', 'citrate', 'tartrate',
+      'succinate', 'sodium', 'potassium', 'calcium', 'magnesium', 'anhydrous', 'monohydrate', 'dihydrate', 'trihydrate'
+    ) LOOP
+      v_words := v_words[1:cardinality(v_words) - 1];
+    END LOOP;
+
+    v_name := array_to_string(v_words, ' ');
+    CONTINUE WHEN v_name = '';
+
+    v_name := CASE v_name
+      WHEN 'acetaminophen' THEN 'paracetamol'
+      WHEN 'apap' THEN 'paracetamol'
+      WHEN 'albuterol' THEN 'salbutamol'
+      WHEN 'glyburide' THEN 'glibenclamide'
+      WHEN 'lidocaine' THEN 'lignocaine'
+      WHEN 'frusemide' THEN 'furosemide'
+      WHEN 'amoxycillin' THEN 'amoxicillin'
+      WHEN 'epinephrine' THEN 'adrenaline'
+      WHEN 'clavulanate potassium' THEN 'clavulanic acid'
+      WHEN 'potassium clavulanate' THEN 'clavulanic acid'
+      WHEN 'clavulanate' THEN 'clavulanic acid'
+      WHEN 'vitamin c' THEN 'ascorbic acid'
+      WHEN 'vit c' THEN 'ascorbic acid'
+      ELSE v_name
+    END;
+    v_names := v_names || v_name;
+  END LOOP;
+
+  RETURN v_names;
+END;
+$$;
+
+-- =================================================================
+-- SECTION 4: MAJOR INTERACTIONS
+-- =================================================================
+
+-- Pairs of ingredients, sorted, from different products that make a major
+-- interaction or major duplicate therapy. Only the major rules of
+-- src/lib/interactions.ts are mirrored: the others never block a sale.
+-- Keep in sync with DRUG_CLASSES and INTERACTION_RULES there.
+CREATE OR REPLACE FUNCTION public.major_cart_interactions(p_product_ids UUID[])
+RETURNS TABLE (ingredients TEXT[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH cart AS (
+    SELECT DISTINCT p.id, unnest(public.salt_ingredient_names(p.salt_formula)) AS ingredient
+    FROM public.products p
+    WHERE p.id = ANY(p_product_ids)
+  ),
+  classes (class_id, member) AS (
+    VALUES
+      ('nsaid', 'aspirin'), ('nsaid', 'ibuprofen'), ('nsaid', 'diclofenac'), ('nsaid', 'naproxen'),
+      ('nsaid', 'mefenamic acid'), ('nsaid', 'ketorolac'), ('nsaid', 'piroxicam'), ('nsaid', 'meloxicam'),
+      ('nsaid', 'celecoxib'), ('nsaid', 'indomethacin'), ('nsaid', 'ketoprofen'),
+      ('ssri', 'fluoxetine'), ('ssri', 'sertraline'), ('ssri', 'paroxetine'), ('ssri', 'citalopram'),
+      ('ssri', 'escitalopram'), ('ssri', 'fluvoxamine'),
+      ('benzodiazepine', 'alprazolam'), ('benzodiazepine', 'bromazepam'), ('benzodiazepine', 'clonazepam'),
+      ('benzodiazepine', 'diazepam'), ('benzodiazepine', 'lorazepam'), ('benzodiazepine', 'midazolam'),
+      ('opioid', 'codeine'), ('opioid', 'tramadol'), ('opioid', 'tapentadol'), ('opioid', 'morphine'),
+      ('opioid', 'nalbuphine'), ('opioid', 'pethidine'), ('opioid', 'dextromethorphan'),
+      ('nitrate', 'glyceryl trinitrate'), ('nitrate', 'nitroglycerin'), ('nitrate', 'isosorbide mononitrate'),
+      ('nitrate', 'isosorbide dinitrate'),
+      ('pde5_inhibitor', 'sildenafil'), ('pde5_inhibitor', 'tadalafil'), ('pde5_inhibitor', 'vardenafil'),
+      ('macrolide', 'clarithromycin'), ('macrolide', 'erythromycin'),
+      ('azole', 'fluconazole'), ('azole', 'itraconazole'), ('azole', 'ketoconazole'), ('azole', 'voriconazole')
+  ),
+  -- Major interaction rules, then classes whose duplicate therapy is major
+  rules (a, b) AS (
+    VALUES
+      ('warfarin', '@nsaid'),
+      ('warfarin', 'metronidazole'),
+      ('warfarin', '@azole'),
+      ('@pde5_inhibitor', '@nitrate'),
+      ('@ssri', 'tramadol'),
+      ('@benzodiazepine', '@opioid'),
+      ('lithium', '@nsaid'),
+      ('methotrexate', 'trimethoprim'),
+      ('digoxin', 'amiodarone'),
+      ('simvastatin', '@macrolide'),
+      ('domperidone', '@macrolide'),
+      ('domperidone', '@azole'),
+      ('theophylline', 'ciprofloxacin'),
+      ('@ssri', '@ssri'),
+      ('@opioid', '@opioid')
+  ),
+  -- Each ingredient under its own name and as a member of its classes
+  terms AS (
+    SELECT DISTINCT ingredient, ingredient AS term FROM cart
+    UNION
+    SELECT DISTINCT c.ingredient, '@' || cl.class_id FROM cart c JOIN classes cl ON cl.member = c.ingredient
+  ),
+  -- The same ingredient in two products is a dose check, never major
+  pairs AS (
+    SELECT DISTINCT x.ingredient AS x, y.ingredient AS y
+    FROM cart x
+    JOIN cart y ON x.id < y.id AND x.ingredient <> y.ingredient
+  )
+  SELECT DISTINCT ARRAY[least(pairs.x, pairs.y), greatest(pairs.x, pairs.y)]
+  FROM pairs
+  JOIN terms tx ON tx.ingredient = pairs.x
+  JOIN terms ty ON ty.ingredient = pairs.y
+  JOIN rules r ON (r.a = tx.term AND r.b = ty.term) OR (r.a = ty.term AND r.b = tx.term);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.major_cart_interactions(UUID[]) TO authenticated;
+
+-- =================================================================
+-- SECTION 5: CHECKOUT
+-- =================================================================
+
+-- Same as before with p_interactions: {note, interactions} when a pharmacist
+-- has acknowledged major interactions in the cart. A major interaction in the
+-- cart that is not in it is refused.
+DROP FUNCTION IF EXISTS public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ, JSONB, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0,
+  p_client_ref UUID DEFAULT NULL,
+  p_sold_at TIMESTAMPTZ DEFAULT NULL,
+  p_prescription JSONB DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_interactions JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_factor INTEGER;
+  v_unit_name TEXT;
+  v_schedule TEXT;
+  v_scheduled TEXT[] := '{}';
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+  v_customer public.customers%ROWTYPE;
+  v_balance NUMERIC;
+  v_net NUMERIC;
+  v_payments JSONB;
+  v_payment JSONB;
+  v_method TEXT;
+  v_amount NUMERIC;
+  v_tendered NUMERIC;
+  v_paid NUMERIC := 0;
+  v_credit NUMERIC := 0;
+  v_payment_rows JSONB;
+  v_unacknowledged TEXT[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.has_permission('sales.create') THEN
+    RAISE EXCEPTION 'You do not have permission to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replayed checkout: hand back what was already recorded
+  IF p_client_ref IS NOT NULL THEN
+    SELECT * INTO v_sale FROM public.sales WHERE client_ref = p_client_ref;
+    IF FOUND THEN
+      SELECT coalesce(jsonb_agg(to_jsonb(si)), '[]'::JSONB) INTO v_items
+      FROM (
+        SELECT id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor
+        FROM public.sale_items
+        WHERE sale_id = v_sale.id
+      ) si;
+      SELECT coalesce(jsonb_agg(to_jsonb(sp) ORDER BY sp.id), '[]'::JSONB) INTO v_payment_rows
+      FROM (
+        SELECT id, sale_id, method, amount, tendered, reference
+        FROM public.sale_payments
+        WHERE sale_id = v_sale.id
+      ) sp;
+      RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB, 'payments', v_payment_rows);
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sold_at IS NOT NULL AND p_sold_at > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Sale time cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_customer_id IS NOT NULL THEN
+    -- Locked so two tills cannot both push the same customer past the limit
+    SELECT * INTO v_customer FROM public.customers WHERE id = p_customer_id FOR UPDATE;
+    IF NOT FOUND OR NOT v_customer.is_active THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  -- Scheduled drugs cannot leave the counter without a complete prescription
+  SELECT coalesce(array_agg(DISTINCT p.name), '{}') INTO v_scheduled
+  FROM jsonb_array_elements(p_items) AS i
+  JOIN public.products p ON p.id = (i->>'product_id')::UUID
+  WHERE p.drug_schedule <> 'none';
+
+  IF cardinality(v_scheduled) > 0 AND (
+    p_prescription IS NULL
+    OR coalesce(trim(p_prescription->>'doctor_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'doctor_pmdc_number'), '') = ''
+    OR coalesce(trim(p_prescription->>'patient_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'image_path'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'A prescription is required for %', array_to_string(v_scheduled, ', ') USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_scheduled) > 0 AND coalesce(p_prescription->>'patient_cnic', '') !~ '^[0-9]{5}-[0-9]{7}-[0-9]$' THEN
+    RAISE EXCEPTION 'Patient CNIC must be in the format 12345-1234567-1' USING ERRCODE = '22023';
+  END IF;
+
+  -- The person checking out is the pharmacist signing the interactions off
+  IF p_interactions IS NOT NULL THEN
+    IF NOT public.has_permission('interactions.acknowledge') THEN
+      RAISE EXCEPTION 'Only a pharmacist can acknowledge drug interactions' USING ERRCODE = '42501';
+    END IF;
+
+    IF jsonb_typeof(p_interactions->'interactions') IS DISTINCT FROM 'array'
+      OR jsonb_array_length(p_interactions->'interactions') = 0
+    THEN
+      RAISE EXCEPTION 'No interactions to acknowledge' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  -- Checked here too, so a modified or outdated till cannot skip the sign-off
+  SELECT array_agg(array_to_string(m.ingredients, ' + ')) INTO v_unacknowledged
+  FROM public.major_cart_interactions(
+    ARRAY(SELECT DISTINCT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS i)
+  ) AS m
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(coalesce(p_interactions->'interactions', '[]'::JSONB)) AS a
+    WHERE jsonb_typeof(a->'ingredients') = 'array'
+      AND ARRAY(SELECT jsonb_array_elements_text(a->'ingredients') ORDER BY 1) = m.ingredients
+  );
+
+  IF cardinality(v_unacknowledged) > 0 THEN
+    RAISE EXCEPTION 'A pharmacist must acknowledge these major interactions: %', array_to_string(v_unacknowledged, '; ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+    v_factor := coalesce((v_item->>'unit_factor')::INTEGER, 1);
+    v_unit_name := NULL;
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 OR v_factor <= 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    -- quantity and unit_price are per pack; stock moves in base units
+    IF v_factor > 1 THEN
+      SELECT name INTO v_unit_name FROM public.product_units WHERE product_id = v_product_id AND factor = v_factor;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% is no longer sold in packs of %', v_product_name, v_factor USING ERRCODE = '22023';
+      END IF;
+    END IF;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity * v_factor,
+      'unit_price', v_unit_price / v_factor,
+      'total', round(v_quantity * v_unit_price, 2),
+      'unit_name', v_unit_name,
+      'unit_factor', v_factor,
+      'batch_deductions', public.deduct_stock_fefo(v_product_id, v_product_name, v_quantity * v_factor)
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  v_net := round(v_total - coalesce(p_discount, 0), 2);
+
+  -- Single-tender callers (and sales queued offline before split tender)
+  -- pay the whole amount with p_payment_method
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    v_payments := CASE
+      WHEN v_net > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_net))
+      ELSE '[]'::JSONB
+    END;
+  ELSE
+    v_payments := p_payments;
+  END IF;
+
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    v_method := v_payment->>'method';
+    v_amount := round((v_payment->>'amount')::NUMERIC, 2);
+    v_tendered := (v_payment->>'tendered')::NUMERIC;
+
+    IF v_method IS NULL OR v_method NOT IN ('cash', 'card', 'mobile', 'jazzcash', 'easypaisa', 'credit') THEN
+      RAISE EXCEPTION 'Invalid payment method: %', coalesce(v_method, 'none') USING ERRCODE = '22023';
+    END IF;
+
+    IF coalesce(v_amount, 0) <= 0 THEN
+      RAISE EXCEPTION 'Payment amounts must be greater than zero' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_tendered IS NOT NULL AND (v_method <> 'cash' OR v_tendered < v_amount) THEN
+      RAISE EXCEPTION 'Cash tendered cannot be less than the cash amount' USING ERRCODE = '22023';
+    END IF;
+
+    v_paid := v_paid + v_amount;
+    IF v_method = 'credit' THEN
+      v_credit := v_credit + v_amount;
+    END IF;
+  END LOOP;
+
+  IF v_paid <> v_net THEN
+    RAISE EXCEPTION 'Payments total % but the sale comes to %', v_paid, v_net USING ERRCODE = '22023';
+  END IF;
+
+  IF v_credit > 0 AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a customer to sell on credit' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only checked at the counter: a sale replayed from the offline queue has
+  -- already been handed over
+  IF v_credit > 0 AND v_customer.credit_limit IS NOT NULL AND p_sold_at IS NULL THEN
+    SELECT coalesce(sum(amount), 0) INTO v_balance FROM public.customer_ledger WHERE customer_id = p_customer_id;
+    IF v_balance + v_credit > v_customer.credit_limit THEN
+      RAISE EXCEPTION 'Credit limit of % exceeded: % already owes %', v_customer.credit_limit, v_customer.name, v_balance
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  v_method := CASE
+    WHEN jsonb_array_length(v_payments) = 1 THEN v_payments->0->>'method'
+    WHEN jsonb_array_length(v_payments) = 0 THEN p_payment_method
+    ELSE 'split'
+  END;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount, client_ref, created_at, customer_id)
+  VALUES (v_total, v_method, auth.uid(), coalesce(p_discount, 0), p_client_ref, coalesce(p_sold_at, now()), p_customer_id)
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions',
+      i->>'unit_name',
+      (i->>'unit_factor')::INTEGER
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  IF cardinality(v_scheduled) > 0 THEN
+    INSERT INTO public.prescriptions (sale_id, doctor_name, doctor_pmdc_number, patient_name, patient_cnic, image_path, created_by)
+    VALUES (
+      v_sale.id,
+      trim(p_prescription->>'doctor_name'),
+      upper(trim(p_prescription->>'doctor_pmdc_number')),
+      trim(p_prescription->>'patient_name'),
+      p_prescription->>'patient_cnic',
+      p_prescription->>'image_path',
+      auth.uid()
+    );
+  END IF;
+
+  IF p_interactions IS NOT NULL THEN
+    INSERT INTO public.sale_interaction_acknowledgements (sale_id, interactions, note, acknowledged_by)
+    VALUES (v_sale.id, p_interactions->'interactions', nullif(trim(p_interactions->>'note'), ''), auth.uid());
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_payments (sale_id, method, amount, tendered, reference)
+    SELECT
+      v_sale.id,
+      p->>'method',
+      round((p->>'amount')::NUMERIC, 2),
+      (p->>'tendered')::NUMERIC,
+      nullif(trim(p->>'reference'), '')
+    FROM jsonb_array_elements(v_payments) AS p
+    RETURNING id, sale_id, method, amount, tendered, reference
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted) ORDER BY inserted.id), '[]'::JSONB) INTO v_payment_rows FROM inserted;
+
+  IF v_credit > 0 THEN
+    INSERT INTO public.customer_ledger (customer_id, entry_type, amount, sale_id, reference, created_by, created_at)
+    VALUES (p_customer_id, 'sale', v_credit, v_sale.id, v_sale.receipt_number, auth.uid(), v_sale.created_at);
+  END IF;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB, 'payments', v_payment_rows);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ, JSONB, UUID, JSONB, JSONB) TO authenticated;
+
+-- =================================================================
+-- SECTION 6: RLS AND AUDIT
+-- =================================================================
+
+ALTER TABLE public.sale_interaction_acknowledgements ENABLE ROW LEVEL SECURITY;
+
+-- Acknowledgements are only written by process_sale
+DROP POLICY IF EXISTS "Report viewers can view interaction acknowledgements" ON public.sale_interaction_acknowledgements;
+CREATE POLICY "Report viewers can view interaction acknowledgements" ON public.sale_interaction_acknowledgements
+  FOR SELECT USING (public.has_permission('reports.view') OR acknowledged_by = auth.uid());
+
+DROP TRIGGER IF EXISTS audit_sale_interaction_acknowledgements ON public.sale_interaction_acknowledgements;
+CREATE TRIGGER audit_sale_interaction_acknowledgements
+  AFTER INSERT OR UPDATE OR DELETE ON public.sale_interaction_acknowledgements
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
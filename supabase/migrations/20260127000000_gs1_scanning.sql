@@ -0,0 +1,395 @@
+-- File: supabase/migrations/20260127000000_gs1_scanning.sql
+-- Selling the scanned batch first.
+--
+-- GS1 DataMatrix codes on medicine packs carry the batch number. When the
+-- POS scans one, the cart line names that batch and checkout takes stock
+-- from it before falling back to FEFO for anything it cannot cover.
+
+-- =================================================================
+-- SECTION 1: STOCK DEDUCTION
+-- =================================================================
+
+-- The three-argument version would make calls without a batch ambiguous
+DROP FUNCTION IF EXISTS public.deduct_stock_fefo(UUID, TEXT, INTEGER);
+
+-- Same as before; p_batch_number, when given and in stock, is used first
+CREATE OR REPLACE FUNCTION public.deduct_stock_fefo(
+  p_product_id UUID,
+  p_product_name TEXT,
+  p_quantity INTEGER,
+  p_batch_number TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_branch_id UUID := public.current_branch_id();
+  v_batch RECORD;
+  v_available INTEGER;
+  v_remaining INTEGER := p_quantity;
+  v_deduct INTEGER;
+  v_deductions JSONB := '[]'::JSONB;
+BEGIN
+  -- Lock every sellable batch of this product so a concurrent checkout
+  -- waits here instead of deducting the same units.
+  SELECT coalesce(sum(quantity), 0) INTO v_available
+  FROM (
+    SELECT quantity
+    FROM public.stock_batches
+    WHERE product_id = p_product_id
+      AND branch_id = v_branch_id
+      AND quantity > 0
+      AND expiry_date >= current_date
+    FOR UPDATE
+  ) locked;
+
+  IF v_available < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock for %. Available: %', p_product_name, v_available
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_batch IN
+    SELECT id, batch_number, quantity, expiry_date
+    FROM public.stock_batches
+    WHERE product_id = p_product_id
+      AND branch_id = v_branch_id
+      AND quantity > 0
+      AND expiry_date >= current_date
+    ORDER BY
+      (p_batch_number IS NOT NULL AND upper(trim(batch_number)) = upper(trim(p_batch_number))) DESC,
+      expiry_date,
+      created_at
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_deduct := least(v_batch.quantity, v_remaining);
+
+    UPDATE public.stock_batches
+    SET quantity = quantity - v_deduct
+    WHERE id = v_batch.id;
+
+    v_deductions := v_deductions || jsonb_build_object(
+      'batch_id', v_batch.id,
+      'batch_number', v_batch.batch_number,
+      'quantity', v_deduct,
+      'expiry_date', v_batch.expiry_date
+    );
+    v_remaining := v_remaining - v_deduct;
+  END LOOP;
+
+  RETURN v_deductions;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deduct_stock_fefo(UUID, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- SECTION 2: CHECKOUT
+-- =================================================================
+
+-- Same as before; cart lines may carry batch_number from a scanned pack
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_discount NUMERIC DEFAULT 0,
+  p_client_ref UUID DEFAULT NULL,
+  p_sold_at TIMESTAMPTZ DEFAULT NULL,
+  p_prescription JSONB DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_interactions JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_product_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_unit_price NUMERIC;
+  v_factor INTEGER;
+  v_unit_name TEXT;
+  v_batch_number TEXT;
+  v_schedule TEXT;
+  v_scheduled TEXT[] := '{}';
+  v_prepared JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_sale public.sales%ROWTYPE;
+  v_items JSONB;
+  v_customer public.customers%ROWTYPE;
+  v_balance NUMERIC;
+  v_net NUMERIC;
+  v_payments JSONB;
+  v_payment JSONB;
+  v_method TEXT;
+  v_amount NUMERIC;
+  v_tendered NUMERIC;
+  v_paid NUMERIC := 0;
+  v_credit NUMERIC := 0;
+  v_payment_rows JSONB;
+  v_unacknowledged TEXT[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.has_permission('sales.create') THEN
+    RAISE EXCEPTION 'You do not have permission to process sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replayed checkout: hand back what was already recorded
+  IF p_client_ref IS NOT NULL THEN
+    SELECT * INTO v_sale FROM public.sales WHERE client_ref = p_client_ref;
+    IF FOUND THEN
+      SELECT coalesce(jsonb_agg(to_jsonb(si)), '[]'::JSONB) INTO v_items
+      FROM (
+        SELECT id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor
+        FROM public.sale_items
+        WHERE sale_id = v_sale.id
+      ) si;
+      SELECT coalesce(jsonb_agg(to_jsonb(sp) ORDER BY sp.id), '[]'::JSONB) INTO v_payment_rows
+      FROM (
+        SELECT id, sale_id, method, amount, tendered, reference
+        FROM public.sale_payments
+        WHERE sale_id = v_sale.id
+      ) sp;
+      RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB, 'payments', v_payment_rows);
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Discount cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_sold_at IS NOT NULL AND p_sold_at > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Sale time cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_customer_id IS NOT NULL THEN
+    -- Locked so two tills cannot both push the same customer past the limit
+    SELECT * INTO v_customer FROM public.customers WHERE id = p_customer_id FOR UPDATE;
+    IF NOT FOUND OR NOT v_customer.is_active THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  -- Scheduled drugs cannot leave the counter without a complete prescription
+  SELECT coalesce(array_agg(DISTINCT p.name), '{}') INTO v_scheduled
+  FROM jsonb_array_elements(p_items) AS i
+  JOIN public.products p ON p.id = (i->>'product_id')::UUID
+  WHERE p.drug_schedule <> 'none';
+
+  IF cardinality(v_scheduled) > 0 AND (
+    p_prescription IS NULL
+    OR coalesce(trim(p_prescription->>'doctor_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'doctor_pmdc_number'), '') = ''
+    OR coalesce(trim(p_prescription->>'patient_name'), '') = ''
+    OR coalesce(trim(p_prescription->>'image_path'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'A prescription is required for %', array_to_string(v_scheduled, ', ') USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(v_scheduled) > 0 AND coalesce(p_prescription->>'patient_cnic', '') !~ '^[0-9]{5}-[0-9]{7}-[0-9]$' THEN
+    RAISE EXCEPTION 'Patient CNIC must be in the format 12345-1234567-1' USING ERRCODE = '22023';
+  END IF;
+
+  -- The person checking out is the pharmacist signing the interactions off
+  IF p_interactions IS NOT NULL THEN
+    IF NOT public.has_permission('interactions.acknowledge') THEN
+      RAISE EXCEPTION 'Only a pharmacist can acknowledge drug interactions' USING ERRCODE = '42501';
+    END IF;
+
+    IF jsonb_typeof(p_interactions->'interactions') IS DISTINCT FROM 'array'
+      OR jsonb_array_length(p_interactions->'interactions') = 0
+    THEN
+      RAISE EXCEPTION 'No interactions to acknowledge' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  -- Checked here too, so a modified or outdated till cannot skip the sign-off
+  SELECT array_agg(array_to_string(m.ingredients, ' + ')) INTO v_unacknowledged
+  FROM public.major_cart_interactions(
+    ARRAY(SELECT DISTINCT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS i)
+  ) AS m
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(coalesce(p_interactions->'interactions', '[]'::JSONB)) AS a
+    WHERE jsonb_typeof(a->'ingredients') = 'array'
+      AND ARRAY(SELECT jsonb_array_elements_text(a->'ingredients') ORDER BY 1) = m.ingredients
+  );
+
+  IF cardinality(v_unacknowledged) > 0 THEN
+    RAISE EXCEPTION 'A pharmacist must acknowledge these major interactions: %', array_to_string(v_unacknowledged, '; ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_product_name := v_item->>'product_name';
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+    v_factor := coalesce((v_item->>'unit_factor')::INTEGER, 1);
+    v_unit_name := NULL;
+    v_batch_number := nullif(trim(v_item->>'batch_number'), '');
+
+    IF v_product_id IS NULL OR v_product_name IS NULL OR coalesce(v_quantity, 0) <= 0 OR coalesce(v_unit_price, -1) < 0 OR v_factor <= 0 THEN
+      RAISE EXCEPTION 'Invalid cart item' USING ERRCODE = '22023';
+    END IF;
+
+    -- quantity and unit_price are per pack; stock moves in base units
+    IF v_factor > 1 THEN
+      SELECT name INTO v_unit_name FROM public.product_units WHERE product_id = v_product_id AND factor = v_factor;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% is no longer sold in packs of %', v_product_name, v_factor USING ERRCODE = '22023';
+      END IF;
+    END IF;
+
+    v_prepared := v_prepared || jsonb_build_object(
+      'product_id', v_product_id,
+      'product_name', v_product_name,
+      'quantity', v_quantity * v_factor,
+      'unit_price', v_unit_price / v_factor,
+      'total', round(v_quantity * v_unit_price, 2),
+      'unit_name', v_unit_name,
+      'unit_factor', v_factor,
+      'batch_deductions', public.deduct_stock_fefo(v_product_id, v_product_name, v_quantity * v_factor, v_batch_number)
+    );
+    v_total := v_total + round(v_quantity * v_unit_price, 2);
+  END LOOP;
+
+  IF coalesce(p_discount, 0) > v_total THEN
+    RAISE EXCEPTION 'Discount cannot exceed the sale subtotal' USING ERRCODE = '22023';
+  END IF;
+
+  v_net := round(v_total - coalesce(p_discount, 0), 2);
+
+  -- Single-tender callers (and sales queued offline before split tender)
+  -- pay the whole amount with p_payment_method
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    v_payments := CASE
+      WHEN v_net > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_net))
+      ELSE '[]'::JSONB
+    END;
+  ELSE
+    v_payments := p_payments;
+  END IF;
+
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    v_method := v_payment->>'method';
+    v_amount := round((v_payment->>'amount')::NUMERIC, 2);
+    v_tendered := (v_payment->>'tendered')::NUMERIC;
+
+    IF v_method IS NULL OR v_method NOT IN ('cash', 'card', 'mobile', 'jazzcash', 'easypaisa', 'credit') THEN
+      RAISE EXCEPTION 'Invalid payment method: %', coalesce(v_method, 'none') USING ERRCODE = '22023';
+    END IF;
+
+    IF coalesce(v_amount, 0) <= 0 THEN
+      RAISE EXCEPTION 'Payment amounts must be greater than zero' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_tendered IS NOT NULL AND (v_method <> 'cash' OR v_tendered < v_amount) THEN
+      RAISE EXCEPTION 'Cash tendered cannot be less than the cash amount' USING ERRCODE = '22023';
+    END IF;
+
+    v_paid := v_paid + v_amount;
+    IF v_method = 'credit' THEN
+      v_credit := v_credit + v_amount;
+    END IF;
+  END LOOP;
+
+  IF v_paid <> v_net THEN
+    RAISE EXCEPTION 'Payments total % but the sale comes to %', v_paid, v_net USING ERRCODE = '22023';
+  END IF;
+
+  IF v_credit > 0 AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a customer to sell on credit' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only checked at the counter: a sale replayed from the offline queue has
+  -- already been handed over
+  IF v_credit > 0 AND v_customer.credit_limit IS NOT NULL AND p_sold_at IS NULL THEN
+    SELECT coalesce(sum(amount), 0) INTO v_balance FROM public.customer_ledger WHERE customer_id = p_customer_id;
+    IF v_balance + v_credit > v_customer.credit_limit THEN
+      RAISE EXCEPTION 'Credit limit of % exceeded: % already owes %', v_customer.credit_limit, v_customer.name, v_balance
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  v_method := CASE
+    WHEN jsonb_array_length(v_payments) = 1 THEN v_payments->0->>'method'
+    WHEN jsonb_array_length(v_payments) = 0 THEN p_payment_method
+    ELSE 'split'
+  END;
+
+  INSERT INTO public.sales (total, payment_method, cashier_id, discount, client_ref, created_at, customer_id)
+  VALUES (v_total, v_method, auth.uid(), coalesce(p_discount, 0), p_client_ref, coalesce(p_sold_at, now()), p_customer_id)
+  RETURNING * INTO v_sale;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_items (sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor)
+    SELECT
+      v_sale.id,
+      (i->>'product_id')::UUID,
+      i->>'product_name',
+      (i->>'quantity')::INTEGER,
+      (i->>'unit_price')::NUMERIC,
+      (i->>'total')::NUMERIC,
+      i->'batch_deductions',
+      i->>'unit_name',
+      (i->>'unit_factor')::INTEGER
+    FROM jsonb_array_elements(v_prepared) AS i
+    RETURNING id, sale_id, product_id, product_name, quantity, unit_price, total, batch_deductions, unit_name, unit_factor
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::JSONB) INTO v_items FROM inserted;
+
+  IF cardinality(v_scheduled) > 0 THEN
+    INSERT INTO public.prescriptions (sale_id, doctor_name, doctor_pmdc_number, patient_name, patient_cnic, image_path, created_by)
+    VALUES (
+      v_sale.id,
+      trim(p_prescription->>'doctor_name'),
+      upper(trim(p_prescription->>'doctor_pmdc_number')),
+      trim(p_prescription->>'patient_name'),
+      p_prescription->>'patient_cnic',
+      p_prescription->>'image_path',
+      auth.uid()
+    );
+  END IF;
+
+  IF p_interactions IS NOT NULL THEN
+    INSERT INTO public.sale_interaction_acknowledgements (sale_id, interactions, note, acknowledged_by)
+    VALUES (v_sale.id, p_interactions->'interactions', nullif(trim(p_interactions->>'note'), ''), auth.uid());
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.sale_payments (sale_id, method, amount, tendered, reference)
+    SELECT
+      v_sale.id,
+      p->>'method',
+      round((p->>'amount')::NUMERIC, 2),
+      (p->>'tendered')::NUMERIC,
+      nullif(trim(p->>'reference'), '')
+    FROM jsonb_array_elements(v_payments) AS p
+    RETURNING id, sale_id, method, amount, tendered, reference
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(inserted) ORDER BY inserted.id), '[]'::JSONB) INTO v_payment_rows FROM inserted;
+
+  IF v_credit > 0 THEN
+    INSERT INTO public.customer_ledger (customer_id, entry_type, amount, sale_id, reference, created_by, created_at)
+    VALUES (p_customer_id, 'sale', v_credit, v_sale.id, v_sale.receipt_number, auth.uid(), v_sale.created_at);
+  END IF;
+
+  RETURN to_jsonb(v_sale) || jsonb_build_object('items', v_items, 'returns', '[]'::JSONB, 'payments', v_payment_rows);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(JSONB, TEXT, NUMERIC, UUID, TIMESTAMPTZ, JSONB, UUID, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,43 @@
+-- File: supabase/migrations/20260129000000_receipt_reprints.sql
+-- Log of receipts reprinted or downloaded after the sale.
+--
+-- Past receipts are rebuilt in the app from sales, sale_items, sale_payments
+-- and sales_returns, and go out marked DUPLICATE. Each reprint, thermal or
+-- browser, and each PDF download is recorded here, so a copy handed over
+-- can be traced to the user who made it.
+
+-- =================================================================
+-- SECTION 1: REPRINT LOG
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.receipt_reprints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('thermal', 'browser', 'pdf')),
+  reprinted_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  reprinted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_reprints_sale ON public.receipt_reprints(sale_id, reprinted_at DESC);
+
+COMMENT ON COLUMN public.receipt_reprints.format IS 'thermal: sent to the receipt printer; browser: printed from the browser; pdf: downloaded';
+
+-- =================================================================
+-- SECTION 2: RLS AND AUDIT
+-- =================================================================
+
+ALTER TABLE public.receipt_reprints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Report viewers can view receipt reprints" ON public.receipt_reprints;
+CREATE POLICY "Report viewers can view receipt reprints" ON public.receipt_reprints
+  FOR SELECT USING (public.has_permission('reports.view'));
+
+-- Users can only log their own reprints; the log is never edited
+DROP POLICY IF EXISTS "Report viewers can log receipt reprints" ON public.receipt_reprints;
+CREATE POLICY "Report viewers can log receipt reprints" ON public.receipt_reprints
+  FOR INSERT WITH CHECK (public.has_permission('reports.view') AND reprinted_by = auth.uid());
+
+DROP TRIGGER IF EXISTS audit_receipt_reprints ON public.receipt_reprints;
+CREATE TRIGGER audit_receipt_reprints
+  AFTER INSERT OR UPDATE OR DELETE ON public.receipt_reprints
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
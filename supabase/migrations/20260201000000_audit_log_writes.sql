@@ -0,0 +1,18 @@
+-- File: supabase/migrations/20260201000000_audit_log_writes.sql
+-- Only the database and the staff-admin function write audit entries.
+--
+-- log_audit_event() was granted to every signed-in user, so anyone could call
+-- it directly and add entries with any action and details. The trail could be
+-- forged. Audit entries now come only from the permission-checked functions
+-- and triggers that call it, and from the staff-admin edge function, which
+-- writes with the service role.
+
+-- =================================================================
+-- SECTION 1: AUDIT LOG
+-- =================================================================
+
+-- The SECURITY DEFINER functions that call it run as their owner, so they
+-- keep working
+REVOKE EXECUTE ON FUNCTION public.log_audit_event(TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.audit_log IS 'Append-only record of sensitive changes; written only by log_audit_event() and the staff-admin function';
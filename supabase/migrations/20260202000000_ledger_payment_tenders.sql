@@ -0,0 +1,15 @@
+-- File: supabase/migrations/20260202000000_ledger_payment_tenders.sql
+-- Customers can repay credit with JazzCash and Easypaisa.
+--
+-- Split tender added the jazzcash and easypaisa tenders for sales, but
+-- customer_ledger payments were still limited to cash, card and mobile.
+-- Repayments now take the same tenders as sales, except credit itself.
+
+-- =================================================================
+-- SECTION 1: LEDGER PAYMENTS
+-- =================================================================
+
+-- 'mobile' stays for payments recorded before the wallet tenders existed
+ALTER TABLE public.customer_ledger DROP CONSTRAINT IF EXISTS customer_ledger_payment_method_check;
+ALTER TABLE public.customer_ledger ADD CONSTRAINT customer_ledger_payment_method_check
+  CHECK (payment_method IS NULL OR payment_method IN ('cash', 'card', 'mobile', 'jazzcash', 'easypaisa'));
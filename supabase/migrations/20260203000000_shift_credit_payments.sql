@@ -0,0 +1,223 @@
+-- File: supabase/migrations/20260203000000_shift_credit_payments.sql
+-- Cash credit repayments count towards the drawer.
+--
+-- A customer paying off their credit in cash hands it to the cashier, but
+-- shift_expected() only counted cash sales, so every cash repayment showed
+-- up as an overage at close. Ledger payments are now stamped with the shift
+-- of whoever recorded them, like returns, and shift_report() lists them on
+-- their own line.
+
+-- =================================================================
+-- SECTION 1: STAMPING LEDGER PAYMENTS
+-- =================================================================
+
+ALTER TABLE public.customer_ledger
+  ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.cash_shifts(id);
+
+CREATE INDEX IF NOT EXISTS customer_ledger_shift_idx ON public.customer_ledger (shift_id) WHERE shift_id IS NOT NULL;
+
+-- A payment belongs to the recorder's shift that was open when it was taken.
+-- Payments are inserted by the client, so the shift is always worked out
+-- here rather than trusted from the row. Someone without a drawer open can
+-- still record a payment; it is not part of any shift.
+CREATE OR REPLACE FUNCTION public.assign_ledger_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.shift_id := NULL;
+
+  IF NEW.entry_type = 'payment' AND NEW.created_by IS NOT NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM public.cash_shifts
+    WHERE cashier_id = NEW.created_by
+      AND opened_at <= NEW.created_at
+      AND (closed_at IS NULL OR closed_at >= NEW.created_at)
+    ORDER BY opened_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_ledger_shift ON public.customer_ledger;
+CREATE TRIGGER assign_ledger_shift
+  BEFORE INSERT ON public.customer_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.assign_ledger_shift();
+
+-- Earlier payments go to the shift their recorder had open at the time.
+-- Closed shifts keep the expected amounts stored when they were closed.
+UPDATE public.customer_ledger l
+SET shift_id = (
+  SELECT sh.id
+  FROM public.cash_shifts sh
+  WHERE sh.cashier_id = l.created_by
+    AND sh.opened_at <= l.created_at
+    AND (sh.closed_at IS NULL OR sh.closed_at >= l.created_at)
+  ORDER BY sh.opened_at DESC
+  LIMIT 1
+)
+WHERE l.entry_type = 'payment' AND l.shift_id IS NULL AND l.created_by IS NOT NULL;
+
+-- =================================================================
+-- SECTION 2: EXPECTED CASH
+-- =================================================================
+
+-- Ledger payments are negative (they reduce what the customer owes), so the
+-- cash taken is minus their sum.
+CREATE OR REPLACE FUNCTION public.shift_expected(p_shift_id UUID)
+RETURNS TABLE (method TEXT, expected NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH tenders AS (
+    SELECT sp.method, sum(sp.amount) AS amount
+    FROM public.sale_payments sp
+    JOIN public.sales s ON s.id = sp.sale_id
+    WHERE s.shift_id = p_shift_id
+    GROUP BY sp.method
+  ),
+  refunds AS (
+    SELECT coalesce(sum(
+      ri.quantity * si.unit_price * (s.total - s.discount) / nullif(s.total, 0)
+    ), 0) AS amount
+    FROM public.sales_returns r
+    JOIN public.return_items ri ON ri.return_id = r.id
+    JOIN public.sale_items si ON si.id = ri.sale_item_id
+    JOIN public.sales s ON s.id = si.sale_id
+    WHERE r.shift_id = p_shift_id
+  ),
+  ledger_refunds AS (
+    SELECT coalesce(-sum(l.amount), 0) AS amount
+    FROM public.customer_ledger l
+    JOIN public.sales_returns r ON r.id = l.return_id
+    WHERE r.shift_id = p_shift_id AND l.entry_type = 'return'
+  ),
+  credit_payments AS (
+    SELECT coalesce(-sum(l.amount), 0) AS amount
+    FROM public.customer_ledger l
+    WHERE l.shift_id = p_shift_id AND l.entry_type = 'payment' AND l.payment_method = 'cash'
+  ),
+  movements AS (
+    SELECT
+      coalesce(sum(amount) FILTER (WHERE movement_type = 'cash_in'), 0) AS cash_in,
+      coalesce(sum(amount) FILTER (WHERE movement_type = 'payout'), 0) AS payouts
+    FROM public.cash_movements
+    WHERE shift_id = p_shift_id
+  )
+  SELECT
+    'cash'::TEXT,
+    round(
+      sh.opening_float
+      + coalesce((SELECT amount FROM tenders WHERE tenders.method = 'cash'), 0)
+      + (SELECT amount FROM credit_payments)
+      + m.cash_in - m.payouts
+      - greatest((SELECT amount FROM refunds) - (SELECT amount FROM ledger_refunds), 0),
+      2
+    )
+  FROM public.cash_shifts sh, movements m
+  WHERE sh.id = p_shift_id
+  UNION ALL
+  SELECT t.method, round(t.amount, 2)
+  FROM tenders t
+  WHERE t.method <> 'cash';
+$$;
+
+-- Only called from close_shift() and shift_report(), which check access
+REVOKE ALL ON FUNCTION public.shift_expected(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- SECTION 3: X AND Z REPORTS
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION public.shift_report(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_permission('reports.view') THEN
+    RAISE EXCEPTION 'You do not have permission to view this shift' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'shift', to_jsonb(v_shift) || jsonb_build_object(
+      'cashier_name', (SELECT full_name FROM public.profiles WHERE id = v_shift.cashier_id)
+    ),
+    'sales_count', count(*),
+    'gross_sales', coalesce(sum(s.total), 0),
+    'discounts', coalesce(sum(s.discount), 0),
+    'net_sales', coalesce(sum(s.total - s.discount), 0)
+  ) INTO v_result
+  FROM public.sales s
+  WHERE s.shift_id = p_shift_id;
+
+  v_result := v_result || jsonb_build_object(
+    'tenders', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('method', t.method, 'amount', t.amount) ORDER BY t.amount DESC), '[]'::JSONB)
+      FROM (
+        SELECT sp.method, sum(sp.amount) AS amount
+        FROM public.sale_payments sp
+        JOIN public.sales s ON s.id = sp.sale_id
+        WHERE s.shift_id = p_shift_id
+        GROUP BY sp.method
+      ) t
+    ),
+    'movements', (
+      SELECT coalesce(jsonb_agg(to_jsonb(m) ORDER BY m.created_at), '[]'::JSONB)
+      FROM (
+        SELECT id, movement_type, amount, reason, created_at
+        FROM public.cash_movements
+        WHERE shift_id = p_shift_id
+      ) m
+    ),
+    'returns', (
+      SELECT jsonb_build_object(
+        'count', count(DISTINCT r.id),
+        'amount', coalesce(round(sum(ri.quantity * si.unit_price * (s.total - s.discount) / nullif(s.total, 0)), 2), 0)
+      )
+      FROM public.sales_returns r
+      LEFT JOIN public.return_items ri ON ri.return_id = r.id
+      LEFT JOIN public.sale_items si ON si.id = ri.sale_item_id
+      LEFT JOIN public.sales s ON s.id = si.sale_id
+      WHERE r.shift_id = p_shift_id
+    ),
+    'credit_payments', (
+      SELECT jsonb_build_object('count', count(*), 'amount', coalesce(-sum(l.amount), 0))
+      FROM public.customer_ledger l
+      WHERE l.shift_id = p_shift_id AND l.entry_type = 'payment' AND l.payment_method = 'cash'
+    ),
+    'counts', CASE
+      WHEN v_shift.closed_at IS NULL THEN (
+        SELECT coalesce(jsonb_agg(jsonb_build_object('method', e.method, 'expected', e.expected, 'counted', NULL)), '[]'::JSONB)
+        FROM public.shift_expected(p_shift_id) e
+        WHERE e.method <> 'credit'
+      )
+      ELSE (
+        SELECT coalesce(jsonb_agg(jsonb_build_object('method', c.method, 'expected', c.expected, 'counted', c.counted)), '[]'::JSONB)
+        FROM public.cash_shift_counts c
+        WHERE c.shift_id = p_shift_id
+      )
+    END
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shift_report(UUID) TO authenticated;
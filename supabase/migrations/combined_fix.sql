@@ -1,30 +1,16 @@
 -- COMBINED MIGRATION FILE
 -- Contains:
--- 1. RLS Policy Fixes for products and user_roles (CRITICAL)
+-- 1. (Superseded) RLS Policy Fixes for products and user_roles
 -- 2. Schema update for products (adding salt_formula)
 
 -- =================================================================
 -- SECTION 1: FIX RLS POLICIES (Must be run first)
 -- =================================================================
 
--- Fix "permission denied" on product insertion
--- Original policies often miss the "WITH CHECK" clause required for INSERTs
-
-DROP POLICY IF EXISTS "Owners can manage products" ON public.products;
-DROP POLICY IF EXISTS "Owners can manage roles" ON public.user_roles;
-
--- Re-create product policy with proper INSERT permissions
-CREATE POLICY "Owners can manage products" ON public.products
-  FOR ALL 
-  USING (auth.uid() IS NOT NULL)
-  WITH CHECK (auth.uid() IS NOT NULL);
-
--- Re-create user_roles policy to allow users to self-assign roles if logic permits
--- (Used by the frontend auto-role creation logic)
-CREATE POLICY "Owners can manage roles" ON public.user_roles
-  FOR ALL 
-  USING (auth.uid() IS NOT NULL)
-  WITH CHECK (auth.uid() IS NOT NULL);
+-- Superseded by 20260110000000_role_based_access.sql.
+-- The old policies here only checked auth.uid() IS NOT NULL, which let every
+-- signed-in user manage products and roles. Running them after the role-based
+-- migration would re-open those tables, so they have been removed.
 
 -- =================================================================
 -- SECTION 2: SCHEMA UPDATES
@@ -40,11 +26,4 @@ COMMENT ON COLUMN public.products.salt_formula IS 'Optional - Active ingredient
 -- SECTION 3: OPTIONAL PROACTIVE FIXES (Uncomment if needed)
 -- =================================================================
 
--- If you experience permission errors with Racks, uncomment the following:
-/*
-DROP POLICY IF EXISTS "Owners can manage racks" ON public.racks;
-CREATE POLICY "Owners can manage racks" ON public.racks
-  FOR ALL 
-  USING (auth.uid() IS NOT NULL)
-  WITH CHECK (auth.uid() IS NOT NULL);
-*/
+-- Racks policies are defined in 20260110000000_role_based_access.sql